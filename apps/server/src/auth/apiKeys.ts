@@ -0,0 +1,324 @@
+import crypto from 'crypto';
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { ApiKeyRow, Database } from '../db/index.js';
+
+export type ApiKeyScope = 'read' | 'write' | 'ingest';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['read', 'write', 'ingest'];
+
+export interface AuthContext {
+  /** True for the server-wide API_TOKEN, which can access every project */
+  admin: boolean;
+  projectId: string | null;
+  scopes: ApiKeyScope[];
+  keyId: string | null;
+}
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auth: AuthContext | null;
+  }
+}
+
+// Routes that never need a key. Stripe and GitHub verify their own signatures;
+// status pages are meant for customers.
+const PUBLIC_ROUTES = new Set([
+  'GET /health',
+  'GET /browser.js',
+  'GET /provider-status',
+  'POST /waitlist',
+  'GET /waitlist',
+  'POST /ingest/stripe',
+  'POST /ingest/github',
+  'GET /status/:slug',
+  'GET /status/:slug/status.json',
+  'GET /status/:slug/rss.xml',
+  'GET /status/:slug/atom.xml',
+]);
+
+// Telemetry ingest routes — these accept keys with the `ingest` scope
+const INGEST_ROUTES = new Set([
+  'POST /v1/traces',
+  'POST /v1/metrics',
+  'POST /api/browser-errors',
+  'POST /api/browser-errors/beacon',
+  'POST /api/browser-vitals',
+  'POST /api/browser-replays',
+  'POST /ingest/vercel',
+  'POST /webhook',
+]);
+
+// Only refresh last_used_at once a minute per key
+const TOUCH_INTERVAL_MS = 60_000;
+
+// How long "no keys yet" is trusted before asking the database again
+const KEYS_CHECK_INTERVAL_MS = 10_000;
+
+const KEY_PREFIX = 'sw_';
+
+/**
+ * Generate a new API key. Only the hash is stored; the plaintext key is shown once.
+ */
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = KEY_PREFIX + crypto.randomBytes(24).toString('base64url');
+  return { key, prefix: key.slice(0, 10), hash: hashApiKey(key) };
+}
+
+// Compare digests so the comparison takes the same time whatever the lengths
+export function matchesToken(key: string, token: string): boolean {
+  return crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(key).digest(),
+    crypto.createHash('sha256').update(token).digest(),
+  );
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Whether the request may touch resources of the given project.
+ * Unauthenticated requests (auth not required) and the admin token see everything.
+ */
+export function canAccessProject(request: FastifyRequest, projectId: string | null | undefined): boolean {
+  const auth = request.auth;
+  if (!auth || auth.admin) return true;
+  return !!projectId && auth.projectId === projectId;
+}
+
+/**
+ * Send a 404 when the resource belongs to another project, so key holders
+ * can't probe for ids outside their own project. Returns false if it replied.
+ */
+export function assertProjectAccess(
+  request: FastifyRequest,
+  reply: FastifyReply,
+  projectId: string | null | undefined,
+  resource: string,
+): boolean {
+  if (canAccessProject(request, projectId)) return true;
+  reply.code(404).send({ error: `${resource} not found` });
+  return false;
+}
+
+function requiredScope(method: string, route: string): ApiKeyScope {
+  if (INGEST_ROUTES.has(`${method} ${route}`)) return 'ingest';
+  return method === 'GET' || method === 'HEAD' ? 'read' : 'write';
+}
+
+/**
+ * Hide the key in a URL that carries it as ?api_key=, for request logs.
+ */
+export function redactKeyParam(url: string): string {
+  return url.replace(/([?&]api_key=)[^&#]*/g, '$1[redacted]');
+}
+
+function extractKey(request: FastifyRequest, scope: ApiKeyScope): string | undefined {
+  const header = request.headers.authorization;
+  if (header?.startsWith('Bearer ')) return header.slice('Bearer '.length).trim();
+
+  // Webhooks and sendBeacon can't always set headers, so ingest routes also
+  // accept the key as a query parameter
+  if (scope === 'ingest') {
+    const { api_key } = request.query as { api_key?: string };
+    return api_key;
+  }
+
+  return undefined;
+}
+
+/**
+ * Register the authentication hook and the API key management routes.
+ *
+ * Keys are checked whenever a request sends one. Requests without a key are
+ * rejected once auth is set up: AUTH_REQUIRED=true, an API_TOKEN, or any
+ * project key that hasn't been revoked. Until then a fresh local install
+ * works without any setup.
+ */
+export function registerAuth(
+  fastify: FastifyInstance,
+  db: Database,
+  options: { adminToken?: string; required: boolean },
+) {
+  fastify.decorateRequest('auth', null);
+
+  // Once a key exists, leaving it out must not get around project scoping.
+  // Cached so keyless requests don't each query the database; once on, it
+  // stays on until a restart.
+  let keysExist = false;
+  let keysCheckedAt = 0;
+  const authEnforced = async (): Promise<boolean> => {
+    if (options.required || options.adminToken || keysExist) return true;
+    if (Date.now() - keysCheckedAt > KEYS_CHECK_INTERVAL_MS) {
+      keysExist = await db.hasActiveApiKeys();
+      keysCheckedAt = Date.now();
+    }
+    return keysExist;
+  };
+
+  fastify.addHook('preHandler', async (request, reply) => {
+    const route = request.routeOptions.url;
+
+    // Unknown routes fall through to the dashboard SPA handler
+    if (!route || PUBLIC_ROUTES.has(`${request.method} ${route}`)) return;
+
+    // Dashboard files from @fastify/static carry the directory they are served from;
+    // the page itself holds no data and asks for a key once the API rejects it
+    if ((request.routeOptions.config as { rootPath?: string }).rootPath) return;
+
+    const scope = requiredScope(request.method, route);
+    const key = extractKey(request, scope);
+
+    if (!key) {
+      if (await authEnforced()) {
+        return reply.code(401).send({ error: 'Missing API key' });
+      }
+      return;
+    }
+
+    if (options.adminToken && matchesToken(key, options.adminToken)) {
+      request.auth = { admin: true, projectId: null, scopes: [...API_KEY_SCOPES], keyId: null };
+      return;
+    }
+
+    const row = await db.getApiKeyByHash(hashApiKey(key));
+
+    if (!row || row.revoked_at) {
+      return reply.code(401).send({ error: 'Invalid API key' });
+    }
+
+    const scopes = row.scopes as ApiKeyScope[];
+    if (!scopes.includes(scope)) {
+      return reply.code(403).send({ error: `API key is missing the '${scope}' scope` });
+    }
+
+    request.auth = { admin: false, projectId: row.project_id, scopes, keyId: row.id };
+
+    if (!applyProjectScope(request, row.project_id)) {
+      return reply.code(403).send({ error: 'API key does not belong to this project' });
+    }
+
+    if (!row.last_used_at || Date.now() - new Date(row.last_used_at).getTime() > TOUCH_INTERVAL_MS) {
+      db.touchApiKey(row.id).catch((err) => request.log.error({ err }, 'Failed to update API key usage'));
+    }
+  });
+
+  // POST /projects/:id/api-keys — create a key (the plaintext key is only returned here)
+  fastify.post<{
+    Params: { id: string };
+    Body: { name?: string; scopes?: string[] };
+  }>('/projects/:id/api-keys', async (request, reply) => {
+    const { id } = request.params;
+    const { name = 'default', scopes = ['read'] } = request.body || {};
+
+    if (!assertProjectAccess(request, reply, id, 'Project')) return;
+
+    const invalid = scopes.filter((s) => !API_KEY_SCOPES.includes(s as ApiKeyScope));
+    if (scopes.length === 0 || invalid.length > 0) {
+      reply.code(400);
+      return { error: `scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}` };
+    }
+
+    // A key can't mint another key with more access than it has
+    if (request.auth && !request.auth.admin && scopes.some((s) => !request.auth!.scopes.includes(s as ApiKeyScope))) {
+      reply.code(403);
+      return { error: 'Cannot create a key with scopes the current key does not have' };
+    }
+
+    try {
+      const { key, prefix, hash } = generateApiKey();
+      const row = await db.createApiKey({
+        project_id: id,
+        name,
+        key_prefix: prefix,
+        key_hash: hash,
+        scopes: Array.from(new Set(scopes)),
+      });
+      keysExist = true;
+
+      return { success: true, api_key: toPublicKey(row), key };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { success: false, message: 'Failed to create API key' };
+    }
+  });
+
+  // GET /projects/:id/api-keys — list keys (hashes are never returned)
+  fastify.get<{ Params: { id: string } }>('/projects/:id/api-keys', async (request, reply) => {
+    const { id } = request.params;
+
+    if (!assertProjectAccess(request, reply, id, 'Project')) return;
+
+    try {
+      const keys = await db.getApiKeys(id);
+      return { api_keys: keys.map(toPublicKey) };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { success: false, message: 'Failed to fetch API keys' };
+    }
+  });
+
+  // DELETE /projects/:id/api-keys/:keyId — revoke a key
+  fastify.delete<{ Params: { id: string; keyId: string } }>(
+    '/projects/:id/api-keys/:keyId',
+    async (request, reply) => {
+      const { id, keyId } = request.params;
+
+      if (!assertProjectAccess(request, reply, id, 'Project')) return;
+
+      try {
+        const keys = await db.getApiKeys(id);
+        if (!keys.some((k) => k.id === keyId)) {
+          reply.code(404);
+          return { error: 'API key not found' };
+        }
+
+        await db.revokeApiKey(keyId);
+        return { success: true, message: 'API key revoked' };
+      } catch (error) {
+        request.log.error(error);
+        reply.code(500);
+        return { success: false, message: 'Failed to revoke API key' };
+      }
+    }
+  );
+}
+
+/**
+ * Check any project id the request names (header, query or body) against the
+ * key's project, and fill it in where the caller left it out.
+ */
+function applyProjectScope(request: FastifyRequest, projectId: string): boolean {
+  const header = request.headers['x-scanwarp-project-id'];
+  if (header && header !== projectId) return false;
+  request.headers['x-scanwarp-project-id'] = projectId;
+
+  const query = request.query as Record<string, unknown> | undefined;
+  if (query && typeof query === 'object') {
+    if (query.project_id && query.project_id !== projectId) return false;
+    query.project_id = projectId;
+  }
+
+  const body = request.body as Record<string, unknown> | undefined;
+  if (body && typeof body === 'object' && !Array.isArray(body)) {
+    if (body.project_id && body.project_id !== projectId) return false;
+    body.project_id = projectId;
+  }
+
+  return true;
+}
+
+function toPublicKey(row: ApiKeyRow) {
+  return {
+    id: row.id,
+    project_id: row.project_id,
+    name: row.name,
+    key_prefix: row.key_prefix,
+    scopes: row.scopes,
+    created_at: row.created_at,
+    last_used_at: row.last_used_at,
+    revoked_at: row.revoked_at,
+  };
+}
@@ -1,16 +1,54 @@
+// Entered through the nav once the server requires keys
+const API_KEY_STORAGE = 'scanwarp_api_key';
+
+// Dispatched on window when the server answers 401, so the layout can ask for a key
+export const UNAUTHORIZED_EVENT = 'scanwarp:unauthorized';
+
+export function getApiKey(): string | null {
+  return localStorage.getItem(API_KEY_STORAGE);
+}
+
+export function setApiKey(key: string | null) {
+  if (key) localStorage.setItem(API_KEY_STORAGE, key);
+  else localStorage.removeItem(API_KEY_STORAGE);
+}
+
+function authHeaders(): Record<string, string> {
+  const key = getApiKey();
+  return key ? { Authorization: `Bearer ${key}` } : {};
+}
+
+async function send(path: string, init: RequestInit = {}): Promise<Response> {
+  const res = await fetch(path, { ...init, headers: { ...authHeaders(), ...init.headers } });
+  if (res.status === 401) window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+  return res;
+}
+
 async function get<T>(path: string): Promise<T> {
-  const res = await fetch(path);
+  const res = await send(path);
   if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
   return res.json();
 }
 
+// Prefer the server's `error` message, e.g. a validation failure, over the bare status
+async function requestError(res: Response): Promise<Error> {
+  const body = await res.json().catch(() => null) as { error?: string; message?: string } | null;
+  return new Error(body?.error || body?.message || `${res.status} ${res.statusText}`);
+}
+
 async function post<T>(path: string, body?: unknown): Promise<T> {
-  const res = await fetch(path, {
+  const res = await send(path, {
     method: 'POST',
     headers: body ? { 'Content-Type': 'application/json' } : {},
     body: body ? JSON.stringify(body) : undefined,
   });
-  if (!res.ok) throw new Error(`${res.status} ${res.statusText}`);
+  if (!res.ok) throw await requestError(res);
+  return res.json();
+}
+
+async function del<T>(path: string): Promise<T> {
+  const res = await send(path, { method: 'DELETE' });
+  if (!res.ok) throw await requestError(res);
   return res.json();
 }
 
@@ -23,6 +61,56 @@ export interface Monitor {
   last_checked_at: string | null;
   status: 'up' | 'down' | 'unknown';
   created_at: string;
+  method: string;
+  request_headers: Record<string, string>;
+  request_body: string | null;
+  expected_status: string | null;
+  assertions: Array<{ type: string; value?: string; path?: string; name?: string; equals?: unknown; contains?: string }>;
+  timeout_ms: number;
+  type: 'http' | 'transaction';
+  steps: TransactionStep[];
+  last_step_results: TransactionStepResult[] | null;
+  failure_threshold: number;
+  consecutive_failures: number;
+  incident_id: string | null;
+  tls?: MonitorTls | null;
+}
+
+export interface TransactionStep {
+  name: string;
+  url: string;
+  method?: string;
+  expected_status?: string | null;
+  assertions?: Monitor['assertions'];
+  extract?: Array<{ name: string; from: 'json_path' | 'header' | 'cookie'; path?: string; header?: string; cookie?: string }>;
+}
+
+export interface TransactionStepResult {
+  name: string;
+  method: string;
+  url: string;
+  success: boolean;
+  ran: boolean;
+  responseTime: number;
+  statusCode?: number;
+  error?: string;
+  failedAssertions?: string[];
+}
+
+export interface MonitorTls {
+  hostname: string;
+  issuer: string | null;
+  subject: string | null;
+  valid_from: string | null;
+  expires_at: string | null;
+  days_left: number | null;
+  san_match: boolean | null;
+  chain_valid: boolean | null;
+  error: string | null;
+  checked_at: string | null;
+  domain_expires_at: string | null;
+  domain_days_left: number | null;
+  domain_checked_at: string | null;
 }
 
 export interface Event {
@@ -34,9 +122,77 @@ export interface Event {
   message: string;
   raw_data: Record<string, unknown> | null;
   severity: string;
+  anomaly_reason: string | null;
+  fingerprint: string | null;
   created_at: string;
 }
 
+// Recorded by the browser script before an error, in the event's raw_data.breadcrumbs
+export interface Breadcrumb {
+  type: 'click' | 'navigation' | 'fetch' | 'xhr' | 'console';
+  timestamp: number;
+  message: string;
+  data?: Record<string, string | number | boolean | null>;
+}
+
+// DOM recording from the browser script, see packages/browser/src/replay.ts
+export type ReplayNode =
+  | {
+      id: number;
+      tag: string;
+      attrs: Record<string, string>;
+      children: ReplayNode[];
+      svg?: boolean;
+      css?: string;
+      scroll?: [number, number];
+    }
+  | { id: number; text: string };
+
+export type ReplayEvent =
+  | { t: number; type: 'add'; parentId: number; nextId: number | null; node: ReplayNode }
+  | { t: number; type: 'remove'; id: number }
+  | { t: number; type: 'attr'; id: number; name: string; value: string | null }
+  | { t: number; type: 'text'; id: number; text: string }
+  | { t: number; type: 'input'; id: number; value?: string; checked?: boolean; selectedIndex?: number }
+  | { t: number; type: 'scroll'; id: number | null; x: number; y: number }
+  | { t: number; type: 'viewport'; width: number; height: number };
+
+export interface ReplaySegment {
+  t: number;
+  href: string;
+  width: number;
+  height: number;
+  node: ReplayNode;
+  events: ReplayEvent[];
+}
+
+export interface Replay {
+  id: string;
+  project_id: string;
+  session_id: string | null;
+  started_at: string;
+  ended_at: string;
+  size: number;
+  /** The error's timestamp by the browser's clock, like the segments' */
+  error_at: number | null;
+  segments: ReplaySegment[];
+}
+
+export interface Issue {
+  id: string;
+  project_id: string;
+  fingerprint: string;
+  title: string;
+  culprit: string | null;
+  type: string;
+  source: string;
+  severity: string;
+  count: number;
+  first_seen: string;
+  last_seen: string;
+  last_event_id: string | null;
+}
+
 export interface Incident {
   id: string;
   project_id: string;
@@ -46,10 +202,84 @@ export interface Incident {
   diagnosis_text: string | null;
   diagnosis_fix: string | null;
   fix_prompt: string | null;
+  acknowledged_by?: string;
+  acknowledged_at?: string;
+  assignee?: string;
   created_at: string;
   resolved_at: string | null;
 }
 
+export type StatusUpdateStatus = 'investigating' | 'identified' | 'monitoring' | 'resolved';
+
+export interface TimelineEntry {
+  id: string;
+  incident_id: string;
+  kind:
+    | 'created'
+    | 'events_added'
+    | 'diagnosed'
+    | 'notified'
+    | 'acknowledged'
+    | 'assigned'
+    | 'resolved'
+    | 'reopened'
+    | 'comment'
+    | 'feedback'
+    | 'status_update';
+  actor: string | null;
+  message: string;
+  data: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface DiagnosisRun {
+  id: string;
+  provider: string;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number | null;
+  attempts: number;
+  duration_ms: number;
+  cached: boolean;
+  error: string | null;
+  created_at: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  created_at: string;
+}
+
+export interface QuietHours {
+  start: string;
+  end: string;
+  timezone: string;
+  allow_critical: boolean;
+}
+
+export interface ChannelRules {
+  min_severity?: 'info' | 'warning' | 'critical';
+  include_sources?: string[];
+  exclude_sources?: string[];
+  monitor_ids?: string[];
+  routes?: string[];
+  quiet_hours?: QuietHours;
+}
+
+export interface Channel {
+  id: string;
+  project_id: string;
+  type: string;
+  webhook_url: string;
+  enabled: boolean;
+  digest_interval: 'hourly' | 'daily';
+  escalation_channel_id: string | null;
+  rules: ChannelRules;
+  created_at: string;
+}
+
 export interface Span {
   id: string;
   trace_id: string;
@@ -75,6 +305,62 @@ export interface TraceItem {
   has_errors: boolean;
 }
 
+export interface MetricName {
+  name: string;
+  kind: string;
+  unit: string | null;
+}
+
+export interface MetricSeries {
+  name: string;
+  kind: string;
+  unit: string | null;
+  attributes: Record<string, unknown>;
+  points: Array<{ timestamp: number; value: number }>;
+}
+
+export interface Deployment {
+  id: string;
+  project_id: string;
+  version: string;
+  environment: string | null;
+  commit_sha: string | null;
+  url: string | null;
+  source: string;
+  deployed_at: string;
+}
+
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
+
+export interface WebVitalDefinition {
+  label: string;
+  unit: 'ms' | 'score';
+  good: number;
+  poor: number;
+}
+
+export interface WebVitalSummary {
+  samples: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  rating: WebVitalRating;
+}
+
+export interface RouteVitals {
+  route: string;
+  page_views: number;
+  metrics: Record<string, WebVitalSummary>;
+}
+
+export interface WebVitalsReport {
+  hours: number;
+  metrics: Record<string, WebVitalDefinition>;
+  overall: RouteVitals;
+  routes: RouteVitals[];
+  total_routes: number;
+}
+
 // API methods
 export const api = {
   getMonitors: () => get<{ monitors: Monitor[] }>('/monitors'),
@@ -83,17 +369,56 @@ export const api = {
     const qs = params ? '?' + new URLSearchParams(params).toString() : '';
     return get<{ events: Event[] }>(`/events${qs}`);
   },
+  getIssues: (params?: Record<string, string>) => {
+    const qs = params ? '?' + new URLSearchParams(params).toString() : '';
+    return get<{ issues: Issue[] }>(`/issues${qs}`);
+  },
+  getIssue: (id: string) => get<{ issue: Issue; events: Event[] }>(`/issues/${id}`),
   getIncidents: (params?: Record<string, string>) => {
     const qs = params ? '?' + new URLSearchParams(params).toString() : '';
     return get<{ incidents: Incident[] }>(`/incidents${qs}`);
   },
-  getIncident: (id: string) => get<{ incident: Incident; events: Event[] }>(`/incidents/${id}`),
-  resolveIncident: (id: string) => post<{ success: boolean }>(`/incidents/${id}/resolve`),
+  getIncident: (id: string) =>
+    get<{ incident: Incident; events: Event[]; timeline: TimelineEntry[]; diagnosis_runs: DiagnosisRun[] }>(
+      `/incidents/${id}`
+    ),
+  resolveIncident: (id: string, by?: string) => post<{ success: boolean }>(`/incidents/${id}/resolve`, { by }),
+  acknowledgeIncident: (id: string, by?: string) => post<{ success: boolean }>(`/incidents/${id}/acknowledge`, { by }),
+  assignIncident: (id: string, assignee: string | null, by?: string) =>
+    post<{ success: boolean }>(`/incidents/${id}/assign`, { assignee, by }),
+  reopenIncident: (id: string, by?: string) => post<{ success: boolean }>(`/incidents/${id}/reopen`, { by }),
+  addIncidentComment: (id: string, body: string, author?: string) =>
+    post<{ success: boolean; entry: TimelineEntry }>(`/incidents/${id}/comments`, { body, author }),
+  postStatusUpdate: (id: string, update: { status: StatusUpdateStatus; message: string; title?: string; by?: string }) =>
+    post<{ success: boolean; entry: TimelineEntry }>(`/incidents/${id}/status-updates`, update),
+  rediagnoseIncident: (id: string, by?: string) =>
+    post<{ success: boolean; incident: Incident }>(`/incidents/${id}/rediagnose`, { by }),
+  sendDiagnosisFeedback: (id: string, helpful: boolean, actualRootCause?: string, by?: string) =>
+    post<{ success: boolean }>(`/incidents/${id}/feedback`, { helpful, actual_root_cause: actualRootCause, by }),
   getTraces: (params?: Record<string, string>) => {
     const qs = params ? '?' + new URLSearchParams(params).toString() : '';
     return get<{ traces: TraceItem[] }>(`/traces${qs}`);
   },
+  getEventReplay: (eventId: string) => get<{ replay: Replay }>(`/events/${eventId}/replay`),
   getTrace: (traceId: string) => get<{ trace_id: string; spans: Span[] }>(`/traces/${traceId}`),
   getIncidentTraces: (id: string) => get<{ incident_id: string; spans: Span[] }>(`/incidents/${id}/traces`),
+  getMetrics: (params: Record<string, string>) => {
+    const qs = '?' + new URLSearchParams(params).toString();
+    return get<{ step_seconds: number; metrics: MetricSeries[] }>(`/metrics${qs}`);
+  },
+  getMetricNames: (projectId: string) =>
+    get<{ names: MetricName[] }>(`/metrics/names?project_id=${encodeURIComponent(projectId)}`),
+  getDeployments: (params: Record<string, string>) => {
+    const qs = '?' + new URLSearchParams(params).toString();
+    return get<{ deployments: Deployment[] }>(`/deployments${qs}`);
+  },
+  getWebVitals: (projectId: string, hours: number) =>
+    get<WebVitalsReport>(`/web-vitals?project_id=${encodeURIComponent(projectId)}&hours=${hours}`),
+  getProjects: () => get<Project[]>('/projects'),
+  getChannels: (projectId: string) =>
+    get<{ channels: Channel[] }>(`/channels?project_id=${encodeURIComponent(projectId)}`),
+  updateChannelRules: (id: string, rules: ChannelRules) =>
+    post<{ success: boolean; rules: ChannelRules }>(`/channels/${id}/rules`, rules),
+  clearChannelRules: (id: string) => del<{ success: boolean }>(`/channels/${id}/rules`),
   getHealth: () => get<{ status: string; timestamp: string }>('/health'),
 };
@@ -12,7 +12,11 @@ const badgeStyles: Record<string, string> = {
   slow: 'bg-[#E8863E]/15 text-[#a44200] border-[#E8863E]',
   trace_error: 'bg-[#ba4135]/15 text-[#ba4135] border-[#ba4135]',
   slow_query: 'bg-[#E8863E]/15 text-[#a44200] border-[#E8863E]',
+  cert_expiring: 'bg-[#E8863E]/15 text-[#a44200] border-[#E8863E]',
+  cert_invalid: 'bg-[#ba4135]/15 text-[#ba4135] border-[#ba4135]',
+  domain_expiring: 'bg-[#E8863E]/15 text-[#a44200] border-[#E8863E]',
   open: 'bg-[#ba4135]/15 text-[#ba4135] border-[#ba4135]',
+  investigating: 'bg-[#E8863E]/15 text-[#a44200] border-[#E8863E]',
   resolved: 'bg-[#2c701d]/15 text-[#2c701d] border-[#2c701d]',
   ok: 'bg-[#2c701d]/15 text-[#2c701d] border-[#2c701d]',
   unknown: 'bg-[#D4C4A8]/50 text-[#6d5537] border-[#D4C4A8]',
@@ -32,7 +36,11 @@ const friendlyNames: Record<string, string> = {
   slow: 'Slow',
   trace_error: 'Code Error',
   slow_query: 'Slow Database',
+  cert_expiring: 'Certificate Expiring',
+  cert_invalid: 'Certificate Problem',
+  domain_expiring: 'Domain Expiring',
   open: 'Needs Attention',
+  investigating: 'Being Worked On',
   resolved: 'Fixed',
   ok: 'Healthy',
   unknown: 'Unknown',
@@ -52,7 +60,11 @@ const tooltips: Record<string, string> = {
   slow: 'This is taking longer than expected',
   trace_error: 'An error was found in your code\'s execution',
   slow_query: 'A database query is running slowly',
+  cert_expiring: 'The HTTPS certificate will expire soon and needs renewing',
+  cert_invalid: 'Browsers will not trust this site\'s HTTPS certificate',
+  domain_expiring: 'The domain registration will expire soon and needs renewing',
   open: 'This issue hasn\'t been resolved yet',
+  investigating: 'Someone has acknowledged this issue and is looking into it',
   resolved: 'This issue has been fixed',
   ok: 'Everything is working as expected',
   unknown: 'We\'re not sure about the status yet',
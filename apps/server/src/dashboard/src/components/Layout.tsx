@@ -1,11 +1,16 @@
+import { useEffect, useState } from 'react';
 import { NavLink, Outlet } from 'react-router-dom';
+import { getApiKey, setApiKey, UNAUTHORIZED_EVENT } from '../api';
 
 const links = [
   { to: '/', label: 'Home' },
   { to: '/monitors', label: 'Health' },
   { to: '/events', label: 'Activity' },
-  { to: '/incidents', label: 'Issues' },
+  { to: '/issues', label: 'Errors' },
+  { to: '/incidents', label: 'Incidents' },
   { to: '/traces', label: 'Traces' },
+  { to: '/performance', label: 'Speed' },
+  { to: '/channels', label: 'Alerts' },
 ];
 
 export function Layout() {
@@ -41,6 +46,7 @@ export function Layout() {
           <div className="ml-auto flex items-center gap-2">
             <span className="w-2 h-2 bg-accent-green animate-blink" />
             <span className="text-xs text-brown font-mono hidden md:inline">SCANNING</span>
+            <ApiKeyControl />
           </div>
         </div>
       </nav>
@@ -51,6 +57,64 @@ export function Layout() {
   );
 }
 
+/* ── API key for servers with auth set up; opens when a request is rejected ── */
+function ApiKeyControl() {
+  const [open, setOpen] = useState(false);
+  const [value, setValue] = useState('');
+  const saved = getApiKey();
+
+  useEffect(() => {
+    const onUnauthorized = () => setOpen(true);
+    window.addEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, onUnauthorized);
+  }, []);
+
+  // Reload so every page refetches with the new key
+  const save = (key: string | null) => {
+    setApiKey(key);
+    window.location.reload();
+  };
+
+  return (
+    <div className="relative ml-2">
+      <button onClick={() => setOpen(!open)} className="text-xs text-brown font-mono hover:text-brown-dark">
+        {saved ? 'KEY SET' : 'API KEY'}
+      </button>
+      {open && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (value.trim()) save(value.trim());
+          }}
+          className="card absolute right-0 top-8 w-80 space-y-2"
+        >
+          <p className="text-xs text-brown">
+            {saved
+              ? 'The server rejected the saved key, or you can replace it.'
+              : 'This server requires an API key. A key with the read scope is enough to view it; add write to change settings.'}
+          </p>
+          <input
+            type="password"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="sw_..."
+            autoFocus
+            className="filter-input w-full"
+          />
+          <div className="flex gap-2">
+            <button type="submit" className="btn-primary text-xs">Save</button>
+            {saved && (
+              <button type="button" onClick={() => save(null)} className="text-xs text-brown hover:text-brown-dark">
+                Forget key
+              </button>
+            )}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
 /* ── Pixel-art Logo Icon (matches landing page .logo-icon) ── */
 function PixelLogo() {
   return (
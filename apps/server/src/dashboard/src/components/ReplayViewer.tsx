@@ -0,0 +1,303 @@
+import { useEffect, useRef, useState } from 'react';
+import { api, type ReplayEvent, type ReplayNode, type ReplaySegment } from '../api';
+import { useFetch } from '../hooks';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// An empty standards-mode document; the replayed page is built into it
+const BLANK_DOCUMENT = '<!doctype html><html><head></head><body></body></html>';
+
+// ─── Rebuilding the page ───
+// Replays come from browsers, so nothing in them is trusted: the iframe is
+// sandboxed without scripts, and anything that could run code or navigate is
+// dropped again here.
+
+function isUnsafe(tag: string, name: string, value: string): boolean {
+  const lower = name.toLowerCase();
+  return (
+    lower.startsWith('on') ||
+    lower === 'srcdoc' ||
+    (tag === 'meta' && lower === 'http-equiv') ||
+    /^\s*javascript:/i.test(value)
+  );
+}
+
+function setAttribute(element: Element, name: string, value: string) {
+  if (isUnsafe(element.tagName.toLowerCase(), name, value)) return;
+  try {
+    element.setAttribute(name, value);
+  } catch {
+    // Names the browser accepted when recording but won't set, e.g. from SVG
+  }
+}
+
+function createNode(doc: Document, node: ReplayNode, nodes: Map<number, Node>, scrolled: Element[]): Node {
+  if ('text' in node) {
+    const text = doc.createTextNode(node.text);
+    nodes.set(node.id, text);
+    return text;
+  }
+
+  let element: Element;
+  try {
+    element = node.svg ? doc.createElementNS(SVG_NS, node.tag) : doc.createElement(node.tag);
+  } catch {
+    element = doc.createElement('div');
+  }
+  if (element.tagName.toLowerCase() === 'script') {
+    element = doc.createElement('div');
+  }
+  nodes.set(node.id, element);
+
+  for (const [name, value] of Object.entries(node.attrs)) {
+    setAttribute(element, name, value);
+  }
+  if (node.css) element.textContent = node.css;
+  for (const child of node.children) {
+    element.appendChild(createNode(doc, child, nodes, scrolled));
+  }
+  if (node.scroll) {
+    (element as HTMLElement).dataset.replayScroll = node.scroll.join(',');
+    scrolled.push(element);
+  }
+  return element;
+}
+
+// Offsets can only be set once the element is laid out
+function restoreScroll(scrolled: Element[]) {
+  for (const element of scrolled) {
+    const [x, y] = ((element as HTMLElement).dataset.replayScroll ?? '').split(',').map(Number);
+    element.scrollLeft = x || 0;
+    element.scrollTop = y || 0;
+    delete (element as HTMLElement).dataset.replayScroll;
+  }
+}
+
+function buildSnapshot(doc: Document, segment: ReplaySegment, nodes: Map<number, Node>) {
+  nodes.clear();
+  const scrolled: Element[] = [];
+  const root = createNode(doc, segment.node, nodes, scrolled);
+  while (doc.firstChild) doc.removeChild(doc.firstChild);
+  doc.appendChild(root);
+
+  // Relative URLs in the page resolve against where it was recorded
+  const head = doc.head ?? doc.documentElement.insertBefore(doc.createElement('head'), doc.documentElement.firstChild);
+  const base = doc.createElement('base');
+  base.href = segment.href;
+  head.insertBefore(base, head.firstChild);
+
+  restoreScroll(scrolled);
+}
+
+function applyEvent(doc: Document, event: ReplayEvent, nodes: Map<number, Node>) {
+  switch (event.type) {
+    case 'add': {
+      const parent = nodes.get(event.parentId);
+      if (!parent) return;
+      const scrolled: Element[] = [];
+      const node = createNode(doc, event.node, nodes, scrolled);
+      const next = event.nextId === null ? null : nodes.get(event.nextId);
+      parent.insertBefore(node, next && next.parentNode === parent ? next : null);
+      restoreScroll(scrolled);
+      return;
+    }
+    case 'remove': {
+      const node = nodes.get(event.id);
+      node?.parentNode?.removeChild(node);
+      return;
+    }
+    case 'attr': {
+      const element = nodes.get(event.id) as Element | undefined;
+      if (!element || element.nodeType !== Node.ELEMENT_NODE) return;
+      if (event.value === null) element.removeAttribute(event.name);
+      else setAttribute(element, event.name, event.value);
+      return;
+    }
+    case 'text': {
+      const node = nodes.get(event.id);
+      if (node) node.textContent = event.text;
+      return;
+    }
+    case 'input': {
+      const element = nodes.get(event.id) as (HTMLInputElement & HTMLSelectElement) | undefined;
+      if (!element) return;
+      if (event.checked !== undefined) element.checked = event.checked;
+      if (event.selectedIndex !== undefined) element.selectedIndex = event.selectedIndex;
+      if (event.value !== undefined) element.value = event.value;
+      return;
+    }
+    case 'scroll': {
+      if (event.id === null) {
+        doc.defaultView?.scrollTo(event.x, event.y);
+      } else {
+        const element = nodes.get(event.id) as Element | undefined;
+        if (!element) return;
+        element.scrollLeft = event.x;
+        element.scrollTop = event.y;
+      }
+      return;
+    }
+    case 'viewport':
+      // Sizes the iframe; see viewportAt
+      return;
+  }
+}
+
+function segmentAt(segments: ReplaySegment[], time: number): number {
+  let index = 0;
+  for (let i = 1; i < segments.length; i++) {
+    if (segments[i].t <= time) index = i;
+  }
+  return index;
+}
+
+function viewportAt(segment: ReplaySegment, time: number): { width: number; height: number } {
+  let viewport = { width: segment.width, height: segment.height };
+  for (const event of segment.events) {
+    if (event.t > time) break;
+    if (event.type === 'viewport') viewport = { width: event.width, height: event.height };
+  }
+  return viewport;
+}
+
+function formatOffset(ms: number): string {
+  return `${ms < 0 ? '-' : '+'}${(Math.abs(ms) / 1000).toFixed(1)}s`;
+}
+
+/* ── Plays back the DOM recording the browser script sent with an error ── */
+function ReplayPlayer({ segments, errorAt }: { segments: ReplaySegment[]; errorAt: number | null }) {
+  const start = segments[0].t;
+  const end = Math.max(
+    errorAt ?? 0,
+    ...segments.map((s) => (s.events.length > 0 ? s.events[s.events.length - 1].t : s.t))
+  );
+
+  const iframeRef = useRef<HTMLIFrameElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const rendered = useRef({ segment: -1, applied: 0, time: 0, nodes: new Map<number, Node>() });
+
+  const [ready, setReady] = useState(false);
+  const [time, setTime] = useState(start);
+  const [playing, setPlaying] = useState(false);
+  const [width, setWidth] = useState(0);
+
+  // Fit the recorded viewport into the card
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setWidth(container.clientWidth));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!playing) return;
+    let last = performance.now();
+    let frame = requestAnimationFrame(function tick(now) {
+      const elapsed = now - last;
+      last = now;
+      setTime((t) => Math.min(end, t + elapsed));
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playing, end]);
+
+  useEffect(() => {
+    if (time >= end) setPlaying(false);
+  }, [time, end]);
+
+  // Apply events up to `time`, rebuilding from a snapshot when seeking backwards
+  useEffect(() => {
+    const doc = iframeRef.current?.contentDocument;
+    if (!ready || !doc) return;
+
+    const state = rendered.current;
+    const index = segmentAt(segments, time);
+    if (state.segment !== index || time < state.time) {
+      buildSnapshot(doc, segments[index], state.nodes);
+      state.segment = index;
+      state.applied = 0;
+    }
+
+    const events = segments[index].events;
+    while (state.applied < events.length && events[state.applied].t <= time) {
+      try {
+        applyEvent(doc, events[state.applied], state.nodes);
+      } catch {
+        // A bad event shouldn't stop the rest of the replay
+      }
+      state.applied++;
+    }
+    state.time = time;
+  }, [ready, time, segments]);
+
+  const segment = segments[segmentAt(segments, time)];
+  const viewport = viewportAt(segment, time);
+  const scale = width > 0 ? Math.min(1, width / viewport.width) : 1;
+  const reference = errorAt ?? start;
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="text-xs text-brown font-mono truncate">{segment.href}</p>
+      <div ref={containerRef} className="border border-sand-dark overflow-hidden bg-white" style={{ height: viewport.height * scale }}>
+        <iframe
+          ref={iframeRef}
+          title="Session replay"
+          sandbox="allow-same-origin"
+          srcDoc={BLANK_DOCUMENT}
+          onLoad={() => {
+            rendered.current.segment = -1;
+            setReady(true);
+          }}
+          style={{
+            width: viewport.width,
+            height: viewport.height,
+            transform: `scale(${scale})`,
+            transformOrigin: '0 0',
+            pointerEvents: 'none',
+          }}
+        />
+      </div>
+      <div className="flex items-center gap-3">
+        <button
+          onClick={() => {
+            if (time >= end) setTime(start);
+            setPlaying(!playing);
+          }}
+          className="btn-primary text-xs"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <div className="relative flex-1">
+          <input
+            type="range"
+            min={start}
+            max={end}
+            step={100}
+            value={time}
+            onChange={(e) => setTime(Number(e.target.value))}
+            className="w-full"
+          />
+          {errorAt !== null && end > start && (
+            <span
+              title="Error"
+              className="absolute top-0 h-full w-0.5 bg-accent-red pointer-events-none"
+              style={{ left: `${((errorAt - start) / (end - start)) * 100}%` }}
+            />
+          )}
+        </div>
+        <span className="text-xs text-brown font-mono w-14 text-right">{formatOffset(time - reference)}</span>
+      </div>
+    </div>
+  );
+}
+
+export function ReplayViewer({ eventId }: { eventId: string }) {
+  const { data, error, loading } = useFetch(() => api.getEventReplay(eventId), [eventId]);
+
+  if (loading) return <p className="text-xs text-brown mt-2">Loading replay...</p>;
+  if (error || !data) {
+    return <p className="text-xs text-brown mt-2">No replay is stored for this error. It may not have been uploaded, or was pruned.</p>;
+  }
+  return <ReplayPlayer segments={data.replay.segments} errorAt={data.replay.error_at} />;
+}
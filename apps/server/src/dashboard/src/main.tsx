@@ -7,10 +7,14 @@ import { Overview } from './pages/Overview';
 import { Monitors } from './pages/Monitors';
 import { MonitorDetail } from './pages/MonitorDetail';
 import { Events } from './pages/Events';
+import { Issues } from './pages/Issues';
+import { IssueDetail } from './pages/IssueDetail';
 import { Incidents } from './pages/Incidents';
 import { IncidentDetail } from './pages/IncidentDetail';
 import { Traces } from './pages/Traces';
 import { TraceDetail } from './pages/TraceDetail';
+import { Channels } from './pages/Channels';
+import { Performance } from './pages/Performance';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
@@ -21,10 +25,14 @@ createRoot(document.getElementById('root')!).render(
           <Route path="/monitors" element={<Monitors />} />
           <Route path="/monitors/:id" element={<MonitorDetail />} />
           <Route path="/events" element={<Events />} />
+          <Route path="/issues" element={<Issues />} />
+          <Route path="/issues/:id" element={<IssueDetail />} />
           <Route path="/incidents" element={<Incidents />} />
           <Route path="/incidents/:id" element={<IncidentDetail />} />
           <Route path="/traces" element={<Traces />} />
           <Route path="/traces/:traceId" element={<TraceDetail />} />
+          <Route path="/performance" element={<Performance />} />
+          <Route path="/channels" element={<Channels />} />
         </Route>
       </Routes>
     </BrowserRouter>
@@ -0,0 +1,300 @@
+import { useState } from 'react';
+import { api, type Channel, type ChannelRules, type Monitor, type Project } from '../api';
+import { useFetch } from '../hooks';
+
+const channelLabels: Record<string, string> = {
+  discord: 'Discord',
+  slack: 'Slack',
+  teams: 'Microsoft Teams',
+  webhook: 'Webhook',
+  email: 'Email',
+  pagerduty: 'PagerDuty',
+};
+
+const sourceOptions = ['monitor', 'otel', 'browser', 'vercel', 'stripe', 'supabase', 'github', 'provider-status'];
+
+function channelTarget(channel: Channel): string {
+  if (channel.webhook_url.startsWith('mailto:')) return channel.webhook_url.slice('mailto:'.length);
+  try {
+    return new URL(channel.webhook_url).host;
+  } catch {
+    return channel.webhook_url;
+  }
+}
+
+function describeRules(rules: ChannelRules, monitors: Monitor[]): string[] {
+  const lines: string[] = [];
+  if (rules.min_severity) lines.push(`Only ${rules.min_severity} and above`);
+  if (rules.include_sources) lines.push(`Only from ${rules.include_sources.join(', ')}`);
+  if (rules.exclude_sources) lines.push(`Not when everything comes from ${rules.exclude_sources.join(', ')}`);
+  if (rules.monitor_ids) {
+    const urls = rules.monitor_ids.map((id) => monitors.find((m) => m.id === id)?.url ?? id);
+    lines.push(`Only for ${urls.join(', ')}`);
+  }
+  if (rules.routes) lines.push(`Only on ${rules.routes.join(', ')}`);
+  if (rules.quiet_hours) {
+    const q = rules.quiet_hours;
+    lines.push(
+      `Quiet ${q.start}–${q.end} (${q.timezone})${q.allow_critical ? ', critical still sent' : ''}`
+    );
+  }
+  return lines;
+}
+
+function splitList(value: string): string[] {
+  return value.split(/[\n,]/).map((v) => v.trim()).filter(Boolean);
+}
+
+function RulesForm({
+  channel,
+  monitors,
+  onSaved,
+}: {
+  channel: Channel;
+  monitors: Monitor[];
+  onSaved: () => void;
+}) {
+  const rules = channel.rules;
+  const [minSeverity, setMinSeverity] = useState(rules.min_severity ?? '');
+  const [includeSources, setIncludeSources] = useState<string[]>(rules.include_sources ?? []);
+  const [excludeSources, setExcludeSources] = useState<string[]>(rules.exclude_sources ?? []);
+  const [monitorIds, setMonitorIds] = useState<string[]>(rules.monitor_ids ?? []);
+  const [routes, setRoutes] = useState((rules.routes ?? []).join('\n'));
+  const [quiet, setQuiet] = useState(!!rules.quiet_hours);
+  const [start, setStart] = useState(rules.quiet_hours?.start ?? '22:00');
+  const [end, setEnd] = useState(rules.quiet_hours?.end ?? '07:00');
+  const [timezone, setTimezone] = useState(
+    rules.quiet_hours?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone
+  );
+  const [allowCritical, setAllowCritical] = useState(rules.quiet_hours?.allow_critical ?? true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const handleSave = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await api.updateChannelRules(channel.id, {
+        min_severity: (minSeverity || undefined) as ChannelRules['min_severity'],
+        include_sources: includeSources,
+        exclude_sources: excludeSources,
+        monitor_ids: monitorIds,
+        routes: splitList(routes),
+        quiet_hours: quiet ? { start, end, timezone, allow_critical: allowCritical } : undefined,
+      });
+      onSaved();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleClear = async () => {
+    setSaving(true);
+    setError(null);
+    try {
+      await api.clearChannelRules(channel.id);
+      onSaved();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4 mt-4 pt-4 border-t-[2px] border-sand-dark text-sm">
+      <label className="flex items-center gap-3">
+        <span className="text-brown w-40">Minimum severity</span>
+        <select value={minSeverity} onChange={(e) => setMinSeverity(e.target.value)} className="filter-select">
+          <option value="">Everything</option>
+          <option value="warning">Warning and critical</option>
+          <option value="critical">Critical only</option>
+        </select>
+      </label>
+
+      <div className="flex gap-3">
+        <span className="text-brown w-40 shrink-0">Only from</span>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {sourceOptions.map((s) => (
+            <label key={s} className="flex items-center gap-1.5 font-mono text-xs">
+              <input
+                type="checkbox"
+                checked={includeSources.includes(s)}
+                onChange={() => setIncludeSources(toggle(includeSources, s))}
+              />
+              {s}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <span className="text-brown w-40 shrink-0">Ignore when only from</span>
+        <div className="flex flex-wrap gap-x-4 gap-y-1">
+          {sourceOptions.map((s) => (
+            <label key={s} className="flex items-center gap-1.5 font-mono text-xs">
+              <input
+                type="checkbox"
+                checked={excludeSources.includes(s)}
+                onChange={() => setExcludeSources(toggle(excludeSources, s))}
+              />
+              {s}
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {monitors.length > 0 && (
+        <div className="flex gap-3">
+          <span className="text-brown w-40 shrink-0">Only for health checks</span>
+          <div className="space-y-1">
+            {monitors.map((m) => (
+              <label key={m.id} className="flex items-center gap-1.5 font-mono text-xs">
+                <input
+                  type="checkbox"
+                  checked={monitorIds.includes(m.id)}
+                  onChange={() => setMonitorIds(toggle(monitorIds, m.id))}
+                />
+                {m.url}
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <label className="flex gap-3">
+        <span className="text-brown w-40 shrink-0">Only on routes</span>
+        <textarea
+          value={routes}
+          onChange={(e) => setRoutes(e.target.value)}
+          placeholder={'/api/checkout\n/api/admin/*'}
+          rows={3}
+          className="filter-input flex-1"
+        />
+      </label>
+
+      <div className="flex gap-3 items-center flex-wrap">
+        <label className="flex items-center gap-1.5 text-brown w-40">
+          <input type="checkbox" checked={quiet} onChange={(e) => setQuiet(e.target.checked)} />
+          Quiet hours
+        </label>
+        {quiet && (
+          <>
+            <input type="time" value={start} onChange={(e) => setStart(e.target.value)} className="filter-input" />
+            <span className="text-brown">to</span>
+            <input type="time" value={end} onChange={(e) => setEnd(e.target.value)} className="filter-input" />
+            <input
+              type="text"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              className="filter-input w-48"
+            />
+            <label className="flex items-center gap-1.5 text-brown">
+              <input type="checkbox" checked={allowCritical} onChange={(e) => setAllowCritical(e.target.checked)} />
+              Still send critical
+            </label>
+          </>
+        )}
+      </div>
+
+      {error && <p className="text-accent-red text-xs font-mono">{error}</p>}
+
+      <div className="flex gap-3">
+        <button onClick={handleSave} disabled={saving} className="btn-primary">
+          Save rules
+        </button>
+        <button onClick={handleClear} disabled={saving} className="link-brand text-xs">
+          Clear all rules
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function ChannelCard({ channel, monitors, onSaved }: { channel: Channel; monitors: Monitor[]; onSaved: () => void }) {
+  const [editing, setEditing] = useState(false);
+  const summary = describeRules(channel.rules, monitors);
+
+  return (
+    <div className="card p-5">
+      <div className="flex items-center gap-3 flex-wrap">
+        <span className="font-medium text-brown-darker">{channelLabels[channel.type] ?? channel.type}</span>
+        <span className="text-xs text-brown font-mono truncate max-w-md">{channelTarget(channel)}</span>
+        {!channel.enabled && <span className="text-xs text-brown font-mono">(disabled)</span>}
+        <button onClick={() => setEditing(!editing)} className="link-brand text-xs ml-auto">
+          {editing ? 'Close' : 'Edit rules'}
+        </button>
+      </div>
+      {summary.length === 0 ? (
+        <p className="text-xs text-brown mt-2">Hears about every incident, any time</p>
+      ) : (
+        <ul className="text-xs text-brown-dark mt-2 space-y-0.5">
+          {summary.map((line) => <li key={line}>{line}</li>)}
+        </ul>
+      )}
+      {editing && (
+        <RulesForm
+          channel={channel}
+          monitors={monitors}
+          onSaved={() => {
+            setEditing(false);
+            onSaved();
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
+function ProjectChannels({ project, monitors }: { project: Project; monitors: Monitor[] }) {
+  const { data, loading, refetch } = useFetch(() => api.getChannels(project.id), [project.id]);
+  const channels = data?.channels ?? [];
+  const projectMonitors = monitors.filter((m) => m.project_id === project.id);
+
+  return (
+    <div className="space-y-3">
+      <h2 className="section-title">{project.name}</h2>
+      {loading && channels.length === 0 ? (
+        <p className="text-brown text-sm">Loading channels...</p>
+      ) : channels.length === 0 ? (
+        <p className="text-sm text-brown">No notification channels for this project</p>
+      ) : (
+        channels.map((c) => <ChannelCard key={c.id} channel={c} monitors={projectMonitors} onSaved={refetch} />)
+      )}
+    </div>
+  );
+}
+
+export function Channels() {
+  const projects = useFetch(() => api.getProjects());
+  const monitors = useFetch(() => api.getMonitors());
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="pixel-heading text-brown-darker" style={{ fontSize: 'clamp(0.8rem, 2vw, 1.1rem)' }}>Alerts</h1>
+        <p className="text-sm text-brown mt-1">
+          Choose which incidents each notification channel hears about, and when it should stay quiet.
+        </p>
+      </div>
+
+      {projects.loading ? (
+        <p className="text-brown text-sm">Loading projects...</p>
+      ) : (projects.data ?? []).length === 0 ? (
+        <div className="card p-8 text-center">
+          <p className="text-brown-dark">No projects yet</p>
+        </div>
+      ) : (
+        (projects.data ?? []).map((p) => (
+          <ProjectChannels key={p.id} project={p} monitors={monitors.data?.monitors ?? []} />
+        ))
+      )}
+    </div>
+  );
+}
@@ -12,6 +12,9 @@ const TYPE_OPTIONS: Array<{ value: string; label: string }> = [
   { value: 'slow', label: 'Slow responses' },
   { value: 'trace_error', label: 'Code errors' },
   { value: 'slow_query', label: 'Slow database queries' },
+  { value: 'cert_expiring', label: 'Certificate expiring' },
+  { value: 'cert_invalid', label: 'Certificate problems' },
+  { value: 'domain_expiring', label: 'Domain expiring' },
 ];
 
 const SOURCE_OPTIONS: Array<{ value: string; label: string }> = [
@@ -102,6 +105,9 @@ export function Events() {
               </div>
               <div className="min-w-0 flex-1">
                 <p className="text-sm">{e.message}</p>
+                {e.anomaly_reason && (
+                  <p className="text-xs text-accent-orange mt-1">Flagged: {e.anomaly_reason}</p>
+                )}
                 <p className="text-xs text-brown mt-1">
                   from <span className="text-brown-dark font-mono">{sourceLabels[e.source] || e.source}</span> · {timeAgo(e.created_at)}
                 </p>
@@ -1,6 +1,8 @@
+import { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { api } from '../api';
+import { api, type Breadcrumb, type DiagnosisRun, type Event, type StatusUpdateStatus, type TimelineEntry } from '../api';
 import { Badge } from '../components/Badge';
+import { ReplayViewer } from '../components/ReplayViewer';
 import { TraceWaterfall } from '../components/TraceWaterfall';
 import { useFetch, timeAgo } from '../hooks';
 
@@ -15,44 +17,391 @@ const sourceLabels: Record<string, string> = {
   browser: 'Browser',
 };
 
+// Who is using the dashboard, remembered so acknowledgements and comments carry a name
+const NAME_STORAGE = 'scanwarp_name';
+
+const timelineLabels: Record<TimelineEntry['kind'], string> = {
+  created: 'Opened',
+  events_added: 'Events',
+  diagnosed: 'Diagnosed',
+  notified: 'Notified',
+  acknowledged: 'Acknowledged',
+  assigned: 'Assigned',
+  resolved: 'Fixed',
+  reopened: 'Reopened',
+  comment: 'Comment',
+  feedback: 'Feedback',
+  status_update: 'Status page',
+};
+
+const statusUpdateLabels: Record<StatusUpdateStatus, string> = {
+  investigating: 'Investigating',
+  identified: 'Identified',
+  monitoring: 'Monitoring',
+  resolved: 'Resolved',
+};
+
+const breadcrumbLabels: Record<Breadcrumb['type'], string> = {
+  click: 'Click',
+  navigation: 'Page',
+  fetch: 'Request',
+  xhr: 'Request',
+  console: 'Console',
+};
+
+function breadcrumbsOf(event: Event): Breadcrumb[] {
+  const breadcrumbs = event.raw_data?.breadcrumbs;
+  return Array.isArray(breadcrumbs) ? (breadcrumbs as Breadcrumb[]) : [];
+}
+
+/* ── What the user did before a browser error, oldest first ── */
+function BreadcrumbTrail({ event }: { event: Event }) {
+  const breadcrumbs = breadcrumbsOf(event);
+  if (breadcrumbs.length === 0) return null;
+
+  const errorTime = typeof event.raw_data?.timestamp === 'number'
+    ? event.raw_data.timestamp
+    : new Date(event.created_at).getTime();
+
+  return (
+    <details className="mt-2">
+      <summary className="text-xs text-brown cursor-pointer">
+        What the user did before this ({breadcrumbs.length} step{breadcrumbs.length === 1 ? '' : 's'})
+      </summary>
+      <ol className="mt-2 space-y-1 border-l-2 border-sand-dark pl-3">
+        {breadcrumbs.map((b, i) => {
+          const failed = (b.type === 'fetch' || b.type === 'xhr') && (b.data?.status_code == null || Number(b.data.status_code) >= 400);
+          return (
+            <li key={i} className="text-xs flex gap-2">
+              <span className="text-brown font-mono shrink-0 w-14 text-right">
+                -{Math.max(0, (errorTime - b.timestamp) / 1000).toFixed(1)}s
+              </span>
+              <span className="text-brown-dark shrink-0 w-16">{breadcrumbLabels[b.type] ?? b.type}</span>
+              <span className={`font-mono break-all ${failed || b.data?.level === 'error' ? 'text-accent-red' : ''}`}>
+                {b.message}
+              </span>
+            </li>
+          );
+        })}
+      </ol>
+    </details>
+  );
+}
+
+/* ── The DOM recording sent with a browser error, when replay is on ── */
+function EventReplay({ event }: { event: Event }) {
+  const [open, setOpen] = useState(false);
+  if (typeof event.raw_data?.replayId !== 'string') return null;
+
+  return (
+    <div className="mt-2">
+      <button onClick={() => setOpen(!open)} className="link-brand text-xs">
+        {open ? 'Hide replay' : 'Watch what the user saw'}
+      </button>
+      {open && <ReplayViewer eventId={event.id} />}
+    </div>
+  );
+}
+
+function describeUsage(runs: DiagnosisRun[]): string | null {
+  const latest = [...runs].reverse().find((r) => !r.error);
+  if (!latest) return null;
+
+  const tokens = runs.reduce((sum, r) => sum + r.input_tokens + r.output_tokens, 0);
+  const priced = runs.filter((r) => r.cost_usd !== null);
+  const parts = [
+    latest.cached ? `Reused an earlier ${latest.provider} diagnosis` : `Diagnosed by ${latest.model ?? latest.provider}`,
+  ];
+  if (tokens > 0) parts.push(`${tokens.toLocaleString()} tokens`);
+  if (priced.length > 0 && tokens > 0) {
+    parts.push(`~$${priced.reduce((sum, r) => sum + (r.cost_usd ?? 0), 0).toFixed(4)}`);
+  }
+  if (runs.length > 1) parts.push(`${runs.length} runs`);
+  return parts.join(' · ');
+}
+
+function DiagnosisFeedback({ incidentId, by, onChange }: { incidentId: string; by?: string; onChange: () => void }) {
+  const [wrong, setWrong] = useState(false);
+  const [actual, setActual] = useState('');
+  const [sent, setSent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async (helpful: boolean) => {
+    setError(null);
+    try {
+      await api.sendDiagnosisFeedback(incidentId, helpful, actual.trim() || undefined, by);
+      setSent(true);
+      onChange();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  if (sent) {
+    return <p className="text-xs text-brown">Thanks! Future diagnoses of these errors will take this into account.</p>;
+  }
+
+  return (
+    <div className="space-y-2 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="text-brown">Was this right?</span>
+        <button onClick={() => send(true)} className="link-brand text-xs">Yes, that was it</button>
+        <button onClick={() => setWrong(!wrong)} className="link-brand text-xs">No</button>
+      </div>
+      {wrong && (
+        <div className="space-y-2">
+          <textarea
+            value={actual}
+            onChange={(e) => setActual(e.target.value)}
+            placeholder="What actually caused it? (optional, helps the next diagnosis)"
+            rows={2}
+            className="filter-input w-full"
+          />
+          <button onClick={() => send(false)} className="btn-primary">
+            Send feedback
+          </button>
+        </div>
+      )}
+      {error && <p className="text-accent-red text-xs font-mono">{error}</p>}
+    </div>
+  );
+}
+
+function History({
+  incidentId,
+  timeline,
+  assignee,
+  name,
+  onNameChange,
+  onChange,
+}: {
+  incidentId: string;
+  timeline: TimelineEntry[];
+  assignee?: string;
+  name: string;
+  onNameChange: (name: string) => void;
+  onChange: () => void;
+}) {
+  const [comment, setComment] = useState('');
+  const [assigneeDraft, setAssigneeDraft] = useState(assignee ?? '');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      onChange();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const handleComment = () =>
+    run(async () => {
+      await api.addIncidentComment(incidentId, comment, name || undefined);
+      setComment('');
+    });
+
+  return (
+    <section>
+      <div className="mb-3">
+        <h2 className="section-title">History</h2>
+        <p className="text-xs text-brown mt-0.5">Everything that has happened with this issue so far</p>
+      </div>
+      <div className="card divide-y divide-sand-dark">
+        {timeline.length === 0 ? (
+          <p className="p-5 text-brown text-sm text-center">Nothing recorded yet</p>
+        ) : (
+          timeline.map((t) => (
+            <div key={t.id} className="p-4 flex items-start gap-3 text-sm">
+              <span className="text-xs font-mono text-brown w-28 shrink-0 pt-0.5">{timelineLabels[t.kind] ?? t.kind}</span>
+              <div className="min-w-0 flex-1">
+                <p className={t.kind === 'comment' ? 'whitespace-pre-wrap text-brown-darker' : 'text-brown-dark'}>{t.message}</p>
+                <p className="text-xs text-brown mt-1">
+                  {(t.kind === 'comment' || t.kind === 'feedback' || t.kind === 'status_update') && (
+                    <>{t.actor || 'Someone'} · </>
+                  )}
+                  {t.kind === 'status_update' && typeof t.data?.status === 'string' && (
+                    <>{statusUpdateLabels[t.data.status as StatusUpdateStatus] ?? t.data.status} · </>
+                  )}
+                  {timeAgo(t.created_at)}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+
+        <div className="p-4 space-y-3">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Add a note for your team..."
+            rows={3}
+            className="filter-input w-full"
+          />
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => onNameChange(e.target.value)}
+              placeholder="Your name"
+              className="filter-input w-40"
+            />
+            <button onClick={handleComment} disabled={!comment.trim()} className="btn-primary">
+              Add comment
+            </button>
+            <span className="flex items-center gap-2 ml-auto">
+              <input
+                type="text"
+                value={assigneeDraft}
+                onChange={(e) => setAssigneeDraft(e.target.value)}
+                placeholder="Assign to..."
+                className="filter-input w-44"
+              />
+              <button
+                onClick={() => run(() => api.assignIncident(incidentId, assigneeDraft.trim() || null, name || undefined))}
+                className="link-brand text-xs"
+              >
+                {assigneeDraft.trim() ? 'Assign' : 'Unassign'}
+              </button>
+            </span>
+          </div>
+          {error && <p className="text-accent-red text-xs font-mono">{error}</p>}
+        </div>
+      </div>
+    </section>
+  );
+}
+
+function CustomerUpdate({ incidentId, by, onChange }: { incidentId: string; by?: string; onChange: () => void }) {
+  const [status, setStatus] = useState<StatusUpdateStatus>('investigating');
+  const [title, setTitle] = useState('');
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const send = async () => {
+    setError(null);
+    try {
+      await api.postStatusUpdate(incidentId, { status, message, title: title.trim() || undefined, by });
+      setMessage('');
+      onChange();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  return (
+    <section>
+      <div className="mb-3">
+        <h2 className="section-title">Tell Your Customers</h2>
+        <p className="text-xs text-brown mt-0.5">
+          Updates are posted to your public status page. Nothing about this issue is shown there until you post one.
+        </p>
+      </div>
+      <div className="card p-4 space-y-3">
+        <div className="flex flex-wrap gap-3">
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as StatusUpdateStatus)}
+            className="filter-select"
+          >
+            {Object.entries(statusUpdateLabels).map(([value, label]) => (
+              <option key={value} value={value}>{label}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            placeholder="Public title, e.g. Checkout errors (optional)"
+            className="filter-input flex-1 min-w-48"
+          />
+        </div>
+        <textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="What customers should know..."
+          rows={3}
+          className="filter-input w-full"
+        />
+        <button onClick={send} disabled={!message.trim()} className="btn-primary">
+          Post update
+        </button>
+        {error && <p className="text-accent-red text-xs font-mono">{error}</p>}
+      </div>
+    </section>
+  );
+}
+
 export function IncidentDetail() {
   const { id } = useParams<{ id: string }>();
   const incident = useFetch(() => api.getIncident(id!), [id]);
   const traces = useFetch(() => api.getIncidentTraces(id!), [id]);
 
+  const [name, setName] = useState(() => localStorage.getItem(NAME_STORAGE) ?? '');
+  const [diagnosing, setDiagnosing] = useState(false);
+
   const inc = incident.data?.incident;
   const incidentEvents = incident.data?.events ?? [];
+  const timeline = incident.data?.timeline ?? [];
+  const usage = describeUsage(incident.data?.diagnosis_runs ?? []);
   const spans = traces.data?.spans ?? [];
 
-  if (incident.loading) return <p className="text-brown text-sm">Loading issue details...</p>;
+  if (incident.loading && !inc) return <p className="text-brown text-sm">Loading issue details...</p>;
   if (!inc) return <p className="text-brown text-sm">Issue not found</p>;
 
-  const handleResolve = async () => {
+  const handleNameChange = (value: string) => {
+    setName(value);
+    localStorage.setItem(NAME_STORAGE, value);
+  };
+
+  const act = async (label: string, action: () => Promise<unknown>) => {
     try {
-      await api.resolveIncident(id!);
+      await action();
       incident.refetch();
     } catch (e) {
-      console.error('Failed to resolve:', e);
+      console.error(`Failed to ${label}:`, e);
     }
   };
 
+  const by = name || undefined;
+
+  const handleRediagnose = async () => {
+    setDiagnosing(true);
+    await act('diagnose', () => api.rediagnoseIncident(id!, by));
+    setDiagnosing(false);
+  };
+
   return (
     <div className="space-y-6">
       {/* Header */}
       <div>
-        <Link to="/incidents" className="link-brand text-xs">&larr; Back to Issues</Link>
+        <Link to="/incidents" className="link-brand text-xs">&larr; Back to Incidents</Link>
         <div className="flex items-center gap-3 mt-3 flex-wrap">
           <h1 className="pixel-heading text-brown-darker" style={{ fontSize: 'clamp(0.8rem, 2vw, 1.1rem)' }}>Issue Details</h1>
           <Badge label={inc.status} />
           <Badge label={inc.severity} />
-          {inc.status === 'open' && (
-            <button onClick={handleResolve} className="btn-success ml-auto">
-              Mark as Fixed
-            </button>
-          )}
+          <div className="ml-auto flex gap-3">
+            {inc.status === 'open' && (
+              <button onClick={() => act('acknowledge', () => api.acknowledgeIncident(id!, by))} className="btn-primary">
+                I'm on it
+              </button>
+            )}
+            {inc.status !== 'resolved' ? (
+              <button onClick={() => act('resolve', () => api.resolveIncident(id!, by))} className="btn-success">
+                Mark as Fixed
+              </button>
+            ) : (
+              <button onClick={() => act('reopen', () => api.reopenIncident(id!, by))} className="btn-primary">
+                Reopen
+              </button>
+            )}
+          </div>
         </div>
         <p className="text-sm text-brown mt-1">
           Detected {timeAgo(inc.created_at)}
+          {inc.acknowledged_at && <> · Picked up {inc.acknowledged_by ? `by ${inc.acknowledged_by} ` : ''}{timeAgo(inc.acknowledged_at)}</>}
+          {inc.assignee && <> · Assigned to {inc.assignee}</>}
           {inc.resolved_at && <> · Fixed {timeAgo(inc.resolved_at)}</>}
         </p>
       </div>
@@ -60,9 +409,15 @@ export function IncidentDetail() {
       {/* AI Diagnosis — the core value prop */}
       {(inc.diagnosis_text || inc.diagnosis_fix || inc.fix_prompt) && (
         <section className="space-y-4">
-          <div>
-            <h2 className="section-title">What ScanWarp Found</h2>
-            <p className="text-xs text-brown mt-0.5">AI analyzed the errors and figured out what's going on.</p>
+          <div className="flex items-start gap-3">
+            <div>
+              <h2 className="section-title">What ScanWarp Found</h2>
+              <p className="text-xs text-brown mt-0.5">AI analyzed the errors and figured out what's going on.</p>
+              {usage && <p className="text-xs text-brown font-mono mt-0.5">{usage}</p>}
+            </div>
+            <button onClick={handleRediagnose} disabled={diagnosing} className="link-brand text-xs ml-auto">
+              {diagnosing ? 'Diagnosing...' : 'Diagnose again'}
+            </button>
           </div>
 
           {inc.diagnosis_text && (
@@ -94,6 +449,8 @@ export function IncidentDetail() {
               <pre className="whitespace-pre-wrap prompt bg-brown-darker/50 border-[2px] border-brown-dark p-4">{inc.fix_prompt}</pre>
             </div>
           )}
+
+          <DiagnosisFeedback key={inc.diagnosis_text} incidentId={inc.id} by={by} onChange={incident.refetch} />
         </section>
       )}
 
@@ -113,11 +470,14 @@ export function IncidentDetail() {
                   <Badge label={e.type} />
                   <Badge label={e.severity} />
                 </div>
-                <div className="min-w-0">
+                <div className="min-w-0 flex-1">
                   <p className="text-sm">{e.message}</p>
                   <p className="text-xs text-brown mt-1">
                     from <span className="text-brown-dark font-mono">{sourceLabels[e.source] || e.source}</span> · {timeAgo(e.created_at)}
+                    {typeof e.raw_data?.count === 'number' && e.raw_data.count > 1 && ` · happened ${e.raw_data.count} times`}
                   </p>
+                  <BreadcrumbTrail event={e} />
+                  <EventReplay event={e} />
                 </div>
               </div>
             ))
@@ -125,6 +485,18 @@ export function IncidentDetail() {
         </div>
       </section>
 
+      <History
+        key={inc.assignee ?? ''}
+        incidentId={inc.id}
+        timeline={timeline}
+        assignee={inc.assignee}
+        name={name}
+        onNameChange={handleNameChange}
+        onChange={incident.refetch}
+      />
+
+      <CustomerUpdate incidentId={inc.id} by={by} onChange={incident.refetch} />
+
       {/* Trace Waterfall */}
       {spans.length > 0 && (
         <section>
@@ -21,9 +21,9 @@ export function Incidents() {
     <div className="space-y-5">
       {/* Header */}
       <div>
-        <h1 className="pixel-heading text-brown-darker" style={{ fontSize: 'clamp(0.8rem, 2vw, 1.1rem)' }}>Issues</h1>
+        <h1 className="pixel-heading text-brown-darker" style={{ fontSize: 'clamp(0.8rem, 2vw, 1.1rem)' }}>Incidents</h1>
         <p className="text-sm text-brown mt-1">
-          When ScanWarp detects a problem, it groups related errors into an issue and uses AI to figure out what went wrong.
+          When ScanWarp detects a problem, it groups related errors into an incident and uses AI to figure out what went wrong.
         </p>
       </div>
 
@@ -36,6 +36,7 @@ export function Incidents() {
         >
           <option value="">All issues</option>
           <option value="open">Needs attention</option>
+          <option value="investigating">Being worked on</option>
           <option value="resolved">Already fixed</option>
         </select>
       </div>
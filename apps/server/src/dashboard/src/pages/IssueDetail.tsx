@@ -0,0 +1,89 @@
+import { useParams, Link } from 'react-router-dom';
+import { api } from '../api';
+import { Badge } from '../components/Badge';
+import { useFetch, timeAgo } from '../hooks';
+
+const sourceLabels: Record<string, string> = {
+  monitor: 'Health Check',
+  otel: 'App Code',
+  github: 'GitHub',
+  stripe: 'Stripe',
+  supabase: 'Supabase',
+  vercel: 'Vercel',
+  'provider-status': 'External Service',
+  browser: 'Browser',
+};
+
+export function IssueDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { data, loading } = useFetch(() => api.getIssue(id!), [id]);
+
+  const issue = data?.issue;
+  const events = data?.events ?? [];
+
+  if (loading) return <p className="text-brown text-sm">Loading error details...</p>;
+  if (!issue) return <p className="text-brown text-sm">Error not found</p>;
+
+  // The latest occurrence's stack is the most useful one to show
+  const stack = events.map((e) => stackOf(e.raw_data)).find(Boolean);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <Link to="/issues" className="link-brand text-xs">&larr; Back to Errors</Link>
+        <div className="flex items-center gap-3 mt-3 flex-wrap">
+          <h1 className="pixel-heading text-brown-darker break-all" style={{ fontSize: 'clamp(0.8rem, 2vw, 1.1rem)' }}>{issue.title}</h1>
+          <Badge label={issue.severity} />
+        </div>
+        <p className="text-sm text-brown mt-1">
+          {issue.culprit && <><span className="font-mono text-brown-dark">{issue.culprit}</span> · </>}
+          {issue.count.toLocaleString()} event{issue.count !== 1 ? 's' : ''} from {sourceLabels[issue.source] || issue.source}
+          {' · '}first seen {timeAgo(issue.first_seen)} · last seen {timeAgo(issue.last_seen)}
+        </p>
+      </div>
+
+      {stack && (
+        <section>
+          <div className="mb-3">
+            <h2 className="section-title">Stack Trace</h2>
+            <p className="text-xs text-brown mt-0.5">From the most recent occurrence</p>
+          </div>
+          <div className="terminal overflow-x-auto">
+            <pre className="whitespace-pre text-xs leading-relaxed">{stack}</pre>
+          </div>
+        </section>
+      )}
+
+      {/* Recent occurrences */}
+      <section>
+        <div className="mb-3">
+          <h2 className="section-title">Recent Occurrences</h2>
+          <p className="text-xs text-brown mt-0.5">The latest events grouped into this error</p>
+        </div>
+        <div className="card divide-y divide-sand-dark">
+          {events.length === 0 ? (
+            <p className="p-5 text-brown text-sm text-center">No recent events</p>
+          ) : (
+            events.map((e) => (
+              <div key={e.id} className="p-4 flex items-start gap-3">
+                <Badge label={e.type} />
+                <div className="min-w-0">
+                  <p className="text-sm break-words">{e.message.split('\n')[0]}</p>
+                  <p className="text-xs text-brown mt-1">{timeAgo(e.created_at)}</p>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </section>
+    </div>
+  );
+}
+
+function stackOf(raw: Record<string, unknown> | null): string | null {
+  if (!raw) return null;
+  const exception = raw.exception as { stacktrace?: unknown } | undefined;
+  const stack = exception?.stacktrace ?? raw.stack;
+  return typeof stack === 'string' && stack ? stack : null;
+}
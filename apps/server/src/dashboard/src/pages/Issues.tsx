@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { api } from '../api';
+import { Badge } from '../components/Badge';
+import { usePolling, timeAgo } from '../hooks';
+
+const SORT_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: 'last_seen', label: 'Most recent' },
+  { value: 'count', label: 'Most frequent' },
+  { value: 'first_seen', label: 'Newest' },
+];
+
+const SOURCE_OPTIONS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'All sources' },
+  { value: 'browser', label: 'Browser' },
+  { value: 'otel', label: 'App code' },
+  { value: 'vercel', label: 'Vercel' },
+  { value: 'monitor', label: 'Health checks' },
+  { value: 'stripe', label: 'Stripe' },
+  { value: 'supabase', label: 'Supabase' },
+];
+
+const sourceLabels: Record<string, string> = {
+  monitor: 'Health Check',
+  otel: 'App Code',
+  github: 'GitHub',
+  stripe: 'Stripe',
+  supabase: 'Supabase',
+  vercel: 'Vercel',
+  'provider-status': 'External Service',
+  browser: 'Browser',
+};
+
+export function Issues() {
+  const [sort, setSort] = useState('last_seen');
+  const [sourceFilter, setSourceFilter] = useState('');
+
+  const params: Record<string, string> = { sort, limit: '100' };
+  if (sourceFilter) params.source = sourceFilter;
+
+  const { data, loading } = usePolling(
+    () => api.getIssues(params),
+    15000,
+    [sort, sourceFilter],
+  );
+  const issues = data?.issues ?? [];
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div>
+        <h1 className="pixel-heading text-brown-darker" style={{ fontSize: 'clamp(0.8rem, 2vw, 1.1rem)' }}>Errors</h1>
+        <p className="text-sm text-brown mt-1">
+          Every error your app throws, grouped so the same bug shows up once — with how often it happens and when it started.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        <select
+          value={sort}
+          onChange={(e) => setSort(e.target.value)}
+          className="filter-select"
+        >
+          {SORT_OPTIONS.map((s) => (
+            <option key={s.value} value={s.value}>{s.label}</option>
+          ))}
+        </select>
+        <select
+          value={sourceFilter}
+          onChange={(e) => setSourceFilter(e.target.value)}
+          className="filter-select"
+        >
+          {SOURCE_OPTIONS.map((s) => (
+            <option key={s.value} value={s.value}>{s.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {loading && issues.length === 0 ? (
+        <p className="text-brown text-sm">Loading errors...</p>
+      ) : issues.length === 0 ? (
+        <div className="card p-8 text-center">
+          <p className="text-brown-dark">No errors found</p>
+          <p className="text-xs text-brown mt-1">Errors from your app, browser and health checks will be grouped here.</p>
+        </div>
+      ) : (
+        <div className="card divide-y divide-sand-dark">
+          {issues.map((issue) => (
+            <Link
+              key={issue.id}
+              to={`/issues/${issue.id}`}
+              className="p-4 flex items-center gap-3 hover:bg-sand-dark/30 transition-colors block"
+            >
+              <div className="shrink-0">
+                <Badge label={issue.severity} />
+              </div>
+              <div className="min-w-0 flex-1">
+                <p className="text-sm truncate">{issue.title}</p>
+                <p className="text-xs text-brown mt-1 truncate">
+                  {issue.culprit && <span className="font-mono text-brown-dark">{issue.culprit} · </span>}
+                  from {sourceLabels[issue.source] || issue.source} · first seen {timeAgo(issue.first_seen)} · last seen {timeAgo(issue.last_seen)}
+                </p>
+              </div>
+              <div className="text-right shrink-0">
+                <p className="text-sm font-mono text-brown-darker">{issue.count.toLocaleString()}</p>
+                <p className="text-xs text-brown">event{issue.count !== 1 ? 's' : ''}</p>
+              </div>
+            </Link>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
+import { useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
-import { api } from '../api';
+import { api, type Deployment, type MetricSeries, type Monitor, type TransactionStepResult } from '../api';
 import { Badge } from '../components/Badge';
 import { useFetch, timeAgo } from '../hooks';
 
@@ -18,6 +19,13 @@ export function MonitorDetail() {
   const m = monitor.data?.monitor;
   const eventList = events.data?.events ?? [];
 
+  const projectId = m?.project_id;
+  const deployments = useFetch(
+    () => (projectId ? api.getDeployments({ project_id: projectId }) : Promise.resolve({ deployments: [] as Deployment[] })),
+    [projectId]
+  );
+  const deployList = deployments.data?.deployments ?? [];
+
   if (monitor.loading) return <p className="text-brown text-sm">Loading health check details...</p>;
   if (!m) return <p className="text-brown text-sm">Health check not found</p>;
 
@@ -27,7 +35,11 @@ export function MonitorDetail() {
       <div>
         <Link to="/monitors" className="link-brand text-xs">&larr; Back to Health Checks</Link>
         <h1 className="pixel-heading text-brown-darker mt-3 break-all" style={{ fontSize: 'clamp(0.7rem, 1.5vw, 0.9rem)' }}>{m.url}</h1>
-        <p className="text-sm text-brown mt-1">ScanWarp checks this URL {friendlyInterval(m.check_interval_seconds)} to make sure it's responding.</p>
+        <p className="text-sm text-brown mt-1">
+          {m.type === 'transaction'
+            ? `ScanWarp runs this ${m.steps.length}-step flow ${friendlyInterval(m.check_interval_seconds)} to make sure it still works end to end.`
+            : `ScanWarp checks this URL ${friendlyInterval(m.check_interval_seconds)} to make sure it's responding.`}
+        </p>
       </div>
 
       {/* Stats */}
@@ -50,19 +62,58 @@ export function MonitorDetail() {
         </div>
       </div>
 
+      {/* Check settings */}
+      {m.type === 'transaction' ? (
+        <TransactionSteps monitor={m} />
+      ) : (
+        <section>
+          <div className="mb-3">
+            <h2 className="section-title">What We Check</h2>
+            <p className="text-xs text-brown mt-0.5">The request ScanWarp sends and what counts as healthy</p>
+          </div>
+          <div className="card p-5 space-y-2 text-sm">
+            <p>
+              <span className="font-mono text-brown-darker">{m.method || 'GET'}</span>{' '}
+              <span className="text-brown">expecting</span>{' '}
+              <span className="font-mono text-brown-darker">{m.expected_status || '2xx'}</span>{' '}
+              <span className="text-brown">within {((m.timeout_ms || 10000) / 1000).toLocaleString()}s</span>
+            </p>
+            {Object.keys(m.request_headers || {}).length > 0 && (
+              <p className="text-xs text-brown">Headers: {Object.keys(m.request_headers).join(', ')}</p>
+            )}
+            {(m.assertions || []).length > 0 && (
+              <ul className="text-xs text-brown space-y-1">
+                {m.assertions.map((a, i) => (
+                  <li key={i} className="font-mono">{describeAssertion(a)}</li>
+                ))}
+              </ul>
+            )}
+            <p className="text-xs text-brown">
+              Opens an incident after {m.failure_threshold || 2} failed check{(m.failure_threshold || 2) === 1 ? '' : 's'} in a row
+            </p>
+          </div>
+        </section>
+      )}
+
       {/* Response time chart */}
       {eventList.length > 0 && (
         <section>
           <div className="mb-3">
             <h2 className="section-title">Response Speed</h2>
-            <p className="text-xs text-brown mt-0.5">How fast this service is responding — taller bars mean slower responses</p>
+            <p className="text-xs text-brown mt-0.5">
+              How fast this service is responding — taller bars mean slower responses
+              {deployList.length > 0 && ', green lines mark deploys'}
+            </p>
           </div>
           <div className="card p-5">
-            <ResponseBars events={eventList} />
+            <ResponseBars events={eventList} deployments={deployList} />
           </div>
         </section>
       )}
 
+      {/* App metrics (OpenTelemetry) */}
+      {m.project_id && <MetricsSection projectId={m.project_id} deployments={deployList} />}
+
       {/* Events */}
       <section>
         <div className="mb-3">
@@ -78,6 +129,9 @@ export function MonitorDetail() {
                 <Badge label={e.type} />
                 <div className="min-w-0">
                   <p className="text-sm truncate">{e.message}</p>
+                  {e.anomaly_reason && (
+                    <p className="text-xs text-accent-orange mt-1 truncate">Flagged: {e.anomaly_reason}</p>
+                  )}
                   <p className="text-xs text-brown mt-1">{timeAgo(e.created_at)}</p>
                 </div>
               </div>
@@ -89,7 +143,77 @@ export function MonitorDetail() {
   );
 }
 
-function ResponseBars({ events }: { events: Array<{ raw_data: Record<string, unknown> | null; created_at: string }> }) {
+function TransactionSteps({ monitor }: { monitor: Monitor }) {
+  const results = monitor.last_step_results ?? [];
+
+  return (
+    <section>
+      <div className="mb-3">
+        <h2 className="section-title">Steps</h2>
+        <p className="text-xs text-brown mt-0.5">Each request runs in order — values from earlier responses can be used in later ones</p>
+      </div>
+      <div className="card divide-y divide-sand-dark">
+        {monitor.steps.map((step, i) => {
+          const result: TransactionStepResult | undefined = results[i];
+          return (
+            <div key={i} className="p-4 flex items-start gap-3">
+              <span className="font-mono text-xs text-brown mt-0.5 w-5 shrink-0">{i + 1}.</span>
+              <div className="min-w-0 flex-1 space-y-1">
+                <p className="text-sm text-brown-darker font-bold">{step.name}</p>
+                <p className="text-xs font-mono text-brown break-all">
+                  {step.method || 'GET'} {step.url}
+                  {' '}→ {step.expected_status || '2xx'}
+                </p>
+                {(step.assertions || []).length > 0 && (
+                  <p className="text-xs font-mono text-brown">{step.assertions!.map(describeAssertion).join(' • ')}</p>
+                )}
+                {(step.extract || []).length > 0 && (
+                  <p className="text-xs font-mono text-brown">
+                    saves {step.extract!.map((e) => `{{${e.name}}}`).join(', ')}
+                  </p>
+                )}
+                {result?.error && <p className="text-xs text-accent-red">{result.error}</p>}
+              </div>
+              <div className="text-right shrink-0">
+                {!result ? (
+                  <span className="text-xs text-brown">not run yet</span>
+                ) : !result.ran ? (
+                  <span className="text-xs text-brown">skipped</span>
+                ) : (
+                  <>
+                    <Badge label={result.success ? 'ok' : 'error'} />
+                    <p className="text-xs font-mono text-brown mt-1">{result.responseTime}ms</p>
+                  </>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </section>
+  );
+}
+
+function describeAssertion(a: Monitor['assertions'][number]): string {
+  switch (a.type) {
+    case 'body_contains': return `body contains "${a.value}"`;
+    case 'body_not_contains': return `body does not contain "${a.value}"`;
+    case 'json_path': return a.equals !== undefined ? `${a.path} = ${JSON.stringify(a.equals)}` : `${a.path} exists`;
+    case 'header':
+      if (a.equals !== undefined) return `header ${a.name} = "${String(a.equals)}"`;
+      if (a.contains !== undefined) return `header ${a.name} contains "${a.contains}"`;
+      return `header ${a.name} is present`;
+    default: return a.type;
+  }
+}
+
+function ResponseBars({
+  events,
+  deployments,
+}: {
+  events: Array<{ raw_data: Record<string, unknown> | null; created_at: string }>;
+  deployments: Deployment[];
+}) {
   const points = events
     .map((e) => ({
       time: e.created_at,
@@ -104,7 +228,7 @@ function ResponseBars({ events }: { events: Array<{ raw_data: Record<string, unk
   const maxMs = Math.max(...points.map((p) => p.ms), 1);
 
   return (
-    <div className="flex items-end gap-1 h-28">
+    <div className="relative flex items-end gap-1 h-28">
       {points.map((p, i) => (
         <div
           key={i}
@@ -113,6 +237,130 @@ function ResponseBars({ events }: { events: Array<{ raw_data: Record<string, unk
           title={`${p.ms}ms at ${new Date(p.time).toLocaleTimeString()}`}
         />
       ))}
+      <DeployMarkers times={points.map((p) => new Date(p.time).getTime())} deployments={deployments} />
+    </div>
+  );
+}
+
+/**
+ * Vertical lines over a bar chart, between the bars before and after each
+ * deploy. Deploys outside the chart's time range are left out.
+ */
+function DeployMarkers({ times, deployments }: { times: number[]; deployments: Deployment[] }) {
+  const markers = deployments
+    .map((d) => ({ deployment: d, index: times.findIndex((t) => t >= new Date(d.deployed_at).getTime()) }))
+    .filter((m) => m.index > 0);
+
+  return (
+    <>
+      {markers.map(({ deployment, index }) => (
+        <div
+          key={deployment.id}
+          className="absolute top-0 bottom-0 w-0.5 bg-accent-green cursor-default"
+          style={{ left: `${(index / times.length) * 100}%` }}
+          title={`Deploy ${deployment.version}${deployment.environment ? ` (${deployment.environment})` : ''} at ${new Date(deployment.deployed_at).toLocaleString()}`}
+        />
+      ))}
+    </>
+  );
+}
+
+const METRIC_RANGES: Record<string, number> = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+  '7d': 7 * 24 * 60 * 60 * 1000,
+};
+
+function MetricsSection({ projectId, deployments }: { projectId: string; deployments: Deployment[] }) {
+  const names = useFetch(() => api.getMetricNames(projectId), [projectId]);
+  const [selected, setSelected] = useState('');
+  const [range, setRange] = useState('24h');
+
+  const nameList = names.data?.names ?? [];
+  const metricName = selected || nameList[0]?.name || '';
+
+  const metrics = useFetch(
+    () => {
+      if (!metricName) return Promise.resolve({ step_seconds: 0, metrics: [] as MetricSeries[] });
+      const end = Date.now();
+      return api.getMetrics({
+        project_id: projectId,
+        name: metricName,
+        start: new Date(end - METRIC_RANGES[range]).toISOString(),
+        end: new Date(end).toISOString(),
+      });
+    },
+    [projectId, metricName, range]
+  );
+
+  if (nameList.length === 0) return null;
+
+  const seriesList = metrics.data?.metrics ?? [];
+
+  return (
+    <section>
+      <div className="mb-3 flex flex-wrap items-end justify-between gap-3">
+        <div>
+          <h2 className="section-title">App Metrics</h2>
+          <p className="text-xs text-brown mt-0.5">Numbers your app reports through OpenTelemetry</p>
+        </div>
+        <div className="flex gap-2">
+          <select className="filter-select" value={metricName} onChange={(e) => setSelected(e.target.value)}>
+            {nameList.map((n) => (
+              <option key={n.name} value={n.name}>{n.name}{n.unit ? ` (${n.unit})` : ''}</option>
+            ))}
+          </select>
+          <select className="filter-select" value={range} onChange={(e) => setRange(e.target.value)}>
+            {Object.keys(METRIC_RANGES).map((r) => (
+              <option key={r} value={r}>Last {r}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="card p-5 space-y-5">
+        {metrics.loading ? (
+          <p className="text-brown text-sm">Loading metrics...</p>
+        ) : seriesList.length === 0 ? (
+          <p className="text-brown text-sm">No data points in this time range</p>
+        ) : (
+          seriesList.slice(0, 5).map((series, i) => <MetricChart key={i} series={series} deployments={deployments} />)
+        )}
+      </div>
+    </section>
+  );
+}
+
+function MetricChart({ series, deployments }: { series: MetricSeries; deployments: Deployment[] }) {
+  const labels = Object.entries(series.attributes).map(([k, v]) => `${k}=${String(v)}`).join(', ');
+  const maxValue = Math.max(...series.points.map((p) => p.value), 1);
+  const latest = series.points[series.points.length - 1];
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between gap-3 mb-2">
+        <p className="text-xs text-brown truncate">{labels || 'all'}</p>
+        {latest && (
+          <p className="text-xs font-mono text-brown-darker whitespace-nowrap">
+            latest {formatMetricValue(latest.value)}{series.unit ? ` ${series.unit}` : ''}
+          </p>
+        )}
+      </div>
+      <div className="relative flex items-end gap-0.5 h-24">
+        {series.points.map((p) => (
+          <div
+            key={p.timestamp}
+            className="flex-1 bg-accent-blue/50 hover:bg-accent-blue/80 transition-colors cursor-default"
+            style={{ height: `${Math.max((p.value / maxValue) * 100, 1)}%` }}
+            title={`${formatMetricValue(p.value)}${series.unit ? ` ${series.unit}` : ''} at ${new Date(p.timestamp).toLocaleString()}`}
+          />
+        ))}
+        <DeployMarkers times={series.points.map((p) => p.timestamp)} deployments={deployments} />
+      </div>
     </div>
   );
 }
+
+function formatMetricValue(value: number): string {
+  if (Number.isInteger(value)) return value.toLocaleString();
+  return value.toLocaleString(undefined, { maximumFractionDigits: 2 });
+}
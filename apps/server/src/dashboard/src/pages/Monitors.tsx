@@ -1,5 +1,5 @@
 import { Link } from 'react-router-dom';
-import { api } from '../api';
+import { api, type MonitorTls } from '../api';
 import { Badge } from '../components/Badge';
 import { usePolling, timeAgo } from '../hooks';
 
@@ -10,6 +10,46 @@ function friendlyInterval(seconds: number): string {
   return `every ${minutes} min`;
 }
 
+function expiryClass(daysLeft: number | null): string {
+  if (daysLeft === null) return 'text-brown';
+  if (daysLeft <= 3) return 'text-accent-red';
+  if (daysLeft <= 30) return 'text-accent-orange';
+  return 'text-brown-dark';
+}
+
+function CertificateCell({ tls }: { tls?: MonitorTls | null }) {
+  if (!tls || !tls.checked_at) {
+    return <span className="text-brown">—</span>;
+  }
+
+  if (tls.error) {
+    return (
+      <span className="text-accent-red" title={tls.error}>
+        {tls.expires_at ? 'Invalid' : 'Unreachable'}
+      </span>
+    );
+  }
+
+  const title = [
+    tls.issuer && `Issued by ${tls.issuer}`,
+    tls.expires_at && `Expires ${new Date(tls.expires_at).toLocaleDateString()}`,
+    tls.domain_expires_at && `Domain expires ${new Date(tls.domain_expires_at).toLocaleDateString()}`,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span title={title}>
+      <span className={expiryClass(tls.days_left)}>
+        {tls.days_left !== null && tls.days_left < 0 ? 'Expired' : `${tls.days_left}d left`}
+      </span>
+      {tls.domain_days_left !== null && tls.domain_days_left <= 30 && (
+        <span className={`block text-xs ${expiryClass(tls.domain_days_left)}`}>
+          domain {tls.domain_days_left < 0 ? 'expired' : `${tls.domain_days_left}d`}
+        </span>
+      )}
+    </span>
+  );
+}
+
 export function Monitors() {
   const { data, loading } = usePolling(() => api.getMonitors(), 15000);
   const monitors = data?.monitors ?? [];
@@ -41,6 +81,7 @@ export function Monitors() {
                 <th className="text-left p-4 font-medium">Status</th>
                 <th className="text-left p-4 font-medium">URL</th>
                 <th className="text-left p-4 font-medium hidden sm:table-cell">Check Frequency</th>
+                <th className="text-left p-4 font-medium hidden md:table-cell">Certificate</th>
                 <th className="text-left p-4 font-medium">Last Checked</th>
               </tr>
             </thead>
@@ -54,8 +95,14 @@ export function Monitors() {
                     <Link to={`/monitors/${m.id}`} className="link-brand truncate block max-w-md">
                       {m.url}
                     </Link>
+                    {m.type === 'transaction' && (
+                      <span className="text-xs text-brown">{m.steps.length}-step flow</span>
+                    )}
                   </td>
                   <td className="p-4 text-brown-dark hidden sm:table-cell font-mono">{friendlyInterval(m.check_interval_seconds)}</td>
+                  <td className="p-4 hidden md:table-cell font-mono">
+                    <CertificateCell tls={m.tls} />
+                  </td>
                   <td className="p-4 text-brown font-mono">
                     {m.last_checked_at ? timeAgo(m.last_checked_at) : 'not checked yet'}
                   </td>
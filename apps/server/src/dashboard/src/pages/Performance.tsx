@@ -0,0 +1,161 @@
+import { useState } from 'react';
+import { api, type WebVitalDefinition, type WebVitalRating, type WebVitalSummary } from '../api';
+import { usePolling } from '../hooks';
+
+// The columns shown, in order; the rest of the metrics are in each cell's tooltip
+const COLUMNS = ['lcp', 'inp', 'cls', 'ttfb', 'fcp', 'load'];
+
+const RANGES = [
+  { hours: 24, label: 'Last 24 hours' },
+  { hours: 24 * 7, label: 'Last 7 days' },
+  { hours: 24 * 30, label: 'Last 30 days' },
+];
+
+const ratingStyles: Record<WebVitalRating, string> = {
+  good: 'text-[#2c701d]',
+  'needs-improvement': 'text-[#a44200]',
+  poor: 'text-[#ba4135] font-bold',
+};
+
+const ratingNames: Record<WebVitalRating, string> = {
+  good: 'Good',
+  'needs-improvement': 'Needs improvement',
+  poor: 'Poor',
+};
+
+function formatValue(value: number, unit: WebVitalDefinition['unit']): string {
+  if (unit === 'score') return value.toFixed(2);
+  if (value < 1000) return `${Math.round(value)}ms`;
+  return `${(value / 1000).toFixed(1)}s`;
+}
+
+function VitalCell({ summary, definition }: { summary?: WebVitalSummary; definition?: WebVitalDefinition }) {
+  if (!summary || !definition) return <span className="text-brown">—</span>;
+
+  const tooltip = [
+    `${definition.label}: ${ratingNames[summary.rating]}`,
+    `p50 ${formatValue(summary.p50, definition.unit)} · p75 ${formatValue(summary.p75, definition.unit)} · p95 ${formatValue(summary.p95, definition.unit)}`,
+    `${summary.samples} page view${summary.samples === 1 ? '' : 's'}`,
+  ].join('\n');
+
+  return (
+    <span className={ratingStyles[summary.rating]} title={tooltip}>
+      {formatValue(summary.p75, definition.unit)}
+    </span>
+  );
+}
+
+export function Performance() {
+  const [projectId, setProjectId] = useState('');
+  const [hours, setHours] = useState(24);
+
+  const projects = usePolling(() => api.getProjects(), 60000);
+  const projectList = Array.isArray(projects.data) ? projects.data : [];
+
+  const activeProjectId = projectId || projectList[0]?.id || '';
+
+  const { data, loading } = usePolling(
+    () => activeProjectId ? api.getWebVitals(activeProjectId, hours) : Promise.resolve(null),
+    60000,
+    [activeProjectId, hours],
+  );
+  const routes = data?.routes ?? [];
+  const metrics = data?.metrics ?? {};
+
+  return (
+    <div className="space-y-5">
+      {/* Header */}
+      <div>
+        <h1 className="pixel-heading text-brown-darker" style={{ fontSize: 'clamp(0.8rem, 2vw, 1.1rem)' }}>Frontend Performance</h1>
+        <p className="text-sm text-brown mt-1">
+          How fast your pages load for real visitors. Each number is what 3 in 4 page views were at least as fast as —
+          green is good, orange needs work, red is slow.
+        </p>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-wrap items-center gap-3">
+        {projectList.length > 1 && (
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="filter-select"
+          >
+            {projectList.map((p) => (
+              <option key={p.id} value={p.id}>{p.name}</option>
+            ))}
+          </select>
+        )}
+        <select
+          value={hours}
+          onChange={(e) => setHours(Number(e.target.value))}
+          className="filter-select"
+        >
+          {RANGES.map((r) => (
+            <option key={r.hours} value={r.hours}>{r.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {!activeProjectId ? (
+        <div className="card p-8 text-center">
+          <p className="text-brown-dark">No projects found</p>
+        </div>
+      ) : loading && !data ? (
+        <p className="text-brown text-sm">Loading page speed...</p>
+      ) : routes.length === 0 ? (
+        <div className="card p-8 text-center">
+          <p className="text-brown-dark">No page loads recorded yet</p>
+          <p className="text-xs text-brown mt-1">
+            Add the ScanWarp browser script to your site; page speed is reported when visitors leave a page.
+          </p>
+        </div>
+      ) : (
+        <div className="card overflow-hidden">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b-[3px] border-brown-dark text-brown text-xs uppercase tracking-wider font-pixel">
+                <th className="text-left p-4 font-medium">Page</th>
+                <th className="text-right p-4 font-medium">Views</th>
+                {COLUMNS.map((name) => (
+                  <th key={name} className="text-right p-4 font-medium" title={metrics[name]?.label}>
+                    {name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-sand-dark">
+              {data && (
+                <tr className="bg-sand-dark/30">
+                  <td className="p-4 font-bold">All pages</td>
+                  <td className="p-4 text-right font-mono">{data.overall.page_views}</td>
+                  {COLUMNS.map((name) => (
+                    <td key={name} className="p-4 text-right font-mono">
+                      <VitalCell summary={data.overall.metrics[name]} definition={metrics[name]} />
+                    </td>
+                  ))}
+                </tr>
+              )}
+              {routes.map((r) => (
+                <tr key={r.route} className="hover:bg-sand-dark/30 transition-colors">
+                  <td className="p-4 font-mono truncate max-w-xs">{r.route}</td>
+                  <td className="p-4 text-right font-mono text-brown-dark">{r.page_views}</td>
+                  {COLUMNS.map((name) => (
+                    <td key={name} className="p-4 text-right font-mono">
+                      <VitalCell summary={r.metrics[name]} definition={metrics[name]} />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {data && data.total_routes > routes.length && (
+            <p className="p-4 text-xs text-brown">
+              Showing the {routes.length} busiest of {data.total_routes} pages.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
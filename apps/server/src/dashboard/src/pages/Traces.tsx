@@ -14,10 +14,7 @@ export function Traces() {
   const [statusFilter, setStatusFilter] = useState('');
   const [projectId, setProjectId] = useState('');
 
-  const projects = usePolling(
-    () => fetch('/projects').then((r) => r.json()) as Promise<Array<{ id: string; name: string }>>,
-    60000,
-  );
+  const projects = usePolling(() => api.getProjects(), 60000);
   const projectList = Array.isArray(projects.data) ? projects.data : [];
 
   const activeProjectId = projectId || projectList[0]?.id || '';
@@ -18,6 +18,7 @@ export default defineConfig({
       '/events': 'http://localhost:3000',
       '/incidents': 'http://localhost:3000',
       '/traces': 'http://localhost:3000',
+      '/metrics': 'http://localhost:3000',
       '/channels': 'http://localhost:3000',
       '/v1': 'http://localhost:3000',
       '/api': 'http://localhost:3000',
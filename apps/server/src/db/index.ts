@@ -10,6 +10,15 @@
 
 import { PostgresDatabase } from './postgres.js';
 import { SqliteDatabase } from './sqlite.js';
+import type {
+  AnomalySettings,
+  DiagnosisResult,
+  MonitorAssertion,
+  MonitorCheckConfig,
+  MonitorType,
+  TransactionStep,
+  TransactionStepResult,
+} from '@scanwarp/core';
 
 // ─── Row types returned by the database ───
 
@@ -19,6 +28,18 @@ export interface ProjectRow {
   created_at: Date;
 }
 
+export interface ApiKeyRow {
+  id: string;
+  project_id: string;
+  name: string;
+  key_prefix: string;
+  key_hash: string;
+  scopes: string[];
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
+}
+
 export interface MonitorRow {
   id: string;
   project_id: string;
@@ -27,8 +48,30 @@ export interface MonitorRow {
   last_checked_at: Date | null;
   status: string;
   created_at: Date;
+  method: MonitorCheckConfig['method'];
+  request_headers: Record<string, string>;
+  request_body: string | null;
+  expected_status: string | null;
+  assertions: MonitorAssertion[];
+  timeout_ms: number;
+  type: MonitorType;
+  steps: TransactionStep[];
+  /** Per-step outcome of the latest transaction run */
+  last_step_results: TransactionStepResult[] | null;
+  failure_threshold: number;
+  /** Failed checks in a row, reset by a successful check */
+  consecutive_failures: number;
+  /** Incident opened for the current failure streak, resolved when the monitor recovers */
+  incident_id: string | null;
 }
 
+/** Settings accepted when creating or updating a monitor */
+export type MonitorConfig = Partial<MonitorCheckConfig> & {
+  type?: MonitorType;
+  steps?: TransactionStep[];
+  failure_threshold?: number;
+};
+
 export interface EventRow {
   id: string;
   project_id: string;
@@ -38,9 +81,31 @@ export interface EventRow {
   message: string;
   raw_data: Record<string, unknown> | null;
   severity: string;
+  /** Why the anomaly detector flagged this event, if it did */
+  anomaly_reason: string | null;
+  /** Issue group, set for error events (see fingerprintEvent in @scanwarp/core) */
+  fingerprint: string | null;
+  /** Times it happened; browser reports fold repeats of an error into one event */
+  occurrences: number;
   created_at: Date;
 }
 
+/** A group of error events sharing a fingerprint */
+export interface IssueRow {
+  id: string;
+  project_id: string;
+  fingerprint: string;
+  title: string;
+  culprit: string | null;
+  type: string;
+  source: string;
+  severity: string;
+  count: number;
+  first_seen: Date;
+  last_seen: Date;
+  last_event_id: string | null;
+}
+
 export interface EventStatsRow {
   monitor_id: string;
   avg_response_time: number | null;
@@ -50,6 +115,15 @@ export interface EventStatsRow {
   updated_at: Date;
 }
 
+/** Checks of one monitor on one UTC day, for uptime history */
+export interface MonitorDailyStatsRow {
+  monitor_id: string;
+  /** YYYY-MM-DD */
+  day: string;
+  total_checks: number;
+  failed_checks: number;
+}
+
 export interface IncidentRow {
   id: string;
   project_id: string;
@@ -60,10 +134,117 @@ export interface IncidentRow {
   diagnosis_fix: string | null;
   severity: string;
   fix_prompt: string | null;
+  acknowledged_by: string | null;
+  acknowledged_at: Date | null;
+  assignee: string | null;
   created_at: Date;
   resolved_at: Date | null;
 }
 
+export type IncidentTimelineKind =
+  | 'created'
+  | 'events_added'
+  | 'diagnosed'
+  | 'notified'
+  | 'acknowledged'
+  | 'assigned'
+  | 'resolved'
+  | 'reopened'
+  | 'comment'
+  | 'feedback'
+  | 'status_update';
+
+/** One entry in an incident's timeline. Entries are only ever appended. */
+export interface IncidentTimelineRow {
+  id: string;
+  incident_id: string;
+  kind: IncidentTimelineKind;
+  /** Who did it, when known; null for things ScanWarp did on its own */
+  actor: string | null;
+  message: string;
+  data: Record<string, unknown> | null;
+  created_at: Date;
+}
+
+export interface NewIncidentTimelineEntry {
+  incident_id: string;
+  kind: IncidentTimelineKind;
+  actor?: string | null;
+  message: string;
+  data?: Record<string, unknown> | null;
+}
+
+/**
+ * A diagnosis kept for reuse by later incidents with the same errors, keyed
+ * by IncidentService's diagnosisKey().
+ */
+export interface DiagnosisCacheRow {
+  project_id: string;
+  diagnosis_key: string;
+  /** Name of the provider that produced it; other providers don't reuse it */
+  provider: string;
+  result: DiagnosisResult;
+  created_at: Date;
+}
+
+/** Whether an incident's diagnosis was right, and what the cause really was */
+export interface DiagnosisFeedbackRow {
+  id: string;
+  incident_id: string;
+  project_id: string;
+  diagnosis_key: string | null;
+  helpful: boolean;
+  /** The incident's root cause when the feedback was given */
+  diagnosed_root_cause: string | null;
+  actual_root_cause: string | null;
+  author: string | null;
+  created_at: Date;
+}
+
+export type NewDiagnosisFeedback = Omit<DiagnosisFeedbackRow, 'id' | 'created_at'>;
+
+/** One diagnosis of an incident and what it cost */
+export interface DiagnosisRunRow {
+  id: string;
+  incident_id: string;
+  project_id: string;
+  /** Who produced the diagnosis; the fallback's name when the configured provider failed */
+  provider: string;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number | null;
+  attempts: number;
+  duration_ms: number;
+  /** Reused a cached diagnosis, so nothing was spent */
+  cached: boolean;
+  /** Set when no diagnosis could be made */
+  error: string | null;
+  created_at: Date;
+}
+
+export type NewDiagnosisRun = Omit<DiagnosisRunRow, 'id' | 'created_at'>;
+
+/** A monitor shown on a public status page */
+export interface StatusPageComponent {
+  monitor_id: string;
+  /** Shown to customers instead of the monitor's URL */
+  name: string;
+}
+
+/** A project's public status page, served at /status/<slug> */
+export interface StatusPageRow {
+  project_id: string;
+  slug: string;
+  title: string;
+  description: string | null;
+  components: StatusPageComponent[];
+  enabled: boolean;
+  updated_at: Date;
+}
+
+export type StatusPageConfig = Omit<StatusPageRow, 'updated_at'>;
+
 export interface SpanRow {
   id: string;
   trace_id: string;
@@ -82,6 +263,51 @@ export interface SpanRow {
   created_at: Date;
 }
 
+export interface MetricPointRow {
+  id: string;
+  project_id: string;
+  service_name: string;
+  name: string;
+  kind: string;
+  unit: string | null;
+  /** OTLP aggregation temporality of sums: 'delta' or 'cumulative'; null otherwise */
+  temporality: string | null;
+  timestamp: number;
+  value: number;
+  histogram: {
+    count: number;
+    sum: number;
+    min?: number;
+    max?: number;
+    bucket_counts: number[];
+    explicit_bounds: number[];
+  } | null;
+  attributes: Record<string, unknown>;
+  created_at: Date;
+}
+
+/**
+ * The points of one series within one time bucket, aggregated by the database.
+ * Each point is weighted by its histogram count, or 1 for gauges and sums.
+ */
+export interface MetricBucketRow {
+  service_name: string;
+  name: string;
+  kind: string;
+  unit: string | null;
+  temporality: string | null;
+  attributes: Record<string, unknown>;
+  /** Start of the bucket, in ms */
+  bucket: number;
+  weighted_total: number;
+  weight: number;
+  /** Plain sum of the values, for delta sums */
+  total: number;
+  /** The newest point in the bucket, for cumulative sums */
+  last_value: number;
+  last_timestamp: number;
+}
+
 export interface ProviderStatusRow {
   provider: string;
   status: string;
@@ -89,15 +315,229 @@ export interface ProviderStatusRow {
   details: string | null;
 }
 
+export interface AnomalyBaselineRow {
+  project_id: string;
+  detector: string;
+  /** Usually "<source> <route>" */
+  key: string;
+  /** Exponentially weighted mean and variance of the observed values */
+  mean: number;
+  variance: number;
+  samples: number;
+  /** Start (epoch ms) and running count of the current bucket, for count-based detectors */
+  bucket_start: number | null;
+  bucket_count: number;
+  last_alert_at: Date | null;
+  updated_at: Date;
+}
+
+/** An uploaded source map, without its content */
+export interface SourceMapRow {
+  project_id: string;
+  release: string;
+  /** Path of the generated file it maps, relative to the site root, e.g. "assets/main.3f2a9c1b.js" */
+  name: string;
+  size: number;
+  created_at: Date;
+}
+
+/** A recording of the page before a browser error, without its content */
+export interface BrowserReplayRow {
+  /** Generated by the browser script and sent as the error's replayId */
+  id: string;
+  project_id: string;
+  session_id: string | null;
+  started_at: Date;
+  ended_at: Date;
+  size: number;
+  created_at: Date;
+}
+
+export interface DeploymentRow {
+  id: string;
+  project_id: string;
+  version: string;
+  environment: string | null;
+  commit_sha: string | null;
+  url: string | null;
+  /** Where we learned about it: 'api', 'vercel', 'otel' or 'browser' */
+  source: string;
+  deployed_at: Date;
+}
+
+export interface DeploymentFilters {
+  project_id: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/** 'events' and 'spans' are rolled up hourly; 'web_vitals' tracks which hours were checked for regressions */
+export type RollupName = 'events' | 'spans' | 'web_vitals';
+
+/** Event count for one hour, by type, source, route key and issue */
+export interface EventRollupRow {
+  project_id: string;
+  hour: Date;
+  type: string;
+  source: string;
+  /** Anomaly baseline key, "<source> <route>" */
+  route_key: string;
+  /** Empty for events that aren't grouped into issues */
+  fingerprint: string;
+  count: number;
+}
+
+export interface EventRollupFilters {
+  project_id: string;
+  since: Date;
+  until?: Date;
+  types?: string[];
+  route_key?: string;
+  fingerprint?: string;
+}
+
+export interface SpanRollupRow {
+  project_id: string;
+  hour: Date;
+  service_name: string;
+  operation_name: string;
+  span_count: number;
+  error_count: number;
+  total_duration_ms: number;
+  max_duration_ms: number;
+}
+
+/**
+ * How many page views in an hour had a web vital in one histogram bucket.
+ * Buckets are defined per metric in vitals/metrics.ts; percentiles are
+ * estimated from them, so hours and routes can be merged.
+ */
+export interface WebVitalBucketRow {
+  project_id: string;
+  hour: Date;
+  /** Page path with ids collapsed, e.g. "/orders/:id" */
+  route: string;
+  metric: string;
+  bucket: number;
+  count: number;
+}
+
+export interface WebVitalFilters {
+  /** All projects when left out */
+  project_id?: string;
+  since: Date;
+  until?: Date;
+}
+
+export interface MonitorTlsRow {
+  monitor_id: string;
+  hostname: string;
+  valid_from: Date | null;
+  expires_at: Date | null;
+  issuer: string | null;
+  subject: string | null;
+  san_match: boolean | null;
+  chain_valid: boolean | null;
+  error: string | null;
+  /** Smallest expiry threshold (in days) already alerted on, reset after renewal */
+  alert_threshold_days: number | null;
+  checked_at: Date | null;
+  domain_expires_at: Date | null;
+  domain_alert_threshold_days: number | null;
+  domain_checked_at: Date | null;
+}
+
+export type DigestInterval = 'hourly' | 'daily';
+
+/** Settings that only some channel types use */
+export interface ChannelConfig {
+  /** Generic webhooks: key for the X-ScanWarp-Signature HMAC */
+  secret?: string;
+  /** PagerDuty: the integration's routing key */
+  routing_key?: string;
+}
+
 export interface NotificationChannelRow {
   id: string;
   project_id: string;
   type: string;
+  /** Where notifications are posted; `mailto:` recipients for email channels */
   webhook_url: string;
+  config: ChannelConfig;
   enabled: boolean;
+  digest_interval: DigestInterval;
+  /** Another channel that is also told when a critical incident stays open */
+  escalation_channel_id: string | null;
+  rules: ChannelRules;
+  created_at: Date;
+}
+
+export interface ChannelSettings {
+  digest_interval?: DigestInterval;
+  escalation_channel_id?: string | null;
+}
+
+export interface QuietHours {
+  /** Local time the quiet period starts, as HH:MM */
+  start: string;
+  /** Local time it ends; earlier than start for an overnight window */
+  end: string;
+  /** IANA time zone, e.g. Europe/Berlin */
+  timezone: string;
+  /** Whether critical incidents still go out during quiet hours */
+  allow_critical: boolean;
+}
+
+/**
+ * Which incidents a channel hears about. Every rule that is set has to
+ * match; an empty object lets everything through.
+ */
+export interface ChannelRules {
+  min_severity?: 'info' | 'warning' | 'critical';
+  /** Only incidents with an event from one of these sources */
+  include_sources?: string[];
+  /** Skip incidents whose events all come from these sources */
+  exclude_sources?: string[];
+  /** Only incidents raised by these monitors */
+  monitor_ids?: string[];
+  /** Only incidents on these routes; a trailing * matches a prefix */
+  routes?: string[];
+  /** Hold notifications until the window ends */
+  quiet_hours?: QuietHours;
+}
+
+export type ScheduledNotificationKind = 'delayed' | 'digest' | 'escalation' | 'resolution';
+
+export type ScheduledNotificationStatus = 'pending' | 'sent' | 'cancelled' | 'failed';
+
+export interface ScheduledNotificationRow {
+  id: string;
+  project_id: string;
+  channel_id: string;
+  incident_id: string;
+  kind: ScheduledNotificationKind;
+  due_at: Date;
+  /** Escalations count up from 1 */
+  attempt: number;
+  /** Failed sends so far; the scheduler retries with backoff until it gives up */
+  failures: number;
+  /** Provider and deploy context captured when the incident was first notified */
+  context: Record<string, unknown> | null;
+  status: ScheduledNotificationStatus;
   created_at: Date;
 }
 
+export interface NewScheduledNotification {
+  project_id: string;
+  channel_id: string;
+  incident_id: string;
+  kind: ScheduledNotificationKind;
+  due_at: Date;
+  attempt?: number;
+  context?: Record<string, unknown> | null;
+}
+
 export interface WaitlistRow {
   id: string;
   email: string;
@@ -109,6 +549,26 @@ export interface EventFilters {
   project_id?: string;
   type?: string;
   source?: string;
+  fingerprint?: string;
+  limit?: number;
+}
+
+export interface IssueFilters {
+  project_id?: string;
+  source?: string;
+  sort?: 'last_seen' | 'first_seen' | 'count';
+  limit?: number;
+}
+
+export interface MetricFilters {
+  project_id: string;
+  name?: string;
+  start_time: number;
+  end_time: number;
+  attributes?: Record<string, string>;
+  /** Bucket size in ms; buckets start at start_time */
+  step_ms: number;
+  /** Maximum buckets returned, newest first */
   limit?: number;
 }
 
@@ -129,13 +589,32 @@ export interface Database {
   getProjects(name?: string): Promise<ProjectRow[]>;
   getOrCreateProject(name: string): Promise<{ id: string }>;
 
+  // API Keys
+  createApiKey(params: {
+    project_id: string;
+    name: string;
+    key_prefix: string;
+    key_hash: string;
+    scopes: string[];
+  }): Promise<ApiKeyRow>;
+  getApiKeys(projectId: string): Promise<ApiKeyRow[]>;
+  getApiKeyByHash(keyHash: string): Promise<ApiKeyRow | null>;
+  revokeApiKey(id: string): Promise<void>;
+  touchApiKey(id: string): Promise<void>;
+  /** Whether any project has a key that hasn't been revoked */
+  hasActiveApiKeys(): Promise<boolean>;
+
   // Monitors
-  createMonitor(projectId: string, url: string, checkIntervalSeconds: number): Promise<MonitorRow>;
+  createMonitor(projectId: string, url: string, checkIntervalSeconds: number, config?: MonitorConfig): Promise<MonitorRow>;
+  updateMonitor(id: string, params: MonitorConfig & { url?: string; check_interval_seconds?: number }): Promise<MonitorRow | null>;
+  updateMonitorStepResults(id: string, results: TransactionStepResult[]): Promise<void>;
+  updateMonitorFailures(id: string, consecutiveFailures: number, incidentId: string | null): Promise<void>;
   getMonitors(): Promise<MonitorRow[]>;
   getMonitorById(id: string): Promise<MonitorRow | null>;
   updateMonitorStatus(id: string, status: string): Promise<void>;
 
   // Events
+  /** Error events are fingerprinted and counted against their issue in the same write */
   createEvent(params: {
     project_id: string;
     monitor_id?: string | null;
@@ -144,26 +623,45 @@ export interface Database {
     message: string;
     raw_data?: Record<string, unknown> | null;
     severity: string;
+    anomaly_reason?: string | null;
+    /** Times the error happened, when the sender folded repeats into one event (default 1) */
+    occurrences?: number;
   }): Promise<EventRow>;
   getEvents(filters: EventFilters): Promise<EventRow[]>;
   getEventsByIds(ids: string[]): Promise<EventRow[]>;
   flagEventForDiagnosis(eventId: string, reason: string): Promise<void>;
+  setEventAnomalyReason(eventId: string, reason: string): Promise<void>;
 
   // Event Statistics
   getEventStats(monitorId: string): Promise<EventStatsRow | null>;
   createEventStats(monitorId: string, avgResponseTime: number, isError: boolean): Promise<void>;
   updateEventStats(monitorId: string, newAvg: number, totalChecks: number, errorCount: number, isError: boolean): Promise<void>;
-  getAvgResponseTime(monitorId: string): Promise<number | null>;
+  /** Count a check against today (UTC) */
+  recordDailyCheck(monitorId: string, isError: boolean): Promise<void>;
+  /** Days on or after `since` (YYYY-MM-DD), oldest first */
+  getDailyCheckStats(monitorIds: string[], since: string): Promise<MonitorDailyStatsRow[]>;
+
+  // Issues
+  getIssues(filters: IssueFilters): Promise<IssueRow[]>;
+  getIssue(id: string): Promise<IssueRow | null>;
+  getIssueByFingerprint(projectId: string, fingerprint: string): Promise<IssueRow | null>;
 
   // Anomaly Detection
-  getSimilarErrorCount(monitorId: string, eventId: string, pattern: string): Promise<number>;
-  getRecentErrorCount(monitorId: string): Promise<number>;
-  getBaselineErrorRate(monitorId: string): Promise<number>;
+  /** Other events with this fingerprint since `since` */
+  getRecentFingerprintCount(projectId: string, fingerprint: string, excludeEventId: string, since: Date): Promise<number>;
+  getAnomalyBaseline(projectId: string, detector: string, key: string): Promise<AnomalyBaselineRow | null>;
+  upsertAnomalyBaseline(row: AnomalyBaselineRow): Promise<void>;
+  getAnomalySettings(projectId: string): Promise<AnomalySettings | null>;
+  updateAnomalySettings(projectId: string, settings: AnomalySettings): Promise<void>;
 
   // Incidents
-  createIncident(projectId: string, eventIds: string[], severity: string): Promise<{ id: string }>;
+  createIncident(projectId: string, eventIds: string[], severity: string, correlationGroup?: string | null): Promise<{ id: string }>;
   getIncident(id: string): Promise<IncidentRow | null>;
   getIncidents(filters: IncidentFilters): Promise<IncidentRow[]>;
+  /** Incidents in a project that haven't been resolved, newest first */
+  getOpenIncidents(projectId: string): Promise<IncidentRow[]>;
+  /** Append events to an incident and set its severity */
+  addIncidentEvents(id: string, eventIds: string[], severity: string): Promise<void>;
   updateIncidentDiagnosis(id: string, diagnosis: {
     root_cause: string;
     suggested_fix: string;
@@ -171,6 +669,39 @@ export interface Database {
     severity: string;
   }): Promise<void>;
   resolveIncident(id: string): Promise<void>;
+  /** Mark an incident as being worked on */
+  acknowledgeIncident(id: string, by: string | null): Promise<void>;
+  assignIncident(id: string, assignee: string | null): Promise<void>;
+  /** Back to open, clearing the resolution and acknowledgement */
+  reopenIncident(id: string): Promise<void>;
+
+  // Incident Timeline
+  addTimelineEntry(entry: NewIncidentTimelineEntry): Promise<IncidentTimelineRow>;
+  /** Oldest first */
+  getIncidentTimeline(incidentId: string): Promise<IncidentTimelineRow[]>;
+
+  // Diagnosis Cache & Feedback
+  /** The cached diagnosis for a key if it was made after `since` */
+  getCachedDiagnosis(projectId: string, key: string, since: Date): Promise<DiagnosisCacheRow | null>;
+  saveCachedDiagnosis(entry: Omit<DiagnosisCacheRow, 'created_at'>): Promise<void>;
+  deleteCachedDiagnosis(projectId: string, key: string): Promise<void>;
+  addDiagnosisFeedback(feedback: NewDiagnosisFeedback): Promise<DiagnosisFeedbackRow>;
+  /**
+   * Feedback for a key that confirmed the diagnosis or gave the actual root
+   * cause, newest first
+   */
+  getConfirmedRootCauses(projectId: string, key: string, limit: number): Promise<DiagnosisFeedbackRow[]>;
+  addDiagnosisRun(run: NewDiagnosisRun): Promise<void>;
+  /** Oldest first */
+  getDiagnosisRuns(incidentId: string): Promise<DiagnosisRunRow[]>;
+
+  // Status Pages
+  getStatusPage(projectId: string): Promise<StatusPageRow | null>;
+  getStatusPageBySlug(slug: string): Promise<StatusPageRow | null>;
+  upsertStatusPage(config: StatusPageConfig): Promise<StatusPageRow>;
+  deleteStatusPage(projectId: string): Promise<void>;
+  /** Customer-facing updates on a project's incidents since `since`, oldest first */
+  getStatusUpdates(projectId: string, since: Date): Promise<IncidentTimelineRow[]>;
 
   // Incident → Event History
   getRecentEventHistory(monitorId: string): Promise<Array<{ created_at: Date; type: string; message: string }>>;
@@ -200,17 +731,103 @@ export interface Database {
   getDistinctTraceIdsInWindow(projectId: string, minTime: number, maxTime: number, limit: number): Promise<string[]>;
   getMatchingTraceIds(traceIds: string[], pathHints: string[]): Promise<string[]>;
 
+  // Metrics (OpenTelemetry)
+  insertMetricPoint(params: {
+    project_id: string;
+    service_name: string;
+    name: string;
+    kind: string;
+    unit: string | null;
+    temporality: string | null;
+    timestamp: number;
+    value: number;
+    histogram: MetricPointRow['histogram'];
+    attributes: Record<string, unknown>;
+  }): Promise<void>;
+  getMetricBuckets(filters: MetricFilters): Promise<MetricBucketRow[]>;
+  getMetricNames(projectId: string): Promise<Array<{ name: string; kind: string; unit: string | null }>>;
+
   // Provider Status
   upsertProviderStatus(provider: string, status: string, details: string | null): Promise<void>;
   getProviderStatuses(): Promise<ProviderStatusRow[]>;
   hasRecentProviderEvent(provider: string): Promise<boolean>;
 
+  // Monitor TLS / domain expiry
+  getMonitorTls(monitorId: string): Promise<MonitorTlsRow | null>;
+  getMonitorTlsStatuses(projectId?: string): Promise<MonitorTlsRow[]>;
+  upsertMonitorTls(row: MonitorTlsRow): Promise<void>;
+
+  // Source Maps
+  upsertSourceMap(params: { project_id: string; release: string; name: string; content: string }): Promise<void>;
+  getSourceMaps(projectId: string, release?: string): Promise<SourceMapRow[]>;
+  getSourceMapContent(projectId: string, release: string, name: string): Promise<string | null>;
+  /** Release with the most recent upload, used when an error doesn't say which release it came from */
+  getLatestSourceMapRelease(projectId: string): Promise<string | null>;
+
+  // Browser replays
+  /** Does nothing if the replay was already stored, e.g. on a retried upload */
+  saveBrowserReplay(params: {
+    id: string;
+    project_id: string;
+    session_id: string | null;
+    started_at: Date;
+    ended_at: Date;
+    content: string;
+  }): Promise<void>;
+  getBrowserReplay(projectId: string, id: string): Promise<BrowserReplayRow | null>;
+  getBrowserReplayContent(projectId: string, id: string): Promise<string | null>;
+
+  // Deployments
+  /**
+   * Record a deployment, or fill in missing details of a known one. A version
+   * keeps the earliest deployed_at it was reported with.
+   */
+  recordDeployment(params: {
+    project_id: string;
+    version: string;
+    source: string;
+    environment?: string;
+    commit_sha?: string;
+    url?: string;
+    deployed_at?: Date;
+  }): Promise<DeploymentRow>;
+  getDeployments(filters: DeploymentFilters): Promise<DeploymentRow[]>;
+  /** The deployment that was live at the given time */
+  getDeploymentAt(projectId: string, at: Date): Promise<DeploymentRow | null>;
+
+  // Retention & Rollups
+  /** End of the last hour rolled up into hourly aggregates, or null before the first run */
+  getRollupWatermark(name: RollupName): Promise<Date | null>;
+  setRollupWatermark(name: RollupName, until: Date): Promise<void>;
+  getOldestEventTime(): Promise<Date | null>;
+  getOldestSpanTime(): Promise<Date | null>;
+  getEventsInRange(from: Date, to: Date): Promise<EventRow[]>;
+  /** Insert or replace hourly event counts */
+  upsertEventRollups(rows: EventRollupRow[]): Promise<void>;
+  getEventRollups(filters: EventRollupFilters): Promise<EventRollupRow[]>;
+  /** Aggregate spans that started in [from, to) into span_rollups, replacing existing rows for that hour */
+  rollupSpans(hour: Date): Promise<void>;
+  getSpanRollups(projectId: string, since: Date, until?: Date): Promise<SpanRollupRow[]>;
+  /** Add to the counts of existing buckets */
+  addWebVitalCounts(rows: WebVitalBucketRow[]): Promise<void>;
+  getWebVitalBuckets(filters: WebVitalFilters): Promise<WebVitalBucketRow[]>;
+  // Each deletes at most `limit` rows older than `before` and returns how many it deleted
+  pruneEvents(before: Date, limit: number): Promise<number>;
+  pruneSpans(before: Date, limit: number): Promise<number>;
+  pruneMetricPoints(before: Date, limit: number): Promise<number>;
+  pruneBrowserReplays(before: Date, limit: number): Promise<number>;
+  pruneRollups(before: Date, limit: number): Promise<number>;
+
   // Notification Channels
   getEnabledChannels(projectId: string): Promise<NotificationChannelRow[]>;
-  createChannel(projectId: string, type: string, webhookUrl: string): Promise<NotificationChannelRow>;
+  createChannel(
+    projectId: string, type: string, webhookUrl: string, settings?: ChannelSettings, config?: ChannelConfig
+  ): Promise<NotificationChannelRow>;
   getChannels(projectId: string): Promise<NotificationChannelRow[]>;
   deleteChannel(id: string): Promise<void>;
   toggleChannel(id: string, enabled: boolean): Promise<void>;
+  updateChannelSettings(id: string, settings: ChannelSettings): Promise<NotificationChannelRow | null>;
+  updateChannelRules(id: string, rules: ChannelRules): Promise<NotificationChannelRow | null>;
   getChannelById(id: string): Promise<NotificationChannelRow | null>;
 
   // Notification Log
@@ -218,6 +835,18 @@ export interface Database {
   getRecentNotificationCount(channelId: string): Promise<number>;
   logNotification(channelId: string, incidentId: string): Promise<void>;
 
+  // Scheduled Notifications
+  scheduleNotification(notification: NewScheduledNotification): Promise<ScheduledNotificationRow>;
+  /** Pending notifications due at or before `now`, oldest first */
+  getDueNotifications(now: Date, limit: number): Promise<ScheduledNotificationRow[]>;
+  setScheduledNotificationStatus(ids: string[], status: ScheduledNotificationStatus): Promise<void>;
+  /** Push pending notifications back, e.g. to the end of a channel's quiet hours */
+  rescheduleNotifications(ids: string[], dueAt: Date): Promise<void>;
+  /** Put notifications whose send failed back in the queue, counting the failure */
+  retryScheduledNotifications(ids: string[], dueAt: Date): Promise<void>;
+  /** Cancel an incident's pending notifications of the given kinds, returning how many were cancelled */
+  cancelScheduledNotifications(incidentId: string, kinds: ScheduledNotificationKind[]): Promise<number>;
+
   // Correlated Events (for notifications)
   getCorrelatedEvents(eventIds: string[]): Promise<Array<{ type: string; source: string; message: string; created_at: Date }>>;
 
@@ -7,17 +7,54 @@ import postgres from 'postgres';
 import type {
   Database,
   ProjectRow,
+  ApiKeyRow,
   MonitorRow,
+  MonitorConfig,
   EventRow,
   EventStatsRow,
+  MonitorDailyStatsRow,
   IncidentRow,
+  IncidentTimelineRow,
+  DiagnosisCacheRow,
+  DiagnosisFeedbackRow,
+  NewDiagnosisFeedback,
+  DiagnosisRunRow,
+  StatusPageRow,
+  StatusPageConfig,
+  NewDiagnosisRun,
   SpanRow,
+  MetricPointRow,
+  MetricBucketRow,
   ProviderStatusRow,
+  MonitorTlsRow,
+  SourceMapRow,
+  BrowserReplayRow,
+  DeploymentRow,
+  DeploymentFilters,
+  EventRollupRow,
+  EventRollupFilters,
+  SpanRollupRow,
+  WebVitalBucketRow,
+  WebVitalFilters,
+  RollupName,
+  AnomalyBaselineRow,
+  IssueRow,
+  IssueFilters,
   NotificationChannelRow,
+  ChannelSettings,
+  ChannelConfig,
+  ChannelRules,
+  ScheduledNotificationRow,
+  ScheduledNotificationKind,
+  ScheduledNotificationStatus,
+  NewIncidentTimelineEntry,
+  NewScheduledNotification,
   WaitlistRow,
   EventFilters,
+  MetricFilters,
   IncidentFilters,
 } from './index.js';
+import { fingerprintEvent, type AnomalySettings, type Event, type TransactionStepResult } from '@scanwarp/core';
 
 interface PostgresConfig {
   host: string;
@@ -66,17 +103,92 @@ export class PostgresDatabase implements Database {
     return { id: created[0].id };
   }
 
+  // ─── API Keys ───
+
+  async createApiKey(params: {
+    project_id: string; name: string; key_prefix: string; key_hash: string; scopes: string[];
+  }): Promise<ApiKeyRow> {
+    const rows = await this.sql<ApiKeyRow[]>`
+      INSERT INTO api_keys (project_id, name, key_prefix, key_hash, scopes)
+      VALUES (${params.project_id}, ${params.name}, ${params.key_prefix}, ${params.key_hash}, ${params.scopes})
+      RETURNING *
+    `;
+    return rows[0];
+  }
+
+  async getApiKeys(projectId: string): Promise<ApiKeyRow[]> {
+    return this.sql<ApiKeyRow[]>`
+      SELECT * FROM api_keys WHERE project_id = ${projectId} ORDER BY created_at DESC
+    `;
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKeyRow | null> {
+    const rows = await this.sql<ApiKeyRow[]>`SELECT * FROM api_keys WHERE key_hash = ${keyHash}`;
+    return rows[0] || null;
+  }
+
+  async revokeApiKey(id: string): Promise<void> {
+    await this.sql`UPDATE api_keys SET revoked_at = NOW() WHERE id = ${id} AND revoked_at IS NULL`;
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    await this.sql`UPDATE api_keys SET last_used_at = NOW() WHERE id = ${id}`;
+  }
+
+  async hasActiveApiKeys(): Promise<boolean> {
+    const rows = await this.sql`SELECT 1 FROM api_keys WHERE revoked_at IS NULL LIMIT 1`;
+    return rows.length > 0;
+  }
+
   // ─── Monitors ───
 
-  async createMonitor(projectId: string, url: string, checkIntervalSeconds: number): Promise<MonitorRow> {
+  async createMonitor(
+    projectId: string, url: string, checkIntervalSeconds: number, config: MonitorConfig = {}
+  ): Promise<MonitorRow> {
     const rows = await this.sql<MonitorRow[]>`
-      INSERT INTO monitors (project_id, url, check_interval_seconds)
-      VALUES (${projectId}, ${url}, ${checkIntervalSeconds})
+      INSERT INTO monitors (
+        project_id, url, check_interval_seconds,
+        method, request_headers, request_body, expected_status, assertions, timeout_ms, type, steps, failure_threshold
+      )
+      VALUES (
+        ${projectId}, ${url}, ${checkIntervalSeconds},
+        ${config.method || 'GET'},
+        ${JSON.stringify(config.request_headers || {})},
+        ${config.request_body ?? null},
+        ${config.expected_status ?? null},
+        ${JSON.stringify(config.assertions || [])},
+        ${config.timeout_ms || 10000},
+        ${config.type || 'http'},
+        ${JSON.stringify(config.steps || [])},
+        ${config.failure_threshold || 2}
+      )
       RETURNING *
     `;
     return rows[0];
   }
 
+  async updateMonitor(
+    id: string, params: MonitorConfig & { url?: string; check_interval_seconds?: number }
+  ): Promise<MonitorRow | null> {
+    const rows = await this.sql<MonitorRow[]>`
+      UPDATE monitors SET
+        url = COALESCE(${params.url ?? null}, url),
+        check_interval_seconds = COALESCE(${params.check_interval_seconds ?? null}, check_interval_seconds),
+        method = COALESCE(${params.method ?? null}, method),
+        request_headers = COALESCE(${params.request_headers ? JSON.stringify(params.request_headers) : null}::jsonb, request_headers),
+        request_body = ${params.request_body === undefined ? this.sql`request_body` : params.request_body},
+        expected_status = ${params.expected_status === undefined ? this.sql`expected_status` : params.expected_status},
+        assertions = COALESCE(${params.assertions ? JSON.stringify(params.assertions) : null}::jsonb, assertions),
+        timeout_ms = COALESCE(${params.timeout_ms ?? null}, timeout_ms),
+        type = COALESCE(${params.type ?? null}, type),
+        steps = COALESCE(${params.steps ? JSON.stringify(params.steps) : null}::jsonb, steps),
+        failure_threshold = COALESCE(${params.failure_threshold ?? null}, failure_threshold)
+      WHERE id = ${id}
+      RETURNING *
+    `;
+    return rows[0] || null;
+  }
+
   async getMonitors(): Promise<MonitorRow[]> {
     return this.sql<MonitorRow[]>`SELECT * FROM monitors ORDER BY created_at DESC`;
   }
@@ -90,6 +202,16 @@ export class PostgresDatabase implements Database {
     await this.sql`UPDATE monitors SET status = ${status}, last_checked_at = NOW() WHERE id = ${id}`;
   }
 
+  async updateMonitorStepResults(id: string, results: TransactionStepResult[]): Promise<void> {
+    await this.sql`UPDATE monitors SET last_step_results = ${JSON.stringify(results)}::jsonb WHERE id = ${id}`;
+  }
+
+  async updateMonitorFailures(id: string, consecutiveFailures: number, incidentId: string | null): Promise<void> {
+    await this.sql`
+      UPDATE monitors SET consecutive_failures = ${consecutiveFailures}, incident_id = ${incidentId} WHERE id = ${id}
+    `;
+  }
+
   // ─── Events ───
 
   async createEvent(params: {
@@ -100,32 +222,65 @@ export class PostgresDatabase implements Database {
     message: string;
     raw_data?: Record<string, unknown> | null;
     severity: string;
+    anomaly_reason?: string | null;
+    occurrences?: number;
   }): Promise<EventRow> {
+    const issue = fingerprintEvent({
+      type: params.type as Event['type'],
+      source: params.source as Event['source'],
+      message: params.message,
+      raw_data: params.raw_data ?? undefined,
+    });
+
+    // One statement, so the event and its issue count are written together
+    const groupIntoIssue = issue
+      ? this.sql`
+        , grouped AS (
+          INSERT INTO issues (project_id, fingerprint, title, culprit, type, source, severity, count, first_seen, last_seen, last_event_id)
+          SELECT project_id, ${issue.fingerprint}, ${issue.title}, ${issue.culprit}, type, source, severity, occurrences,
+            created_at, created_at, id
+          FROM inserted
+          ON CONFLICT (project_id, fingerprint) DO UPDATE SET
+            count = issues.count + EXCLUDED.count,
+            last_seen = EXCLUDED.last_seen,
+            last_event_id = EXCLUDED.last_event_id,
+            severity = EXCLUDED.severity
+        )`
+      : this.sql``;
+
     const rows = await this.sql<EventRow[]>`
-      INSERT INTO events (project_id, monitor_id, type, source, message, raw_data, severity, created_at)
-      VALUES (
-        ${params.project_id},
-        ${params.monitor_id || null},
-        ${params.type},
-        ${params.source},
-        ${params.message},
-        ${params.raw_data ? JSON.stringify(params.raw_data) : null},
-        ${params.severity},
-        NOW()
+      WITH inserted AS (
+        INSERT INTO events (project_id, monitor_id, type, source, message, raw_data, severity, anomaly_reason, fingerprint, occurrences, created_at)
+        VALUES (
+          ${params.project_id},
+          ${params.monitor_id || null},
+          ${params.type},
+          ${params.source},
+          ${params.message},
+          ${params.raw_data ? JSON.stringify(params.raw_data) : null},
+          ${params.severity},
+          ${params.anomaly_reason ?? null},
+          ${issue?.fingerprint ?? null},
+          ${params.occurrences ?? 1},
+          NOW()
+        )
+        RETURNING *
       )
-      RETURNING *
+      ${groupIntoIssue}
+      SELECT * FROM inserted
     `;
     return rows[0];
   }
 
   async getEvents(filters: EventFilters): Promise<EventRow[]> {
-    const { monitor_id, project_id, type, source, limit = 100 } = filters;
+    const { monitor_id, project_id, type, source, fingerprint, limit = 100 } = filters;
 
     let query = this.sql`SELECT * FROM events WHERE 1=1`;
     if (monitor_id) query = this.sql`${query} AND monitor_id = ${monitor_id}`;
     if (project_id) query = this.sql`${query} AND project_id = ${project_id}`;
     if (type) query = this.sql`${query} AND type = ${type}`;
     if (source) query = this.sql`${query} AND source = ${source}`;
+    if (fingerprint) query = this.sql`${query} AND fingerprint = ${fingerprint}`;
 
     return this.sql<EventRow[]>`${query} ORDER BY created_at DESC LIMIT ${limit}`;
   }
@@ -146,6 +301,35 @@ export class PostgresDatabase implements Database {
     `;
   }
 
+  async setEventAnomalyReason(eventId: string, reason: string): Promise<void> {
+    await this.sql`UPDATE events SET anomaly_reason = ${reason} WHERE id = ${eventId}`;
+  }
+
+  // ─── Issues ───
+
+  async getIssues(filters: IssueFilters): Promise<IssueRow[]> {
+    const { project_id, source, sort = 'last_seen', limit = 50 } = filters;
+
+    let query = this.sql`SELECT * FROM issues WHERE 1=1`;
+    if (project_id) query = this.sql`${query} AND project_id = ${project_id}`;
+    if (source) query = this.sql`${query} AND source = ${source}`;
+
+    const order = sort === 'count' ? this.sql`count DESC` : sort === 'first_seen' ? this.sql`first_seen DESC` : this.sql`last_seen DESC`;
+    return this.sql<IssueRow[]>`${query} ORDER BY ${order} LIMIT ${limit}`;
+  }
+
+  async getIssue(id: string): Promise<IssueRow | null> {
+    const rows = await this.sql<IssueRow[]>`SELECT * FROM issues WHERE id = ${id}`;
+    return rows[0] || null;
+  }
+
+  async getIssueByFingerprint(projectId: string, fingerprint: string): Promise<IssueRow | null> {
+    const rows = await this.sql<IssueRow[]>`
+      SELECT * FROM issues WHERE project_id = ${projectId} AND fingerprint = ${fingerprint}
+    `;
+    return rows[0] || null;
+  }
+
   // ─── Event Statistics ───
 
   async getEventStats(monitorId: string): Promise<EventStatsRow | null> {
@@ -180,56 +364,86 @@ export class PostgresDatabase implements Database {
     }
   }
 
-  async getAvgResponseTime(monitorId: string): Promise<number | null> {
-    const rows = await this.sql<Array<{ avg_response_time: number | null }>>`
-      SELECT avg_response_time FROM event_stats WHERE monitor_id = ${monitorId}
+  async recordDailyCheck(monitorId: string, isError: boolean): Promise<void> {
+    await this.sql`
+      INSERT INTO monitor_daily_stats (monitor_id, day, total_checks, failed_checks)
+      VALUES (${monitorId}, (NOW() AT TIME ZONE 'UTC')::date, 1, ${isError ? 1 : 0})
+      ON CONFLICT (monitor_id, day) DO UPDATE SET
+        total_checks = monitor_daily_stats.total_checks + 1,
+        failed_checks = monitor_daily_stats.failed_checks + EXCLUDED.failed_checks
+    `;
+  }
+
+  async getDailyCheckStats(monitorIds: string[], since: string): Promise<MonitorDailyStatsRow[]> {
+    if (monitorIds.length === 0) return [];
+    return this.sql<MonitorDailyStatsRow[]>`
+      SELECT monitor_id, to_char(day, 'YYYY-MM-DD') AS day, total_checks, failed_checks
+      FROM monitor_daily_stats
+      WHERE monitor_id = ANY(${monitorIds}) AND day >= ${since}::date
+      ORDER BY day
     `;
-    return rows[0]?.avg_response_time ?? null;
   }
 
   // ─── Anomaly Detection ───
 
-  async getSimilarErrorCount(monitorId: string, eventId: string, pattern: string): Promise<number> {
+  async getRecentFingerprintCount(projectId: string, fingerprint: string, excludeEventId: string, since: Date): Promise<number> {
     const rows = await this.sql<Array<{ count: number }>>`
       SELECT COUNT(*) as count FROM events
-      WHERE monitor_id = ${monitorId}
-        AND type IN ('error', 'down')
-        AND message ILIKE ${`%${pattern}%`}
-        AND id != ${eventId}
-        AND created_at > NOW() - INTERVAL '7 days'
+      WHERE project_id = ${projectId} AND fingerprint = ${fingerprint}
+        AND id != ${excludeEventId} AND created_at > ${since}
     `;
-    return rows[0]?.count || 0;
+    return Number(rows[0]?.count || 0);
   }
 
-  async getRecentErrorCount(monitorId: string): Promise<number> {
-    const rows = await this.sql<Array<{ count: number }>>`
-      SELECT COUNT(*) as count FROM events
-      WHERE monitor_id = ${monitorId}
-        AND type IN ('error', 'down')
-        AND created_at > NOW() - INTERVAL '1 hour'
+  async getAnomalyBaseline(projectId: string, detector: string, key: string): Promise<AnomalyBaselineRow | null> {
+    const rows = await this.sql<AnomalyBaselineRow[]>`
+      SELECT * FROM anomaly_baselines
+      WHERE project_id = ${projectId} AND detector = ${detector} AND key = ${key}
     `;
-    return rows[0]?.count || 0;
+    if (!rows[0]) return null;
+    const row = rows[0];
+    return {
+      ...row,
+      samples: Number(row.samples),
+      bucket_start: row.bucket_start === null ? null : Number(row.bucket_start),
+      bucket_count: Number(row.bucket_count),
+    };
   }
 
-  async getBaselineErrorRate(monitorId: string): Promise<number> {
-    const rows = await this.sql<Array<{ avg_per_hour: number }>>`
-      SELECT
-        COUNT(*)::NUMERIC / NULLIF(EXTRACT(EPOCH FROM (NOW() - MIN(created_at))), 0) * 3600 as avg_per_hour
-      FROM events
-      WHERE monitor_id = ${monitorId}
-        AND type IN ('error', 'down')
-        AND created_at > NOW() - INTERVAL '7 days'
-        AND created_at < NOW() - INTERVAL '1 hour'
+  async upsertAnomalyBaseline(row: AnomalyBaselineRow): Promise<void> {
+    await this.sql`
+      INSERT INTO anomaly_baselines (project_id, detector, key, mean, variance, samples, bucket_start, bucket_count, last_alert_at, updated_at)
+      VALUES (${row.project_id}, ${row.detector}, ${row.key}, ${row.mean}, ${row.variance}, ${row.samples},
+        ${row.bucket_start}, ${row.bucket_count}, ${row.last_alert_at}, NOW())
+      ON CONFLICT (project_id, detector, key) DO UPDATE SET
+        mean = EXCLUDED.mean, variance = EXCLUDED.variance, samples = EXCLUDED.samples,
+        bucket_start = EXCLUDED.bucket_start, bucket_count = EXCLUDED.bucket_count,
+        last_alert_at = EXCLUDED.last_alert_at, updated_at = EXCLUDED.updated_at
+    `;
+  }
+
+  async getAnomalySettings(projectId: string): Promise<AnomalySettings | null> {
+    const rows = await this.sql<AnomalySettings[]>`
+      SELECT sensitivity, disabled_detectors FROM anomaly_settings WHERE project_id = ${projectId}
+    `;
+    return rows[0] || null;
+  }
+
+  async updateAnomalySettings(projectId: string, settings: AnomalySettings): Promise<void> {
+    await this.sql`
+      INSERT INTO anomaly_settings (project_id, sensitivity, disabled_detectors, updated_at)
+      VALUES (${projectId}, ${settings.sensitivity}, ${JSON.stringify(settings.disabled_detectors)}, NOW())
+      ON CONFLICT (project_id) DO UPDATE SET
+        sensitivity = EXCLUDED.sensitivity, disabled_detectors = EXCLUDED.disabled_detectors, updated_at = EXCLUDED.updated_at
     `;
-    return rows[0]?.avg_per_hour || 0;
   }
 
   // ─── Incidents ───
 
-  async createIncident(projectId: string, eventIds: string[], severity: string): Promise<{ id: string }> {
+  async createIncident(projectId: string, eventIds: string[], severity: string, correlationGroup?: string | null): Promise<{ id: string }> {
     const rows = await this.sql<Array<{ id: string }>>`
-      INSERT INTO incidents (project_id, events, status, severity, created_at)
-      VALUES (${projectId}, ${JSON.stringify(eventIds)}, 'open', ${severity}, NOW())
+      INSERT INTO incidents (project_id, events, correlation_group, status, severity, created_at)
+      VALUES (${projectId}, ${JSON.stringify(eventIds)}, ${correlationGroup ?? null}, 'open', ${severity}, NOW())
       RETURNING id
     `;
     return { id: rows[0].id };
@@ -248,13 +462,26 @@ export class PostgresDatabase implements Database {
     return this.sql<IncidentRow[]>`${query} ORDER BY created_at DESC LIMIT ${limit}`;
   }
 
+  async getOpenIncidents(projectId: string): Promise<IncidentRow[]> {
+    return this.sql<IncidentRow[]>`
+      SELECT * FROM incidents WHERE project_id = ${projectId} AND status != 'resolved' ORDER BY created_at DESC
+    `;
+  }
+
+  async addIncidentEvents(id: string, eventIds: string[], severity: string): Promise<void> {
+    await this.sql`
+      UPDATE incidents SET events = events || ${JSON.stringify(eventIds)}::jsonb, severity = ${severity}
+      WHERE id = ${id}
+    `;
+  }
+
   async updateIncidentDiagnosis(id: string, diagnosis: {
     root_cause: string; suggested_fix: string; fix_prompt: string; severity: string;
   }): Promise<void> {
     await this.sql`
       UPDATE incidents
       SET diagnosis_text = ${diagnosis.root_cause}, diagnosis_fix = ${diagnosis.suggested_fix},
-          fix_prompt = ${diagnosis.fix_prompt}, severity = ${diagnosis.severity}, status = 'investigating'
+          fix_prompt = ${diagnosis.fix_prompt}, severity = ${diagnosis.severity}
       WHERE id = ${id}
     `;
   }
@@ -263,6 +490,145 @@ export class PostgresDatabase implements Database {
     await this.sql`UPDATE incidents SET status = 'resolved', resolved_at = NOW() WHERE id = ${id}`;
   }
 
+  async acknowledgeIncident(id: string, by: string | null): Promise<void> {
+    await this.sql`
+      UPDATE incidents SET status = 'investigating', acknowledged_by = ${by}, acknowledged_at = NOW()
+      WHERE id = ${id}
+    `;
+  }
+
+  async assignIncident(id: string, assignee: string | null): Promise<void> {
+    await this.sql`UPDATE incidents SET assignee = ${assignee} WHERE id = ${id}`;
+  }
+
+  async reopenIncident(id: string): Promise<void> {
+    await this.sql`
+      UPDATE incidents SET status = 'open', resolved_at = NULL, acknowledged_by = NULL, acknowledged_at = NULL
+      WHERE id = ${id}
+    `;
+  }
+
+  // ─── Incident Timeline ───
+
+  async addTimelineEntry(entry: NewIncidentTimelineEntry): Promise<IncidentTimelineRow> {
+    const rows = await this.sql<IncidentTimelineRow[]>`
+      INSERT INTO incident_timeline (incident_id, kind, actor, message, data)
+      VALUES (
+        ${entry.incident_id}, ${entry.kind}, ${entry.actor ?? null}, ${entry.message},
+        ${entry.data ? JSON.stringify(entry.data) : null}::jsonb
+      )
+      RETURNING *
+    `;
+    return rows[0];
+  }
+
+  async getIncidentTimeline(incidentId: string): Promise<IncidentTimelineRow[]> {
+    return this.sql<IncidentTimelineRow[]>`
+      SELECT * FROM incident_timeline WHERE incident_id = ${incidentId} ORDER BY created_at
+    `;
+  }
+
+  // ─── Diagnosis Cache & Feedback ───
+
+  async getCachedDiagnosis(projectId: string, key: string, since: Date): Promise<DiagnosisCacheRow | null> {
+    const rows = await this.sql<DiagnosisCacheRow[]>`
+      SELECT * FROM diagnosis_cache
+      WHERE project_id = ${projectId} AND diagnosis_key = ${key} AND created_at >= ${since}
+    `;
+    return rows[0] || null;
+  }
+
+  async saveCachedDiagnosis(entry: Omit<DiagnosisCacheRow, 'created_at'>): Promise<void> {
+    await this.sql`
+      INSERT INTO diagnosis_cache (project_id, diagnosis_key, provider, result, created_at)
+      VALUES (${entry.project_id}, ${entry.diagnosis_key}, ${entry.provider}, ${JSON.stringify(entry.result)}::jsonb, NOW())
+      ON CONFLICT (project_id, diagnosis_key) DO UPDATE SET
+        provider = EXCLUDED.provider, result = EXCLUDED.result, created_at = EXCLUDED.created_at
+    `;
+  }
+
+  async deleteCachedDiagnosis(projectId: string, key: string): Promise<void> {
+    await this.sql`DELETE FROM diagnosis_cache WHERE project_id = ${projectId} AND diagnosis_key = ${key}`;
+  }
+
+  async addDiagnosisFeedback(feedback: NewDiagnosisFeedback): Promise<DiagnosisFeedbackRow> {
+    const rows = await this.sql<DiagnosisFeedbackRow[]>`
+      INSERT INTO diagnosis_feedback
+        (incident_id, project_id, diagnosis_key, helpful, diagnosed_root_cause, actual_root_cause, author)
+      VALUES (
+        ${feedback.incident_id}, ${feedback.project_id}, ${feedback.diagnosis_key}, ${feedback.helpful},
+        ${feedback.diagnosed_root_cause}, ${feedback.actual_root_cause}, ${feedback.author}
+      )
+      RETURNING *
+    `;
+    return rows[0];
+  }
+
+  async getConfirmedRootCauses(projectId: string, key: string, limit: number): Promise<DiagnosisFeedbackRow[]> {
+    return this.sql<DiagnosisFeedbackRow[]>`
+      SELECT * FROM diagnosis_feedback
+      WHERE project_id = ${projectId} AND diagnosis_key = ${key}
+        AND (helpful OR actual_root_cause IS NOT NULL)
+      ORDER BY created_at DESC LIMIT ${limit}
+    `;
+  }
+
+  async addDiagnosisRun(run: NewDiagnosisRun): Promise<void> {
+    await this.sql`
+      INSERT INTO diagnosis_runs
+        (incident_id, project_id, provider, model, input_tokens, output_tokens, cost_usd, attempts, duration_ms, cached, error)
+      VALUES (
+        ${run.incident_id}, ${run.project_id}, ${run.provider}, ${run.model}, ${run.input_tokens}, ${run.output_tokens},
+        ${run.cost_usd}, ${run.attempts}, ${run.duration_ms}, ${run.cached}, ${run.error}
+      )
+    `;
+  }
+
+  async getDiagnosisRuns(incidentId: string): Promise<DiagnosisRunRow[]> {
+    return this.sql<DiagnosisRunRow[]>`
+      SELECT * FROM diagnosis_runs WHERE incident_id = ${incidentId} ORDER BY created_at
+    `;
+  }
+
+  // ─── Status Pages ───
+
+  async getStatusPage(projectId: string): Promise<StatusPageRow | null> {
+    const rows = await this.sql<StatusPageRow[]>`SELECT * FROM status_pages WHERE project_id = ${projectId}`;
+    return rows[0] || null;
+  }
+
+  async getStatusPageBySlug(slug: string): Promise<StatusPageRow | null> {
+    const rows = await this.sql<StatusPageRow[]>`SELECT * FROM status_pages WHERE slug = ${slug}`;
+    return rows[0] || null;
+  }
+
+  async upsertStatusPage(config: StatusPageConfig): Promise<StatusPageRow> {
+    const rows = await this.sql<StatusPageRow[]>`
+      INSERT INTO status_pages (project_id, slug, title, description, components, enabled, updated_at)
+      VALUES (
+        ${config.project_id}, ${config.slug}, ${config.title}, ${config.description},
+        ${JSON.stringify(config.components)}::jsonb, ${config.enabled}, NOW()
+      )
+      ON CONFLICT (project_id) DO UPDATE SET
+        slug = EXCLUDED.slug, title = EXCLUDED.title, description = EXCLUDED.description,
+        components = EXCLUDED.components, enabled = EXCLUDED.enabled, updated_at = EXCLUDED.updated_at
+      RETURNING *
+    `;
+    return rows[0];
+  }
+
+  async deleteStatusPage(projectId: string): Promise<void> {
+    await this.sql`DELETE FROM status_pages WHERE project_id = ${projectId}`;
+  }
+
+  async getStatusUpdates(projectId: string, since: Date): Promise<IncidentTimelineRow[]> {
+    return this.sql<IncidentTimelineRow[]>`
+      SELECT t.* FROM incident_timeline t JOIN incidents i ON i.id = t.incident_id
+      WHERE i.project_id = ${projectId} AND t.kind = 'status_update' AND t.created_at >= ${since}
+      ORDER BY t.created_at
+    `;
+  }
+
   async getRecentEventHistory(monitorId: string): Promise<Array<{ created_at: Date; type: string; message: string }>> {
     return this.sql`
       SELECT created_at, type, message FROM events
@@ -363,6 +729,61 @@ export class PostgresDatabase implements Database {
     return rows.map(r => r.trace_id);
   }
 
+  // ─── Metrics ───
+
+  async insertMetricPoint(params: {
+    project_id: string; service_name: string; name: string; kind: string; unit: string | null; temporality: string | null;
+    timestamp: number; value: number; histogram: MetricPointRow['histogram']; attributes: Record<string, unknown>;
+  }): Promise<void> {
+    await this.sql`
+      INSERT INTO metric_points (project_id, service_name, name, kind, unit, temporality, timestamp, value, histogram, attributes)
+      VALUES (
+        ${params.project_id}, ${params.service_name}, ${params.name}, ${params.kind}, ${params.unit}, ${params.temporality},
+        ${params.timestamp}, ${params.value},
+        ${params.histogram ? JSON.stringify(params.histogram) : null}, ${JSON.stringify(params.attributes)}
+      )
+    `;
+  }
+
+  async getMetricBuckets(filters: MetricFilters): Promise<MetricBucketRow[]> {
+    const { project_id, name, start_time, end_time, attributes = {}, step_ms, limit = 10000 } = filters;
+    let query = this.sql`
+      SELECT service_name, name, kind, unit, temporality, attributes,
+        ${start_time}::bigint + floor((timestamp - ${start_time}::bigint)::float8 / ${step_ms}::bigint)::bigint * ${step_ms}::bigint AS bucket,
+        SUM(value * COALESCE((histogram->>'count')::float8, 1)) AS weighted_total,
+        SUM(COALESCE((histogram->>'count')::float8, 1)) AS weight,
+        SUM(value) AS total,
+        (array_agg(value ORDER BY timestamp DESC))[1] AS last_value,
+        MAX(timestamp) AS last_timestamp
+      FROM metric_points
+      WHERE project_id = ${project_id} AND timestamp >= ${start_time} AND timestamp <= ${end_time}
+    `;
+    if (name) query = this.sql`${query} AND name = ${name}`;
+    for (const [key, value] of Object.entries(attributes)) {
+      query = this.sql`${query} AND attributes->>${key} = ${value}`;
+    }
+    const rows = await this.sql<MetricBucketRow[]>`
+      ${query}
+      GROUP BY service_name, name, kind, unit, temporality, attributes, bucket
+      ORDER BY bucket DESC LIMIT ${limit}
+    `;
+    return rows.map(r => ({
+      ...r,
+      bucket: Number(r.bucket),
+      weighted_total: Number(r.weighted_total),
+      weight: Number(r.weight),
+      total: Number(r.total),
+      last_value: Number(r.last_value),
+      last_timestamp: Number(r.last_timestamp),
+    }));
+  }
+
+  async getMetricNames(projectId: string): Promise<Array<{ name: string; kind: string; unit: string | null }>> {
+    return this.sql<Array<{ name: string; kind: string; unit: string | null }>>`
+      SELECT DISTINCT name, kind, unit FROM metric_points WHERE project_id = ${projectId} ORDER BY name
+    `;
+  }
+
   // ─── Provider Status ───
 
   async upsertProviderStatus(provider: string, status: string, details: string | null): Promise<void> {
@@ -388,28 +809,326 @@ export class PostgresDatabase implements Database {
     return rows.length > 0;
   }
 
+  // ─── Monitor TLS ───
+
+  async getMonitorTls(monitorId: string): Promise<MonitorTlsRow | null> {
+    const rows = await this.sql<MonitorTlsRow[]>`SELECT * FROM monitor_tls WHERE monitor_id = ${monitorId}`;
+    return rows[0] || null;
+  }
+
+  async getMonitorTlsStatuses(projectId?: string): Promise<MonitorTlsRow[]> {
+    if (projectId) {
+      return this.sql<MonitorTlsRow[]>`
+        SELECT t.* FROM monitor_tls t JOIN monitors m ON m.id = t.monitor_id WHERE m.project_id = ${projectId}
+      `;
+    }
+    return this.sql<MonitorTlsRow[]>`SELECT * FROM monitor_tls`;
+  }
+
+  async upsertMonitorTls(row: MonitorTlsRow): Promise<void> {
+    await this.sql`
+      INSERT INTO monitor_tls (monitor_id, hostname, valid_from, expires_at, issuer, subject, san_match, chain_valid,
+        error, alert_threshold_days, checked_at, domain_expires_at, domain_alert_threshold_days, domain_checked_at)
+      VALUES (${row.monitor_id}, ${row.hostname}, ${row.valid_from}, ${row.expires_at}, ${row.issuer}, ${row.subject},
+        ${row.san_match}, ${row.chain_valid}, ${row.error}, ${row.alert_threshold_days}, ${row.checked_at},
+        ${row.domain_expires_at}, ${row.domain_alert_threshold_days}, ${row.domain_checked_at})
+      ON CONFLICT (monitor_id) DO UPDATE SET
+        hostname = EXCLUDED.hostname, valid_from = EXCLUDED.valid_from, expires_at = EXCLUDED.expires_at,
+        issuer = EXCLUDED.issuer, subject = EXCLUDED.subject, san_match = EXCLUDED.san_match,
+        chain_valid = EXCLUDED.chain_valid, error = EXCLUDED.error,
+        alert_threshold_days = EXCLUDED.alert_threshold_days, checked_at = EXCLUDED.checked_at,
+        domain_expires_at = EXCLUDED.domain_expires_at,
+        domain_alert_threshold_days = EXCLUDED.domain_alert_threshold_days,
+        domain_checked_at = EXCLUDED.domain_checked_at
+    `;
+  }
+
+  // ─── Source Maps ───
+
+  async upsertSourceMap(params: { project_id: string; release: string; name: string; content: string }): Promise<void> {
+    await this.sql`
+      INSERT INTO source_maps (project_id, release, name, content, size, created_at)
+      VALUES (${params.project_id}, ${params.release}, ${params.name}, ${params.content}, ${Buffer.byteLength(params.content)}, NOW())
+      ON CONFLICT (project_id, release, name) DO UPDATE SET
+        content = EXCLUDED.content, size = EXCLUDED.size, created_at = EXCLUDED.created_at
+    `;
+  }
+
+  async getSourceMaps(projectId: string, release?: string): Promise<SourceMapRow[]> {
+    const releaseFilter = release ? this.sql`AND release = ${release}` : this.sql``;
+    return this.sql<SourceMapRow[]>`
+      SELECT project_id, release, name, size, created_at FROM source_maps
+      WHERE project_id = ${projectId} ${releaseFilter}
+      ORDER BY created_at DESC, name
+    `;
+  }
+
+  async getSourceMapContent(projectId: string, release: string, name: string): Promise<string | null> {
+    const rows = await this.sql<Array<{ content: string }>>`
+      SELECT content FROM source_maps
+      WHERE project_id = ${projectId} AND release = ${release} AND name = ${name}
+    `;
+    return rows[0]?.content ?? null;
+  }
+
+  async getLatestSourceMapRelease(projectId: string): Promise<string | null> {
+    const rows = await this.sql<Array<{ release: string }>>`
+      SELECT release FROM source_maps WHERE project_id = ${projectId} ORDER BY created_at DESC LIMIT 1
+    `;
+    return rows[0]?.release ?? null;
+  }
+
+  // ─── Browser Replays ───
+
+  async saveBrowserReplay(params: {
+    id: string;
+    project_id: string;
+    session_id: string | null;
+    started_at: Date;
+    ended_at: Date;
+    content: string;
+  }): Promise<void> {
+    await this.sql`
+      INSERT INTO browser_replays (project_id, id, session_id, started_at, ended_at, content, size, created_at)
+      VALUES (
+        ${params.project_id}, ${params.id}, ${params.session_id}, ${params.started_at}, ${params.ended_at},
+        ${params.content}, ${Buffer.byteLength(params.content)}, NOW()
+      )
+      ON CONFLICT (project_id, id) DO NOTHING
+    `;
+  }
+
+  async getBrowserReplay(projectId: string, id: string): Promise<BrowserReplayRow | null> {
+    const rows = await this.sql<BrowserReplayRow[]>`
+      SELECT project_id, id, session_id, started_at, ended_at, size, created_at
+      FROM browser_replays WHERE project_id = ${projectId} AND id = ${id}
+    `;
+    return rows[0] ?? null;
+  }
+
+  async getBrowserReplayContent(projectId: string, id: string): Promise<string | null> {
+    const rows = await this.sql<Array<{ content: string }>>`
+      SELECT content FROM browser_replays WHERE project_id = ${projectId} AND id = ${id}
+    `;
+    return rows[0]?.content ?? null;
+  }
+
+  // ─── Deployments ───
+
+  async recordDeployment(params: {
+    project_id: string;
+    version: string;
+    source: string;
+    environment?: string;
+    commit_sha?: string;
+    url?: string;
+    deployed_at?: Date;
+  }): Promise<DeploymentRow> {
+    const rows = await this.sql<DeploymentRow[]>`
+      INSERT INTO deployments (project_id, version, environment, commit_sha, url, source, deployed_at)
+      VALUES (
+        ${params.project_id}, ${params.version}, ${params.environment || null}, ${params.commit_sha || null},
+        ${params.url || null}, ${params.source}, ${params.deployed_at || new Date()}
+      )
+      ON CONFLICT (project_id, version) DO UPDATE SET
+        environment = COALESCE(EXCLUDED.environment, deployments.environment),
+        commit_sha = COALESCE(EXCLUDED.commit_sha, deployments.commit_sha),
+        url = COALESCE(EXCLUDED.url, deployments.url),
+        deployed_at = LEAST(EXCLUDED.deployed_at, deployments.deployed_at)
+      RETURNING *
+    `;
+    return rows[0];
+  }
+
+  async getDeployments(filters: DeploymentFilters): Promise<DeploymentRow[]> {
+    const { project_id, since, until, limit = 50 } = filters;
+
+    let query = this.sql`SELECT * FROM deployments WHERE project_id = ${project_id}`;
+    if (since) query = this.sql`${query} AND deployed_at >= ${since}`;
+    if (until) query = this.sql`${query} AND deployed_at <= ${until}`;
+
+    return this.sql<DeploymentRow[]>`${query} ORDER BY deployed_at DESC LIMIT ${limit}`;
+  }
+
+  async getDeploymentAt(projectId: string, at: Date): Promise<DeploymentRow | null> {
+    const rows = await this.sql<DeploymentRow[]>`
+      SELECT * FROM deployments
+      WHERE project_id = ${projectId} AND deployed_at <= ${at}
+      ORDER BY deployed_at DESC LIMIT 1
+    `;
+    return rows[0] || null;
+  }
+
+  // ─── Retention & Rollups ───
+
+  async getRollupWatermark(name: RollupName): Promise<Date | null> {
+    const rows = await this.sql<Array<{ rolled_up_until: Date }>>`
+      SELECT rolled_up_until FROM rollup_watermarks WHERE name = ${name}
+    `;
+    return rows[0]?.rolled_up_until ?? null;
+  }
+
+  async setRollupWatermark(name: RollupName, until: Date): Promise<void> {
+    await this.sql`
+      INSERT INTO rollup_watermarks (name, rolled_up_until) VALUES (${name}, ${until})
+      ON CONFLICT (name) DO UPDATE SET rolled_up_until = EXCLUDED.rolled_up_until
+    `;
+  }
+
+  async getOldestEventTime(): Promise<Date | null> {
+    const rows = await this.sql<Array<{ oldest: Date | null }>>`SELECT MIN(created_at) as oldest FROM events`;
+    return rows[0]?.oldest ?? null;
+  }
+
+  async getOldestSpanTime(): Promise<Date | null> {
+    const rows = await this.sql<Array<{ oldest: string | null }>>`SELECT MIN(start_time) as oldest FROM spans`;
+    return rows[0]?.oldest ? new Date(Number(rows[0].oldest)) : null;
+  }
+
+  async getEventsInRange(from: Date, to: Date): Promise<EventRow[]> {
+    return this.sql<EventRow[]>`
+      SELECT * FROM events WHERE created_at >= ${from} AND created_at < ${to}
+    `;
+  }
+
+  async upsertEventRollups(rows: EventRollupRow[]): Promise<void> {
+    for (const r of rows) {
+      await this.sql`
+        INSERT INTO event_rollups (project_id, hour, type, source, route_key, fingerprint, count)
+        VALUES (${r.project_id}, ${r.hour}, ${r.type}, ${r.source}, ${r.route_key}, ${r.fingerprint}, ${r.count})
+        ON CONFLICT (project_id, hour, type, source, route_key, fingerprint) DO UPDATE SET count = EXCLUDED.count
+      `;
+    }
+  }
+
+  async getEventRollups(filters: EventRollupFilters): Promise<EventRollupRow[]> {
+    const { project_id, since, until, types, route_key, fingerprint } = filters;
+
+    let query = this.sql`SELECT * FROM event_rollups WHERE project_id = ${project_id} AND hour >= ${since}`;
+    if (until) query = this.sql`${query} AND hour < ${until}`;
+    if (types && types.length > 0) query = this.sql`${query} AND type = ANY(${types})`;
+    if (route_key) query = this.sql`${query} AND route_key = ${route_key}`;
+    if (fingerprint) query = this.sql`${query} AND fingerprint = ${fingerprint}`;
+
+    const rows = await this.sql<EventRollupRow[]>`${query} ORDER BY hour ASC`;
+    return rows.map((r) => ({ ...r, count: Number(r.count) }));
+  }
+
+  async rollupSpans(hour: Date): Promise<void> {
+    const from = hour.getTime();
+    await this.sql`
+      INSERT INTO span_rollups (project_id, hour, service_name, operation_name, span_count, error_count, total_duration_ms, max_duration_ms)
+      SELECT project_id, ${hour}, service_name, operation_name, COUNT(*),
+             COUNT(*) FILTER (WHERE status_code = 'ERROR'), SUM(duration_ms), MAX(duration_ms)
+      FROM spans WHERE start_time >= ${from} AND start_time < ${from + 60 * 60 * 1000}
+      GROUP BY project_id, service_name, operation_name
+      ON CONFLICT (project_id, hour, service_name, operation_name) DO UPDATE SET
+        span_count = EXCLUDED.span_count, error_count = EXCLUDED.error_count,
+        total_duration_ms = EXCLUDED.total_duration_ms, max_duration_ms = EXCLUDED.max_duration_ms
+    `;
+  }
+
+  async getSpanRollups(projectId: string, since: Date, until?: Date): Promise<SpanRollupRow[]> {
+    let query = this.sql`SELECT * FROM span_rollups WHERE project_id = ${projectId} AND hour >= ${since}`;
+    if (until) query = this.sql`${query} AND hour < ${until}`;
+
+    const rows = await this.sql<SpanRollupRow[]>`${query} ORDER BY hour ASC`;
+    return rows.map((r) => ({
+      ...r,
+      span_count: Number(r.span_count),
+      error_count: Number(r.error_count),
+      total_duration_ms: Number(r.total_duration_ms),
+      max_duration_ms: Number(r.max_duration_ms),
+    }));
+  }
+
+  async addWebVitalCounts(rows: WebVitalBucketRow[]): Promise<void> {
+    for (const r of rows) {
+      await this.sql`
+        INSERT INTO web_vital_buckets (project_id, hour, route, metric, bucket, count)
+        VALUES (${r.project_id}, ${r.hour}, ${r.route}, ${r.metric}, ${r.bucket}, ${r.count})
+        ON CONFLICT (project_id, hour, route, metric, bucket) DO UPDATE SET count = web_vital_buckets.count + EXCLUDED.count
+      `;
+    }
+  }
+
+  async getWebVitalBuckets(filters: WebVitalFilters): Promise<WebVitalBucketRow[]> {
+    let query = this.sql`SELECT * FROM web_vital_buckets WHERE hour >= ${filters.since}`;
+    if (filters.until) query = this.sql`${query} AND hour < ${filters.until}`;
+    if (filters.project_id) query = this.sql`${query} AND project_id = ${filters.project_id}`;
+    return this.sql<WebVitalBucketRow[]>`${query}`;
+  }
+
+  async pruneEvents(before: Date, limit: number): Promise<number> {
+    const result = await this.sql`
+      DELETE FROM events WHERE ctid IN (SELECT ctid FROM events WHERE created_at < ${before} LIMIT ${limit})
+    `;
+    return result.count;
+  }
+
+  async pruneSpans(before: Date, limit: number): Promise<number> {
+    const result = await this.sql`
+      DELETE FROM spans WHERE ctid IN (SELECT ctid FROM spans WHERE start_time < ${before.getTime()} LIMIT ${limit})
+    `;
+    return result.count;
+  }
+
+  async pruneMetricPoints(before: Date, limit: number): Promise<number> {
+    const result = await this.sql`
+      DELETE FROM metric_points WHERE ctid IN (
+        SELECT ctid FROM metric_points WHERE timestamp < ${before.getTime()} LIMIT ${limit}
+      )
+    `;
+    return result.count;
+  }
+
+  async pruneBrowserReplays(before: Date, limit: number): Promise<number> {
+    const result = await this.sql`
+      DELETE FROM browser_replays WHERE ctid IN (
+        SELECT ctid FROM browser_replays WHERE created_at < ${before} LIMIT ${limit}
+      )
+    `;
+    return result.count;
+  }
+
+  async pruneRollups(before: Date, limit: number): Promise<number> {
+    const events = await this.sql`
+      DELETE FROM event_rollups WHERE ctid IN (SELECT ctid FROM event_rollups WHERE hour < ${before} LIMIT ${limit})
+    `;
+    const spans = await this.sql`
+      DELETE FROM span_rollups WHERE ctid IN (SELECT ctid FROM span_rollups WHERE hour < ${before} LIMIT ${limit})
+    `;
+    const vitals = await this.sql`
+      DELETE FROM web_vital_buckets WHERE ctid IN (SELECT ctid FROM web_vital_buckets WHERE hour < ${before} LIMIT ${limit})
+    `;
+    return events.count + spans.count + vitals.count;
+  }
+
   // ─── Notification Channels ───
 
   async getEnabledChannels(projectId: string): Promise<NotificationChannelRow[]> {
     return this.sql<NotificationChannelRow[]>`
-      SELECT id, project_id, type, webhook_url, enabled, created_at
-      FROM notification_channels WHERE project_id = ${projectId} AND enabled = true
+      SELECT * FROM notification_channels WHERE project_id = ${projectId} AND enabled = true
     `;
   }
 
-  async createChannel(projectId: string, type: string, webhookUrl: string): Promise<NotificationChannelRow> {
+  async createChannel(
+    projectId: string, type: string, webhookUrl: string, settings: ChannelSettings = {}, config: ChannelConfig = {}
+  ): Promise<NotificationChannelRow> {
     const rows = await this.sql<NotificationChannelRow[]>`
-      INSERT INTO notification_channels (project_id, type, webhook_url)
-      VALUES (${projectId}, ${type}, ${webhookUrl})
-      RETURNING id, project_id, type, webhook_url, enabled, created_at
+      INSERT INTO notification_channels (project_id, type, webhook_url, config, digest_interval, escalation_channel_id)
+      VALUES (
+        ${projectId}, ${type}, ${webhookUrl}, ${JSON.stringify(config)}::jsonb,
+        ${settings.digest_interval ?? 'daily'}, ${settings.escalation_channel_id ?? null}
+      )
+      RETURNING *
     `;
     return rows[0];
   }
 
   async getChannels(projectId: string): Promise<NotificationChannelRow[]> {
     return this.sql<NotificationChannelRow[]>`
-      SELECT id, project_id, type, webhook_url, enabled, created_at
-      FROM notification_channels WHERE project_id = ${projectId} ORDER BY created_at DESC
+      SELECT * FROM notification_channels WHERE project_id = ${projectId} ORDER BY created_at DESC
     `;
   }
 
@@ -421,10 +1140,29 @@ export class PostgresDatabase implements Database {
     await this.sql`UPDATE notification_channels SET enabled = ${enabled} WHERE id = ${id}`;
   }
 
+  async updateChannelSettings(id: string, settings: ChannelSettings): Promise<NotificationChannelRow | null> {
+    const rows = await this.sql<NotificationChannelRow[]>`
+      UPDATE notification_channels SET
+        digest_interval = COALESCE(${settings.digest_interval ?? null}, digest_interval),
+        escalation_channel_id = ${settings.escalation_channel_id === undefined ? this.sql`escalation_channel_id` : settings.escalation_channel_id}
+      WHERE id = ${id}
+      RETURNING *
+    `;
+    return rows[0] || null;
+  }
+
+  async updateChannelRules(id: string, rules: ChannelRules): Promise<NotificationChannelRow | null> {
+    const rows = await this.sql<NotificationChannelRow[]>`
+      UPDATE notification_channels SET rules = ${JSON.stringify(rules)}::jsonb
+      WHERE id = ${id}
+      RETURNING *
+    `;
+    return rows[0] || null;
+  }
+
   async getChannelById(id: string): Promise<NotificationChannelRow | null> {
     const rows = await this.sql<NotificationChannelRow[]>`
-      SELECT id, project_id, type, webhook_url, enabled, created_at
-      FROM notification_channels WHERE id = ${id}
+      SELECT * FROM notification_channels WHERE id = ${id}
     `;
     return rows[0] || null;
   }
@@ -450,6 +1188,57 @@ export class PostgresDatabase implements Database {
     await this.sql`INSERT INTO notification_log (channel_id, incident_id) VALUES (${channelId}, ${incidentId})`;
   }
 
+  // ─── Scheduled Notifications ───
+
+  async scheduleNotification(n: NewScheduledNotification): Promise<ScheduledNotificationRow> {
+    const rows = await this.sql<ScheduledNotificationRow[]>`
+      INSERT INTO scheduled_notifications (project_id, channel_id, incident_id, kind, due_at, attempt, context)
+      VALUES (
+        ${n.project_id}, ${n.channel_id}, ${n.incident_id}, ${n.kind}, ${n.due_at}, ${n.attempt ?? 1},
+        ${n.context ? JSON.stringify(n.context) : null}::jsonb
+      )
+      RETURNING *
+    `;
+    return rows[0];
+  }
+
+  async getDueNotifications(now: Date, limit: number): Promise<ScheduledNotificationRow[]> {
+    return this.sql<ScheduledNotificationRow[]>`
+      SELECT * FROM scheduled_notifications
+      WHERE status = 'pending' AND due_at <= ${now}
+      ORDER BY due_at LIMIT ${limit}
+    `;
+  }
+
+  async setScheduledNotificationStatus(ids: string[], status: ScheduledNotificationStatus): Promise<void> {
+    if (ids.length === 0) return;
+    await this.sql`UPDATE scheduled_notifications SET status = ${status} WHERE id = ANY(${ids}::uuid[])`;
+  }
+
+  async rescheduleNotifications(ids: string[], dueAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await this.sql`
+      UPDATE scheduled_notifications SET due_at = ${dueAt}, status = 'pending' WHERE id = ANY(${ids}::uuid[])
+    `;
+  }
+
+  async retryScheduledNotifications(ids: string[], dueAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    await this.sql`
+      UPDATE scheduled_notifications SET due_at = ${dueAt}, status = 'pending', failures = failures + 1
+      WHERE id = ANY(${ids}::uuid[])
+    `;
+  }
+
+  async cancelScheduledNotifications(incidentId: string, kinds: ScheduledNotificationKind[]): Promise<number> {
+    if (kinds.length === 0) return 0;
+    const result = await this.sql`
+      UPDATE scheduled_notifications SET status = 'cancelled'
+      WHERE incident_id = ${incidentId} AND status = 'pending' AND kind = ANY(${kinds})
+    `;
+    return result.count;
+  }
+
   async getCorrelatedEvents(eventIds: string[]): Promise<Array<{ type: string; source: string; message: string; created_at: Date }>> {
     if (eventIds.length === 0) return [];
     return this.sql`
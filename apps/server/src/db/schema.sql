@@ -7,6 +7,21 @@ CREATE TABLE IF NOT EXISTS projects (
   created_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Project-scoped API keys (only the SHA-256 hash of the key is stored)
+CREATE TABLE IF NOT EXISTS api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  key_prefix VARCHAR(32) NOT NULL,
+  key_hash VARCHAR(64) NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT ARRAY['read'],
+  created_at TIMESTAMP DEFAULT NOW(),
+  last_used_at TIMESTAMP,
+  revoked_at TIMESTAMP
+);
+
+CREATE INDEX idx_api_keys_project_id ON api_keys(project_id);
+
 -- Monitors table
 CREATE TABLE IF NOT EXISTS monitors (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -15,7 +30,19 @@ CREATE TABLE IF NOT EXISTS monitors (
   check_interval_seconds INTEGER NOT NULL DEFAULT 60,
   last_checked_at TIMESTAMP,
   status VARCHAR(50) DEFAULT 'unknown',
-  created_at TIMESTAMP DEFAULT NOW()
+  created_at TIMESTAMP DEFAULT NOW(),
+  method VARCHAR(10) NOT NULL DEFAULT 'GET',
+  request_headers JSONB NOT NULL DEFAULT '{}',
+  request_body TEXT,
+  expected_status VARCHAR(100),
+  assertions JSONB NOT NULL DEFAULT '[]',
+  timeout_ms INTEGER NOT NULL DEFAULT 10000,
+  type VARCHAR(20) NOT NULL DEFAULT 'http',
+  steps JSONB NOT NULL DEFAULT '[]',
+  last_step_results JSONB,
+  failure_threshold INTEGER NOT NULL DEFAULT 2,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  incident_id UUID
 );
 
 CREATE INDEX idx_monitors_project_id ON monitors(project_id);
@@ -31,6 +58,9 @@ CREATE TABLE IF NOT EXISTS events (
   message TEXT NOT NULL,
   raw_data JSONB,
   severity VARCHAR(20) NOT NULL,
+  anomaly_reason TEXT,
+  fingerprint VARCHAR(32),
+  occurrences INTEGER NOT NULL DEFAULT 1,
   created_at TIMESTAMP DEFAULT NOW()
 );
 
@@ -40,6 +70,25 @@ CREATE INDEX idx_events_type ON events(type);
 CREATE INDEX idx_events_source ON events(source);
 CREATE INDEX idx_events_created_at ON events(created_at);
 
+-- Error events grouped by fingerprint
+CREATE TABLE IF NOT EXISTS issues (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  fingerprint VARCHAR(32) NOT NULL,
+  title TEXT NOT NULL,
+  culprit TEXT,
+  type VARCHAR(50) NOT NULL,
+  source VARCHAR(50) NOT NULL,
+  severity VARCHAR(20) NOT NULL,
+  count INTEGER NOT NULL DEFAULT 1,
+  first_seen TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_seen TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_event_id UUID,
+  UNIQUE (project_id, fingerprint)
+);
+
+CREATE INDEX idx_issues_last_seen ON issues(project_id, last_seen);
+
 -- Event statistics for anomaly detection
 CREATE TABLE IF NOT EXISTS event_stats (
   monitor_id UUID PRIMARY KEY REFERENCES monitors(id) ON DELETE CASCADE,
@@ -50,6 +99,15 @@ CREATE TABLE IF NOT EXISTS event_stats (
   updated_at TIMESTAMP DEFAULT NOW()
 );
 
+-- Checks per monitor per UTC day, for the status page's uptime history
+CREATE TABLE IF NOT EXISTS monitor_daily_stats (
+  monitor_id UUID NOT NULL REFERENCES monitors(id) ON DELETE CASCADE,
+  day DATE NOT NULL,
+  total_checks INTEGER NOT NULL DEFAULT 0,
+  failed_checks INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (monitor_id, day)
+);
+
 -- Incidents table for AI diagnosis
 CREATE TABLE IF NOT EXISTS incidents (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -61,6 +119,9 @@ CREATE TABLE IF NOT EXISTS incidents (
   diagnosis_fix TEXT,
   severity VARCHAR(20) NOT NULL,
   fix_prompt TEXT,
+  acknowledged_by VARCHAR(255),
+  acknowledged_at TIMESTAMP,
+  assignee VARCHAR(255),
   created_at TIMESTAMP DEFAULT NOW(),
   resolved_at TIMESTAMP
 );
@@ -68,8 +129,76 @@ CREATE TABLE IF NOT EXISTS incidents (
 CREATE INDEX idx_incidents_project_id ON incidents(project_id);
 CREATE INDEX idx_incidents_correlation_group ON incidents(correlation_group);
 CREATE INDEX idx_incidents_status ON incidents(status);
+
+-- Append-only history of each incident: status changes, notifications, comments
+CREATE TABLE IF NOT EXISTS incident_timeline (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL,
+  actor VARCHAR(255),
+  message TEXT NOT NULL,
+  data JSONB,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_incident_timeline_incident ON incident_timeline(incident_id, created_at);
+
+-- Diagnoses reused by later incidents with the same errors
+CREATE TABLE IF NOT EXISTS diagnosis_cache (
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  diagnosis_key TEXT NOT NULL,
+  provider VARCHAR(50) NOT NULL,
+  result JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (project_id, diagnosis_key)
+);
+
+-- Whether a diagnosis was right; confirmed causes are given to later diagnoses
+CREATE TABLE IF NOT EXISTS diagnosis_feedback (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  diagnosis_key TEXT,
+  helpful BOOLEAN NOT NULL,
+  diagnosed_root_cause TEXT,
+  actual_root_cause TEXT,
+  author VARCHAR(255),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_diagnosis_feedback_key ON diagnosis_feedback(project_id, diagnosis_key, created_at);
+
+-- Every diagnosis of an incident, with its token usage and estimated cost
+CREATE TABLE IF NOT EXISTS diagnosis_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  provider VARCHAR(50) NOT NULL,
+  model VARCHAR(255),
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd DOUBLE PRECISION,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  cached BOOLEAN NOT NULL DEFAULT FALSE,
+  error TEXT,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_diagnosis_runs_incident ON diagnosis_runs(incident_id, created_at);
 CREATE INDEX idx_incidents_created_at ON incidents(created_at);
 
+-- Public status pages, one per project
+CREATE TABLE IF NOT EXISTS status_pages (
+  project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  slug VARCHAR(64) NOT NULL UNIQUE,
+  title VARCHAR(255) NOT NULL,
+  description TEXT,
+  components JSONB NOT NULL DEFAULT '[]',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
 -- Provider status table
 CREATE TABLE IF NOT EXISTS provider_status (
   provider VARCHAR(100) PRIMARY KEY,
@@ -80,13 +209,101 @@ CREATE TABLE IF NOT EXISTS provider_status (
 
 CREATE INDEX idx_provider_status_last_checked ON provider_status(last_checked_at);
 
+-- Rolling baselines kept by the anomaly detectors
+CREATE TABLE IF NOT EXISTS anomaly_baselines (
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  detector VARCHAR(100) NOT NULL,
+  key TEXT NOT NULL,
+  mean DOUBLE PRECISION NOT NULL DEFAULT 0,
+  variance DOUBLE PRECISION NOT NULL DEFAULT 0,
+  samples INTEGER NOT NULL DEFAULT 0,
+  bucket_start BIGINT,
+  bucket_count INTEGER NOT NULL DEFAULT 0,
+  last_alert_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (project_id, detector, key)
+);
+
+-- Per-project anomaly detection settings
+CREATE TABLE IF NOT EXISTS anomaly_settings (
+  project_id UUID PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  sensitivity VARCHAR(20) NOT NULL DEFAULT 'medium',
+  disabled_detectors JSONB NOT NULL DEFAULT '[]',
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- TLS certificate and domain expiry per monitor
+CREATE TABLE IF NOT EXISTS monitor_tls (
+  monitor_id UUID PRIMARY KEY REFERENCES monitors(id) ON DELETE CASCADE,
+  hostname VARCHAR(255) NOT NULL,
+  valid_from TIMESTAMP,
+  expires_at TIMESTAMP,
+  issuer TEXT,
+  subject TEXT,
+  san_match BOOLEAN,
+  chain_valid BOOLEAN,
+  error TEXT,
+  alert_threshold_days INTEGER,
+  checked_at TIMESTAMP,
+  domain_expires_at TIMESTAMP,
+  domain_alert_threshold_days INTEGER,
+  domain_checked_at TIMESTAMP
+);
+
+-- Uploaded source maps, for symbolicating browser stack traces
+CREATE TABLE IF NOT EXISTS source_maps (
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  release VARCHAR(200) NOT NULL,
+  name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (project_id, release, name)
+);
+
+CREATE INDEX idx_source_maps_created_at ON source_maps(project_id, created_at);
+
+-- DOM recordings from before browser errors, referenced by the error's replayId
+CREATE TABLE IF NOT EXISTS browser_replays (
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  id VARCHAR(64) NOT NULL,
+  session_id TEXT,
+  started_at TIMESTAMP NOT NULL,
+  ended_at TIMESTAMP NOT NULL,
+  content TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  PRIMARY KEY (project_id, id)
+);
+
+CREATE INDEX idx_browser_replays_created_at ON browser_replays(created_at);
+
+-- Deployed versions, reported via POST /deployments or seen in telemetry
+CREATE TABLE IF NOT EXISTS deployments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  version VARCHAR(200) NOT NULL,
+  environment VARCHAR(100),
+  commit_sha VARCHAR(100),
+  url TEXT,
+  source VARCHAR(50) NOT NULL,
+  deployed_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  UNIQUE (project_id, version)
+);
+
+CREATE INDEX idx_deployments_deployed_at ON deployments(project_id, deployed_at);
+
 -- Notification channels table
 CREATE TABLE IF NOT EXISTS notification_channels (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
   project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
   type VARCHAR(50) NOT NULL,
   webhook_url TEXT NOT NULL,
+  config JSONB NOT NULL DEFAULT '{}',
   enabled BOOLEAN DEFAULT true,
+  digest_interval VARCHAR(10) NOT NULL DEFAULT 'daily',
+  escalation_channel_id UUID REFERENCES notification_channels(id) ON DELETE SET NULL,
+  rules JSONB NOT NULL DEFAULT '{}',
   created_at TIMESTAMP DEFAULT NOW()
 );
 
@@ -104,6 +321,24 @@ CREATE TABLE IF NOT EXISTS notification_log (
 CREATE INDEX idx_notification_log_channel_id ON notification_log(channel_id);
 CREATE INDEX idx_notification_log_sent_at ON notification_log(sent_at);
 
+-- Notifications waiting to be sent: held warnings, digest entries and escalations
+CREATE TABLE IF NOT EXISTS scheduled_notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  channel_id UUID NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL,
+  due_at TIMESTAMP NOT NULL,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  failures INTEGER NOT NULL DEFAULT 0,
+  context JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_scheduled_notifications_due ON scheduled_notifications(status, due_at);
+CREATE INDEX idx_scheduled_notifications_incident ON scheduled_notifications(incident_id);
+
 -- Waitlist entries
 CREATE TABLE IF NOT EXISTS waitlist (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -138,6 +373,72 @@ CREATE INDEX idx_spans_trace_id ON spans(trace_id);
 CREATE INDEX idx_spans_start_time ON spans(start_time);
 CREATE INDEX idx_spans_project_start ON spans(project_id, start_time);
 
+-- OpenTelemetry metric data points (gauge, sum and histogram)
+CREATE TABLE IF NOT EXISTS metric_points (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id TEXT NOT NULL,
+  service_name TEXT NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  unit TEXT,
+  temporality TEXT,
+  timestamp BIGINT NOT NULL,
+  value DOUBLE PRECISION NOT NULL,
+  histogram JSONB,
+  attributes JSONB DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_metric_points_project_name_time ON metric_points(project_id, name, timestamp);
+
+-- Hourly event counts, kept after raw events are pruned
+CREATE TABLE IF NOT EXISTS event_rollups (
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  hour TIMESTAMP NOT NULL,
+  type VARCHAR(50) NOT NULL,
+  source VARCHAR(50) NOT NULL,
+  route_key TEXT NOT NULL,
+  fingerprint VARCHAR(32) NOT NULL DEFAULT '',
+  count INTEGER NOT NULL,
+  PRIMARY KEY (project_id, hour, type, source, route_key, fingerprint)
+);
+
+CREATE INDEX idx_event_rollups_hour ON event_rollups(hour);
+
+-- Hourly span counts and durations, kept after raw spans are pruned
+CREATE TABLE IF NOT EXISTS span_rollups (
+  project_id TEXT NOT NULL,
+  hour TIMESTAMP NOT NULL,
+  service_name TEXT NOT NULL,
+  operation_name TEXT NOT NULL,
+  span_count INTEGER NOT NULL,
+  error_count INTEGER NOT NULL,
+  total_duration_ms BIGINT NOT NULL,
+  max_duration_ms INTEGER NOT NULL,
+  PRIMARY KEY (project_id, hour, service_name, operation_name)
+);
+
+CREATE INDEX idx_span_rollups_hour ON span_rollups(hour);
+
+-- Hourly histograms of browser page-load metrics per route
+CREATE TABLE IF NOT EXISTS web_vital_buckets (
+  project_id TEXT NOT NULL,
+  hour TIMESTAMP NOT NULL,
+  route TEXT NOT NULL,
+  metric VARCHAR(30) NOT NULL,
+  bucket INTEGER NOT NULL,
+  count INTEGER NOT NULL,
+  PRIMARY KEY (project_id, hour, route, metric, bucket)
+);
+
+CREATE INDEX idx_web_vital_buckets_hour ON web_vital_buckets(hour);
+
+-- How far each raw table has been rolled up
+CREATE TABLE IF NOT EXISTS rollup_watermarks (
+  name VARCHAR(50) PRIMARY KEY,
+  rolled_up_until TIMESTAMP NOT NULL
+);
+
 -- Legacy webhook events (keeping for compatibility)
 CREATE TABLE IF NOT EXISTS webhook_events (
   id SERIAL PRIMARY KEY,
@@ -150,3 +451,33 @@ CREATE TABLE IF NOT EXISTS webhook_events (
 
 CREATE INDEX idx_webhook_events_service ON webhook_events(service);
 CREATE INDEX idx_webhook_events_timestamp ON webhook_events(timestamp);
+
+-- ─── Upgrades ───
+-- Columns added after the original schema. Safe to re-run on any database.
+
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS method VARCHAR(10) NOT NULL DEFAULT 'GET';
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS request_headers JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS request_body TEXT;
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS expected_status VARCHAR(100);
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS assertions JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS timeout_ms INTEGER NOT NULL DEFAULT 10000;
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS type VARCHAR(20) NOT NULL DEFAULT 'http';
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS steps JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS last_step_results JSONB;
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS failure_threshold INTEGER NOT NULL DEFAULT 2;
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS consecutive_failures INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE monitors ADD COLUMN IF NOT EXISTS incident_id UUID;
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS acknowledged_by VARCHAR(255);
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMP;
+ALTER TABLE incidents ADD COLUMN IF NOT EXISTS assignee VARCHAR(255);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS anomaly_reason TEXT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS fingerprint VARCHAR(32);
+CREATE INDEX IF NOT EXISTS idx_events_fingerprint ON events(project_id, fingerprint);
+CREATE INDEX IF NOT EXISTS idx_metric_points_timestamp ON metric_points(timestamp);
+ALTER TABLE notification_channels ADD COLUMN IF NOT EXISTS config JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE notification_channels ADD COLUMN IF NOT EXISTS digest_interval VARCHAR(10) NOT NULL DEFAULT 'daily';
+ALTER TABLE notification_channels ADD COLUMN IF NOT EXISTS escalation_channel_id UUID REFERENCES notification_channels(id) ON DELETE SET NULL;
+ALTER TABLE notification_channels ADD COLUMN IF NOT EXISTS rules JSONB NOT NULL DEFAULT '{}';
+ALTER TABLE metric_points ADD COLUMN IF NOT EXISTS temporality TEXT;
+ALTER TABLE events ADD COLUMN IF NOT EXISTS occurrences INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE scheduled_notifications ADD COLUMN IF NOT EXISTS failures INTEGER NOT NULL DEFAULT 0;
@@ -14,19 +14,64 @@ import crypto from 'crypto';
 import type {
   Database as DatabaseInterface,
   ProjectRow,
+  ApiKeyRow,
   MonitorRow,
+  MonitorConfig,
   EventRow,
   EventStatsRow,
+  MonitorDailyStatsRow,
   IncidentRow,
+  IncidentTimelineKind,
+  IncidentTimelineRow,
+  DiagnosisCacheRow,
+  DiagnosisFeedbackRow,
+  NewDiagnosisFeedback,
+  DiagnosisRunRow,
+  NewDiagnosisRun,
+  StatusPageRow,
+  StatusPageConfig,
+  StatusPageComponent,
   SpanRow,
+  MetricPointRow,
+  MetricBucketRow,
   ProviderStatusRow,
+  MonitorTlsRow,
+  SourceMapRow,
+  BrowserReplayRow,
+  DeploymentRow,
+  DeploymentFilters,
+  EventRollupRow,
+  EventRollupFilters,
+  SpanRollupRow,
+  RollupName,
+  WebVitalBucketRow,
+  WebVitalFilters,
+  AnomalyBaselineRow,
+  IssueRow,
+  IssueFilters,
   NotificationChannelRow,
+  ChannelSettings,
+  ChannelConfig,
+  ChannelRules,
+  ScheduledNotificationRow,
+  ScheduledNotificationKind,
+  ScheduledNotificationStatus,
+  NewIncidentTimelineEntry,
+  NewScheduledNotification,
   WaitlistRow,
   EventFilters,
+  MetricFilters,
   IncidentFilters,
 } from './index.js';
+import {
+  fingerprintEvent,
+  type AnomalySettings,
+  type DiagnosisResult,
+  type Event,
+  type TransactionStepResult,
+} from '@scanwarp/core';
 
-const SCHEMA_VERSION = 1;
+const SCHEMA_VERSION = 24;
 
 const SCHEMA_SQL = `
 CREATE TABLE IF NOT EXISTS _meta (
@@ -40,6 +85,19 @@ CREATE TABLE IF NOT EXISTS projects (
   created_at TEXT DEFAULT (datetime('now'))
 );
 
+CREATE TABLE IF NOT EXISTS api_keys (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT NOT NULL DEFAULT '["read"]',
+  created_at TEXT DEFAULT (datetime('now')),
+  last_used_at TEXT,
+  revoked_at TEXT
+);
+CREATE INDEX IF NOT EXISTS idx_api_keys_project_id ON api_keys(project_id);
+
 CREATE TABLE IF NOT EXISTS monitors (
   id TEXT PRIMARY KEY,
   project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
@@ -47,7 +105,19 @@ CREATE TABLE IF NOT EXISTS monitors (
   check_interval_seconds INTEGER NOT NULL DEFAULT 60,
   last_checked_at TEXT,
   status TEXT DEFAULT 'unknown',
-  created_at TEXT DEFAULT (datetime('now'))
+  created_at TEXT DEFAULT (datetime('now')),
+  method TEXT NOT NULL DEFAULT 'GET',
+  request_headers TEXT NOT NULL DEFAULT '{}',
+  request_body TEXT,
+  expected_status TEXT,
+  assertions TEXT NOT NULL DEFAULT '[]',
+  timeout_ms INTEGER NOT NULL DEFAULT 10000,
+  type TEXT NOT NULL DEFAULT 'http',
+  steps TEXT NOT NULL DEFAULT '[]',
+  last_step_results TEXT,
+  failure_threshold INTEGER NOT NULL DEFAULT 2,
+  consecutive_failures INTEGER NOT NULL DEFAULT 0,
+  incident_id TEXT
 );
 CREATE INDEX IF NOT EXISTS idx_monitors_project_id ON monitors(project_id);
 
@@ -60,12 +130,33 @@ CREATE TABLE IF NOT EXISTS events (
   message TEXT NOT NULL,
   raw_data TEXT,
   severity TEXT NOT NULL,
+  anomaly_reason TEXT,
+  fingerprint TEXT,
+  occurrences INTEGER NOT NULL DEFAULT 1,
   created_at TEXT DEFAULT (datetime('now'))
 );
 CREATE INDEX IF NOT EXISTS idx_events_project_id ON events(project_id);
 CREATE INDEX IF NOT EXISTS idx_events_monitor_id ON events(monitor_id);
 CREATE INDEX IF NOT EXISTS idx_events_type ON events(type);
 CREATE INDEX IF NOT EXISTS idx_events_created_at ON events(created_at);
+CREATE INDEX IF NOT EXISTS idx_events_fingerprint ON events(project_id, fingerprint);
+
+CREATE TABLE IF NOT EXISTS issues (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  fingerprint TEXT NOT NULL,
+  title TEXT NOT NULL,
+  culprit TEXT,
+  type TEXT NOT NULL,
+  source TEXT NOT NULL,
+  severity TEXT NOT NULL,
+  count INTEGER NOT NULL DEFAULT 1,
+  first_seen TEXT NOT NULL,
+  last_seen TEXT NOT NULL,
+  last_event_id TEXT,
+  UNIQUE (project_id, fingerprint)
+);
+CREATE INDEX IF NOT EXISTS idx_issues_last_seen ON issues(project_id, last_seen);
 
 CREATE TABLE IF NOT EXISTS event_stats (
   monitor_id TEXT PRIMARY KEY REFERENCES monitors(id) ON DELETE CASCADE,
@@ -76,6 +167,14 @@ CREATE TABLE IF NOT EXISTS event_stats (
   updated_at TEXT DEFAULT (datetime('now'))
 );
 
+CREATE TABLE IF NOT EXISTS monitor_daily_stats (
+  monitor_id TEXT NOT NULL REFERENCES monitors(id) ON DELETE CASCADE,
+  day TEXT NOT NULL,
+  total_checks INTEGER NOT NULL DEFAULT 0,
+  failed_checks INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (monitor_id, day)
+);
+
 CREATE TABLE IF NOT EXISTS incidents (
   id TEXT PRIMARY KEY,
   project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
@@ -86,12 +185,75 @@ CREATE TABLE IF NOT EXISTS incidents (
   diagnosis_fix TEXT,
   severity TEXT NOT NULL,
   fix_prompt TEXT,
+  acknowledged_by TEXT,
+  acknowledged_at TEXT,
+  assignee TEXT,
   created_at TEXT DEFAULT (datetime('now')),
   resolved_at TEXT
 );
 CREATE INDEX IF NOT EXISTS idx_incidents_project_id ON incidents(project_id);
 CREATE INDEX IF NOT EXISTS idx_incidents_status ON incidents(status);
 
+CREATE TABLE IF NOT EXISTS incident_timeline (
+  id TEXT PRIMARY KEY,
+  incident_id TEXT NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  actor TEXT,
+  message TEXT NOT NULL,
+  data TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_incident_timeline_incident ON incident_timeline(incident_id, created_at);
+
+CREATE TABLE IF NOT EXISTS diagnosis_cache (
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  diagnosis_key TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  result TEXT NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (project_id, diagnosis_key)
+);
+
+CREATE TABLE IF NOT EXISTS diagnosis_feedback (
+  id TEXT PRIMARY KEY,
+  incident_id TEXT NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  diagnosis_key TEXT,
+  helpful INTEGER NOT NULL,
+  diagnosed_root_cause TEXT,
+  actual_root_cause TEXT,
+  author TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_diagnosis_feedback_key ON diagnosis_feedback(project_id, diagnosis_key, created_at);
+
+CREATE TABLE IF NOT EXISTS diagnosis_runs (
+  id TEXT PRIMARY KEY,
+  incident_id TEXT NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL,
+  model TEXT,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL,
+  attempts INTEGER NOT NULL DEFAULT 1,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  cached INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_diagnosis_runs_incident ON diagnosis_runs(incident_id, created_at);
+
+CREATE TABLE IF NOT EXISTS status_pages (
+  project_id TEXT PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  slug TEXT NOT NULL UNIQUE,
+  title TEXT NOT NULL,
+  description TEXT,
+  components TEXT NOT NULL DEFAULT '[]',
+  enabled INTEGER NOT NULL DEFAULT 1,
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
 CREATE TABLE IF NOT EXISTS provider_status (
   provider TEXT PRIMARY KEY,
   status TEXT NOT NULL,
@@ -99,12 +261,91 @@ CREATE TABLE IF NOT EXISTS provider_status (
   details TEXT
 );
 
+CREATE TABLE IF NOT EXISTS anomaly_baselines (
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  detector TEXT NOT NULL,
+  key TEXT NOT NULL,
+  mean REAL NOT NULL DEFAULT 0,
+  variance REAL NOT NULL DEFAULT 0,
+  samples INTEGER NOT NULL DEFAULT 0,
+  bucket_start INTEGER,
+  bucket_count INTEGER NOT NULL DEFAULT 0,
+  last_alert_at TEXT,
+  updated_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (project_id, detector, key)
+);
+
+CREATE TABLE IF NOT EXISTS anomaly_settings (
+  project_id TEXT PRIMARY KEY REFERENCES projects(id) ON DELETE CASCADE,
+  sensitivity TEXT NOT NULL DEFAULT 'medium',
+  disabled_detectors TEXT NOT NULL DEFAULT '[]',
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE TABLE IF NOT EXISTS monitor_tls (
+  monitor_id TEXT PRIMARY KEY REFERENCES monitors(id) ON DELETE CASCADE,
+  hostname TEXT NOT NULL,
+  valid_from TEXT,
+  expires_at TEXT,
+  issuer TEXT,
+  subject TEXT,
+  san_match INTEGER,
+  chain_valid INTEGER,
+  error TEXT,
+  alert_threshold_days INTEGER,
+  checked_at TEXT,
+  domain_expires_at TEXT,
+  domain_alert_threshold_days INTEGER,
+  domain_checked_at TEXT
+);
+
+CREATE TABLE IF NOT EXISTS source_maps (
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  release TEXT NOT NULL,
+  name TEXT NOT NULL,
+  content TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (project_id, release, name)
+);
+CREATE INDEX IF NOT EXISTS idx_source_maps_created_at ON source_maps(project_id, created_at);
+
+CREATE TABLE IF NOT EXISTS browser_replays (
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  id TEXT NOT NULL,
+  session_id TEXT,
+  started_at TEXT NOT NULL,
+  ended_at TEXT NOT NULL,
+  content TEXT NOT NULL,
+  size INTEGER NOT NULL,
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (project_id, id)
+);
+CREATE INDEX IF NOT EXISTS idx_browser_replays_created_at ON browser_replays(created_at);
+
+CREATE TABLE IF NOT EXISTS deployments (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  version TEXT NOT NULL,
+  environment TEXT,
+  commit_sha TEXT,
+  url TEXT,
+  source TEXT NOT NULL,
+  deployed_at TEXT NOT NULL,
+  UNIQUE (project_id, version)
+);
+CREATE INDEX IF NOT EXISTS idx_deployments_deployed_at ON deployments(project_id, deployed_at);
+
 CREATE TABLE IF NOT EXISTS notification_channels (
   id TEXT PRIMARY KEY,
   project_id TEXT REFERENCES projects(id) ON DELETE CASCADE,
   type TEXT NOT NULL,
   webhook_url TEXT NOT NULL,
+  config TEXT NOT NULL DEFAULT '{}',
   enabled INTEGER DEFAULT 1,
+  digest_interval TEXT NOT NULL DEFAULT 'daily',
+  escalation_channel_id TEXT REFERENCES notification_channels(id) ON DELETE SET NULL,
+  rules TEXT NOT NULL DEFAULT '{}',
   created_at TEXT DEFAULT (datetime('now'))
 );
 CREATE INDEX IF NOT EXISTS idx_notification_channels_project_id ON notification_channels(project_id);
@@ -117,6 +358,22 @@ CREATE TABLE IF NOT EXISTS notification_log (
 );
 CREATE INDEX IF NOT EXISTS idx_notification_log_channel_id ON notification_log(channel_id);
 
+CREATE TABLE IF NOT EXISTS scheduled_notifications (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  channel_id TEXT NOT NULL REFERENCES notification_channels(id) ON DELETE CASCADE,
+  incident_id TEXT NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL,
+  due_at TEXT NOT NULL,
+  attempt INTEGER NOT NULL DEFAULT 1,
+  failures INTEGER NOT NULL DEFAULT 0,
+  context TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  created_at TEXT DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_due ON scheduled_notifications(status, due_at);
+CREATE INDEX IF NOT EXISTS idx_scheduled_notifications_incident ON scheduled_notifications(incident_id);
+
 CREATE TABLE IF NOT EXISTS waitlist (
   id TEXT PRIMARY KEY,
   email TEXT NOT NULL UNIQUE,
@@ -144,6 +401,64 @@ CREATE INDEX IF NOT EXISTS idx_spans_project_id ON spans(project_id);
 CREATE INDEX IF NOT EXISTS idx_spans_trace_id ON spans(trace_id);
 CREATE INDEX IF NOT EXISTS idx_spans_start_time ON spans(start_time);
 
+CREATE TABLE IF NOT EXISTS metric_points (
+  id TEXT PRIMARY KEY,
+  project_id TEXT NOT NULL,
+  service_name TEXT NOT NULL,
+  name TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  unit TEXT,
+  temporality TEXT,
+  timestamp INTEGER NOT NULL,
+  value REAL NOT NULL,
+  histogram TEXT,
+  attributes TEXT DEFAULT '{}',
+  created_at TEXT DEFAULT (datetime('now'))
+);
+CREATE INDEX IF NOT EXISTS idx_metric_points_project_name_time ON metric_points(project_id, name, timestamp);
+CREATE INDEX IF NOT EXISTS idx_metric_points_timestamp ON metric_points(timestamp);
+
+CREATE TABLE IF NOT EXISTS event_rollups (
+  project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  hour TEXT NOT NULL,
+  type TEXT NOT NULL,
+  source TEXT NOT NULL,
+  route_key TEXT NOT NULL,
+  fingerprint TEXT NOT NULL DEFAULT '',
+  count INTEGER NOT NULL,
+  PRIMARY KEY (project_id, hour, type, source, route_key, fingerprint)
+);
+CREATE INDEX IF NOT EXISTS idx_event_rollups_hour ON event_rollups(hour);
+
+CREATE TABLE IF NOT EXISTS span_rollups (
+  project_id TEXT NOT NULL,
+  hour TEXT NOT NULL,
+  service_name TEXT NOT NULL,
+  operation_name TEXT NOT NULL,
+  span_count INTEGER NOT NULL,
+  error_count INTEGER NOT NULL,
+  total_duration_ms INTEGER NOT NULL,
+  max_duration_ms INTEGER NOT NULL,
+  PRIMARY KEY (project_id, hour, service_name, operation_name)
+);
+CREATE INDEX IF NOT EXISTS idx_span_rollups_hour ON span_rollups(hour);
+
+CREATE TABLE IF NOT EXISTS web_vital_buckets (
+  project_id TEXT NOT NULL,
+  hour TEXT NOT NULL,
+  route TEXT NOT NULL,
+  metric TEXT NOT NULL,
+  bucket INTEGER NOT NULL,
+  count INTEGER NOT NULL,
+  PRIMARY KEY (project_id, hour, route, metric, bucket)
+);
+CREATE INDEX IF NOT EXISTS idx_web_vital_buckets_hour ON web_vital_buckets(hour);
+
+CREATE TABLE IF NOT EXISTS rollup_watermarks (
+  name TEXT PRIMARY KEY,
+  rolled_up_until TEXT NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS webhook_events (
   id INTEGER PRIMARY KEY AUTOINCREMENT,
   event TEXT NOT NULL,
@@ -154,6 +469,42 @@ CREATE TABLE IF NOT EXISTS webhook_events (
 );
 `;
 
+// Columns added to tables that existed in earlier schema versions.
+// Fresh databases get them from SCHEMA_SQL; upgrades add whichever are missing.
+const ADDED_COLUMNS: Array<[table: string, column: string, definition: string]> = [
+  ['monitors', 'method', "TEXT NOT NULL DEFAULT 'GET'"],
+  ['monitors', 'request_headers', "TEXT NOT NULL DEFAULT '{}'"],
+  ['monitors', 'request_body', 'TEXT'],
+  ['monitors', 'expected_status', 'TEXT'],
+  ['monitors', 'assertions', "TEXT NOT NULL DEFAULT '[]'"],
+  ['monitors', 'timeout_ms', 'INTEGER NOT NULL DEFAULT 10000'],
+  ['monitors', 'type', "TEXT NOT NULL DEFAULT 'http'"],
+  ['monitors', 'steps', "TEXT NOT NULL DEFAULT '[]'"],
+  ['monitors', 'last_step_results', 'TEXT'],
+  ['monitors', 'failure_threshold', 'INTEGER NOT NULL DEFAULT 2'],
+  ['monitors', 'consecutive_failures', 'INTEGER NOT NULL DEFAULT 0'],
+  ['monitors', 'incident_id', 'TEXT'],
+  ['notification_channels', 'config', "TEXT NOT NULL DEFAULT '{}'"],
+  ['notification_channels', 'digest_interval', "TEXT NOT NULL DEFAULT 'daily'"],
+  ['notification_channels', 'escalation_channel_id', 'TEXT REFERENCES notification_channels(id) ON DELETE SET NULL'],
+  ['notification_channels', 'rules', "TEXT NOT NULL DEFAULT '{}'"],
+  ['incidents', 'acknowledged_by', 'TEXT'],
+  ['incidents', 'acknowledged_at', 'TEXT'],
+  ['incidents', 'assignee', 'TEXT'],
+  ['events', 'anomaly_reason', 'TEXT'],
+  ['events', 'fingerprint', 'TEXT'],
+  ['metric_points', 'temporality', 'TEXT'],
+  ['events', 'occurrences', 'INTEGER NOT NULL DEFAULT 1'],
+  ['scheduled_notifications', 'failures', 'INTEGER NOT NULL DEFAULT 0'],
+];
+
+const MONITOR_UPDATABLE_COLUMNS = [
+  'url', 'check_interval_seconds', 'method', 'request_headers', 'request_body',
+  'expected_status', 'assertions', 'timeout_ms', 'type', 'steps', 'failure_threshold',
+];
+
+const MONITOR_JSON_COLUMNS = ['request_headers', 'assertions', 'steps'];
+
 function uuid(): string {
   return crypto.randomUUID();
 }
@@ -162,6 +513,10 @@ function now(): string {
   return new Date().toISOString().replace('T', ' ').replace('Z', '');
 }
 
+function toSqlDate(val: Date | null): string | null {
+  return val ? val.toISOString().replace('T', ' ').replace('Z', '') : null;
+}
+
 function parseDate(val: string | null | undefined): Date | null {
   if (!val) return null;
   return new Date(val.includes('T') ? val : val + 'Z');
@@ -216,11 +571,23 @@ export class SqliteDatabase implements DatabaseInterface {
     const currentVersion = row ? parseInt(row.value) : 0;
 
     if (currentVersion < SCHEMA_VERSION) {
-      // Future migrations go here
+      this.addMissingColumns();
+      // Every table and index in the schema is IF NOT EXISTS, so re-running it
+      // picks up tables added since the database was created
+      this.db.exec(SCHEMA_SQL);
       this.db.prepare("UPDATE _meta SET value = ? WHERE key = 'schema_version'").run(String(SCHEMA_VERSION));
     }
   }
 
+  private addMissingColumns() {
+    for (const [table, column, definition] of ADDED_COLUMNS) {
+      const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as Array<{ name: string }>;
+      // Tables that don't exist yet are created in full by SCHEMA_SQL
+      if (columns.length === 0 || columns.some((c) => c.name === column)) continue;
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+
   async close(): Promise<void> {
     this.db.close();
   }
@@ -235,6 +602,20 @@ export class SqliteDatabase implements DatabaseInterface {
     };
   }
 
+  private toApiKeyRow(row: Record<string, unknown>): ApiKeyRow {
+    return {
+      id: row.id as string,
+      project_id: row.project_id as string,
+      name: row.name as string,
+      key_prefix: row.key_prefix as string,
+      key_hash: row.key_hash as string,
+      scopes: parseJson<string[]>(row.scopes as string) || [],
+      created_at: parseDate(row.created_at as string) || new Date(),
+      last_used_at: parseDate(row.last_used_at as string),
+      revoked_at: parseDate(row.revoked_at as string),
+    };
+  }
+
   private toMonitorRow(row: Record<string, unknown>): MonitorRow {
     return {
       id: row.id as string,
@@ -244,6 +625,18 @@ export class SqliteDatabase implements DatabaseInterface {
       last_checked_at: parseDate(row.last_checked_at as string),
       status: row.status as string,
       created_at: parseDate(row.created_at as string) || new Date(),
+      method: (row.method as MonitorRow['method']) || 'GET',
+      request_headers: parseJson<Record<string, string>>(row.request_headers as string) || {},
+      request_body: (row.request_body as string) ?? null,
+      expected_status: (row.expected_status as string) || null,
+      assertions: parseJson<MonitorRow['assertions']>(row.assertions as string) || [],
+      timeout_ms: (row.timeout_ms as number) || 10000,
+      type: (row.type as MonitorRow['type']) || 'http',
+      steps: parseJson<MonitorRow['steps']>(row.steps as string) || [],
+      last_step_results: parseJson<MonitorRow['last_step_results']>(row.last_step_results as string),
+      failure_threshold: (row.failure_threshold as number) || 2,
+      consecutive_failures: (row.consecutive_failures as number) || 0,
+      incident_id: (row.incident_id as string) || null,
     };
   }
 
@@ -257,10 +650,43 @@ export class SqliteDatabase implements DatabaseInterface {
       message: row.message as string,
       raw_data: parseJson<Record<string, unknown>>(row.raw_data as string),
       severity: row.severity as string,
+      anomaly_reason: (row.anomaly_reason as string) || null,
+      fingerprint: (row.fingerprint as string) || null,
+      occurrences: (row.occurrences as number) || 1,
       created_at: parseDate(row.created_at as string) || new Date(),
     };
   }
 
+  private toIssueRow(row: Record<string, unknown>): IssueRow {
+    return {
+      id: row.id as string,
+      project_id: row.project_id as string,
+      fingerprint: row.fingerprint as string,
+      title: row.title as string,
+      culprit: (row.culprit as string) || null,
+      type: row.type as string,
+      source: row.source as string,
+      severity: row.severity as string,
+      count: row.count as number,
+      first_seen: parseDate(row.first_seen as string) || new Date(),
+      last_seen: parseDate(row.last_seen as string) || new Date(),
+      last_event_id: (row.last_event_id as string) || null,
+    };
+  }
+
+  private toDeploymentRow(row: Record<string, unknown>): DeploymentRow {
+    return {
+      id: row.id as string,
+      project_id: row.project_id as string,
+      version: row.version as string,
+      environment: (row.environment as string) || null,
+      commit_sha: (row.commit_sha as string) || null,
+      url: (row.url as string) || null,
+      source: row.source as string,
+      deployed_at: parseDate(row.deployed_at as string) || new Date(),
+    };
+  }
+
   private toIncidentRow(row: Record<string, unknown>): IncidentRow {
     return {
       id: row.id as string,
@@ -272,11 +698,70 @@ export class SqliteDatabase implements DatabaseInterface {
       diagnosis_fix: (row.diagnosis_fix as string) || null,
       severity: row.severity as string,
       fix_prompt: (row.fix_prompt as string) || null,
+      acknowledged_by: (row.acknowledged_by as string) || null,
+      acknowledged_at: parseDate(row.acknowledged_at as string),
+      assignee: (row.assignee as string) || null,
       created_at: parseDate(row.created_at as string) || new Date(),
       resolved_at: parseDate(row.resolved_at as string),
     };
   }
 
+  private toTimelineRow(row: Record<string, unknown>): IncidentTimelineRow {
+    return {
+      id: row.id as string,
+      incident_id: row.incident_id as string,
+      kind: row.kind as IncidentTimelineKind,
+      actor: (row.actor as string | null) ?? null,
+      message: row.message as string,
+      data: parseJson<Record<string, unknown>>(row.data as string),
+      created_at: parseDate(row.created_at as string) || new Date(),
+    };
+  }
+
+  private toDiagnosisFeedbackRow(row: Record<string, unknown>): DiagnosisFeedbackRow {
+    return {
+      id: row.id as string,
+      incident_id: row.incident_id as string,
+      project_id: row.project_id as string,
+      diagnosis_key: (row.diagnosis_key as string | null) ?? null,
+      helpful: row.helpful === 1 || row.helpful === true,
+      diagnosed_root_cause: (row.diagnosed_root_cause as string | null) ?? null,
+      actual_root_cause: (row.actual_root_cause as string | null) ?? null,
+      author: (row.author as string | null) ?? null,
+      created_at: parseDate(row.created_at as string) || new Date(),
+    };
+  }
+
+  private toDiagnosisRunRow(row: Record<string, unknown>): DiagnosisRunRow {
+    return {
+      id: row.id as string,
+      incident_id: row.incident_id as string,
+      project_id: row.project_id as string,
+      provider: row.provider as string,
+      model: (row.model as string | null) ?? null,
+      input_tokens: row.input_tokens as number,
+      output_tokens: row.output_tokens as number,
+      cost_usd: (row.cost_usd as number | null) ?? null,
+      attempts: row.attempts as number,
+      duration_ms: row.duration_ms as number,
+      cached: row.cached === 1 || row.cached === true,
+      error: (row.error as string | null) ?? null,
+      created_at: parseDate(row.created_at as string) || new Date(),
+    };
+  }
+
+  private toStatusPageRow(row: Record<string, unknown>): StatusPageRow {
+    return {
+      project_id: row.project_id as string,
+      slug: row.slug as string,
+      title: row.title as string,
+      description: (row.description as string | null) ?? null,
+      components: parseJson<StatusPageComponent[]>(row.components as string) || [],
+      enabled: row.enabled === 1 || row.enabled === true,
+      updated_at: parseDate(row.updated_at as string) || new Date(),
+    };
+  }
+
   private toSpanRow(row: Record<string, unknown>): SpanRow {
     return {
       id: row.id as string,
@@ -297,13 +782,95 @@ export class SqliteDatabase implements DatabaseInterface {
     };
   }
 
+  private toMetricBucketRow(row: Record<string, unknown>): MetricBucketRow {
+    return {
+      service_name: row.service_name as string,
+      name: row.name as string,
+      kind: row.kind as string,
+      unit: (row.unit as string) || null,
+      temporality: (row.temporality as string) || null,
+      attributes: parseJson<Record<string, unknown>>(row.attributes as string) || {},
+      bucket: row.bucket as number,
+      weighted_total: row.weighted_total as number,
+      weight: row.weight as number,
+      total: row.total as number,
+      last_value: row.last_value as number,
+      last_timestamp: row.last_timestamp as number,
+    };
+  }
+
+  private toEventRollupRow(row: Record<string, unknown>): EventRollupRow {
+    return {
+      project_id: row.project_id as string,
+      hour: parseDate(row.hour as string)!,
+      type: row.type as string,
+      source: row.source as string,
+      route_key: row.route_key as string,
+      fingerprint: row.fingerprint as string,
+      count: row.count as number,
+    };
+  }
+
+  private toSpanRollupRow(row: Record<string, unknown>): SpanRollupRow {
+    return {
+      project_id: row.project_id as string,
+      hour: parseDate(row.hour as string)!,
+      service_name: row.service_name as string,
+      operation_name: row.operation_name as string,
+      span_count: row.span_count as number,
+      error_count: row.error_count as number,
+      total_duration_ms: row.total_duration_ms as number,
+      max_duration_ms: row.max_duration_ms as number,
+    };
+  }
+
+  private toMonitorTlsRow(row: Record<string, unknown>): MonitorTlsRow {
+    const toBool = (val: unknown) => (val === null || val === undefined ? null : val === 1);
+    return {
+      monitor_id: row.monitor_id as string,
+      hostname: row.hostname as string,
+      valid_from: parseDate(row.valid_from as string),
+      expires_at: parseDate(row.expires_at as string),
+      issuer: (row.issuer as string) || null,
+      subject: (row.subject as string) || null,
+      san_match: toBool(row.san_match),
+      chain_valid: toBool(row.chain_valid),
+      error: (row.error as string) || null,
+      alert_threshold_days: (row.alert_threshold_days as number | null) ?? null,
+      checked_at: parseDate(row.checked_at as string),
+      domain_expires_at: parseDate(row.domain_expires_at as string),
+      domain_alert_threshold_days: (row.domain_alert_threshold_days as number | null) ?? null,
+      domain_checked_at: parseDate(row.domain_checked_at as string),
+    };
+  }
+
   private toChannelRow(row: Record<string, unknown>): NotificationChannelRow {
     return {
       id: row.id as string,
       project_id: row.project_id as string,
       type: row.type as string,
       webhook_url: row.webhook_url as string,
+      config: parseJson<ChannelConfig>(row.config as string) ?? {},
       enabled: row.enabled === 1 || row.enabled === true,
+      digest_interval: (row.digest_interval as NotificationChannelRow['digest_interval']) || 'daily',
+      escalation_channel_id: (row.escalation_channel_id as string | null) ?? null,
+      rules: parseJson<ChannelRules>(row.rules as string) ?? {},
+      created_at: parseDate(row.created_at as string) || new Date(),
+    };
+  }
+
+  private toScheduledNotificationRow(row: Record<string, unknown>): ScheduledNotificationRow {
+    return {
+      id: row.id as string,
+      project_id: row.project_id as string,
+      channel_id: row.channel_id as string,
+      incident_id: row.incident_id as string,
+      kind: row.kind as ScheduledNotificationKind,
+      due_at: parseDate(row.due_at as string) || new Date(),
+      attempt: row.attempt as number,
+      failures: row.failures as number,
+      context: parseJson(row.context as string),
+      status: row.status as ScheduledNotificationStatus,
       created_at: parseDate(row.created_at as string) || new Date(),
     };
   }
@@ -329,18 +896,86 @@ export class SqliteDatabase implements DatabaseInterface {
     return this.createProject(name);
   }
 
+  // ─── API Keys ───
+
+  async createApiKey(params: {
+    project_id: string; name: string; key_prefix: string; key_hash: string; scopes: string[];
+  }): Promise<ApiKeyRow> {
+    const id = uuid();
+    this.db.prepare(
+      'INSERT INTO api_keys (id, project_id, name, key_prefix, key_hash, scopes, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).run(id, params.project_id, params.name, params.key_prefix, params.key_hash, JSON.stringify(params.scopes), now());
+    const row = this.db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id) as Record<string, unknown>;
+    return this.toApiKeyRow(row);
+  }
+
+  async getApiKeys(projectId: string): Promise<ApiKeyRow[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM api_keys WHERE project_id = ? ORDER BY created_at DESC'
+    ).all(projectId) as Record<string, unknown>[];
+    return rows.map(r => this.toApiKeyRow(r));
+  }
+
+  async getApiKeyByHash(keyHash: string): Promise<ApiKeyRow | null> {
+    const row = this.db.prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(keyHash) as Record<string, unknown> | undefined;
+    return row ? this.toApiKeyRow(row) : null;
+  }
+
+  async revokeApiKey(id: string): Promise<void> {
+    this.db.prepare('UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL').run(now(), id);
+  }
+
+  async touchApiKey(id: string): Promise<void> {
+    this.db.prepare('UPDATE api_keys SET last_used_at = ? WHERE id = ?').run(now(), id);
+  }
+
+  async hasActiveApiKeys(): Promise<boolean> {
+    return this.db.prepare('SELECT 1 FROM api_keys WHERE revoked_at IS NULL LIMIT 1').get() !== undefined;
+  }
+
   // ─── Monitors ───
 
-  async createMonitor(projectId: string, url: string, checkIntervalSeconds: number): Promise<MonitorRow> {
+  async createMonitor(
+    projectId: string, url: string, checkIntervalSeconds: number, config: MonitorConfig = {}
+  ): Promise<MonitorRow> {
     const id = uuid();
     const ts = now();
     this.db.prepare(
-      'INSERT INTO monitors (id, project_id, url, check_interval_seconds, created_at) VALUES (?, ?, ?, ?, ?)'
-    ).run(id, projectId, url, checkIntervalSeconds, ts);
+      `INSERT INTO monitors (id, project_id, url, check_interval_seconds, created_at,
+        method, request_headers, request_body, expected_status, assertions, timeout_ms, type, steps, failure_threshold)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id, projectId, url, checkIntervalSeconds, ts,
+      config.method || 'GET',
+      JSON.stringify(config.request_headers || {}),
+      config.request_body ?? null,
+      config.expected_status ?? null,
+      JSON.stringify(config.assertions || []),
+      config.timeout_ms || 10000,
+      config.type || 'http',
+      JSON.stringify(config.steps || []),
+      config.failure_threshold || 2,
+    );
     const row = this.db.prepare('SELECT * FROM monitors WHERE id = ?').get(id) as Record<string, unknown>;
     return this.toMonitorRow(row);
   }
 
+  async updateMonitor(
+    id: string, params: MonitorConfig & { url?: string; check_interval_seconds?: number }
+  ): Promise<MonitorRow | null> {
+    const sets: string[] = [];
+    const values: unknown[] = [];
+    for (const [key, value] of Object.entries(params)) {
+      if (value === undefined || !MONITOR_UPDATABLE_COLUMNS.includes(key)) continue;
+      sets.push(`${key} = ?`);
+      values.push(MONITOR_JSON_COLUMNS.includes(key) ? JSON.stringify(value) : value);
+    }
+    if (sets.length > 0) {
+      this.db.prepare(`UPDATE monitors SET ${sets.join(', ')} WHERE id = ?`).run(...values, id);
+    }
+    return this.getMonitorById(id);
+  }
+
   async getMonitors(): Promise<MonitorRow[]> {
     const rows = this.db.prepare('SELECT * FROM monitors ORDER BY created_at DESC').all() as Record<string, unknown>[];
     return rows.map(r => this.toMonitorRow(r));
@@ -355,30 +990,65 @@ export class SqliteDatabase implements DatabaseInterface {
     this.db.prepare('UPDATE monitors SET status = ?, last_checked_at = ? WHERE id = ?').run(status, now(), id);
   }
 
+  async updateMonitorStepResults(id: string, results: TransactionStepResult[]): Promise<void> {
+    this.db.prepare('UPDATE monitors SET last_step_results = ? WHERE id = ?').run(JSON.stringify(results), id);
+  }
+
+  async updateMonitorFailures(id: string, consecutiveFailures: number, incidentId: string | null): Promise<void> {
+    this.db.prepare(
+      'UPDATE monitors SET consecutive_failures = ?, incident_id = ? WHERE id = ?'
+    ).run(consecutiveFailures, incidentId, id);
+  }
+
   // ─── Events ───
 
   async createEvent(params: {
     project_id: string; monitor_id?: string | null; type: string; source: string;
-    message: string; raw_data?: Record<string, unknown> | null; severity: string;
+    message: string; raw_data?: Record<string, unknown> | null; severity: string; anomaly_reason?: string | null;
+    occurrences?: number;
   }): Promise<EventRow> {
     const id = uuid();
     const ts = now();
-    this.db.prepare(
-      'INSERT INTO events (id, project_id, monitor_id, type, source, message, raw_data, severity, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)'
-    ).run(id, params.project_id, params.monitor_id || null, params.type, params.source, params.message,
-      params.raw_data ? JSON.stringify(params.raw_data) : null, params.severity, ts);
+    const issue = fingerprintEvent({
+      type: params.type as Event['type'],
+      source: params.source as Event['source'],
+      message: params.message,
+      raw_data: params.raw_data ?? undefined,
+    });
+
+    this.db.transaction(() => {
+      this.db.prepare(
+        `INSERT INTO events (id, project_id, monitor_id, type, source, message, raw_data, severity, anomaly_reason, fingerprint, occurrences, created_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      ).run(id, params.project_id, params.monitor_id || null, params.type, params.source, params.message,
+        params.raw_data ? JSON.stringify(params.raw_data) : null, params.severity, params.anomaly_reason ?? null,
+        issue?.fingerprint ?? null, params.occurrences ?? 1, ts);
+
+      if (issue) {
+        this.db.prepare(
+          `INSERT INTO issues (id, project_id, fingerprint, title, culprit, type, source, severity, count, first_seen, last_seen, last_event_id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT (project_id, fingerprint) DO UPDATE SET
+             count = count + excluded.count, last_seen = excluded.last_seen, last_event_id = excluded.last_event_id,
+             severity = excluded.severity`
+        ).run(uuid(), params.project_id, issue.fingerprint, issue.title, issue.culprit, params.type, params.source,
+          params.severity, params.occurrences ?? 1, ts, ts, id);
+      }
+    })();
+
     const row = this.db.prepare('SELECT * FROM events WHERE id = ?').get(id) as Record<string, unknown>;
     return this.toEventRow(row);
   }
 
   async getEvents(filters: EventFilters): Promise<EventRow[]> {
-    const { monitor_id, project_id, type, source, limit = 100 } = filters;
+    const { monitor_id, project_id, type, source, fingerprint, limit = 100 } = filters;
     let sql = 'SELECT * FROM events WHERE 1=1';
     const params: unknown[] = [];
     if (monitor_id) { sql += ' AND monitor_id = ?'; params.push(monitor_id); }
     if (project_id) { sql += ' AND project_id = ?'; params.push(project_id); }
     if (type) { sql += ' AND type = ?'; params.push(type); }
     if (source) { sql += ' AND source = ?'; params.push(source); }
+    if (fingerprint) { sql += ' AND fingerprint = ?'; params.push(fingerprint); }
     sql += ' ORDER BY created_at DESC LIMIT ?';
     params.push(limit);
     const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
@@ -400,6 +1070,38 @@ export class SqliteDatabase implements DatabaseInterface {
     this.db.prepare('UPDATE events SET raw_data = ? WHERE id = ?').run(JSON.stringify(existing), eventId);
   }
 
+  async setEventAnomalyReason(eventId: string, reason: string): Promise<void> {
+    this.db.prepare('UPDATE events SET anomaly_reason = ? WHERE id = ?').run(reason, eventId);
+  }
+
+  // ─── Issues ───
+
+  async getIssues(filters: IssueFilters): Promise<IssueRow[]> {
+    const { project_id, source, sort = 'last_seen', limit = 50 } = filters;
+    let sql = 'SELECT * FROM issues WHERE 1=1';
+    const params: unknown[] = [];
+    if (project_id) { sql += ' AND project_id = ?'; params.push(project_id); }
+    if (source) { sql += ' AND source = ?'; params.push(source); }
+    // `sort` is checked by the caller, but only ever interpolate known columns
+    const column = sort === 'count' ? 'count' : sort === 'first_seen' ? 'first_seen' : 'last_seen';
+    sql += ` ORDER BY ${column} DESC LIMIT ?`;
+    params.push(limit);
+    const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
+    return rows.map(r => this.toIssueRow(r));
+  }
+
+  async getIssue(id: string): Promise<IssueRow | null> {
+    const row = this.db.prepare('SELECT * FROM issues WHERE id = ?').get(id) as Record<string, unknown> | undefined;
+    return row ? this.toIssueRow(row) : null;
+  }
+
+  async getIssueByFingerprint(projectId: string, fingerprint: string): Promise<IssueRow | null> {
+    const row = this.db.prepare(
+      'SELECT * FROM issues WHERE project_id = ? AND fingerprint = ?'
+    ).get(projectId, fingerprint) as Record<string, unknown> | undefined;
+    return row ? this.toIssueRow(row) : null;
+  }
+
   // ─── Event Statistics ───
 
   async getEventStats(monitorId: string): Promise<EventStatsRow | null> {
@@ -433,54 +1135,90 @@ export class SqliteDatabase implements DatabaseInterface {
     }
   }
 
-  async getAvgResponseTime(monitorId: string): Promise<number | null> {
-    const row = this.db.prepare('SELECT avg_response_time FROM event_stats WHERE monitor_id = ?').get(monitorId) as { avg_response_time: number | null } | undefined;
-    return row?.avg_response_time ?? null;
+  async recordDailyCheck(monitorId: string, isError: boolean): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO monitor_daily_stats (monitor_id, day, total_checks, failed_checks)
+       VALUES (?, ?, 1, ?)
+       ON CONFLICT (monitor_id, day) DO UPDATE SET
+         total_checks = total_checks + 1, failed_checks = failed_checks + excluded.failed_checks`
+    ).run(monitorId, new Date().toISOString().slice(0, 10), isError ? 1 : 0);
+  }
+
+  async getDailyCheckStats(monitorIds: string[], since: string): Promise<MonitorDailyStatsRow[]> {
+    if (monitorIds.length === 0) return [];
+    const placeholders = monitorIds.map(() => '?').join(', ');
+    return this.db.prepare(
+      `SELECT * FROM monitor_daily_stats WHERE monitor_id IN (${placeholders}) AND day >= ? ORDER BY day`
+    ).all(...monitorIds, since) as MonitorDailyStatsRow[];
   }
 
   // ─── Anomaly Detection ───
 
-  async getSimilarErrorCount(monitorId: string, eventId: string, pattern: string): Promise<number> {
-    const cutoff = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  async getRecentFingerprintCount(projectId: string, fingerprint: string, excludeEventId: string, since: Date): Promise<number> {
     const row = this.db.prepare(
-      `SELECT COUNT(*) as count FROM events
-       WHERE monitor_id = ? AND type IN ('error', 'down')
-         AND message LIKE ? AND id != ? AND created_at > ?`
-    ).get(monitorId, `%${pattern}%`, eventId, cutoff) as { count: number };
+      'SELECT COUNT(*) as count FROM events WHERE project_id = ? AND fingerprint = ? AND id != ? AND created_at > ?'
+    ).get(projectId, fingerprint, excludeEventId, toSqlDate(since)) as { count: number };
     return row.count;
   }
 
-  async getRecentErrorCount(monitorId: string): Promise<number> {
-    const cutoff = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  async getAnomalyBaseline(projectId: string, detector: string, key: string): Promise<AnomalyBaselineRow | null> {
     const row = this.db.prepare(
-      `SELECT COUNT(*) as count FROM events
-       WHERE monitor_id = ? AND type IN ('error', 'down') AND created_at > ?`
-    ).get(monitorId, cutoff) as { count: number };
-    return row.count;
+      'SELECT * FROM anomaly_baselines WHERE project_id = ? AND detector = ? AND key = ?'
+    ).get(projectId, detector, key) as Record<string, unknown> | undefined;
+    if (!row) return null;
+    return {
+      project_id: row.project_id as string,
+      detector: row.detector as string,
+      key: row.key as string,
+      mean: row.mean as number,
+      variance: row.variance as number,
+      samples: row.samples as number,
+      bucket_start: (row.bucket_start as number | null) ?? null,
+      bucket_count: row.bucket_count as number,
+      last_alert_at: parseDate(row.last_alert_at as string),
+      updated_at: parseDate(row.updated_at as string) || new Date(),
+    };
   }
 
-  async getBaselineErrorRate(monitorId: string): Promise<number> {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000).toISOString();
-    const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString();
+  async upsertAnomalyBaseline(row: AnomalyBaselineRow): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO anomaly_baselines (project_id, detector, key, mean, variance, samples, bucket_start, bucket_count, last_alert_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (project_id, detector, key) DO UPDATE SET
+         mean = excluded.mean, variance = excluded.variance, samples = excluded.samples,
+         bucket_start = excluded.bucket_start, bucket_count = excluded.bucket_count,
+         last_alert_at = excluded.last_alert_at, updated_at = excluded.updated_at`
+    ).run(row.project_id, row.detector, row.key, row.mean, row.variance, row.samples, row.bucket_start,
+      row.bucket_count, toSqlDate(row.last_alert_at), now());
+  }
+
+  async getAnomalySettings(projectId: string): Promise<AnomalySettings | null> {
     const row = this.db.prepare(
-      `SELECT COUNT(*) as count, MIN(created_at) as min_created
-       FROM events
-       WHERE monitor_id = ? AND type IN ('error', 'down')
-         AND created_at > ? AND created_at < ?`
-    ).get(monitorId, sevenDaysAgo, oneHourAgo) as { count: number; min_created: string | null };
-    if (!row.count || !row.min_created) return 0;
-    const spanMs = Date.now() - new Date(row.min_created).getTime();
-    if (spanMs <= 0) return 0;
-    return (row.count / (spanMs / 1000)) * 3600;
+      'SELECT sensitivity, disabled_detectors FROM anomaly_settings WHERE project_id = ?'
+    ).get(projectId) as { sensitivity: string; disabled_detectors: string } | undefined;
+    if (!row) return null;
+    return {
+      sensitivity: row.sensitivity as AnomalySettings['sensitivity'],
+      disabled_detectors: parseJson<string[]>(row.disabled_detectors) || [],
+    };
+  }
+
+  async updateAnomalySettings(projectId: string, settings: AnomalySettings): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO anomaly_settings (project_id, sensitivity, disabled_detectors, updated_at)
+       VALUES (?, ?, ?, ?)
+       ON CONFLICT (project_id) DO UPDATE SET
+         sensitivity = excluded.sensitivity, disabled_detectors = excluded.disabled_detectors, updated_at = excluded.updated_at`
+    ).run(projectId, settings.sensitivity, JSON.stringify(settings.disabled_detectors), now());
   }
 
   // ─── Incidents ───
 
-  async createIncident(projectId: string, eventIds: string[], severity: string): Promise<{ id: string }> {
+  async createIncident(projectId: string, eventIds: string[], severity: string, correlationGroup?: string | null): Promise<{ id: string }> {
     const id = uuid();
     this.db.prepare(
-      "INSERT INTO incidents (id, project_id, events, status, severity, created_at) VALUES (?, ?, ?, 'open', ?, ?)"
-    ).run(id, projectId, JSON.stringify(eventIds), severity, now());
+      "INSERT INTO incidents (id, project_id, events, correlation_group, status, severity, created_at) VALUES (?, ?, ?, ?, 'open', ?, ?)"
+    ).run(id, projectId, JSON.stringify(eventIds), correlationGroup ?? null, severity, now());
     return { id };
   }
 
@@ -501,11 +1239,28 @@ export class SqliteDatabase implements DatabaseInterface {
     return rows.map(r => this.toIncidentRow(r));
   }
 
+  async getOpenIncidents(projectId: string): Promise<IncidentRow[]> {
+    const rows = this.db.prepare(
+      "SELECT * FROM incidents WHERE project_id = ? AND status != 'resolved' ORDER BY created_at DESC"
+    ).all(projectId) as Record<string, unknown>[];
+    return rows.map(r => this.toIncidentRow(r));
+  }
+
+  async addIncidentEvents(id: string, eventIds: string[], severity: string): Promise<void> {
+    this.db.transaction(() => {
+      const row = this.db.prepare('SELECT events FROM incidents WHERE id = ?').get(id) as { events: string } | undefined;
+      if (!row) return;
+      const events = parseJson<string[]>(row.events) || [];
+      this.db.prepare('UPDATE incidents SET events = ?, severity = ? WHERE id = ?')
+        .run(JSON.stringify([...events, ...eventIds]), severity, id);
+    })();
+  }
+
   async updateIncidentDiagnosis(id: string, diagnosis: {
     root_cause: string; suggested_fix: string; fix_prompt: string; severity: string;
   }): Promise<void> {
     this.db.prepare(
-      "UPDATE incidents SET diagnosis_text = ?, diagnosis_fix = ?, fix_prompt = ?, severity = ?, status = 'investigating' WHERE id = ?"
+      "UPDATE incidents SET diagnosis_text = ?, diagnosis_fix = ?, fix_prompt = ?, severity = ? WHERE id = ?"
     ).run(diagnosis.root_cause, diagnosis.suggested_fix, diagnosis.fix_prompt, diagnosis.severity, id);
   }
 
@@ -513,6 +1268,152 @@ export class SqliteDatabase implements DatabaseInterface {
     this.db.prepare("UPDATE incidents SET status = 'resolved', resolved_at = ? WHERE id = ?").run(now(), id);
   }
 
+  async acknowledgeIncident(id: string, by: string | null): Promise<void> {
+    this.db.prepare(
+      "UPDATE incidents SET status = 'investigating', acknowledged_by = ?, acknowledged_at = ? WHERE id = ?"
+    ).run(by, now(), id);
+  }
+
+  async assignIncident(id: string, assignee: string | null): Promise<void> {
+    this.db.prepare('UPDATE incidents SET assignee = ? WHERE id = ?').run(assignee, id);
+  }
+
+  async reopenIncident(id: string): Promise<void> {
+    this.db.prepare(
+      "UPDATE incidents SET status = 'open', resolved_at = NULL, acknowledged_by = NULL, acknowledged_at = NULL WHERE id = ?"
+    ).run(id);
+  }
+
+  // ─── Incident Timeline ───
+
+  async addTimelineEntry(entry: NewIncidentTimelineEntry): Promise<IncidentTimelineRow> {
+    const id = uuid();
+    this.db.prepare(
+      'INSERT INTO incident_timeline (id, incident_id, kind, actor, message, data, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)'
+    ).run(
+      id, entry.incident_id, entry.kind, entry.actor ?? null, entry.message,
+      entry.data ? JSON.stringify(entry.data) : null, now(),
+    );
+    const row = this.db.prepare('SELECT * FROM incident_timeline WHERE id = ?').get(id) as Record<string, unknown>;
+    return this.toTimelineRow(row);
+  }
+
+  async getIncidentTimeline(incidentId: string): Promise<IncidentTimelineRow[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM incident_timeline WHERE incident_id = ? ORDER BY created_at, rowid'
+    ).all(incidentId) as Record<string, unknown>[];
+    return rows.map(r => this.toTimelineRow(r));
+  }
+
+  // ─── Diagnosis Cache & Feedback ───
+
+  async getCachedDiagnosis(projectId: string, key: string, since: Date): Promise<DiagnosisCacheRow | null> {
+    const row = this.db.prepare(
+      'SELECT * FROM diagnosis_cache WHERE project_id = ? AND diagnosis_key = ? AND created_at >= ?'
+    ).get(projectId, key, toSqlDate(since)) as Record<string, unknown> | undefined;
+    if (!row) return null;
+    return {
+      project_id: row.project_id as string,
+      diagnosis_key: row.diagnosis_key as string,
+      provider: row.provider as string,
+      result: parseJson<DiagnosisResult>(row.result as string) as DiagnosisResult,
+      created_at: parseDate(row.created_at as string) || new Date(),
+    };
+  }
+
+  async saveCachedDiagnosis(entry: Omit<DiagnosisCacheRow, 'created_at'>): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO diagnosis_cache (project_id, diagnosis_key, provider, result, created_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT (project_id, diagnosis_key) DO UPDATE SET
+         provider = excluded.provider, result = excluded.result, created_at = excluded.created_at`
+    ).run(entry.project_id, entry.diagnosis_key, entry.provider, JSON.stringify(entry.result), now());
+  }
+
+  async deleteCachedDiagnosis(projectId: string, key: string): Promise<void> {
+    this.db.prepare('DELETE FROM diagnosis_cache WHERE project_id = ? AND diagnosis_key = ?').run(projectId, key);
+  }
+
+  async addDiagnosisFeedback(feedback: NewDiagnosisFeedback): Promise<DiagnosisFeedbackRow> {
+    const id = uuid();
+    this.db.prepare(
+      `INSERT INTO diagnosis_feedback
+         (id, incident_id, project_id, diagnosis_key, helpful, diagnosed_root_cause, actual_root_cause, author, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id, feedback.incident_id, feedback.project_id, feedback.diagnosis_key, feedback.helpful ? 1 : 0,
+      feedback.diagnosed_root_cause, feedback.actual_root_cause, feedback.author, now(),
+    );
+    const row = this.db.prepare('SELECT * FROM diagnosis_feedback WHERE id = ?').get(id) as Record<string, unknown>;
+    return this.toDiagnosisFeedbackRow(row);
+  }
+
+  async getConfirmedRootCauses(projectId: string, key: string, limit: number): Promise<DiagnosisFeedbackRow[]> {
+    const rows = this.db.prepare(
+      `SELECT * FROM diagnosis_feedback
+       WHERE project_id = ? AND diagnosis_key = ? AND (helpful = 1 OR actual_root_cause IS NOT NULL)
+       ORDER BY created_at DESC, rowid DESC LIMIT ?`
+    ).all(projectId, key, limit) as Record<string, unknown>[];
+    return rows.map(r => this.toDiagnosisFeedbackRow(r));
+  }
+
+  async addDiagnosisRun(run: NewDiagnosisRun): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO diagnosis_runs
+         (id, incident_id, project_id, provider, model, input_tokens, output_tokens, cost_usd, attempts, duration_ms, cached, error, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      uuid(), run.incident_id, run.project_id, run.provider, run.model, run.input_tokens, run.output_tokens,
+      run.cost_usd, run.attempts, run.duration_ms, run.cached ? 1 : 0, run.error, now(),
+    );
+  }
+
+  async getDiagnosisRuns(incidentId: string): Promise<DiagnosisRunRow[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM diagnosis_runs WHERE incident_id = ? ORDER BY created_at, rowid'
+    ).all(incidentId) as Record<string, unknown>[];
+    return rows.map(r => this.toDiagnosisRunRow(r));
+  }
+
+  // ─── Status Pages ───
+
+  async getStatusPage(projectId: string): Promise<StatusPageRow | null> {
+    const row = this.db.prepare('SELECT * FROM status_pages WHERE project_id = ?').get(projectId) as Record<string, unknown> | undefined;
+    return row ? this.toStatusPageRow(row) : null;
+  }
+
+  async getStatusPageBySlug(slug: string): Promise<StatusPageRow | null> {
+    const row = this.db.prepare('SELECT * FROM status_pages WHERE slug = ?').get(slug) as Record<string, unknown> | undefined;
+    return row ? this.toStatusPageRow(row) : null;
+  }
+
+  async upsertStatusPage(config: StatusPageConfig): Promise<StatusPageRow> {
+    this.db.prepare(
+      `INSERT INTO status_pages (project_id, slug, title, description, components, enabled, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (project_id) DO UPDATE SET
+         slug = excluded.slug, title = excluded.title, description = excluded.description,
+         components = excluded.components, enabled = excluded.enabled, updated_at = excluded.updated_at`
+    ).run(
+      config.project_id, config.slug, config.title, config.description,
+      JSON.stringify(config.components), config.enabled ? 1 : 0, now(),
+    );
+    return (await this.getStatusPage(config.project_id)) as StatusPageRow;
+  }
+
+  async deleteStatusPage(projectId: string): Promise<void> {
+    this.db.prepare('DELETE FROM status_pages WHERE project_id = ?').run(projectId);
+  }
+
+  async getStatusUpdates(projectId: string, since: Date): Promise<IncidentTimelineRow[]> {
+    const rows = this.db.prepare(
+      `SELECT t.* FROM incident_timeline t JOIN incidents i ON i.id = t.incident_id
+       WHERE i.project_id = ? AND t.kind = 'status_update' AND t.created_at >= ?
+       ORDER BY t.created_at, t.rowid`
+    ).all(projectId, toSqlDate(since)) as Record<string, unknown>[];
+    return rows.map(r => this.toTimelineRow(r));
+  }
+
   async getRecentEventHistory(monitorId: string): Promise<Array<{ created_at: Date; type: string; message: string }>> {
     const cutoff = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString();
     const rows = this.db.prepare(
@@ -623,6 +1524,51 @@ export class SqliteDatabase implements DatabaseInterface {
     return rows.map(r => r.trace_id);
   }
 
+  // ─── Metrics ───
+
+  async insertMetricPoint(params: {
+    project_id: string; service_name: string; name: string; kind: string; unit: string | null; temporality: string | null;
+    timestamp: number; value: number; histogram: MetricPointRow['histogram']; attributes: Record<string, unknown>;
+  }): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO metric_points (id, project_id, service_name, name, kind, unit, temporality, timestamp, value, histogram, attributes)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(uuid(), params.project_id, params.service_name, params.name, params.kind, params.unit, params.temporality,
+      params.timestamp, params.value, params.histogram ? JSON.stringify(params.histogram) : null,
+      JSON.stringify(params.attributes));
+  }
+
+  async getMetricBuckets(filters: MetricFilters): Promise<MetricBucketRow[]> {
+    const { project_id, name, start_time, end_time, attributes = {}, step_ms, limit = 10000 } = filters;
+    // With MAX(), SQLite takes the bare `value` column from the row holding the maximum
+    let sql = `SELECT service_name, name, kind, unit, temporality, attributes,
+        ? + CAST((timestamp - ?) / ? AS INTEGER) * ? AS bucket,
+        SUM(value * COALESCE(json_extract(histogram, '$.count'), 1)) AS weighted_total,
+        SUM(COALESCE(json_extract(histogram, '$.count'), 1)) AS weight,
+        SUM(value) AS total,
+        value AS last_value,
+        MAX(timestamp) AS last_timestamp
+      FROM metric_points WHERE project_id = ? AND timestamp >= ? AND timestamp <= ?`;
+    const params: unknown[] = [start_time, start_time, step_ms, step_ms, project_id, start_time, end_time];
+    if (name) { sql += ' AND name = ?'; params.push(name); }
+    // json_each compares keys as values, so keys need no escaping the way JSON paths do
+    for (const [key, value] of Object.entries(attributes)) {
+      sql += ' AND EXISTS (SELECT 1 FROM json_each(attributes) WHERE json_each.key = ? AND CAST(json_each.value AS TEXT) = ?)';
+      params.push(key, value);
+    }
+    sql += ' GROUP BY service_name, name, kind, unit, temporality, attributes, bucket ORDER BY bucket DESC LIMIT ?';
+    params.push(limit);
+    const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
+    return rows.map(r => this.toMetricBucketRow(r));
+  }
+
+  async getMetricNames(projectId: string): Promise<Array<{ name: string; kind: string; unit: string | null }>> {
+    const rows = this.db.prepare(
+      'SELECT DISTINCT name, kind, unit FROM metric_points WHERE project_id = ? ORDER BY name'
+    ).all(projectId) as Array<{ name: string; kind: string; unit: string | null }>;
+    return rows.map(r => ({ name: r.name, kind: r.kind, unit: r.unit || null }));
+  }
+
   // ─── Provider Status ───
 
   async upsertProviderStatus(provider: string, status: string, details: string | null): Promise<void> {
@@ -655,27 +1601,359 @@ export class SqliteDatabase implements DatabaseInterface {
     return !!row;
   }
 
+  // ─── Monitor TLS ───
+
+  async getMonitorTls(monitorId: string): Promise<MonitorTlsRow | null> {
+    const row = this.db.prepare('SELECT * FROM monitor_tls WHERE monitor_id = ?').get(monitorId) as Record<string, unknown> | undefined;
+    return row ? this.toMonitorTlsRow(row) : null;
+  }
+
+  async getMonitorTlsStatuses(projectId?: string): Promise<MonitorTlsRow[]> {
+    const rows = (projectId
+      ? this.db.prepare(
+          'SELECT t.* FROM monitor_tls t JOIN monitors m ON m.id = t.monitor_id WHERE m.project_id = ?'
+        ).all(projectId)
+      : this.db.prepare('SELECT * FROM monitor_tls').all()) as Record<string, unknown>[];
+    return rows.map(r => this.toMonitorTlsRow(r));
+  }
+
+  async upsertMonitorTls(row: MonitorTlsRow): Promise<void> {
+    const toInt = (val: boolean | null) => (val === null ? null : val ? 1 : 0);
+    this.db.prepare(
+      `INSERT INTO monitor_tls (monitor_id, hostname, valid_from, expires_at, issuer, subject, san_match, chain_valid,
+         error, alert_threshold_days, checked_at, domain_expires_at, domain_alert_threshold_days, domain_checked_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (monitor_id) DO UPDATE SET
+         hostname = excluded.hostname, valid_from = excluded.valid_from, expires_at = excluded.expires_at,
+         issuer = excluded.issuer, subject = excluded.subject, san_match = excluded.san_match,
+         chain_valid = excluded.chain_valid, error = excluded.error,
+         alert_threshold_days = excluded.alert_threshold_days, checked_at = excluded.checked_at,
+         domain_expires_at = excluded.domain_expires_at,
+         domain_alert_threshold_days = excluded.domain_alert_threshold_days,
+         domain_checked_at = excluded.domain_checked_at`
+    ).run(row.monitor_id, row.hostname, toSqlDate(row.valid_from), toSqlDate(row.expires_at), row.issuer,
+      row.subject, toInt(row.san_match), toInt(row.chain_valid), row.error, row.alert_threshold_days,
+      toSqlDate(row.checked_at), toSqlDate(row.domain_expires_at), row.domain_alert_threshold_days,
+      toSqlDate(row.domain_checked_at));
+  }
+
+  // ─── Source Maps ───
+
+  async upsertSourceMap(params: { project_id: string; release: string; name: string; content: string }): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO source_maps (project_id, release, name, content, size, created_at)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (project_id, release, name) DO UPDATE SET
+         content = excluded.content, size = excluded.size, created_at = excluded.created_at`
+    ).run(params.project_id, params.release, params.name, params.content, Buffer.byteLength(params.content), now());
+  }
+
+  async getSourceMaps(projectId: string, release?: string): Promise<SourceMapRow[]> {
+    let sql = 'SELECT project_id, release, name, size, created_at FROM source_maps WHERE project_id = ?';
+    const params: unknown[] = [projectId];
+    if (release) { sql += ' AND release = ?'; params.push(release); }
+    sql += ' ORDER BY created_at DESC, name';
+    const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
+    return rows.map(r => ({
+      project_id: r.project_id as string,
+      release: r.release as string,
+      name: r.name as string,
+      size: r.size as number,
+      created_at: parseDate(r.created_at as string) || new Date(),
+    }));
+  }
+
+  async getSourceMapContent(projectId: string, release: string, name: string): Promise<string | null> {
+    const row = this.db.prepare(
+      'SELECT content FROM source_maps WHERE project_id = ? AND release = ? AND name = ?'
+    ).get(projectId, release, name) as { content: string } | undefined;
+    return row?.content ?? null;
+  }
+
+  async getLatestSourceMapRelease(projectId: string): Promise<string | null> {
+    const row = this.db.prepare(
+      'SELECT release FROM source_maps WHERE project_id = ? ORDER BY created_at DESC LIMIT 1'
+    ).get(projectId) as { release: string } | undefined;
+    return row?.release ?? null;
+  }
+
+  // ─── Browser Replays ───
+
+  async saveBrowserReplay(params: {
+    id: string;
+    project_id: string;
+    session_id: string | null;
+    started_at: Date;
+    ended_at: Date;
+    content: string;
+  }): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO browser_replays (project_id, id, session_id, started_at, ended_at, content, size, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (project_id, id) DO NOTHING`
+    ).run(
+      params.project_id,
+      params.id,
+      params.session_id,
+      toSqlDate(params.started_at),
+      toSqlDate(params.ended_at),
+      params.content,
+      Buffer.byteLength(params.content),
+      now()
+    );
+  }
+
+  async getBrowserReplay(projectId: string, id: string): Promise<BrowserReplayRow | null> {
+    const r = this.db.prepare(
+      `SELECT project_id, id, session_id, started_at, ended_at, size, created_at
+       FROM browser_replays WHERE project_id = ? AND id = ?`
+    ).get(projectId, id) as Record<string, unknown> | undefined;
+    if (!r) return null;
+    return {
+      id: r.id as string,
+      project_id: r.project_id as string,
+      session_id: (r.session_id as string) ?? null,
+      started_at: parseDate(r.started_at as string) || new Date(),
+      ended_at: parseDate(r.ended_at as string) || new Date(),
+      size: r.size as number,
+      created_at: parseDate(r.created_at as string) || new Date(),
+    };
+  }
+
+  async getBrowserReplayContent(projectId: string, id: string): Promise<string | null> {
+    const row = this.db.prepare(
+      'SELECT content FROM browser_replays WHERE project_id = ? AND id = ?'
+    ).get(projectId, id) as { content: string } | undefined;
+    return row?.content ?? null;
+  }
+
+  // ─── Deployments ───
+
+  async recordDeployment(params: {
+    project_id: string;
+    version: string;
+    source: string;
+    environment?: string;
+    commit_sha?: string;
+    url?: string;
+    deployed_at?: Date;
+  }): Promise<DeploymentRow> {
+    this.db.prepare(
+      `INSERT INTO deployments (id, project_id, version, environment, commit_sha, url, source, deployed_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (project_id, version) DO UPDATE SET
+         environment = COALESCE(excluded.environment, deployments.environment),
+         commit_sha = COALESCE(excluded.commit_sha, deployments.commit_sha),
+         url = COALESCE(excluded.url, deployments.url),
+         deployed_at = MIN(excluded.deployed_at, deployments.deployed_at)`
+    ).run(
+      uuid(), params.project_id, params.version, params.environment || null, params.commit_sha || null,
+      params.url || null, params.source, toSqlDate(params.deployed_at || new Date())
+    );
+    const row = this.db.prepare(
+      'SELECT * FROM deployments WHERE project_id = ? AND version = ?'
+    ).get(params.project_id, params.version) as Record<string, unknown>;
+    return this.toDeploymentRow(row);
+  }
+
+  async getDeployments(filters: DeploymentFilters): Promise<DeploymentRow[]> {
+    const { project_id, since, until, limit = 50 } = filters;
+    let sql = 'SELECT * FROM deployments WHERE project_id = ?';
+    const params: unknown[] = [project_id];
+    if (since) { sql += ' AND deployed_at >= ?'; params.push(toSqlDate(since)); }
+    if (until) { sql += ' AND deployed_at <= ?'; params.push(toSqlDate(until)); }
+    sql += ' ORDER BY deployed_at DESC LIMIT ?';
+    params.push(limit);
+    const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
+    return rows.map(r => this.toDeploymentRow(r));
+  }
+
+  async getDeploymentAt(projectId: string, at: Date): Promise<DeploymentRow | null> {
+    const row = this.db.prepare(
+      'SELECT * FROM deployments WHERE project_id = ? AND deployed_at <= ? ORDER BY deployed_at DESC LIMIT 1'
+    ).get(projectId, toSqlDate(at)) as Record<string, unknown> | undefined;
+    return row ? this.toDeploymentRow(row) : null;
+  }
+
+  // ─── Retention & Rollups ───
+
+  async getRollupWatermark(name: RollupName): Promise<Date | null> {
+    const row = this.db.prepare(
+      'SELECT rolled_up_until FROM rollup_watermarks WHERE name = ?'
+    ).get(name) as { rolled_up_until: string } | undefined;
+    return parseDate(row?.rolled_up_until);
+  }
+
+  async setRollupWatermark(name: RollupName, until: Date): Promise<void> {
+    this.db.prepare(
+      `INSERT INTO rollup_watermarks (name, rolled_up_until) VALUES (?, ?)
+       ON CONFLICT (name) DO UPDATE SET rolled_up_until = excluded.rolled_up_until`
+    ).run(name, toSqlDate(until));
+  }
+
+  async getOldestEventTime(): Promise<Date | null> {
+    const row = this.db.prepare('SELECT MIN(created_at) as oldest FROM events').get() as { oldest: string | null };
+    return parseDate(row.oldest);
+  }
+
+  async getOldestSpanTime(): Promise<Date | null> {
+    const row = this.db.prepare('SELECT MIN(start_time) as oldest FROM spans').get() as { oldest: number | null };
+    return row.oldest === null ? null : new Date(row.oldest);
+  }
+
+  async getEventsInRange(from: Date, to: Date): Promise<EventRow[]> {
+    const rows = this.db.prepare(
+      'SELECT * FROM events WHERE created_at >= ? AND created_at < ?'
+    ).all(toSqlDate(from), toSqlDate(to)) as Record<string, unknown>[];
+    return rows.map(r => this.toEventRow(r));
+  }
+
+  async upsertEventRollups(rows: EventRollupRow[]): Promise<void> {
+    const stmt = this.db.prepare(
+      `INSERT INTO event_rollups (project_id, hour, type, source, route_key, fingerprint, count)
+       VALUES (?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT (project_id, hour, type, source, route_key, fingerprint) DO UPDATE SET count = excluded.count`
+    );
+    this.db.transaction(() => {
+      for (const r of rows) {
+        stmt.run(r.project_id, toSqlDate(r.hour), r.type, r.source, r.route_key, r.fingerprint, r.count);
+      }
+    })();
+  }
+
+  async getEventRollups(filters: EventRollupFilters): Promise<EventRollupRow[]> {
+    const { project_id, since, until, types, route_key, fingerprint } = filters;
+    let sql = 'SELECT * FROM event_rollups WHERE project_id = ? AND hour >= ?';
+    const params: unknown[] = [project_id, toSqlDate(since)];
+    if (until) { sql += ' AND hour < ?'; params.push(toSqlDate(until)); }
+    if (types && types.length > 0) {
+      sql += ` AND type IN (${types.map(() => '?').join(',')})`;
+      params.push(...types);
+    }
+    if (route_key) { sql += ' AND route_key = ?'; params.push(route_key); }
+    if (fingerprint) { sql += ' AND fingerprint = ?'; params.push(fingerprint); }
+    sql += ' ORDER BY hour ASC';
+    const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
+    return rows.map(r => this.toEventRollupRow(r));
+  }
+
+  async rollupSpans(hour: Date): Promise<void> {
+    const from = hour.getTime();
+    this.db.prepare(
+      `INSERT INTO span_rollups (project_id, hour, service_name, operation_name, span_count, error_count, total_duration_ms, max_duration_ms)
+       SELECT project_id, ?, service_name, operation_name, COUNT(*),
+              SUM(CASE WHEN status_code = 'ERROR' THEN 1 ELSE 0 END), SUM(duration_ms), MAX(duration_ms)
+       FROM spans WHERE start_time >= ? AND start_time < ?
+       GROUP BY project_id, service_name, operation_name
+       ON CONFLICT (project_id, hour, service_name, operation_name) DO UPDATE SET
+         span_count = excluded.span_count, error_count = excluded.error_count,
+         total_duration_ms = excluded.total_duration_ms, max_duration_ms = excluded.max_duration_ms`
+    ).run(toSqlDate(hour), from, from + 60 * 60 * 1000);
+  }
+
+  async getSpanRollups(projectId: string, since: Date, until?: Date): Promise<SpanRollupRow[]> {
+    let sql = 'SELECT * FROM span_rollups WHERE project_id = ? AND hour >= ?';
+    const params: unknown[] = [projectId, toSqlDate(since)];
+    if (until) { sql += ' AND hour < ?'; params.push(toSqlDate(until)); }
+    sql += ' ORDER BY hour ASC';
+    const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
+    return rows.map(r => this.toSpanRollupRow(r));
+  }
+
+  async addWebVitalCounts(rows: WebVitalBucketRow[]): Promise<void> {
+    const stmt = this.db.prepare(
+      `INSERT INTO web_vital_buckets (project_id, hour, route, metric, bucket, count)
+       VALUES (?, ?, ?, ?, ?, ?)
+       ON CONFLICT (project_id, hour, route, metric, bucket) DO UPDATE SET count = count + excluded.count`
+    );
+    this.db.transaction(() => {
+      for (const r of rows) {
+        stmt.run(r.project_id, toSqlDate(r.hour), r.route, r.metric, r.bucket, r.count);
+      }
+    })();
+  }
+
+  async getWebVitalBuckets(filters: WebVitalFilters): Promise<WebVitalBucketRow[]> {
+    let sql = 'SELECT * FROM web_vital_buckets WHERE hour >= ?';
+    const params: unknown[] = [toSqlDate(filters.since)];
+    if (filters.until) { sql += ' AND hour < ?'; params.push(toSqlDate(filters.until)); }
+    if (filters.project_id) { sql += ' AND project_id = ?'; params.push(filters.project_id); }
+    const rows = this.db.prepare(sql).all(...params) as Record<string, unknown>[];
+    return rows.map(r => ({
+      project_id: r.project_id as string,
+      hour: parseDate(r.hour as string) || new Date(),
+      route: r.route as string,
+      metric: r.metric as string,
+      bucket: r.bucket as number,
+      count: r.count as number,
+    }));
+  }
+
+  async pruneEvents(before: Date, limit: number): Promise<number> {
+    return this.db.prepare(
+      'DELETE FROM events WHERE rowid IN (SELECT rowid FROM events WHERE created_at < ? LIMIT ?)'
+    ).run(toSqlDate(before), limit).changes;
+  }
+
+  async pruneSpans(before: Date, limit: number): Promise<number> {
+    return this.db.prepare(
+      'DELETE FROM spans WHERE rowid IN (SELECT rowid FROM spans WHERE start_time < ? LIMIT ?)'
+    ).run(before.getTime(), limit).changes;
+  }
+
+  async pruneMetricPoints(before: Date, limit: number): Promise<number> {
+    return this.db.prepare(
+      'DELETE FROM metric_points WHERE rowid IN (SELECT rowid FROM metric_points WHERE timestamp < ? LIMIT ?)'
+    ).run(before.getTime(), limit).changes;
+  }
+
+  async pruneBrowserReplays(before: Date, limit: number): Promise<number> {
+    return this.db.prepare(
+      'DELETE FROM browser_replays WHERE rowid IN (SELECT rowid FROM browser_replays WHERE created_at < ? LIMIT ?)'
+    ).run(toSqlDate(before), limit).changes;
+  }
+
+  async pruneRollups(before: Date, limit: number): Promise<number> {
+    const cutoff = toSqlDate(before);
+    const events = this.db.prepare(
+      'DELETE FROM event_rollups WHERE rowid IN (SELECT rowid FROM event_rollups WHERE hour < ? LIMIT ?)'
+    ).run(cutoff, limit).changes;
+    const spans = this.db.prepare(
+      'DELETE FROM span_rollups WHERE rowid IN (SELECT rowid FROM span_rollups WHERE hour < ? LIMIT ?)'
+    ).run(cutoff, limit).changes;
+    const vitals = this.db.prepare(
+      'DELETE FROM web_vital_buckets WHERE rowid IN (SELECT rowid FROM web_vital_buckets WHERE hour < ? LIMIT ?)'
+    ).run(cutoff, limit).changes;
+    return events + spans + vitals;
+  }
+
   // ─── Notification Channels ───
 
   async getEnabledChannels(projectId: string): Promise<NotificationChannelRow[]> {
     const rows = this.db.prepare(
-      'SELECT id, project_id, type, webhook_url, enabled, created_at FROM notification_channels WHERE project_id = ? AND enabled = 1'
+      'SELECT * FROM notification_channels WHERE project_id = ? AND enabled = 1'
     ).all(projectId) as Record<string, unknown>[];
     return rows.map(r => this.toChannelRow(r));
   }
 
-  async createChannel(projectId: string, type: string, webhookUrl: string): Promise<NotificationChannelRow> {
+  async createChannel(
+    projectId: string, type: string, webhookUrl: string, settings: ChannelSettings = {}, config: ChannelConfig = {}
+  ): Promise<NotificationChannelRow> {
     const id = uuid();
     this.db.prepare(
-      'INSERT INTO notification_channels (id, project_id, type, webhook_url) VALUES (?, ?, ?, ?)'
-    ).run(id, projectId, type, webhookUrl);
+      `INSERT INTO notification_channels (id, project_id, type, webhook_url, config, digest_interval, escalation_channel_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id, projectId, type, webhookUrl, JSON.stringify(config),
+      settings.digest_interval ?? 'daily', settings.escalation_channel_id ?? null,
+    );
     const row = this.db.prepare('SELECT * FROM notification_channels WHERE id = ?').get(id) as Record<string, unknown>;
     return this.toChannelRow(row);
   }
 
   async getChannels(projectId: string): Promise<NotificationChannelRow[]> {
     const rows = this.db.prepare(
-      'SELECT id, project_id, type, webhook_url, enabled, created_at FROM notification_channels WHERE project_id = ? ORDER BY created_at DESC'
+      'SELECT * FROM notification_channels WHERE project_id = ? ORDER BY created_at DESC'
     ).all(projectId) as Record<string, unknown>[];
     return rows.map(r => this.toChannelRow(r));
   }
@@ -688,9 +1966,31 @@ export class SqliteDatabase implements DatabaseInterface {
     this.db.prepare('UPDATE notification_channels SET enabled = ? WHERE id = ?').run(enabled ? 1 : 0, id);
   }
 
+  async updateChannelSettings(id: string, settings: ChannelSettings): Promise<NotificationChannelRow | null> {
+    const sets: string[] = [];
+    const values: unknown[] = [];
+    if (settings.digest_interval !== undefined) {
+      sets.push('digest_interval = ?');
+      values.push(settings.digest_interval);
+    }
+    if (settings.escalation_channel_id !== undefined) {
+      sets.push('escalation_channel_id = ?');
+      values.push(settings.escalation_channel_id);
+    }
+    if (sets.length > 0) {
+      this.db.prepare(`UPDATE notification_channels SET ${sets.join(', ')} WHERE id = ?`).run(...values, id);
+    }
+    return this.getChannelById(id);
+  }
+
+  async updateChannelRules(id: string, rules: ChannelRules): Promise<NotificationChannelRow | null> {
+    this.db.prepare('UPDATE notification_channels SET rules = ? WHERE id = ?').run(JSON.stringify(rules), id);
+    return this.getChannelById(id);
+  }
+
   async getChannelById(id: string): Promise<NotificationChannelRow | null> {
     const row = this.db.prepare(
-      'SELECT id, project_id, type, webhook_url, enabled, created_at FROM notification_channels WHERE id = ?'
+      'SELECT * FROM notification_channels WHERE id = ?'
     ).get(id) as Record<string, unknown> | undefined;
     return row ? this.toChannelRow(row) : null;
   }
@@ -716,6 +2016,60 @@ export class SqliteDatabase implements DatabaseInterface {
     this.db.prepare('INSERT INTO notification_log (id, channel_id, incident_id) VALUES (?, ?, ?)').run(uuid(), channelId, incidentId);
   }
 
+  // ─── Scheduled Notifications ───
+
+  async scheduleNotification(n: NewScheduledNotification): Promise<ScheduledNotificationRow> {
+    const id = uuid();
+    this.db.prepare(
+      `INSERT INTO scheduled_notifications (id, project_id, channel_id, incident_id, kind, due_at, attempt, context)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+    ).run(
+      id, n.project_id, n.channel_id, n.incident_id, n.kind, toSqlDate(n.due_at),
+      n.attempt ?? 1, n.context ? JSON.stringify(n.context) : null,
+    );
+    const row = this.db.prepare('SELECT * FROM scheduled_notifications WHERE id = ?').get(id) as Record<string, unknown>;
+    return this.toScheduledNotificationRow(row);
+  }
+
+  async getDueNotifications(now: Date, limit: number): Promise<ScheduledNotificationRow[]> {
+    const rows = this.db.prepare(
+      "SELECT * FROM scheduled_notifications WHERE status = 'pending' AND due_at <= ? ORDER BY due_at LIMIT ?"
+    ).all(toSqlDate(now), limit) as Record<string, unknown>[];
+    return rows.map(r => this.toScheduledNotificationRow(r));
+  }
+
+  async setScheduledNotificationStatus(ids: string[], status: ScheduledNotificationStatus): Promise<void> {
+    if (ids.length === 0) return;
+    const placeholders = ids.map(() => '?').join(',');
+    this.db.prepare(`UPDATE scheduled_notifications SET status = ? WHERE id IN (${placeholders})`).run(status, ...ids);
+  }
+
+  async rescheduleNotifications(ids: string[], dueAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    const placeholders = ids.map(() => '?').join(',');
+    this.db.prepare(
+      `UPDATE scheduled_notifications SET due_at = ?, status = 'pending' WHERE id IN (${placeholders})`
+    ).run(toSqlDate(dueAt), ...ids);
+  }
+
+  async retryScheduledNotifications(ids: string[], dueAt: Date): Promise<void> {
+    if (ids.length === 0) return;
+    const placeholders = ids.map(() => '?').join(',');
+    this.db.prepare(
+      `UPDATE scheduled_notifications SET due_at = ?, status = 'pending', failures = failures + 1
+       WHERE id IN (${placeholders})`
+    ).run(toSqlDate(dueAt), ...ids);
+  }
+
+  async cancelScheduledNotifications(incidentId: string, kinds: ScheduledNotificationKind[]): Promise<number> {
+    if (kinds.length === 0) return 0;
+    const placeholders = kinds.map(() => '?').join(',');
+    return this.db.prepare(
+      `UPDATE scheduled_notifications SET status = 'cancelled'
+       WHERE incident_id = ? AND status = 'pending' AND kind IN (${placeholders})`
+    ).run(incidentId, ...kinds).changes;
+  }
+
   async getCorrelatedEvents(eventIds: string[]): Promise<Array<{ type: string; source: string; message: string; created_at: Date }>> {
     if (eventIds.length === 0) return [];
     const placeholders = eventIds.map(() => '?').join(',');
@@ -0,0 +1,102 @@
+import type { DeploymentContext, VercelLogDrainPayload } from '@scanwarp/core';
+import type { Database, DeploymentRow } from '../db/index.js';
+
+// Telemetry repeats the same version on every request; only hit the db for new ones
+const MAX_SEEN_VERSIONS = 1000;
+
+export interface DeploymentDetails {
+  environment?: string;
+  commit_sha?: string;
+  url?: string;
+  deployed_at?: Date;
+}
+
+/**
+ * Records deployments, both reported explicitly and inferred from telemetry
+ * (Vercel deployment ids, OpenTelemetry service.version), and attributes
+ * incidents to the deploy that preceded them.
+ */
+export class DeploymentTracker {
+  private db: Database;
+  private seen = new Set<string>();
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  /**
+   * Record a deployment reported through the API.
+   */
+  async record(
+    projectId: string,
+    version: string,
+    details: DeploymentDetails = {},
+  ): Promise<DeploymentRow> {
+    const row = await this.db.recordDeployment({ project_id: projectId, version, source: 'api', ...details });
+    this.markSeen(projectId, version);
+    return row;
+  }
+
+  /**
+   * Note a version seen in telemetry. The first sighting becomes the deploy
+   * time unless the deployment was reported with an earlier one. Never throws.
+   */
+  async observe(projectId: string, version: string, source: string, details: DeploymentDetails = {}) {
+    if (this.seen.has(`${projectId}\n${version}`)) return;
+
+    try {
+      await this.db.recordDeployment({ project_id: projectId, version, source, ...details });
+      this.markSeen(projectId, version);
+    } catch (err) {
+      console.error(`Failed to record deployment ${version} for project ${projectId}:`, err);
+    }
+  }
+
+  /**
+   * The deploy that was live when the first of these events happened, and
+   * whether their errors are new since it.
+   */
+  async contextFor(
+    projectId: string,
+    events: Array<{ fingerprint: string | null; created_at: Date }>,
+  ): Promise<DeploymentContext | null> {
+    if (events.length === 0) return null;
+
+    const firstEvent = new Date(Math.min(...events.map((e) => e.created_at.getTime())));
+    const deployment = await this.db.getDeploymentAt(projectId, firstEvent);
+    if (!deployment) return null;
+
+    // Only errors grouped into issues have a history to compare against
+    const fingerprints = [...new Set(events.map((e) => e.fingerprint).filter((f): f is string => !!f))];
+    let firstSeenAfterDeploy = false;
+    if (fingerprints.length > 0) {
+      const issues = await Promise.all(fingerprints.map((f) => this.db.getIssueByFingerprint(projectId, f)));
+      firstSeenAfterDeploy = issues.every(
+        (issue) => !issue || issue.first_seen.getTime() >= deployment.deployed_at.getTime(),
+      );
+    }
+
+    return {
+      version: deployment.version,
+      environment: deployment.environment || undefined,
+      commit_sha: deployment.commit_sha || undefined,
+      deployed_at: deployment.deployed_at,
+      first_seen_after_deploy: firstSeenAfterDeploy,
+    };
+  }
+
+  private markSeen(projectId: string, version: string) {
+    if (this.seen.size >= MAX_SEEN_VERSIONS) this.seen.clear();
+    this.seen.add(`${projectId}\n${version}`);
+  }
+}
+
+/**
+ * Deployment details carried on Vercel log drain lines.
+ */
+export function vercelDeploymentDetails(log: VercelLogDrainPayload): DeploymentDetails {
+  return {
+    environment: typeof log.environment === 'string' ? log.environment : undefined,
+    url: typeof log.host === 'string' ? `https://${log.host}` : undefined,
+  };
+}
@@ -0,0 +1,72 @@
+import type { FastifyInstance } from 'fastify';
+import type { Database } from '../db/index.js';
+import { assertProjectAccess } from '../auth/apiKeys.js';
+import type { DeploymentTracker } from './DeploymentTracker.js';
+
+export async function registerDeploymentRoutes(
+  fastify: FastifyInstance,
+  db: Database,
+  tracker: DeploymentTracker,
+) {
+  // POST /deployments — report a deploy, e.g. from CI after it goes live
+  fastify.post<{
+    Body: {
+      project_id: string;
+      version: string;
+      environment?: string;
+      commit_sha?: string;
+      url?: string;
+      deployed_at?: string;
+    };
+  }>('/deployments', async (request, reply) => {
+    const { project_id, version, environment, commit_sha, url, deployed_at } = request.body || {};
+
+    if (!project_id || !version) {
+      reply.code(400);
+      return { error: 'project_id and version are required' };
+    }
+
+    if (!assertProjectAccess(request, reply, project_id, 'Project')) return;
+
+    const deployedAt = deployed_at ? new Date(deployed_at) : undefined;
+    if (deployedAt && isNaN(deployedAt.getTime())) {
+      reply.code(400);
+      return { error: 'deployed_at must be an ISO 8601 date' };
+    }
+
+    try {
+      const deployment = await tracker.record(project_id, version, {
+        environment,
+        commit_sha,
+        url,
+        deployed_at: deployedAt,
+      });
+      return { success: true, deployment };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { success: false, message: 'Failed to record deployment' };
+    }
+  });
+
+  // GET /deployments — deploy history, newest first
+  fastify.get<{
+    Querystring: { project_id: string; since?: string; until?: string; limit?: string };
+  }>('/deployments', async (request, reply) => {
+    const { project_id, since, until, limit } = request.query;
+
+    if (!project_id) {
+      reply.code(400);
+      return { error: 'project_id is required' };
+    }
+
+    const deployments = await db.getDeployments({
+      project_id,
+      since: since ? new Date(since) : undefined,
+      until: until ? new Date(until) : undefined,
+      limit: limit ? parseInt(limit) : 50,
+    });
+
+    return { deployments };
+  });
+}
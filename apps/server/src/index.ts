@@ -3,28 +3,77 @@ import cors from '@fastify/cors';
 import fastifyStatic from '@fastify/static';
 import path from 'path';
 import fs from 'fs';
-import type { WebhookPayload, VercelLogDrainPayload } from '@scanwarp/core';
+import zlib from 'zlib';
+import type { Transform } from 'stream';
+import type { WebhookPayload, VercelLogDrainPayload, MonitorCheckConfig, MonitorType, TransactionStep, AnomalySettings, Breadcrumb } from '@scanwarp/core';
+import { parseBreadcrumbs } from '@scanwarp/core';
 import { createDatabase } from './db/index.js';
 import { MonitorRunner } from './monitoring/MonitorRunner.js';
+import { CertificateChecker, parseExpiryThresholds, toTlsSummary } from './monitoring/CertificateChecker.js';
+import { RetentionJob, parseRetentionConfig } from './monitoring/RetentionJob.js';
 import { AnomalyDetector } from './monitoring/AnomalyDetector.js';
-import { IncidentService } from './monitoring/IncidentService.js';
+import { DEFAULT_ANOMALY_SETTINGS, SENSITIVITY_THRESHOLDS } from './monitoring/detectors/types.js';
+import {
+  IncidentService,
+  MAX_COMMENT_LENGTH,
+  STATUS_UPDATE_STATUSES,
+  parsePersonName,
+  type StatusUpdateStatus,
+} from './monitoring/IncidentService.js';
+import { createDiagnosisProvider } from './monitoring/diagnosis.js';
+import { EventPipeline } from './monitoring/EventPipeline.js';
 import { SupabasePoller } from './monitoring/SupabasePoller.js';
 import { StatusChecker } from './monitoring/StatusChecker.js';
+import { parseMonitorConfig } from './monitoring/transactionCheck.js';
 import { registerStripeWebhook } from './integrations/stripe.js';
 import { registerGitHubWebhook } from './integrations/github.js';
 import { registerOtlpRoutes } from './integrations/otlp.js';
-import { NotificationManager } from './notifications/manager.js';
+import { registerAuth, assertProjectAccess, matchesToken, redactKeyParam } from './auth/apiKeys.js';
+import {
+  NotificationManager,
+  parseChannelSettings,
+  parseChannelTarget,
+  parseNotificationPolicy,
+} from './notifications/manager.js';
+import type { ChannelType } from './notifications/channels.js';
+import { parseChannelRules } from './notifications/rules.js';
+import { NotificationScheduler } from './notifications/scheduler.js';
+import { Symbolicator } from './sourcemaps/Symbolicator.js';
+import { registerSourceMapRoutes } from './sourcemaps/routes.js';
+import { DeploymentTracker, vercelDeploymentDetails } from './deployments/DeploymentTracker.js';
+import { registerDeploymentRoutes } from './deployments/routes.js';
+import { registerStatusPageRoutes } from './statuspage/routes.js';
+import { registerWebVitalsRoutes } from './vitals/routes.js';
+import { registerReplayRoutes } from './replays/routes.js';
+import { WebVitalsMonitor } from './vitals/WebVitalsMonitor.js';
 import { ProviderStatusTracker } from './providers/status.js';
 
 const db = createDatabase();
 
 const fastify = Fastify({
-  logger: true,
+  logger: {
+    serializers: {
+      // Fastify's default request fields, minus any key passed in the query string
+      req: (req) => ({
+        method: req.method,
+        url: req.url && redactKeyParam(req.url),
+        host: req.host,
+        remoteAddress: req.ip,
+        remotePort: req.socket?.remotePort,
+      }),
+    },
+  },
   bodyLimit: 1048576 * 5, // 5MB for webhooks
 });
 
 fastify.register(cors);
 
+// API key authentication — must be registered before any routes
+registerAuth(fastify, db, {
+  adminToken: process.env.API_TOKEN,
+  required: process.env.AUTH_REQUIRED === 'true',
+});
+
 // Serve the dashboard SPA if the built files exist
 const dashboardDir = path.join(__dirname, 'dashboard');
 if (fs.existsSync(dashboardDir) && fs.existsSync(path.join(dashboardDir, 'index.html'))) {
@@ -59,6 +108,21 @@ fastify.get('/browser.js', async (_request, reply) => {
   return `console.warn('[ScanWarp] Browser monitoring script not found. Install @scanwarp/browser package.');`;
 });
 
+// The browser script gzips large payloads. The body limit applies to the
+// decompressed size.
+fastify.addHook('preParsing', async (request, _reply, payload) => {
+  if (request.headers['content-encoding'] !== 'gzip') return payload;
+  delete request.headers['content-encoding'];
+
+  // Fastify checks Content-Length against the bytes read before decompressing
+  const gunzip: Transform & { receivedEncodedLength?: number } = zlib.createGunzip();
+  gunzip.receivedEncodedLength = 0;
+  payload.on('data', (chunk: Buffer) => {
+    gunzip.receivedEncodedLength! += chunk.length;
+  });
+  return payload.pipe(gunzip);
+});
+
 // Add raw body support for webhook signature verification
 fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (req, body, done) => {
   try {
@@ -71,21 +135,33 @@ fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (req, bo
 });
 
 // Initialize monitoring components
-const monitorRunner = new MonitorRunner(db);
 const anomalyDetector = new AnomalyDetector(db);
-const incidentService = new IncidentService(db, process.env.ANTHROPIC_API_KEY);
+const notificationManager = new NotificationManager(db, parseNotificationPolicy(process.env));
+const notificationScheduler = new NotificationScheduler(db, notificationManager);
+const incidentService = new IncidentService(db, createDiagnosisProvider(process.env), notificationManager);
+const eventPipeline = new EventPipeline(db, anomalyDetector, incidentService);
+const certificateChecker = new CertificateChecker(db, eventPipeline, parseExpiryThresholds(process.env.TLS_EXPIRY_THRESHOLDS_DAYS));
+const monitorRunner = new MonitorRunner(db, eventPipeline, incidentService, anomalyDetector, certificateChecker);
+const symbolicator = new Symbolicator(db);
+const deploymentTracker = new DeploymentTracker(db);
 const statusChecker = new StatusChecker(db);
-const notificationManager = new NotificationManager(db);
+const retentionJob = new RetentionJob(db, parseRetentionConfig(process.env));
+const webVitalsMonitor = new WebVitalsMonitor(db, anomalyDetector, eventPipeline);
 const providerTracker = new ProviderStatusTracker();
 
-// Wire provider tracker into incident service for outage correlation
+// Wire provider tracker into incident service and the event pipeline for outage correlation
 incidentService.setProviderTracker(providerTracker);
+eventPipeline.setProviderTracker(providerTracker);
+
+// Wire deployment tracker in so incidents can be attributed to a deploy
+incidentService.setDeploymentTracker(deploymentTracker);
 
 // Initialize optional integrations based on env vars
 let supabasePoller: SupabasePoller | null = null;
 if (process.env.SUPABASE_PROJECT_REF && process.env.SUPABASE_SERVICE_KEY) {
   supabasePoller = new SupabasePoller(
     db,
+    eventPipeline,
     process.env.SUPABASE_PROJECT_REF,
     process.env.SUPABASE_SERVICE_KEY
   );
@@ -116,16 +192,37 @@ fastify.get('/provider-status', async () => {
 });
 
 // Register provider webhooks
-registerStripeWebhook(fastify, db, process.env.STRIPE_WEBHOOK_SECRET);
-registerGitHubWebhook(fastify, db, process.env.GITHUB_WEBHOOK_SECRET);
+registerStripeWebhook(fastify, db, eventPipeline, process.env.STRIPE_WEBHOOK_SECRET);
+registerGitHubWebhook(fastify, db, eventPipeline, process.env.GITHUB_WEBHOOK_SECRET);
 
 // Register OTLP trace/metric ingest routes
-registerOtlpRoutes(fastify, db, anomalyDetector, incidentService);
+registerOtlpRoutes(fastify, db, anomalyDetector, eventPipeline, deploymentTracker);
+
+// Source map uploads for symbolicating browser errors
+registerSourceMapRoutes(fastify, db, symbolicator);
+
+// Deploy tracking
+registerDeploymentRoutes(fastify, db, deploymentTracker);
+
+// Public status pages and their settings
+registerStatusPageRoutes(fastify, db, process.env.PUBLIC_URL);
+
+// Browser page-load performance
+registerWebVitalsRoutes(fastify, db, deploymentTracker);
+
+// DOM recordings uploaded with browser errors
+registerReplayRoutes(fastify, db);
 
 // Project management endpoints
 fastify.post<{ Body: { name: string } }>('/projects', async (request, reply) => {
   const { name } = request.body;
 
+  // Project keys are scoped to one project; only the admin token can create more
+  if (request.auth && !request.auth.admin) {
+    reply.code(403);
+    return { success: false, message: 'API keys cannot create projects' };
+  }
+
   try {
     const result = await db.createProject(name);
     return { success: true, id: result.id };
@@ -139,17 +236,91 @@ fastify.post<{ Body: { name: string } }>('/projects', async (request, reply) =>
 fastify.get('/projects', async (request) => {
   const { name } = request.query as { name?: string };
   const projects = await db.getProjects(name || undefined);
-  return projects;
+  return projects.filter((p) => !request.auth?.projectId || p.id === request.auth.projectId);
+});
+
+// Anomaly detection sensitivity and which detectors run for a project
+fastify.get<{ Params: { id: string } }>('/projects/:id/anomaly-settings', async (request, reply) => {
+  const { id } = request.params;
+  if (!assertProjectAccess(request, reply, id, 'Project')) return;
+
+  const settings = await db.getAnomalySettings(id);
+  return {
+    settings: settings ?? DEFAULT_ANOMALY_SETTINGS,
+    detectors: anomalyDetector.detectorNames,
+  };
+});
+
+fastify.post<{
+  Params: { id: string };
+  Body: Partial<AnomalySettings>;
+}>('/projects/:id/anomaly-settings', async (request, reply) => {
+  const { id } = request.params;
+  const { sensitivity, disabled_detectors } = request.body ?? {};
+
+  if (!assertProjectAccess(request, reply, id, 'Project')) return;
+
+  if (sensitivity !== undefined && !Object.keys(SENSITIVITY_THRESHOLDS).includes(sensitivity)) {
+    reply.code(400);
+    return { error: `sensitivity must be one of: ${Object.keys(SENSITIVITY_THRESHOLDS).join(', ')}` };
+  }
+
+  if (disabled_detectors !== undefined) {
+    const unknown = Array.isArray(disabled_detectors)
+      ? disabled_detectors.filter((name) => !anomalyDetector.detectorNames.includes(name))
+      : null;
+    if (!unknown || unknown.length > 0) {
+      reply.code(400);
+      return { error: `disabled_detectors must only contain: ${anomalyDetector.detectorNames.join(', ')}` };
+    }
+  }
+
+  try {
+    const current = (await db.getAnomalySettings(id)) ?? DEFAULT_ANOMALY_SETTINGS;
+    const settings: AnomalySettings = {
+      sensitivity: sensitivity ?? current.sensitivity,
+      disabled_detectors: disabled_detectors ?? current.disabled_detectors,
+    };
+
+    await db.updateAnomalySettings(id, settings);
+    anomalyDetector.invalidateSettings(id);
+
+    return { success: true, settings };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to update anomaly settings' };
+  }
 });
 
 // Monitor management endpoints
 fastify.post<{
-  Body: { project_id: string; url: string; check_interval_seconds?: number };
+  Body: {
+    project_id: string;
+    url?: string;
+    check_interval_seconds?: number;
+    type?: MonitorType;
+    steps?: TransactionStep[];
+    failure_threshold?: number;
+  } & Partial<MonitorCheckConfig>;
 }>('/monitors', async (request, reply) => {
-  const { project_id, url, check_interval_seconds = 60 } = request.body;
+  const { project_id, check_interval_seconds = 60 } = request.body;
+
+  const parsed = parseMonitorConfig(request.body as Record<string, unknown>);
+  if ('error' in parsed) {
+    reply.code(400);
+    return { error: parsed.error };
+  }
+
+  // Transaction monitors are listed under their first step's URL unless one is given
+  const url = request.body.url || parsed.config.steps?.[0]?.url;
+  if (!url) {
+    reply.code(400);
+    return { error: 'url is required' };
+  }
 
   try {
-    const monitor = await db.createMonitor(project_id, url, check_interval_seconds);
+    const monitor = await db.createMonitor(project_id, url, check_interval_seconds, parsed.config);
     return { success: true, monitor };
   } catch (error) {
     request.log.error(error);
@@ -158,9 +329,59 @@ fastify.post<{
   }
 });
 
-fastify.get('/monitors', async () => {
+// Update a monitor's URL, interval or check settings (only the fields sent are changed)
+fastify.post<{
+  Params: { id: string };
+  Body: {
+    url?: string;
+    check_interval_seconds?: number;
+    type?: MonitorType;
+    steps?: TransactionStep[];
+    failure_threshold?: number;
+  } & Partial<MonitorCheckConfig>;
+}>('/monitors/:id', async (request, reply) => {
+  const { id } = request.params;
+  const { url, check_interval_seconds } = request.body;
+
+  const existing = await db.getMonitorById(id);
+  if (!existing) {
+    reply.code(404);
+    return { error: 'Monitor not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, existing.project_id, 'Monitor')) return;
+
+  const parsed = parseMonitorConfig(request.body as Record<string, unknown>, existing.type);
+  if ('error' in parsed) {
+    reply.code(400);
+    return { error: parsed.error };
+  }
+
+  try {
+    const monitor = await db.updateMonitor(id, {
+      url: url ?? parsed.config.steps?.[0]?.url,
+      check_interval_seconds,
+      ...parsed.config,
+    });
+    return { success: true, monitor };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to update monitor' };
+  }
+});
+
+fastify.get('/monitors', async (request) => {
+  const { project_id } = request.query as { project_id?: string };
   const monitors = await db.getMonitors();
-  return { monitors };
+  const tlsStatuses = new Map((await db.getMonitorTlsStatuses(project_id)).map((t) => [t.monitor_id, t]));
+
+  return {
+    monitors: (project_id ? monitors.filter((m) => m.project_id === project_id) : monitors).map((m) => {
+      const tls = tlsStatuses.get(m.id);
+      return { ...m, tls: tls ? toTlsSummary(tls) : null };
+    }),
+  };
 });
 
 fastify.get<{ Params: { id: string } }>('/monitors/:id', async (request, reply) => {
@@ -172,7 +393,10 @@ fastify.get<{ Params: { id: string } }>('/monitors/:id', async (request, reply)
     return { error: 'Monitor not found' };
   }
 
-  return { monitor };
+  if (!assertProjectAccess(request, reply, monitor.project_id, 'Monitor')) return;
+
+  const tls = await db.getMonitorTls(id);
+  return { monitor: { ...monitor, tls: tls ? toTlsSummary(tls) : null } };
 });
 
 // Events endpoints
@@ -189,6 +413,46 @@ fastify.get('/events', async (request) => {
   return { events };
 });
 
+// Error events grouped by fingerprint
+fastify.get('/issues', async (request, reply) => {
+  const { project_id, source, sort = 'last_seen', limit = 50 } = request.query as {
+    project_id?: string;
+    source?: string;
+    sort?: string;
+    limit?: number;
+  };
+
+  if (sort !== 'last_seen' && sort !== 'first_seen' && sort !== 'count') {
+    reply.code(400);
+    return { error: 'sort must be one of: last_seen, first_seen, count' };
+  }
+
+  const issues = await db.getIssues({ project_id, source, sort, limit });
+  return { issues };
+});
+
+fastify.get<{ Params: { id: string } }>('/issues/:id', async (request, reply) => {
+  const { id } = request.params;
+  const { limit = 20 } = request.query as { limit?: number };
+
+  const issue = await db.getIssue(id);
+
+  if (!issue) {
+    reply.code(404);
+    return { error: 'Issue not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, issue.project_id, 'Issue')) return;
+
+  // Most recent occurrences
+  const events = await db.getEvents({ project_id: issue.project_id, fingerprint: issue.fingerprint, limit });
+
+  return {
+    issue,
+    events,
+  };
+});
+
 // Vercel log drain webhook endpoint
 fastify.post<{ Body: VercelLogDrainPayload[] }>('/ingest/vercel', async (request, reply) => {
   const logs = Array.isArray(request.body) ? request.body : [request.body];
@@ -197,13 +461,23 @@ fastify.post<{ Body: VercelLogDrainPayload[] }>('/ingest/vercel', async (request
     let errorCount = 0;
 
     for (const log of logs) {
+      // Every log line names its deployment; the first one seen marks the deploy.
+      // Without a project key only error logs are tied to a project, below.
+      if (request.auth?.projectId && log.deploymentId) {
+        await deploymentTracker.observe(request.auth.projectId, log.deploymentId, 'vercel', vercelDeploymentDetails(log));
+      }
+
       // Only process error-level logs
       if (log.level === 'error') {
-        // Find or create a project for this deployment
-        const { id: projectId } = await db.getOrCreateProject(log.deploymentId || log.source);
+        // Use the API key's project, otherwise find or create one for this deployment
+        const projectId = request.auth?.projectId
+          || (await db.getOrCreateProject(log.deploymentId || log.source)).id;
+
+        if (log.deploymentId) {
+          await deploymentTracker.observe(projectId, log.deploymentId, 'vercel', vercelDeploymentDetails(log));
+        }
 
-        // Create event
-        const eventRow = await db.createEvent({
+        await eventPipeline.ingest({
           project_id: projectId,
           type: 'error',
           source: 'vercel',
@@ -212,31 +486,6 @@ fastify.post<{ Body: VercelLogDrainPayload[] }>('/ingest/vercel', async (request
           severity: 'high',
         });
 
-        // Run anomaly detection
-        const event = {
-          id: eventRow.id,
-          project_id: eventRow.project_id,
-          monitor_id: eventRow.monitor_id || undefined,
-          type: eventRow.type as 'error',
-          source: eventRow.source as 'vercel',
-          message: eventRow.message,
-          raw_data: eventRow.raw_data || undefined,
-          severity: eventRow.severity as 'high',
-          created_at: eventRow.created_at,
-        };
-        const anomalyResult = await anomalyDetector.analyzeEvent(event);
-
-        if (anomalyResult.shouldDiagnose) {
-          await anomalyDetector.markForDiagnosis(event.id, anomalyResult.reason || 'Anomaly detected');
-
-          // Create incident with AI diagnosis
-          try {
-            await incidentService.createIncident([event.id]);
-          } catch (err) {
-            request.log.error({ err }, 'Failed to create incident');
-          }
-        }
-
         errorCount++;
       }
     }
@@ -289,20 +538,36 @@ fastify.get<{ Params: { id: string } }>('/incidents/:id', async (request, reply)
     return { error: 'Incident not found' };
   }
 
-  // Also fetch the related events
-  const events = await db.getEventsByIds(incident.events);
+  if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
+  // Also fetch the related events, what has happened so far and what diagnosing it cost
+  const [events, timeline, diagnosisRuns] = await Promise.all([
+    db.getEventsByIds(incident.events),
+    incidentService.getTimeline(id),
+    incidentService.getDiagnosisRuns(id),
+  ]);
 
   return {
     incident,
     events,
+    timeline,
+    diagnosis_runs: diagnosisRuns,
   };
 });
 
-fastify.post<{ Params: { id: string } }>('/incidents/:id/resolve', async (request, reply) => {
+fastify.post<{ Params: { id: string }; Body: { by?: string } }>('/incidents/:id/resolve', async (request, reply) => {
   const { id } = request.params;
 
+  const incident = await db.getIncident(id);
+  if (!incident) {
+    reply.code(404);
+    return { error: 'Incident not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
   try {
-    await incidentService.resolveIncident(id);
+    await incidentService.resolveIncident(id, parsePersonName(request.body?.by));
     return { success: true, message: 'Incident resolved' };
   } catch (error) {
     request.log.error(error);
@@ -311,17 +576,278 @@ fastify.post<{ Params: { id: string } }>('/incidents/:id/resolve', async (reques
   }
 });
 
+fastify.post<{ Params: { id: string }; Body: { by?: string } }>('/incidents/:id/acknowledge', async (request, reply) => {
+  const { id } = request.params;
+
+  const incident = await db.getIncident(id);
+  if (!incident) {
+    reply.code(404);
+    return { error: 'Incident not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
+  if (incident.status === 'resolved') {
+    reply.code(400);
+    return { error: 'Incident is resolved; reopen it first' };
+  }
+
+  try {
+    await incidentService.acknowledgeIncident(id, parsePersonName(request.body?.by));
+    return { success: true, message: 'Incident acknowledged' };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to acknowledge incident' };
+  }
+});
+
+fastify.post<{
+  Params: { id: string };
+  Body: { assignee?: string | null; by?: string };
+}>('/incidents/:id/assign', async (request, reply) => {
+  const { id } = request.params;
+  const { assignee, by } = request.body ?? {};
+
+  const incident = await db.getIncident(id);
+  if (!incident) {
+    reply.code(404);
+    return { error: 'Incident not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
+  if (assignee !== null && (typeof assignee !== 'string' || assignee.trim() === '')) {
+    reply.code(400);
+    return { error: 'assignee must be a name, or null to unassign' };
+  }
+
+  try {
+    await incidentService.assignIncident(id, parsePersonName(assignee), parsePersonName(by));
+    return { success: true, message: assignee ? 'Incident assigned' : 'Incident unassigned' };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to assign incident' };
+  }
+});
+
+fastify.post<{ Params: { id: string }; Body: { by?: string } }>('/incidents/:id/reopen', async (request, reply) => {
+  const { id } = request.params;
+
+  const incident = await db.getIncident(id);
+  if (!incident) {
+    reply.code(404);
+    return { error: 'Incident not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
+  if (incident.status !== 'resolved') {
+    reply.code(400);
+    return { error: 'Only resolved incidents can be reopened' };
+  }
+
+  try {
+    await incidentService.reopenIncident(id, parsePersonName(request.body?.by));
+    return { success: true, message: 'Incident reopened' };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to reopen incident' };
+  }
+});
+
+fastify.post<{
+  Params: { id: string };
+  Body: { body?: string; author?: string };
+}>('/incidents/:id/comments', async (request, reply) => {
+  const { id } = request.params;
+  const { body, author } = request.body ?? {};
+
+  const incident = await db.getIncident(id);
+  if (!incident) {
+    reply.code(404);
+    return { error: 'Incident not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
+  if (typeof body !== 'string' || body.trim() === '') {
+    reply.code(400);
+    return { error: 'body is required' };
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    reply.code(400);
+    return { error: `body must be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+
+  try {
+    const entry = await incidentService.addComment(id, body.trim(), parsePersonName(author));
+    return { success: true, entry };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to add comment' };
+  }
+});
+
+// Customer-facing updates, shown on the project's status page
+fastify.post<{
+  Params: { id: string };
+  Body: { status?: StatusUpdateStatus; message?: string; title?: string; by?: string };
+}>('/incidents/:id/status-updates', async (request, reply) => {
+  const { id } = request.params;
+  const { status = 'investigating', message, title, by } = request.body ?? {};
+
+  const incident = await db.getIncident(id);
+  if (!incident) {
+    reply.code(404);
+    return { error: 'Incident not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
+  if (!STATUS_UPDATE_STATUSES.includes(status)) {
+    reply.code(400);
+    return { error: `status must be one of: ${STATUS_UPDATE_STATUSES.join(', ')}` };
+  }
+  if (typeof message !== 'string' || message.trim() === '') {
+    reply.code(400);
+    return { error: 'message is required' };
+  }
+  if (message.length > MAX_COMMENT_LENGTH) {
+    reply.code(400);
+    return { error: `message must be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+  if (title !== undefined && (typeof title !== 'string' || title.length > 255)) {
+    reply.code(400);
+    return { error: 'title must be a string of at most 255 characters' };
+  }
+
+  try {
+    const entry = await incidentService.addStatusUpdate(
+      id,
+      { status, message: message.trim(), title: title?.trim() || null },
+      parsePersonName(by)
+    );
+    return { success: true, entry };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to post status update' };
+  }
+});
+
+fastify.post<{ Params: { id: string }; Body: { by?: string } }>('/incidents/:id/rediagnose', async (request, reply) => {
+  const { id } = request.params;
+
+  const incident = await db.getIncident(id);
+  if (!incident) {
+    reply.code(404);
+    return { error: 'Incident not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
+  if (!incidentService.canDiagnose()) {
+    reply.code(400);
+    return { error: 'Incident diagnosis is disabled (DIAGNOSIS_PROVIDER=off)' };
+  }
+
+  try {
+    await incidentService.rediagnose(id, parsePersonName(request.body?.by));
+    return { success: true, incident: await incidentService.getIncident(id) };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to diagnose incident' };
+  }
+});
+
+fastify.post<{
+  Params: { id: string };
+  Body: { helpful?: boolean; actual_root_cause?: string | null; by?: string };
+}>('/incidents/:id/feedback', async (request, reply) => {
+  const { id } = request.params;
+  const { helpful, actual_root_cause, by } = request.body ?? {};
+
+  const incident = await db.getIncident(id);
+  if (!incident) {
+    reply.code(404);
+    return { error: 'Incident not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
+  if (typeof helpful !== 'boolean') {
+    reply.code(400);
+    return { error: 'helpful must be true or false' };
+  }
+  if (actual_root_cause !== undefined && actual_root_cause !== null && typeof actual_root_cause !== 'string') {
+    reply.code(400);
+    return { error: 'actual_root_cause must be a string' };
+  }
+  if (actual_root_cause && actual_root_cause.length > MAX_COMMENT_LENGTH) {
+    reply.code(400);
+    return { error: `actual_root_cause must be at most ${MAX_COMMENT_LENGTH} characters` };
+  }
+
+  try {
+    const feedback = await incidentService.addFeedback(
+      id,
+      helpful,
+      actual_root_cause?.trim() || null,
+      parsePersonName(by)
+    );
+    return { success: true, feedback };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to save feedback' };
+  }
+});
+
 // Notification channel management endpoints
 fastify.post<{
-  Body: { project_id: string; type: 'discord' | 'slack'; webhook_url: string };
+  Body: {
+    project_id: string;
+    type: ChannelType;
+    webhook_url?: string;
+    to?: string | string[];
+    routing_key?: string;
+    secret?: string;
+    digest_interval?: 'hourly' | 'daily';
+    escalation_channel_id?: string | null;
+  };
 }>('/channels', async (request, reply) => {
-  const { project_id, type, webhook_url } = request.body;
+  const { project_id } = request.body;
+
+  const target = parseChannelTarget(request.body as Record<string, unknown>);
+  if ('error' in target) {
+    reply.code(400);
+    return { error: target.error };
+  }
+
+  const parsed = parseChannelSettings(request.body as Record<string, unknown>);
+  if ('error' in parsed) {
+    reply.code(400);
+    return { error: parsed.error };
+  }
+
+  const escalationError = await notificationManager.checkEscalationChannel(project_id, parsed.settings.escalation_channel_id);
+  if (escalationError) {
+    reply.code(400);
+    return { error: escalationError };
+  }
 
   try {
     const channel = await notificationManager.createChannel(
       project_id,
-      type,
-      webhook_url
+      target.type,
+      target.webhook_url,
+      parsed.settings,
+      target.config
     );
     return { success: true, channel };
   } catch (error) {
@@ -346,9 +872,59 @@ fastify.get('/channels', async (request) => {
   }
 });
 
+// Update a channel's digest interval and escalation channel
+fastify.post<{
+  Params: { id: string };
+  Body: { digest_interval?: 'hourly' | 'daily'; escalation_channel_id?: string | null };
+}>('/channels/:id', async (request, reply) => {
+  const { id } = request.params;
+
+  const existing = await db.getChannelById(id);
+  if (!existing) {
+    reply.code(404);
+    return { error: 'Channel not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, existing.project_id, 'Channel')) return;
+
+  const parsed = parseChannelSettings(request.body as Record<string, unknown>);
+  if ('error' in parsed) {
+    reply.code(400);
+    return { error: parsed.error };
+  }
+
+  if (parsed.settings.escalation_channel_id === id) {
+    reply.code(400);
+    return { error: 'A channel cannot escalate to itself' };
+  }
+
+  const escalationError = await notificationManager.checkEscalationChannel(existing.project_id, parsed.settings.escalation_channel_id);
+  if (escalationError) {
+    reply.code(400);
+    return { error: escalationError };
+  }
+
+  try {
+    const channel = await notificationManager.updateChannelSettings(id, parsed.settings);
+    return { success: true, channel };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to update channel' };
+  }
+});
+
 fastify.delete<{ Params: { id: string } }>('/channels/:id', async (request, reply) => {
   const { id } = request.params;
 
+  const channel = await db.getChannelById(id);
+  if (!channel) {
+    reply.code(404);
+    return { error: 'Channel not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, channel.project_id, 'Channel')) return;
+
   try {
     await notificationManager.deleteChannel(id);
     return { success: true, message: 'Channel deleted' };
@@ -365,6 +941,14 @@ fastify.post<{ Params: { id: string }; Body: { enabled: boolean } }>(
     const { id } = request.params;
     const { enabled } = request.body;
 
+    const channel = await db.getChannelById(id);
+    if (!channel) {
+      reply.code(404);
+      return { error: 'Channel not found' };
+    }
+
+    if (!assertProjectAccess(request, reply, channel.project_id, 'Channel')) return;
+
     try {
       await notificationManager.toggleChannel(id, enabled);
       return { success: true, message: `Channel ${enabled ? 'enabled' : 'disabled'}` };
@@ -376,16 +960,95 @@ fastify.post<{ Params: { id: string }; Body: { enabled: boolean } }>(
   }
 );
 
+// Routing rules decide which incidents a channel hears about, and when
+fastify.get<{ Params: { id: string } }>('/channels/:id/rules', async (request, reply) => {
+  const channel = await db.getChannelById(request.params.id);
+  if (!channel) {
+    reply.code(404);
+    return { error: 'Channel not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, channel.project_id, 'Channel')) return;
+
+  return { rules: channel.rules };
+});
+
+fastify.post<{ Params: { id: string } }>('/channels/:id/rules', async (request, reply) => {
+  const { id } = request.params;
+
+  const channel = await db.getChannelById(id);
+  if (!channel) {
+    reply.code(404);
+    return { error: 'Channel not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, channel.project_id, 'Channel')) return;
+
+  const parsed = parseChannelRules((request.body ?? {}) as Record<string, unknown>);
+  if ('error' in parsed) {
+    reply.code(400);
+    return { error: parsed.error };
+  }
+
+  for (const monitorId of parsed.rules.monitor_ids ?? []) {
+    const monitor = await db.getMonitorById(monitorId);
+    if (!monitor || monitor.project_id !== channel.project_id) {
+      reply.code(400);
+      return { error: `Monitor ${monitorId} is not in this project` };
+    }
+  }
+
+  try {
+    const updated = await notificationManager.updateChannelRules(id, parsed.rules);
+    return { success: true, rules: updated?.rules ?? parsed.rules };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to update channel rules' };
+  }
+});
+
+fastify.delete<{ Params: { id: string } }>('/channels/:id/rules', async (request, reply) => {
+  const { id } = request.params;
+
+  const channel = await db.getChannelById(id);
+  if (!channel) {
+    reply.code(404);
+    return { error: 'Channel not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, channel.project_id, 'Channel')) return;
+
+  try {
+    await notificationManager.updateChannelRules(id, {});
+    return { success: true, message: 'Channel rules cleared' };
+  } catch (error) {
+    request.log.error(error);
+    reply.code(500);
+    return { success: false, message: 'Failed to clear channel rules' };
+  }
+});
+
 fastify.post<{ Params: { id: string } }>('/channels/:id/test', async (request, reply) => {
   const { id } = request.params;
 
+  const channel = await db.getChannelById(id);
+  if (!channel) {
+    reply.code(404);
+    return { error: 'Channel not found' };
+  }
+
+  if (!assertProjectAccess(request, reply, channel.project_id, 'Channel')) return;
+
   try {
     await notificationManager.testChannel(id);
     return { success: true, message: 'Test notification sent' };
   } catch (error) {
     request.log.error(error);
     reply.code(500);
-    return { success: false, message: 'Failed to send test notification' };
+    // The reason (a 401 from the webhook, a refused SMTP login) is what you need to fix the channel
+    const reason = error instanceof Error ? error.message : String(error);
+    return { success: false, message: `Failed to send test notification: ${reason}` };
   }
 });
 
@@ -414,7 +1077,7 @@ fastify.get('/waitlist', async (request, reply) => {
   const token = request.headers.authorization?.replace('Bearer ', '');
   const apiToken = process.env.API_TOKEN;
 
-  if (!apiToken || token !== apiToken) {
+  if (!apiToken || !token || !matchesToken(token, apiToken)) {
     return reply.code(401).send({ error: 'Unauthorized' });
   }
 
@@ -435,23 +1098,73 @@ fastify.get('/waitlist', async (request, reply) => {
   }
 });
 
+// Reports from @scanwarp/browser
+interface BrowserErrorReport {
+  type: string;
+  message: string;
+  stack?: string;
+  timestamp: number;
+  url: string;
+  userAgent: string;
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+  sessionId: string;
+  release?: string;
+  /** What the user did before the error, oldest first */
+  breadcrumbs?: Breadcrumb[];
+  /** Trace of the failed request, from the traceparent header the script added */
+  traceId?: string;
+  /** Id of the DOM recording uploaded to /api/browser-replays, when replay is on */
+  replayId?: string;
+  /** Times the error repeated before it was sent; the script folds repeats into one report */
+  count?: number;
+  /** When the last repeat happened */
+  lastSeen?: number;
+}
+
+// Caps what one report can add to its issue's count
+const MAX_BROWSER_ERROR_COUNT = 10000;
+
+async function ingestBrowserErrors(projectId: string, errors: BrowserErrorReport[]): Promise<number> {
+  let createdCount = 0;
+
+  for (const error of errors) {
+    if (error.release) {
+      await deploymentTracker.observe(projectId, error.release, 'browser');
+    }
+
+    // Malformed breadcrumbs are dropped rather than rejecting the error
+    if (error.breadcrumbs !== undefined) {
+      error.breadcrumbs = parseBreadcrumbs(error.breadcrumbs);
+    }
+
+    const count = Number.isInteger(error.count) && error.count! > 1 ? Math.min(error.count!, MAX_BROWSER_ERROR_COUNT) : 1;
+
+    // Map minified frames back to source before fingerprinting and diagnosis
+    const symbolicated = await symbolicator.symbolicate(projectId, error);
+
+    // Create event for each browser error
+    await eventPipeline.ingest({
+      project_id: projectId,
+      type: 'error',
+      source: 'browser',
+      message: `[${error.type}] ${error.message}`,
+      raw_data: (symbolicated ? { ...error, ...symbolicated } : error) as unknown as Record<string, unknown>,
+      severity: error.type === 'blank_screen' || error.type === 'unhandled_error' ? 'high' : 'medium',
+      occurrences: count,
+    });
+
+    createdCount++;
+  }
+
+  return createdCount;
+}
+
 // Browser error tracking endpoint
 fastify.post<{
   Headers: { 'x-scanwarp-project-id': string };
-  Body: {
-    errors: Array<{
-      type: string;
-      message: string;
-      stack?: string;
-      timestamp: number;
-      url: string;
-      userAgent: string;
-      filename?: string;
-      lineno?: number;
-      colno?: number;
-      sessionId: string;
-    }>;
-  };
+  Body: { errors: BrowserErrorReport[] };
 }>('/api/browser-errors', async (request, reply) => {
   const projectId = request.headers['x-scanwarp-project-id'];
 
@@ -466,47 +1179,46 @@ fastify.post<{
   }
 
   try {
-    let createdCount = 0;
-
-    for (const error of errors) {
-      // Create event for each browser error
-      const eventRow = await db.createEvent({
-        project_id: projectId,
-        type: 'error',
-        source: 'browser',
-        message: `[${error.type}] ${error.message}`,
-        raw_data: error as unknown as Record<string, unknown>,
-        severity: error.type === 'blank_screen' || error.type === 'unhandled_error' ? 'high' : 'medium',
-      });
-
-      // Run anomaly detection
-      const event = {
-        id: eventRow.id,
-        project_id: eventRow.project_id,
-        monitor_id: eventRow.monitor_id || undefined,
-        type: eventRow.type as 'error',
-        source: eventRow.source as 'browser',
-        message: eventRow.message,
-        raw_data: eventRow.raw_data || undefined,
-        severity: eventRow.severity as 'high' | 'medium',
-        created_at: eventRow.created_at,
-      };
-
-      const anomalyResult = await anomalyDetector.analyzeEvent(event);
-
-      if (anomalyResult.shouldDiagnose) {
-        await anomalyDetector.markForDiagnosis(event.id, anomalyResult.reason || 'Browser error anomaly detected');
-
-        // Create incident with AI diagnosis
-        try {
-          await incidentService.createIncident([event.id]);
-        } catch (err) {
-          request.log.error({ err }, 'Failed to create incident for browser error');
-        }
-      }
+    const createdCount = await ingestBrowserErrors(projectId, errors);
 
-      createdCount++;
-    }
+    return {
+      success: true,
+      message: `Processed ${errors.length} browser errors`,
+      created: createdCount,
+    };
+  } catch (error) {
+    request.log.error(error);
+    return reply.code(500).send({ success: false, message: 'Failed to process browser errors' });
+  }
+});
+
+// Browser errors sent with navigator.sendBeacon as the page is left. Beacons
+// can't set headers, so the project (and key) come in the query string and
+// the JSON body arrives as text/plain.
+fastify.post<{
+  Querystring: { project_id?: string };
+  Body: string | { errors?: BrowserErrorReport[] };
+}>('/api/browser-errors/beacon', async (request, reply) => {
+  const projectId = request.query.project_id;
+
+  if (!projectId) {
+    return reply.code(400).send({ error: 'Missing project_id query parameter' });
+  }
+
+  let body: { errors?: BrowserErrorReport[] } | null;
+  try {
+    body = typeof request.body === 'string' ? JSON.parse(request.body) : request.body;
+  } catch {
+    return reply.code(400).send({ error: 'Body is not valid JSON' });
+  }
+
+  const errors = body?.errors;
+  if (!errors || !Array.isArray(errors)) {
+    return reply.code(400).send({ error: 'Missing or invalid errors array' });
+  }
+
+  try {
+    const createdCount = await ingestBrowserErrors(projectId, errors);
 
     return {
       success: true,
@@ -533,6 +1245,15 @@ const start = async () => {
     // Start the in-memory provider status tracker (for incident correlation)
     await providerTracker.start();
 
+    // Roll up and prune old telemetry
+    await retentionJob.start();
+
+    // Watch browser web vitals for regressions
+    await webVitalsMonitor.start();
+
+    // Send held, digest and escalation notifications, including any that came due while we were down
+    await notificationScheduler.start();
+
     // Start optional integrations
     if (supabasePoller) {
       await supabasePoller.start();
@@ -551,6 +1272,9 @@ process.on('SIGTERM', async () => {
   await monitorRunner.stop();
   await statusChecker.stop();
   await providerTracker.stop();
+  await retentionJob.stop();
+  await webVitalsMonitor.stop();
+  await notificationScheduler.stop();
   if (supabasePoller) {
     await supabasePoller.stop();
   }
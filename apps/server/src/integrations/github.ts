@@ -1,11 +1,13 @@
 import type { FastifyInstance, FastifyRequest } from 'fastify';
 import type { Database } from '../db/index.js';
+import type { EventPipeline } from '../monitoring/EventPipeline.js';
 import crypto from 'crypto';
 import type { GitHubWebhookEvent, ProviderEvent } from '@scanwarp/core';
 
 export async function registerGitHubWebhook(
   fastify: FastifyInstance,
   db: Database,
+  pipeline: EventPipeline,
   webhookSecret?: string
 ) {
   fastify.post<{ Body: GitHubWebhookEvent }>(
@@ -58,7 +60,7 @@ export async function registerGitHubWebhook(
         const providerEvent = normalizeGitHubEvent(event, String(eventType));
         const { id: projectId } = await db.getOrCreateProject('github-default');
 
-        await db.createEvent({
+        await pipeline.ingest({
           project_id: projectId,
           type: providerEvent.type,
           source: providerEvent.source,
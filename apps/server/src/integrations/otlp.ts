@@ -1,7 +1,10 @@
 import type { FastifyInstance } from 'fastify';
-import type { Database } from '../db/index.js';
+import { eventTraceIds } from '@scanwarp/core';
+import type { Database, MetricBucketRow } from '../db/index.js';
 import type { AnomalyDetector } from '../monitoring/AnomalyDetector.js';
-import type { IncidentService } from '../monitoring/IncidentService.js';
+import type { EventPipeline } from '../monitoring/EventPipeline.js';
+import type { DeploymentTracker } from '../deployments/DeploymentTracker.js';
+import { assertProjectAccess } from '../auth/apiKeys.js';
 
 // OTLP JSON span format (subset of fields we care about)
 interface OtlpSpan {
@@ -50,10 +53,68 @@ interface OtlpTracePayload {
   resourceSpans?: OtlpResourceSpans[];
 }
 
+// OTLP JSON metric format (gauge, sum and histogram only)
+interface OtlpNumberDataPoint {
+  timeUnixNano?: string;
+  asDouble?: number;
+  asInt?: string | number;
+  attributes?: OtlpAttribute[];
+}
+
+interface OtlpHistogramDataPoint {
+  timeUnixNano?: string;
+  count?: string | number;
+  sum?: number;
+  min?: number;
+  max?: number;
+  bucketCounts?: Array<string | number>;
+  explicitBounds?: number[];
+  attributes?: OtlpAttribute[];
+}
+
+interface OtlpMetric {
+  name: string;
+  unit?: string;
+  gauge?: { dataPoints?: OtlpNumberDataPoint[] };
+  sum?: { dataPoints?: OtlpNumberDataPoint[]; aggregationTemporality?: number };
+  histogram?: { dataPoints?: OtlpHistogramDataPoint[] };
+}
+
+interface OtlpScopeMetrics {
+  metrics?: OtlpMetric[];
+}
+
+interface OtlpResourceMetrics {
+  resource?: OtlpResource;
+  scopeMetrics?: OtlpScopeMetrics[];
+}
+
 interface OtlpMetricPayload {
-  resourceMetrics?: unknown[];
+  resourceMetrics?: OtlpResourceMetrics[];
 }
 
+interface MetricSeries {
+  service_name: string;
+  name: string;
+  kind: string;
+  unit: string | null;
+  temporality: string | null;
+  attributes: Record<string, unknown>;
+  buckets: Map<number, MetricBucketRow>;
+}
+
+// Aim for roughly this many points per series when no step is given
+const DEFAULT_METRIC_BUCKETS = 120;
+
+// Buckets per query, across all series; also the default
+const MAX_METRIC_POINTS = 10000;
+
+// OTLP AggregationTemporality enum
+const TEMPORALITY_MAP: Record<number, string> = {
+  1: 'delta',
+  2: 'cumulative',
+};
+
 // Map OTLP span kind enum to string
 const SPAN_KIND_MAP: Record<number, string> = {
   0: 'UNSPECIFIED',
@@ -75,7 +136,8 @@ export async function registerOtlpRoutes(
   fastify: FastifyInstance,
   db: Database,
   anomalyDetector: AnomalyDetector,
-  incidentService: IncidentService,
+  pipeline: EventPipeline,
+  deploymentTracker: DeploymentTracker,
 ) {
   // POST /v1/traces — OTLP JSON trace ingest
   fastify.post<{ Body: OtlpTracePayload }>('/v1/traces', async (request, reply) => {
@@ -98,6 +160,14 @@ export async function registerOtlpRoutes(
       for (const resourceSpan of payload.resourceSpans) {
         const serviceName = extractServiceName(resourceSpan.resource) || 'unknown-service';
 
+        // A service.version we haven't seen before means a new deploy
+        const serviceVersion = extractResourceAttribute(resourceSpan.resource, 'service.version');
+        if (serviceVersion) {
+          await deploymentTracker.observe(projectId, serviceVersion, 'otel', {
+            environment: extractResourceAttribute(resourceSpan.resource, 'deployment.environment'),
+          });
+        }
+
         for (const scopeSpan of resourceSpan.scopeSpans || []) {
           for (const otlpSpan of scopeSpan.spans) {
             const startTimeNano = BigInt(otlpSpan.startTimeUnixNano);
@@ -133,15 +203,16 @@ export async function registerOtlpRoutes(
 
             // Check for error spans → create trace_error events
             if (statusCode === 'ERROR') {
-              await createTraceEvent(
-                db,
-                anomalyDetector,
-                incidentService,
-                projectId,
-                'trace_error',
-                'high',
-                `Trace error in ${serviceName}: ${otlpSpan.name}${statusMessage ? ` — ${statusMessage}` : ''}`,
-                {
+              // The recorded exception (if any) gives the issue fingerprint its stack trace
+              const exception = spanEvents.find((e) => e.name === 'exception')?.attributes;
+
+              await pipeline.ingest({
+                project_id: projectId,
+                type: 'trace_error',
+                source: 'otel',
+                severity: 'high',
+                message: `Trace error in ${serviceName}: ${otlpSpan.name}${statusMessage ? ` — ${statusMessage}` : ''}`,
+                raw_data: {
                   trace_id: otlpSpan.traceId,
                   span_id: otlpSpan.spanId,
                   service_name: serviceName,
@@ -149,22 +220,26 @@ export async function registerOtlpRoutes(
                   duration_ms: durationMs,
                   status_message: statusMessage,
                   attributes,
+                  ...(exception ? {
+                    exception: {
+                      type: exception['exception.type'],
+                      message: exception['exception.message'],
+                      stacktrace: exception['exception.stacktrace'],
+                    },
+                  } : {}),
                 },
-                request,
-              );
+              });
             }
 
             // Check for slow database queries → create slow_query events
             if (attributes['db.system'] && durationMs > 1000) {
-              await createTraceEvent(
-                db,
-                anomalyDetector,
-                incidentService,
-                projectId,
-                'slow_query',
-                'medium',
-                `Slow ${attributes['db.system']} query in ${serviceName}: ${otlpSpan.name} (${durationMs}ms)`,
-                {
+              await pipeline.ingest({
+                project_id: projectId,
+                type: 'slow_query',
+                source: 'otel',
+                severity: 'medium',
+                message: `Slow ${attributes['db.system']} query in ${serviceName}: ${otlpSpan.name} (${durationMs}ms)`,
+                raw_data: {
                   trace_id: otlpSpan.traceId,
                   span_id: otlpSpan.spanId,
                   service_name: serviceName,
@@ -174,8 +249,41 @@ export async function registerOtlpRoutes(
                   db_statement: attributes['db.statement'],
                   attributes,
                 },
-                request,
-              );
+              });
+            }
+
+            // Feed server span latency to the anomaly detectors → slow events
+            if (otlpSpan.kind === 2 && statusCode !== 'ERROR') {
+              const method = attributes['http.request.method'] || attributes['http.method'];
+              const path = attributes['http.route'] || attributes['url.path'] || attributes['http.target'];
+              const route = path ? `${method ? `${method} ` : ''}${path}` : otlpSpan.name;
+
+              const latency = await anomalyDetector.observeLatency({
+                project_id: projectId,
+                source: 'otel',
+                route: String(route),
+                duration_ms: durationMs,
+              });
+
+              if (latency.isAnomaly) {
+                await pipeline.ingest({
+                  project_id: projectId,
+                  type: 'slow',
+                  source: 'otel',
+                  message: `Slow request in ${serviceName}: ${route} (${durationMs}ms)`,
+                  raw_data: {
+                    trace_id: otlpSpan.traceId,
+                    span_id: otlpSpan.spanId,
+                    service_name: serviceName,
+                    operation_name: otlpSpan.name,
+                    route,
+                    duration_ms: durationMs,
+                    attributes,
+                  },
+                  severity: 'medium',
+                  anomaly_reason: latency.reason,
+                });
+              }
             }
           }
         }
@@ -192,17 +300,203 @@ export async function registerOtlpRoutes(
     }
   });
 
-  // POST /v1/metrics — OTLP JSON metric ingest (acknowledge only for now)
-  fastify.post<{ Body: OtlpMetricPayload }>('/v1/metrics', async (request) => {
+  // POST /v1/metrics — OTLP JSON metric ingest
+  fastify.post<{ Body: OtlpMetricPayload }>('/v1/metrics', async (request, reply) => {
     const projectId = request.headers['x-scanwarp-project-id'] as string | undefined;
-    const metricCount = request.body.resourceMetrics?.length ?? 0;
 
-    fastify.log.info(
-      `OTLP metrics received: ${metricCount} resource metrics for project ${projectId ?? 'unknown'}`
-    );
+    if (!projectId) {
+      reply.code(400);
+      return { error: 'Missing x-scanwarp-project-id header' };
+    }
+
+    const payload = request.body;
+
+    if (!payload.resourceMetrics || payload.resourceMetrics.length === 0) {
+      return { partialSuccess: {} };
+    }
+
+    try {
+      let pointCount = 0;
+
+      for (const resourceMetric of payload.resourceMetrics) {
+        const serviceName = extractServiceName(resourceMetric.resource) || 'unknown-service';
+
+        for (const scopeMetric of resourceMetric.scopeMetrics || []) {
+          for (const metric of scopeMetric.metrics || []) {
+            const unit = metric.unit || null;
+            const numberPoints = metric.gauge?.dataPoints ?? metric.sum?.dataPoints;
+
+            if (numberPoints) {
+              const kind = metric.gauge ? 'gauge' : 'sum';
+              const temporality = metric.sum ? TEMPORALITY_MAP[metric.sum.aggregationTemporality ?? 0] ?? null : null;
+              for (const point of numberPoints) {
+                const value = point.asDouble ?? (point.asInt !== undefined ? Number(point.asInt) : undefined);
+                if (value === undefined || !Number.isFinite(value)) continue;
+
+                await db.insertMetricPoint({
+                  project_id: projectId,
+                  service_name: serviceName,
+                  name: metric.name,
+                  kind,
+                  unit,
+                  temporality,
+                  timestamp: nanoToMs(point.timeUnixNano),
+                  value,
+                  histogram: null,
+                  attributes: flattenAttributes(point.attributes),
+                });
+                pointCount++;
+              }
+            }
+
+            for (const point of metric.histogram?.dataPoints || []) {
+              const count = Number(point.count ?? 0);
+              const sum = point.sum ?? 0;
+
+              await db.insertMetricPoint({
+                project_id: projectId,
+                service_name: serviceName,
+                name: metric.name,
+                kind: 'histogram',
+                unit,
+                temporality: null,
+                timestamp: nanoToMs(point.timeUnixNano),
+                // Store the mean so histograms chart alongside gauges
+                value: count > 0 ? sum / count : 0,
+                histogram: {
+                  count,
+                  sum,
+                  min: point.min,
+                  max: point.max,
+                  bucket_counts: (point.bucketCounts || []).map(Number),
+                  explicit_bounds: point.explicitBounds || [],
+                },
+                attributes: flattenAttributes(point.attributes),
+              });
+              pointCount++;
+            }
+          }
+        }
+      }
+
+      fastify.log.info(`OTLP metrics ingested: ${pointCount} data points for project ${projectId}`);
+
+      return { partialSuccess: {} };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { error: 'Failed to ingest metrics' };
+    }
+  });
+
+  // GET /metrics — query metric series, downsampled into fixed time buckets
+  fastify.get('/metrics', async (request, reply) => {
+    const query = request.query as Record<string, string | undefined>;
+    const { project_id, name } = query;
+
+    if (!project_id) {
+      reply.code(400);
+      return { error: 'project_id is required' };
+    }
+
+    const endTime = query.end ? Date.parse(query.end) : Date.now();
+    const startTime = query.start ? Date.parse(query.start) : endTime - 24 * 60 * 60 * 1000;
+
+    if (Number.isNaN(startTime) || Number.isNaN(endTime) || startTime >= endTime) {
+      reply.code(400);
+      return { error: 'start and end must be ISO timestamps with start before end' };
+    }
+
+    const stepMs = query.step
+      ? Math.round(Number(query.step) * 1000)
+      : Math.max(60_000, Math.ceil((endTime - startTime) / DEFAULT_METRIC_BUCKETS));
+
+    if (!Number.isFinite(stepMs) || stepMs <= 0) {
+      reply.code(400);
+      return { error: 'step must be a positive number of seconds' };
+    }
+
+    const limit = query.limit === undefined ? MAX_METRIC_POINTS : Number(query.limit);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      reply.code(400);
+      return { error: 'limit must be a positive integer' };
+    }
+
+    // attr.<key>=<value> query params filter on data point attributes
+    const attributes: Record<string, string> = {};
+    for (const [key, value] of Object.entries(query)) {
+      if (key.startsWith('attr.') && value !== undefined) {
+        attributes[key.slice('attr.'.length)] = value;
+      }
+    }
+
+    try {
+      // Newest first, so a limit cuts off the oldest buckets; one extra tells us it did
+      const rows = await db.getMetricBuckets({
+        project_id,
+        name,
+        start_time: startTime,
+        end_time: endTime,
+        attributes,
+        step_ms: stepMs,
+        limit: Math.min(limit, MAX_METRIC_POINTS) + 1,
+      });
+      const truncated = rows.length > Math.min(limit, MAX_METRIC_POINTS);
+      if (truncated) rows.pop();
+
+      const seriesMap = new Map<string, MetricSeries>();
+      for (const row of rows) {
+        const key = `${row.service_name}|${row.name}|${row.kind}|${stableStringify(row.attributes)}`;
+        let series = seriesMap.get(key);
+        if (!series) {
+          series = {
+            service_name: row.service_name,
+            name: row.name,
+            kind: row.kind,
+            unit: row.unit,
+            temporality: row.temporality,
+            attributes: row.attributes,
+            buckets: new Map(),
+          };
+          seriesMap.set(key, series);
+        }
+        mergeBucket(series.buckets, row);
+      }
+
+      const metrics = Array.from(seriesMap.values()).map((series) => ({
+        service_name: series.service_name,
+        name: series.name,
+        kind: series.kind,
+        unit: series.unit,
+        attributes: series.attributes,
+        points: bucketValues(series),
+      }));
+
+      return { step_seconds: stepMs / 1000, truncated, metrics };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { error: 'Failed to fetch metrics' };
+    }
+  });
+
+  // GET /metrics/names — list metric names reported for a project
+  fastify.get('/metrics/names', async (request, reply) => {
+    const { project_id } = request.query as { project_id?: string };
+
+    if (!project_id) {
+      reply.code(400);
+      return { error: 'project_id is required' };
+    }
 
-    // Acknowledge — full metric storage comes later
-    return { partialSuccess: {} };
+    try {
+      const names = await db.getMetricNames(project_id);
+      return { names };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { error: 'Failed to fetch metric names' };
+    }
   });
 
   // GET /traces — list recent traces (grouped by trace_id, returning root spans)
@@ -269,6 +563,8 @@ export async function registerOtlpRoutes(
         return { error: 'Trace not found' };
       }
 
+      if (!assertProjectAccess(request, reply, spans[0].project_id, 'Trace')) return;
+
       return { trace_id: traceId, spans };
     } catch (error) {
       request.log.error(error);
@@ -289,23 +585,17 @@ export async function registerOtlpRoutes(
         return { error: 'Incident not found' };
       }
 
+      if (!assertProjectAccess(request, reply, incident.project_id, 'Incident')) return;
+
       const eventIds = incident.events;
       const events = await db.getEventsByIds(eventIds);
 
-      // Extract direct trace IDs from event raw_data
-      const traceIds: string[] = [];
-      for (const event of events) {
-        const traceId = event.raw_data?.['trace_id'];
-        if (typeof traceId === 'string') {
-          traceIds.push(traceId);
-        }
-      }
+      // Traces the events point at: otel spans, and browser requests that sent a traceparent
+      const traceIds = [...new Set(events.flatMap(eventTraceIds))];
 
-      let spans;
+      let spans = traceIds.length > 0 ? await db.getSpansByTraceIds(traceIds, 200) : [];
 
-      if (traceIds.length > 0) {
-        spans = await db.getSpansByTraceIds(traceIds, 200);
-      } else {
+      if (spans.length === 0) {
         // Fallback: time window around the incident
         const timestamps = events.map((e) => e.created_at.getTime());
         const minTime = Math.min(...timestamps) - 2 * 60 * 1000;
@@ -349,6 +639,64 @@ function extractServiceName(resource?: OtlpResource): string | undefined {
   return undefined;
 }
 
+/**
+ * Extract a string attribute from an OTLP resource.
+ */
+function extractResourceAttribute(resource: OtlpResource | undefined, key: string): string | undefined {
+  return resource?.attributes?.find((attr) => attr.key === key)?.value.stringValue;
+}
+
+/**
+ * Convert an OTLP nanosecond timestamp string to milliseconds (defaults to now).
+ */
+function nanoToMs(timeUnixNano?: string): number {
+  if (!timeUnixNano || timeUnixNano === '0') return Date.now();
+  return Number(BigInt(timeUnixNano) / BigInt(1_000_000));
+}
+
+/**
+ * Serialize attributes with sorted keys so equal attribute sets group together.
+ */
+function stableStringify(attrs: Record<string, unknown>): string {
+  return JSON.stringify(Object.keys(attrs).sort().map(k => [k, attrs[k]]));
+}
+
+/**
+ * Fold a bucket into the series. The database groups by the attributes as
+ * stored, so the same attribute set in a different key order arrives as a
+ * separate row for the same bucket.
+ */
+function mergeBucket(buckets: Map<number, MetricBucketRow>, row: MetricBucketRow) {
+  const existing = buckets.get(row.bucket);
+  if (!existing) {
+    buckets.set(row.bucket, { ...row });
+    return;
+  }
+  existing.weighted_total += row.weighted_total;
+  existing.weight += row.weight;
+  existing.total += row.total;
+  if (row.last_timestamp > existing.last_timestamp) {
+    existing.last_value = row.last_value;
+    existing.last_timestamp = row.last_timestamp;
+  }
+}
+
+/**
+ * One value per time bucket, oldest first. Gauges are averaged, histograms
+ * use a count-weighted mean, delta sums are added up and cumulative sums keep
+ * the last value (sums without a temporality are treated as cumulative).
+ */
+function bucketValues(series: MetricSeries): Array<{ timestamp: number; value: number }> {
+  return Array.from(series.buckets.values())
+    .sort((a, b) => a.bucket - b.bucket)
+    .map((entry) => ({
+      timestamp: entry.bucket,
+      value: series.kind === 'sum'
+        ? series.temporality === 'delta' ? entry.total : entry.last_value
+        : entry.weight > 0 ? entry.weighted_total / entry.weight : 0,
+    }));
+}
+
 /**
  * Flatten OTLP attributes array into a plain key-value object.
  */
@@ -365,51 +713,3 @@ function flattenAttributes(attrs?: OtlpAttribute[]): Record<string, unknown> {
   }
   return result;
 }
-
-/**
- * Create a ScanWarp event from a trace span and run it through the anomaly detection pipeline.
- */
-async function createTraceEvent(
-  db: Database,
-  anomalyDetector: AnomalyDetector,
-  incidentService: IncidentService,
-  projectId: string,
-  type: 'trace_error' | 'slow_query',
-  severity: string,
-  message: string,
-  rawData: Record<string, unknown>,
-  request: { log: { error: (obj: unknown, msg?: string) => void } },
-) {
-  const eventRow = await db.createEvent({
-    project_id: projectId,
-    type,
-    source: 'otel',
-    message,
-    raw_data: rawData,
-    severity,
-  });
-
-  const event = {
-    id: eventRow.id,
-    project_id: eventRow.project_id,
-    monitor_id: eventRow.monitor_id || undefined,
-    type: eventRow.type as 'trace_error' | 'slow_query',
-    source: eventRow.source as 'otel',
-    message: eventRow.message,
-    raw_data: eventRow.raw_data || undefined,
-    severity: eventRow.severity as 'high' | 'medium',
-    created_at: eventRow.created_at,
-  };
-
-  const anomalyResult = await anomalyDetector.analyzeEvent(event);
-
-  if (anomalyResult.shouldDiagnose) {
-    await anomalyDetector.markForDiagnosis(event.id, anomalyResult.reason || 'Anomaly detected');
-
-    try {
-      await incidentService.createIncident([event.id]);
-    } catch (err) {
-      request.log.error({ err }, 'Failed to create incident from trace event');
-    }
-  }
-}
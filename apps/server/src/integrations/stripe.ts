@@ -1,5 +1,6 @@
 import type { FastifyInstance, FastifyRequest } from 'fastify';
 import type { Database } from '../db/index.js';
+import type { EventPipeline } from '../monitoring/EventPipeline.js';
 import Stripe from 'stripe';
 import type { StripeWebhookEvent, ProviderEvent } from '@scanwarp/core';
 
@@ -14,6 +15,7 @@ const ERROR_EVENTS = [
 export async function registerStripeWebhook(
   fastify: FastifyInstance,
   db: Database,
+  pipeline: EventPipeline,
   webhookSecret?: string
 ) {
   fastify.post<{ Body: StripeWebhookEvent }>(
@@ -68,7 +70,7 @@ export async function registerStripeWebhook(
         const providerEvent = normalizeStripeEvent(event);
         const { id: projectId } = await db.getOrCreateProject('stripe-default');
 
-        await db.createEvent({
+        await pipeline.ingest({
           project_id: projectId,
           type: providerEvent.type,
           source: providerEvent.source,
@@ -1,88 +1,99 @@
 import type { Database } from '../db/index.js';
-import type { Event } from '@scanwarp/core';
-
-interface AnomalyResult {
+import type { AnomalySettings, Event } from '@scanwarp/core';
+import { ErrorRateDetector } from './detectors/errorRate.js';
+import { LatencyDetector } from './detectors/latency.js';
+import { NewErrorDetector } from './detectors/newError.js';
+import { WebVitalsDetector } from './detectors/webVitals.js';
+import {
+  DEFAULT_ANOMALY_SETTINGS,
+  SENSITIVITY_THRESHOLDS,
+  type AnomalyDetectorPlugin,
+  type Detection,
+  type DetectionContext,
+  type LatencySample,
+  type VitalSample,
+} from './detectors/types.js';
+
+export type { AnomalyDetectorPlugin, Detection, LatencySample, VitalSample } from './detectors/types.js';
+
+export interface AnomalyResult {
   isAnomaly: boolean;
   reason?: string;
   shouldDiagnose: boolean;
+  detections: Detection[];
 }
 
+const SETTINGS_CACHE_TTL_MS = 60 * 1000;
+
 export class AnomalyDetector {
   private db: Database;
+  private plugins: AnomalyDetectorPlugin[] = [];
+  private settingsCache = new Map<string, { settings: AnomalySettings; loadedAt: number }>();
 
   constructor(db: Database) {
     this.db = db;
-  }
 
-  async analyzeEvent(event: Event): Promise<AnomalyResult> {
-    // Check if this is a new type of error (never seen before for this monitor)
-    if (event.type === 'error' || event.type === 'down') {
-      const isNewError = await this.isNewErrorType(event);
-      if (isNewError) {
-        console.log(`New error type detected for monitor ${event.monitor_id}: ${event.message}`);
-        return {
-          isAnomaly: true,
-          reason: 'New error type never seen before',
-          shouldDiagnose: true,
-        };
-      }
-    }
+    this.register(new NewErrorDetector());
+    this.register(new ErrorRateDetector());
+    this.register(new LatencyDetector());
+    this.register(new WebVitalsDetector());
+  }
 
-    // Check if error rate has spiked 3x above baseline
-    if (event.monitor_id) {
-      const hasErrorSpike = await this.hasErrorRateSpike(event.monitor_id);
-      if (hasErrorSpike) {
-        console.log(`Error rate spike detected for monitor ${event.monitor_id}`);
-        return {
-          isAnomaly: true,
-          reason: 'Error rate is 3x above baseline',
-          shouldDiagnose: true,
-        };
-      }
+  register(plugin: AnomalyDetectorPlugin) {
+    if (this.plugins.some((p) => p.name === plugin.name)) {
+      throw new Error(`Anomaly detector "${plugin.name}" is already registered`);
     }
+    this.plugins.push(plugin);
+  }
 
-    // Not an anomaly, store quietly
-    return {
-      isAnomaly: false,
-      shouldDiagnose: false,
-    };
+  get detectorNames(): string[] {
+    return this.plugins.map((p) => p.name);
   }
 
-  private async isNewErrorType(event: Event): Promise<boolean> {
-    if (!event.monitor_id) {
-      return false;
+  async analyzeEvent(event: Event): Promise<AnomalyResult> {
+    const context = await this.contextFor(event.project_id);
+    const detections = await this.run(context, (plugin) => plugin.analyzeEvent?.(event, context));
+
+    if (detections.length === 0) {
+      // Not an anomaly, store quietly
+      return { isAnomaly: false, shouldDiagnose: false, detections };
     }
 
-    // Look for similar error messages in the past
-    const count = await this.db.getSimilarErrorCount(event.monitor_id, event.id, this.extractErrorPattern(event.message));
+    const result = this.toResult(detections);
+    await this.db.setEventAnomalyReason(event.id, result.reason!);
+    console.log(`Anomaly detected for ${event.source} event ${event.id}: ${result.reason}`);
 
-    return count === 0;
+    return result;
   }
 
-  private async hasErrorRateSpike(monitorId: string): Promise<boolean> {
-    // Get error count in the last hour
-    const recentErrorCount = await this.db.getRecentErrorCount(monitorId);
-
-    // Get baseline error count (average per hour over last 7 days, excluding last hour)
-    const baselineErrorRate = await this.db.getBaselineErrorRate(monitorId);
+  /**
+   * Feed a latency measurement to the detectors. The caller decides what to
+   * record when it's anomalous, since the sample usually isn't an event yet.
+   */
+  async observeLatency(sample: LatencySample): Promise<AnomalyResult> {
+    const context = await this.contextFor(sample.project_id);
+    const detections = await this.run(context, (plugin) => plugin.observeLatency?.(sample, context));
 
-    // If we have fewer than 3 baseline errors, don't flag as spike
-    if (baselineErrorRate < 1) {
-      return false;
+    if (detections.length === 0) {
+      return { isAnomaly: false, shouldDiagnose: false, detections };
     }
 
-    // Check if recent error count is 3x higher than baseline
-    return recentErrorCount > baselineErrorRate * 3;
+    return this.toResult(detections);
   }
 
-  private extractErrorPattern(message: string): string {
-    // Extract the core error pattern, removing specific IDs, timestamps, etc.
-    // This is a simple version - could be made more sophisticated
-    return message
-      .replace(/\d+/g, '') // Remove numbers
-      .replace(/[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}/gi, '') // Remove UUIDs
-      .replace(/\b\d{4}-\d{2}-\d{2}\b/g, '') // Remove dates
-      .substring(0, 50); // Take first 50 chars as pattern
+  /**
+   * Feed an hourly web vital percentile to the detectors. Like latency
+   * samples, the caller records an event when it's anomalous.
+   */
+  async observeVital(sample: VitalSample): Promise<AnomalyResult> {
+    const context = await this.contextFor(sample.project_id);
+    const detections = await this.run(context, (plugin) => plugin.observeVital?.(sample, context));
+
+    if (detections.length === 0) {
+      return { isAnomaly: false, shouldDiagnose: false, detections };
+    }
+
+    return this.toResult(detections);
   }
 
   async markForDiagnosis(eventId: string, reason: string) {
@@ -91,4 +102,59 @@ export class AnomalyDetector {
 
     console.log(`Event ${eventId} flagged for diagnosis: ${reason}`);
   }
+
+  /**
+   * Drop cached settings after they've been changed through the API.
+   */
+  invalidateSettings(projectId: string) {
+    this.settingsCache.delete(projectId);
+  }
+
+  private async run(
+    context: DetectionContext,
+    invoke: (plugin: AnomalyDetectorPlugin) => Promise<Detection | null> | undefined
+  ): Promise<Detection[]> {
+    const detections: Detection[] = [];
+
+    for (const plugin of this.plugins) {
+      if (context.settings.disabled_detectors.includes(plugin.name)) continue;
+
+      try {
+        const detection = await invoke(plugin);
+        if (detection) detections.push(detection);
+      } catch (error) {
+        // One broken detector shouldn't stop the others or the ingest path
+        console.error(`Anomaly detector "${plugin.name}" failed:`, error);
+      }
+    }
+
+    return detections;
+  }
+
+  private toResult(detections: Detection[]): AnomalyResult {
+    return {
+      isAnomaly: true,
+      reason: detections.map((d) => d.reason).join('; '),
+      shouldDiagnose: detections.some((d) => d.shouldDiagnose),
+      detections,
+    };
+  }
+
+  private async contextFor(projectId: string): Promise<DetectionContext> {
+    const cached = this.settingsCache.get(projectId);
+    let settings: AnomalySettings;
+
+    if (cached && Date.now() - cached.loadedAt < SETTINGS_CACHE_TTL_MS) {
+      settings = cached.settings;
+    } else {
+      settings = (await this.db.getAnomalySettings(projectId)) ?? DEFAULT_ANOMALY_SETTINGS;
+      this.settingsCache.set(projectId, { settings, loadedAt: Date.now() });
+    }
+
+    return {
+      db: this.db,
+      settings,
+      thresholds: SENSITIVITY_THRESHOLDS[settings.sensitivity] ?? SENSITIVITY_THRESHOLDS.medium,
+    };
+  }
 }
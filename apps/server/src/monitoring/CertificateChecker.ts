@@ -0,0 +1,340 @@
+import tls from 'tls';
+import type { Monitor, Event } from '@scanwarp/core';
+import type { Database, MonitorTlsRow } from '../db/index.js';
+import type { EventPipeline } from './EventPipeline.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Certificates rarely change, so don't open a TLS connection on every monitor run
+const TLS_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+const DOMAIN_CHECK_INTERVAL_MS = DAY_MS;
+const CONNECT_TIMEOUT_MS = 10_000;
+
+export const DEFAULT_EXPIRY_THRESHOLDS_DAYS = [30, 14, 3];
+
+/**
+ * Parse a comma-separated list of days such as "30,14,3".
+ * Falls back to the defaults if nothing valid is given.
+ */
+export function parseExpiryThresholds(value: string | undefined): number[] {
+  const days = (value || '')
+    .split(',')
+    .map((d) => Number(d.trim()))
+    .filter((d) => Number.isInteger(d) && d > 0);
+  return days.length > 0 ? days : DEFAULT_EXPIRY_THRESHOLDS_DAYS;
+}
+
+interface CertificateInfo {
+  hostname: string;
+  valid_from: Date | null;
+  /** Earliest expiry across the presented chain */
+  expires_at: Date | null;
+  issuer: string | null;
+  subject: string | null;
+  san_match: boolean;
+  chain_valid: boolean;
+  error: string | null;
+}
+
+/**
+ * Records TLS certificate and domain registration expiry for HTTPS monitors
+ * and creates events as expiry thresholds are crossed.
+ */
+export class CertificateChecker {
+  private db: Database;
+  private pipeline: EventPipeline;
+  private thresholds: number[];
+
+  constructor(db: Database, pipeline: EventPipeline, thresholdsDays: number[] = DEFAULT_EXPIRY_THRESHOLDS_DAYS) {
+    this.db = db;
+    this.pipeline = pipeline;
+    // Largest first, so the first threshold crossed is the earliest warning
+    this.thresholds = [...new Set(thresholdsDays)].sort((a, b) => b - a);
+  }
+
+  async check(monitor: Monitor) {
+    let url: URL;
+    try {
+      url = new URL(monitor.url);
+    } catch {
+      return;
+    }
+    if (url.protocol !== 'https:') return;
+
+    const previous = await this.db.getMonitorTls(monitor.id);
+    const now = Date.now();
+
+    // Start over if the monitor now points at a different host
+    const next: MonitorTlsRow = previous && previous.hostname === url.hostname ? previous : {
+      monitor_id: monitor.id,
+      hostname: url.hostname,
+      valid_from: null,
+      expires_at: null,
+      issuer: null,
+      subject: null,
+      san_match: null,
+      chain_valid: null,
+      error: null,
+      alert_threshold_days: null,
+      checked_at: null,
+      domain_expires_at: null,
+      domain_alert_threshold_days: null,
+      domain_checked_at: null,
+    };
+    const tlsDue = !next.checked_at || now - new Date(next.checked_at).getTime() >= TLS_CHECK_INTERVAL_MS;
+    const domainDue = !next.domain_checked_at || now - new Date(next.domain_checked_at).getTime() >= DOMAIN_CHECK_INTERVAL_MS;
+
+    if (!tlsDue && !domainDue) return;
+
+    if (tlsDue) {
+      await this.checkCertificate(monitor, url, next);
+    }
+    if (domainDue) {
+      await this.checkDomain(monitor, url.hostname, next);
+    }
+
+    await this.db.upsertMonitorTls(next);
+  }
+
+  private async checkCertificate(monitor: Monitor, url: URL, state: MonitorTlsRow) {
+    const info = await inspectCertificate(url.hostname, Number(url.port) || 443);
+    state.checked_at = new Date();
+
+    // Unreachable hosts are reported by the HTTP check; keep the last known certificate
+    if (!info) return;
+
+    const daysLeft = info.expires_at ? daysUntil(info.expires_at) : null;
+    const crossed = daysLeft !== null ? this.crossedThreshold(daysLeft) : null;
+
+    // Only alert when a new (smaller) threshold is crossed; reset after renewal
+    if (crossed === null) {
+      state.alert_threshold_days = null;
+    } else if (state.alert_threshold_days === null || crossed < state.alert_threshold_days) {
+      await this.createEvent(monitor, {
+        type: 'cert_expiring',
+        message: daysLeft! < 0
+          ? `TLS certificate for ${info.hostname} expired ${Math.abs(daysLeft!)} day(s) ago`
+          : `TLS certificate for ${info.hostname} expires in ${daysLeft} day(s) (${info.expires_at!.toISOString().slice(0, 10)})`,
+        severity: this.expirySeverity(daysLeft!, crossed),
+      }, { ...serializeInfo(info), days_left: daysLeft, threshold_days: crossed });
+      state.alert_threshold_days = crossed;
+    }
+
+    // Chain or hostname problems: alert when the error first appears or changes
+    if (info.error && info.error !== state.error) {
+      await this.createEvent(monitor, {
+        type: 'cert_invalid',
+        message: `TLS certificate problem on ${info.hostname}: ${info.error}`,
+        severity: 'critical',
+      }, serializeInfo(info));
+    }
+
+    state.hostname = info.hostname;
+    state.valid_from = info.valid_from;
+    state.expires_at = info.expires_at;
+    state.issuer = info.issuer;
+    state.subject = info.subject;
+    state.san_match = info.san_match;
+    state.chain_valid = info.chain_valid;
+    state.error = info.error;
+  }
+
+  private async checkDomain(monitor: Monitor, hostname: string, state: MonitorTlsRow) {
+    const expiresAt = await lookupDomainExpiry(hostname);
+
+    if (expiresAt) {
+      const daysLeft = daysUntil(expiresAt);
+      const crossed = this.crossedThreshold(daysLeft);
+
+      if (crossed === null) {
+        state.domain_alert_threshold_days = null;
+      } else if (state.domain_alert_threshold_days === null || crossed < state.domain_alert_threshold_days) {
+        await this.createEvent(monitor, {
+          type: 'domain_expiring',
+          message: daysLeft < 0
+            ? `Domain registration for ${hostname} expired ${Math.abs(daysLeft)} day(s) ago`
+            : `Domain registration for ${hostname} expires in ${daysLeft} day(s) (${expiresAt.toISOString().slice(0, 10)})`,
+          severity: this.expirySeverity(daysLeft, crossed),
+        }, { hostname, domain_expires_at: expiresAt.toISOString(), days_left: daysLeft, threshold_days: crossed });
+        state.domain_alert_threshold_days = crossed;
+      }
+    }
+
+    // Keep the last known expiry if the registry didn't answer this time
+    if (expiresAt) state.domain_expires_at = expiresAt;
+    state.domain_checked_at = new Date();
+  }
+
+  /** The smallest configured threshold that daysLeft is at or below, if any */
+  private crossedThreshold(daysLeft: number): number | null {
+    let crossed: number | null = null;
+    for (const threshold of this.thresholds) {
+      if (daysLeft <= threshold) crossed = threshold;
+    }
+    return crossed;
+  }
+
+  /**
+   * Rank by position among the configured thresholds: the last warning is
+   * critical, the one before it high, any earlier ones medium.
+   */
+  private expirySeverity(daysLeft: number, crossed: number): Event['severity'] {
+    if (daysLeft < 0) return 'critical';
+    const fromLast = this.thresholds.length - 1 - this.thresholds.indexOf(crossed);
+    if (fromLast === 0) return 'critical';
+    if (fromLast === 1) return 'high';
+    return 'medium';
+  }
+
+  private async createEvent(
+    monitor: Monitor,
+    event: { type: Event['type']; message: string; severity: Event['severity'] },
+    rawData: Record<string, unknown>,
+  ) {
+    await this.pipeline.ingest({
+      project_id: monitor.project_id,
+      monitor_id: monitor.id,
+      type: event.type,
+      source: 'monitor',
+      message: event.message,
+      raw_data: { url: monitor.url, ...rawData },
+      severity: event.severity,
+    });
+
+    console.log(`Event created: ${event.type} - ${event.message}`);
+  }
+}
+
+/**
+ * The TLS/domain status returned alongside monitors by the API.
+ */
+export function toTlsSummary(row: MonitorTlsRow) {
+  return {
+    hostname: row.hostname,
+    issuer: row.issuer,
+    subject: row.subject,
+    valid_from: row.valid_from,
+    expires_at: row.expires_at,
+    days_left: row.expires_at ? daysUntil(new Date(row.expires_at)) : null,
+    san_match: row.san_match,
+    chain_valid: row.chain_valid,
+    error: row.error,
+    checked_at: row.checked_at,
+    domain_expires_at: row.domain_expires_at,
+    domain_days_left: row.domain_expires_at ? daysUntil(new Date(row.domain_expires_at)) : null,
+    domain_checked_at: row.domain_checked_at,
+  };
+}
+
+function daysUntil(date: Date): number {
+  return Math.floor((date.getTime() - Date.now()) / DAY_MS);
+}
+
+function serializeInfo(info: CertificateInfo): Record<string, unknown> {
+  return {
+    hostname: info.hostname,
+    expires_at: info.expires_at?.toISOString() ?? null,
+    issuer: info.issuer,
+    subject: info.subject,
+    san_match: info.san_match,
+    chain_valid: info.chain_valid,
+    error: info.error,
+  };
+}
+
+/**
+ * Open a TLS connection and read the presented certificate chain.
+ * Validation failures are reported in `error`; null means the host couldn't be reached.
+ */
+function inspectCertificate(hostname: string, port: number): Promise<CertificateInfo | null> {
+  return new Promise((resolve) => {
+    const socket = tls.connect({
+      host: hostname,
+      port,
+      servername: hostname,
+      // Connect even to broken chains so we can report why they're broken
+      rejectUnauthorized: false,
+    });
+
+    socket.setTimeout(CONNECT_TIMEOUT_MS, () => {
+      socket.destroy();
+      resolve(null);
+    });
+
+    socket.once('error', () => resolve(null));
+
+    socket.once('secureConnect', () => {
+      const leaf = socket.getPeerCertificate(true);
+      socket.end();
+
+      if (!leaf || !leaf.valid_to) {
+        resolve({
+          hostname,
+          valid_from: null,
+          expires_at: null,
+          issuer: null,
+          subject: null,
+          san_match: false,
+          chain_valid: false,
+          error: 'Server presented no certificate',
+        });
+        return;
+      }
+
+      // Walk the chain for the earliest expiry (an intermediate can expire first)
+      let expiresAt = new Date(leaf.valid_to);
+      const seen = new Set<string>();
+      let cert: tls.DetailedPeerCertificate | undefined = leaf;
+      while (cert && !seen.has(cert.fingerprint256)) {
+        seen.add(cert.fingerprint256);
+        const validTo = new Date(cert.valid_to);
+        if (validTo < expiresAt) expiresAt = validTo;
+        cert = cert.issuerCertificate;
+      }
+
+      const sanError = tls.checkServerIdentity(hostname, leaf);
+      const chainError = socket.authorized ? null : String(socket.authorizationError || 'Certificate chain is not trusted');
+
+      resolve({
+        hostname,
+        valid_from: new Date(leaf.valid_from),
+        expires_at: expiresAt,
+        issuer: leaf.issuer?.O || leaf.issuer?.CN || null,
+        subject: leaf.subject?.CN || null,
+        san_match: !sanError,
+        chain_valid: socket.authorized,
+        error: chainError ?? (sanError ? sanError.message : null),
+      });
+    });
+  });
+}
+
+/**
+ * Look up the domain's registration expiry over RDAP.
+ *
+ * We don't ship a public-suffix list, so try the shortest candidate first
+ * ("example.com", then "example.co.uk", ...) until the registry answers.
+ */
+async function lookupDomainExpiry(hostname: string): Promise<Date | null> {
+  const labels = hostname.split('.');
+  if (labels.length < 2 || /^\d+$/.test(labels[labels.length - 1])) return null;
+
+  for (let n = 2; n <= Math.min(labels.length, 4); n++) {
+    const domain = labels.slice(-n).join('.');
+    try {
+      const response = await fetch(`https://rdap.org/domain/${domain}`, {
+        signal: AbortSignal.timeout(CONNECT_TIMEOUT_MS),
+        headers: { Accept: 'application/rdap+json' },
+      });
+      if (!response.ok) continue;
+
+      const data = await response.json() as { events?: Array<{ eventAction: string; eventDate: string }> };
+      const expiration = data.events?.find((e) => e.eventAction === 'expiration');
+      return expiration ? new Date(expiration.eventDate) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
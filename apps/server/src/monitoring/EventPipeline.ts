@@ -0,0 +1,125 @@
+import { Correlator, type Event, type ProviderStatus } from '@scanwarp/core';
+import type { Database, EventRow } from '../db/index.js';
+import type { ProviderStatusTracker } from '../providers/status.js';
+import type { AnomalyDetector, AnomalyResult } from './AnomalyDetector.js';
+import type { IncidentService } from './IncidentService.js';
+
+export type NewEvent = Parameters<Database['createEvent']>[0];
+
+export interface IngestOptions {
+  /**
+   * Whether an anomalous event may open a new incident. Sources that decide
+   * that themselves, like monitors, pass false; their events can still join
+   * a related open incident.
+   */
+  openIncident?: boolean;
+}
+
+export interface IngestResult {
+  event: EventRow;
+  anomaly: AnomalyResult;
+  /** The incident the event was added to or opened, if any */
+  incidentId: string | null;
+}
+
+// How far back the correlator looks for related events
+const RECENT_EVENTS_LIMIT = 100;
+
+/**
+ * The path every event takes into ScanWarp: store it, run anomaly detection,
+ * then either add it to a related open incident or open a new one when it's
+ * worth diagnosing.
+ */
+export class EventPipeline {
+  private db: Database;
+  private anomalyDetector: AnomalyDetector;
+  private incidentService: IncidentService;
+  private providerTracker: ProviderStatusTracker | null = null;
+  private correlator = new Correlator();
+
+  constructor(db: Database, anomalyDetector: AnomalyDetector, incidentService: IncidentService) {
+    this.db = db;
+    this.anomalyDetector = anomalyDetector;
+    this.incidentService = incidentService;
+  }
+
+  setProviderTracker(tracker: ProviderStatusTracker) {
+    this.providerTracker = tracker;
+  }
+
+  async ingest(params: NewEvent, options: IngestOptions = {}): Promise<IngestResult> {
+    const row = await this.db.createEvent(params);
+    const event = toEvent(row);
+
+    const anomaly = await this.anomalyDetector.analyzeEvent(event);
+    if (anomaly.shouldDiagnose) {
+      await this.anomalyDetector.markForDiagnosis(event.id, anomaly.reason || 'Anomaly detected');
+    }
+
+    // The event is stored either way; a failed incident update shouldn't fail the ingest
+    let incidentId: string | null = null;
+    try {
+      incidentId = await this.routeToIncident(event, anomaly, options.openIncident ?? true);
+    } catch (err) {
+      console.error(`Failed to route event ${event.id} to an incident:`, err);
+    }
+
+    return { event: row, anomaly, incidentId };
+  }
+
+  private async routeToIncident(event: Event, anomaly: AnomalyResult, openIncident: boolean): Promise<string | null> {
+    const [recentEvents, openIncidents] = await Promise.all([
+      this.db.getEvents({ project_id: event.project_id, limit: RECENT_EVENTS_LIMIT }),
+      this.db.getOpenIncidents(event.project_id),
+    ]);
+
+    const correlation = await this.correlator.correlate(
+      event,
+      recentEvents.map(toEvent),
+      openIncidents.map((i) => ({ id: i.id, events: i.events, correlation_group: i.correlation_group ?? undefined })),
+      this.providerStatuses(),
+    );
+
+    if (correlation.shouldCorrelate) {
+      const existingId = correlation.existingIncidentId
+        ?? openIncidents.find((i) => i.correlation_group && i.correlation_group === correlation.correlationGroup)?.id;
+
+      if (existingId) {
+        await this.incidentService.addEvents(existingId, [event.id]);
+        console.log(`Correlated event ${event.id} with incident ${existingId}: ${correlation.reason}`);
+        return existingId;
+      }
+    }
+
+    if (!openIncident || !anomaly.shouldDiagnose) return null;
+
+    return this.incidentService.createIncident([event.id], correlation.correlationGroup);
+  }
+
+  private providerStatuses(): ProviderStatus[] {
+    if (!this.providerTracker) return [];
+
+    return this.providerTracker.getAll().map((s) => ({
+      provider: s.provider,
+      status: s.status === 'operational' ? 'operational' : s.status === 'degraded' ? 'degraded' : 'outage',
+      last_checked_at: s.lastCheckedAt,
+      details: s.description ?? undefined,
+    }));
+  }
+}
+
+function toEvent(row: EventRow): Event {
+  return {
+    id: row.id,
+    project_id: row.project_id,
+    monitor_id: row.monitor_id || undefined,
+    type: row.type as Event['type'],
+    source: row.source as Event['source'],
+    message: row.message,
+    raw_data: row.raw_data || undefined,
+    severity: row.severity as Event['severity'],
+    fingerprint: row.fingerprint || undefined,
+    occurrences: row.occurrences,
+    created_at: row.created_at,
+  };
+}
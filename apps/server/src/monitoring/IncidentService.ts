@@ -1,23 +1,86 @@
-import type { Database } from '../db/index.js';
-import { Diagnoser, type Event, type Monitor, type Incident, type TraceSpan } from '@scanwarp/core';
-import { NotificationManager } from '../notifications/manager.js';
+import type {
+  Database,
+  DiagnosisFeedbackRow,
+  DiagnosisRunRow,
+  IncidentTimelineKind,
+  IncidentTimelineRow,
+  NewDiagnosisRun,
+} from '../db/index.js';
+import type {
+  DiagnosisProvider,
+  DiagnosisResult,
+  Event,
+  Monitor,
+  Incident,
+  PriorRootCause,
+  TraceSpan,
+} from '@scanwarp/core';
+import { eventTraceIds } from '@scanwarp/core';
+import { NotificationManager, type ProviderContext } from '../notifications/manager.js';
 import type { ProviderStatusTracker } from '../providers/status.js';
+import type { DeploymentTracker } from '../deployments/DeploymentTracker.js';
+
+const SEVERITY_RANK: Record<string, number> = { info: 1, warning: 2, critical: 3 };
+
+const MAX_NAME_LENGTH = 255;
+export const MAX_COMMENT_LENGTH = 10000;
+
+/** Stages of a customer-facing incident update, as shown on status pages */
+export const STATUS_UPDATE_STATUSES = ['investigating', 'identified', 'monitoring', 'resolved'] as const;
+
+export type StatusUpdateStatus = (typeof STATUS_UPDATE_STATUSES)[number];
+
+// Long enough to cover a burst of incidents, short enough to pick up code changes
+const DIAGNOSIS_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_PRIOR_ROOT_CAUSES = 5;
+
+/**
+ * A person's name or email from a request body, e.g. who acknowledged an
+ * incident. Anything that isn't a non-empty string counts as not given.
+ */
+export function parsePersonName(value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  return value.trim().substring(0, MAX_NAME_LENGTH);
+}
+
+/**
+ * Identifies incidents made of the same errors, so they can share a cached
+ * diagnosis and learn from each other's feedback: the events' issue
+ * fingerprints, or their monitors and event types when they have none.
+ */
+export function diagnosisKey(
+  events: Array<{ fingerprint: string | null; monitor_id: string | null; type: string }>
+): string | null {
+  const parts = events.some((e) => e.fingerprint)
+    ? events.map((e) => e.fingerprint)
+    : events.map((e) => e.monitor_id && `monitor:${e.monitor_id}:${e.type}`);
+  const unique = [...new Set(parts.filter((p): p is string => !!p))].sort();
+  return unique.length > 0 ? unique.join(',') : null;
+}
 
 export class IncidentService {
   private db: Database;
-  private diagnoser: Diagnoser | null = null;
+  private diagnoser: DiagnosisProvider | null;
   private notificationManager: NotificationManager;
   private providerTracker: ProviderStatusTracker | null = null;
-
-  constructor(db: Database, apiKey?: string) {
+  private deploymentTracker: DeploymentTracker | null = null;
+
+  /**
+   * Without a `diagnoser`, incidents are notified without a diagnosis.
+   */
+  constructor(
+    db: Database,
+    diagnoser: DiagnosisProvider | null = null,
+    notificationManager = new NotificationManager(db)
+  ) {
     this.db = db;
-    this.notificationManager = new NotificationManager(db);
+    this.diagnoser = diagnoser;
+    this.notificationManager = notificationManager;
 
-    if (apiKey) {
-      this.diagnoser = new Diagnoser({ apiKey });
-      console.log('AI diagnosis enabled');
+    if (diagnoser) {
+      console.log(`Incident diagnosis enabled (${diagnoser.name})`);
     } else {
-      console.warn('ANTHROPIC_API_KEY not set - AI diagnosis will be disabled');
+      console.warn('Incident diagnosis is disabled');
     }
   }
 
@@ -25,7 +88,11 @@ export class IncidentService {
     this.providerTracker = tracker;
   }
 
-  async createIncident(eventIds: string[]): Promise<string> {
+  setDeploymentTracker(tracker: DeploymentTracker) {
+    this.deploymentTracker = tracker;
+  }
+
+  async createIncident(eventIds: string[], correlationGroup?: string): Promise<string> {
     if (eventIds.length === 0) {
       throw new Error('Cannot create incident without events');
     }
@@ -38,31 +105,98 @@ export class IncidentService {
     }
 
     const projectId = events[0].project_id;
-    const monitorId = events[0].monitor_id;
 
     // Determine initial severity based on events
     const severity = this.calculateSeverity(events);
 
     // Create the incident first (without diagnosis)
-    const incident = await this.db.createIncident(projectId, eventIds, severity);
+    const incident = await this.db.createIncident(projectId, eventIds, severity, correlationGroup);
 
     const incidentId = incident.id;
     console.log(`Created incident ${incidentId} for ${events.length} event(s)`);
+    await this.record(incidentId, 'created', `Opened as ${severity} from ${events.length} event(s)`, null, {
+      events: eventIds,
+    });
 
-    // Run AI diagnosis if available
+    // Run diagnosis if available
     if (this.diagnoser) {
       try {
-        await this.runDiagnosis(incidentId, events, monitorId);
+        const providerContext = await this.runDiagnosis(this.diagnoser, incidentId, events, { useCache: true });
+        await this.sendNotifications(incidentId, providerContext);
       } catch (error) {
         console.error('Failed to run diagnosis:', error);
         // Don't fail the incident creation if diagnosis fails
       }
+    } else {
+      await this.sendNotifications(incidentId);
     }
 
     return incidentId;
   }
 
+  /**
+   * Attach events to an existing incident, raising its severity if they are
+   * worse. The incident isn't re-diagnosed or re-notified.
+   */
+  async addEvents(incidentId: string, eventIds: string[]): Promise<void> {
+    const incident = await this.db.getIncident(incidentId);
+    if (!incident) {
+      throw new Error(`Incident ${incidentId} not found`);
+    }
+
+    const events = await this.db.getEventsByIds(eventIds);
+    const eventSeverity = this.calculateSeverity(events);
+    const severity = SEVERITY_RANK[eventSeverity] > (SEVERITY_RANK[incident.severity] ?? 0)
+      ? eventSeverity
+      : incident.severity;
+
+    await this.db.addIncidentEvents(incidentId, eventIds, severity);
+    console.log(`Added ${eventIds.length} event(s) to incident ${incidentId}`);
+    await this.record(
+      incidentId,
+      'events_added',
+      `${eventIds.length} related event(s) added${severity !== incident.severity ? `, severity raised to ${severity}` : ''}`,
+      null,
+      { events: eventIds },
+    );
+  }
+
+  /**
+   * Whether incidents get diagnosed at all, see createDiagnosisProvider().
+   */
+  canDiagnose(): boolean {
+    return this.diagnoser !== null;
+  }
+
+  /**
+   * Diagnose an incident again from all of its events, including ones added
+   * since it opened. The cache is skipped and nobody is notified again.
+   */
+  async rediagnose(incidentId: string, by: string | null): Promise<void> {
+    if (!this.diagnoser) {
+      throw new Error('Incident diagnosis is disabled');
+    }
+
+    const incident = await this.db.getIncident(incidentId);
+    if (!incident) {
+      throw new Error(`Incident ${incidentId} not found`);
+    }
+
+    const events = await this.db.getEventsByIds(incident.events);
+    if (events.length === 0) {
+      throw new Error(`Incident ${incidentId} has no events to diagnose`);
+    }
+
+    await this.runDiagnosis(this.diagnoser, incidentId, events, { useCache: false, actor: by });
+  }
+
+  /**
+   * Diagnose an incident and store the result, reusing a recent diagnosis of
+   * the same errors when `useCache` is set. Returns the context its
+   * notifications need.
+   */
   private async runDiagnosis(
+    diagnoser: DiagnosisProvider,
     incidentId: string,
     events: Array<{
       id: string;
@@ -73,11 +207,13 @@ export class IncidentService {
       message: string;
       raw_data: Record<string, unknown> | null;
       severity: string;
+      fingerprint: string | null;
       created_at: Date;
     }>,
-    monitorId: string | null
-  ) {
-    console.log(`Running AI diagnosis for incident ${incidentId}...`);
+    options: { useCache: boolean; actor?: string | null }
+  ): Promise<ProviderContext> {
+    const projectId = events[0].project_id;
+    const monitorId = events[0].monitor_id;
 
     // Convert database rows to Event type
     const eventObjects: Event[] = events.map((e) => ({
@@ -89,35 +225,10 @@ export class IncidentService {
       message: e.message,
       raw_data: e.raw_data || undefined,
       severity: e.severity as Event['severity'],
+      fingerprint: e.fingerprint || undefined,
       created_at: e.created_at,
     }));
 
-    // Fetch monitor info if available
-    let monitor: Monitor | undefined;
-    if (monitorId) {
-      const monitorRow = await this.db.getMonitorById(monitorId);
-
-      if (monitorRow) {
-        monitor = {
-          id: monitorRow.id,
-          project_id: monitorRow.project_id,
-          url: monitorRow.url,
-          check_interval_seconds: monitorRow.check_interval_seconds,
-          last_checked_at: monitorRow.last_checked_at || undefined,
-          status: monitorRow.status as Monitor['status'],
-          created_at: monitorRow.created_at,
-        };
-      }
-    }
-
-    // Fetch recent history
-    const recentHistory = monitorId
-      ? await this.db.getRecentEventHistory(monitorId)
-      : [];
-
-    // Fetch related traces from the spans table
-    const traces = await this.fetchRelatedTraces(events);
-
     // Check provider statuses for correlation
     let providerStatuses: Array<{
       provider: string;
@@ -148,37 +259,176 @@ export class IncidentService {
       }
     }
 
-    // Call the diagnoser
-    const diagnosis = await this.diagnoser!.diagnose({
-      events: eventObjects,
-      monitor,
-      recentHistory: recentHistory.map((h) => ({
-        timestamp: h.created_at,
-        status: h.type,
-        message: h.message,
-      })),
-      traces,
-      providerStatuses,
-    });
+    // Attribute the incident to the deploy that preceded it
+    const deployment = this.deploymentTracker
+      ? (await this.deploymentTracker.contextFor(events[0].project_id, events)) || undefined
+      : undefined;
+
+    // Incidents with the same errors can share a diagnosis, unless a provider
+    // outage makes this one different
+    const key = diagnosisKey(events);
+    const cacheKey = isProviderIssue ? null : key;
+    let diagnosis: DiagnosisResult | null = null;
+    // Who actually diagnosed it, which is the fallback when the provider failed
+    let producedBy = diagnoser.name;
+
+    if (cacheKey && options.useCache) {
+      const cached = await this.db.getCachedDiagnosis(projectId, cacheKey, new Date(Date.now() - DIAGNOSIS_CACHE_TTL_MS));
+      if (cached && cached.provider === diagnoser.name) {
+        diagnosis = cached.result;
+        console.log(`Reusing cached diagnosis for incident ${incidentId}`);
+        await this.recordRun({
+          incident_id: incidentId,
+          project_id: projectId,
+          provider: cached.provider,
+          model: null,
+          input_tokens: 0,
+          output_tokens: 0,
+          cost_usd: 0,
+          attempts: 0,
+          duration_ms: 0,
+          cached: true,
+          error: null,
+        });
+      }
+    }
+    const fromCache = diagnosis !== null;
+
+    if (!diagnosis) {
+      console.log(`Running ${diagnoser.name} diagnosis for incident ${incidentId}...`);
+
+      // Fetch monitor info if available
+      let monitor: Monitor | undefined;
+      if (monitorId) {
+        const monitorRow = await this.db.getMonitorById(monitorId);
+
+        if (monitorRow) {
+          monitor = {
+            id: monitorRow.id,
+            project_id: monitorRow.project_id,
+            url: monitorRow.url,
+            check_interval_seconds: monitorRow.check_interval_seconds,
+            last_checked_at: monitorRow.last_checked_at || undefined,
+            status: monitorRow.status as Monitor['status'],
+            created_at: monitorRow.created_at,
+          };
+        }
+      }
 
-    // Update the incident with diagnosis
-    await this.db.updateIncidentDiagnosis(incidentId, diagnosis);
+      // Fetch recent history
+      const recentHistory = monitorId
+        ? await this.db.getRecentEventHistory(monitorId)
+        : [];
 
-    console.log(`Diagnosis completed for incident ${incidentId}`);
+      // Fetch related traces from the spans table
+      const traces = await this.fetchRelatedTraces(events);
+
+      // What incidents with the same errors turned out to be
+      const priorRootCauses = key ? await this.getPriorRootCauses(projectId, key) : [];
 
-    // Fetch the updated incident and send notifications
-    const updatedIncident = await this.getIncident(incidentId);
-    if (updatedIncident) {
+      // Call the diagnoser
+      const started = Date.now();
       try {
-        await this.notificationManager.notify(updatedIncident, {
-          isProviderIssue,
-          affectedProviders: affectedProviderNames,
+        diagnosis = await diagnoser.diagnose({
+          events: eventObjects,
+          monitor,
+          recentHistory: recentHistory.map((h) => ({
+            timestamp: h.created_at,
+            status: h.type,
+            message: h.message,
+          })),
+          traces,
+          providerStatuses,
+          deployment,
+          priorRootCauses,
         });
       } catch (error) {
-        console.error('Failed to send notifications:', error);
-        // Don't fail the diagnosis if notifications fail
+        await this.recordRun({
+          incident_id: incidentId,
+          project_id: projectId,
+          provider: diagnoser.name,
+          model: null,
+          input_tokens: 0,
+          output_tokens: 0,
+          cost_usd: null,
+          attempts: 0,
+          duration_ms: Date.now() - started,
+          cached: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+
+      const { usage, ...result } = diagnosis;
+      producedBy = usage?.provider ?? diagnoser.name;
+      await this.recordRun({
+        incident_id: incidentId,
+        project_id: projectId,
+        provider: producedBy,
+        model: usage?.model ?? null,
+        input_tokens: usage?.input_tokens ?? 0,
+        output_tokens: usage?.output_tokens ?? 0,
+        cost_usd: usage?.cost_usd ?? null,
+        attempts: usage?.attempts ?? 1,
+        duration_ms: usage?.duration_ms ?? Date.now() - started,
+        cached: false,
+        error: null,
+      });
+
+      // A fallback's diagnosis would stop the provider being asked once it recovers
+      if (cacheKey && producedBy === diagnoser.name) {
+        await this.db.saveCachedDiagnosis({
+          project_id: projectId,
+          diagnosis_key: cacheKey,
+          provider: diagnoser.name,
+          result,
+        });
       }
     }
+
+    // Update the incident with diagnosis
+    await this.db.updateIncidentDiagnosis(incidentId, diagnosis);
+
+    console.log(`Diagnosis completed for incident ${incidentId}`);
+    await this.record(
+      incidentId,
+      'diagnosed',
+      diagnosis.root_cause.split('\n')[0].substring(0, 200),
+      options.actor ?? null,
+      {
+        severity: diagnosis.severity,
+        provider: producedBy,
+        ...(producedBy !== diagnoser.name && { fallback_from: diagnoser.name }),
+        ...(fromCache && { cached: true }),
+        ...(!options.useCache && { rediagnosed: true }),
+      },
+    );
+
+    return {
+      isProviderIssue,
+      affectedProviders: affectedProviderNames,
+      deployment,
+    };
+  }
+
+  private async getPriorRootCauses(projectId: string, key: string): Promise<PriorRootCause[]> {
+    const feedback = await this.db.getConfirmedRootCauses(projectId, key, MAX_PRIOR_ROOT_CAUSES);
+    return feedback.flatMap((f) => {
+      const rootCause = f.actual_root_cause ?? f.diagnosed_root_cause;
+      return rootCause ? [{ root_cause: rootCause, corrected: !f.helpful, confirmed_at: f.created_at }] : [];
+    });
+  }
+
+  private async sendNotifications(incidentId: string, context?: ProviderContext) {
+    const incident = await this.getIncident(incidentId);
+    if (!incident) return;
+
+    try {
+      await this.notificationManager.notify(incident, context);
+    } catch (error) {
+      console.error('Failed to send notifications:', error);
+      // Don't fail the diagnosis if notifications fail
+    }
   }
 
   private async fetchRelatedTraces(
@@ -197,14 +447,8 @@ export class IncidentService {
     const minTime = Math.min(...timestamps) - 2 * 60 * 1000;
     const maxTime = Math.max(...timestamps) + 2 * 60 * 1000;
 
-    // Check if any event has a direct trace_id reference (from otel events)
-    const traceIds: string[] = [];
-    for (const event of events) {
-      const traceId = event.raw_data?.['trace_id'];
-      if (typeof traceId === 'string') {
-        traceIds.push(traceId);
-      }
-    }
+    // Traces the events point at: otel spans, and browser requests that sent a traceparent
+    const traceIds = [...new Set(events.flatMap(eventTraceIds))];
 
     // Extract HTTP path hints from events for filtering
     const pathHints: string[] = [];
@@ -223,12 +467,10 @@ export class IncidentService {
       }
     }
 
-    let spans;
+    let spans = traceIds.length > 0 ? await this.db.getSpansByTraceIds(traceIds, 200) : [];
 
-    if (traceIds.length > 0) {
-      // Direct trace lookup — fetch all spans for these trace IDs
-      spans = await this.db.getSpansByTraceIds(traceIds, 200);
-    } else {
+    // No exact trace, e.g. the backend isn't instrumented or dropped it: guess
+    if (spans.length === 0) {
       // Time-window lookup — find root spans in the project near the incident
       const rootTraceIds = await this.db.getDistinctTraceIdsInWindow(projectId, minTime, maxTime, 10);
 
@@ -278,10 +520,15 @@ export class IncidentService {
     return 'info';
   }
 
-  async resolveIncident(incidentId: string): Promise<void> {
+  /**
+   * `by` is who resolved it; leave it out when ScanWarp resolves the incident
+   * itself, e.g. when a monitor recovers.
+   */
+  async resolveIncident(incidentId: string, by: string | null = null): Promise<void> {
     await this.db.resolveIncident(incidentId);
 
     console.log(`Incident ${incidentId} resolved`);
+    await this.record(incidentId, 'resolved', by ? `Resolved by ${by}` : 'Resolved', by);
 
     // Send resolution notifications
     const incident = await this.getIncident(incidentId);
@@ -294,6 +541,125 @@ export class IncidentService {
     }
   }
 
+  /**
+   * Someone is working on it: the incident moves to investigating and stops
+   * sending "still open" reminders.
+   */
+  async acknowledgeIncident(incidentId: string, by: string | null): Promise<void> {
+    await this.db.acknowledgeIncident(incidentId, by);
+    await this.db.cancelScheduledNotifications(incidentId, ['escalation']);
+    await this.record(incidentId, 'acknowledged', by ? `Acknowledged by ${by}` : 'Acknowledged', by);
+  }
+
+  async assignIncident(incidentId: string, assignee: string | null, by: string | null): Promise<void> {
+    await this.db.assignIncident(incidentId, assignee);
+    await this.record(incidentId, 'assigned', assignee ? `Assigned to ${assignee}` : 'Unassigned', by, { assignee });
+  }
+
+  async reopenIncident(incidentId: string, by: string | null): Promise<void> {
+    await this.db.reopenIncident(incidentId);
+    console.log(`Incident ${incidentId} reopened`);
+    await this.record(incidentId, 'reopened', by ? `Reopened by ${by}` : 'Reopened', by);
+  }
+
+  async addComment(incidentId: string, body: string, author: string | null): Promise<IncidentTimelineRow> {
+    return this.db.addTimelineEntry({ incident_id: incidentId, kind: 'comment', actor: author, message: body });
+  }
+
+  /**
+   * Post an update for customers. Incidents only show up on the project's
+   * status page once they have one; `title` is what the page calls the
+   * incident, and a later update can change it.
+   */
+  async addStatusUpdate(
+    incidentId: string,
+    update: { status: StatusUpdateStatus; message: string; title: string | null },
+    author: string | null
+  ): Promise<IncidentTimelineRow> {
+    return this.db.addTimelineEntry({
+      incident_id: incidentId,
+      kind: 'status_update',
+      actor: author,
+      message: update.message,
+      data: { status: update.status, title: update.title },
+    });
+  }
+
+  /**
+   * Record whether the diagnosis was right. Confirmed and corrected root
+   * causes are given to later diagnoses of the same errors, and a wrong
+   * diagnosis is dropped from the cache so it isn't reused.
+   */
+  async addFeedback(
+    incidentId: string,
+    helpful: boolean,
+    actualRootCause: string | null,
+    author: string | null
+  ): Promise<DiagnosisFeedbackRow> {
+    const incident = await this.db.getIncident(incidentId);
+    if (!incident) {
+      throw new Error(`Incident ${incidentId} not found`);
+    }
+
+    const key = diagnosisKey(await this.db.getEventsByIds(incident.events));
+    const feedback = await this.db.addDiagnosisFeedback({
+      incident_id: incidentId,
+      project_id: incident.project_id,
+      diagnosis_key: key,
+      helpful,
+      diagnosed_root_cause: incident.diagnosis_text,
+      actual_root_cause: actualRootCause,
+      author,
+    });
+
+    if (!helpful && key) {
+      await this.db.deleteCachedDiagnosis(incident.project_id, key);
+    }
+
+    const verdict = helpful ? 'Diagnosis marked helpful' : 'Diagnosis marked not helpful';
+    await this.record(
+      incidentId,
+      'feedback',
+      actualRootCause ? `${verdict}; actual root cause: ${actualRootCause.substring(0, 200)}` : verdict,
+      author,
+      { helpful, actual_root_cause: actualRootCause },
+    );
+
+    return feedback;
+  }
+
+  async getTimeline(incidentId: string): Promise<IncidentTimelineRow[]> {
+    return this.db.getIncidentTimeline(incidentId);
+  }
+
+  async getDiagnosisRuns(incidentId: string): Promise<DiagnosisRunRow[]> {
+    return this.db.getDiagnosisRuns(incidentId);
+  }
+
+  // Usage is bookkeeping too; losing it shouldn't lose the diagnosis
+  private async recordRun(run: NewDiagnosisRun) {
+    try {
+      await this.db.addDiagnosisRun(run);
+    } catch (error) {
+      console.error(`Failed to record diagnosis usage for incident ${run.incident_id}:`, error);
+    }
+  }
+
+  // The timeline is a record of what happened; failing to write it shouldn't undo the change itself
+  private async record(
+    incidentId: string,
+    kind: IncidentTimelineKind,
+    message: string,
+    actor: string | null = null,
+    data: Record<string, unknown> | null = null
+  ) {
+    try {
+      await this.db.addTimelineEntry({ incident_id: incidentId, kind, actor, message, data });
+    } catch (error) {
+      console.error(`Failed to record ${kind} on incident ${incidentId}:`, error);
+    }
+  }
+
   async getIncident(incidentId: string): Promise<Incident | null> {
     const row = await this.db.getIncident(incidentId);
 
@@ -310,6 +676,9 @@ export class IncidentService {
       diagnosis_fix: row.diagnosis_fix || undefined,
       severity: row.severity as Incident['severity'],
       fix_prompt: row.fix_prompt || undefined,
+      acknowledged_by: row.acknowledged_by || undefined,
+      acknowledged_at: row.acknowledged_at || undefined,
+      assignee: row.assignee || undefined,
       created_at: row.created_at,
       resolved_at: row.resolved_at || undefined,
     };
@@ -1,20 +1,49 @@
-import type { Database } from '../db/index.js';
+import type { Database, MonitorRow } from '../db/index.js';
 import type { Monitor, Event } from '@scanwarp/core';
+import { performHttpCheck, checkConfigFor, type HttpCheckResult } from './httpCheck.js';
+import { performTransaction, type TransactionResult } from './transactionCheck.js';
+import type { CertificateChecker } from './CertificateChecker.js';
+import type { AnomalyDetector } from './AnomalyDetector.js';
+import type { EventPipeline, IngestResult } from './EventPipeline.js';
+import type { IncidentService } from './IncidentService.js';
 
-interface CheckResult {
-  success: boolean;
-  responseTime: number;
-  statusCode?: number;
-  error?: string;
+const DEFAULT_FAILURE_THRESHOLD = 2;
+
+// A new failure is re-checked once after this delay before it counts, so a
+// single dropped request doesn't start a failure streak
+const CONFIRMATION_DELAY_MS = 5_000;
+
+type MonitorState = Monitor & Pick<MonitorRow, 'consecutive_failures' | 'incident_id'>;
+
+interface CheckOutcome {
+  result: HttpCheckResult;
+  transaction?: TransactionResult;
 }
 
 export class MonitorRunner {
   private db: Database;
   private intervalId?: NodeJS.Timeout;
   private isRunning = false;
-
-  constructor(db: Database) {
+  // A pass can outlast the interval (slow checks, transactions, confirmation
+  // retries); overlapping passes would check the same monitor twice at once
+  private inProgress = false;
+  private pipeline: EventPipeline;
+  private incidentService: IncidentService;
+  private anomalyDetector: AnomalyDetector;
+  private certificateChecker?: CertificateChecker;
+
+  constructor(
+    db: Database,
+    pipeline: EventPipeline,
+    incidentService: IncidentService,
+    anomalyDetector: AnomalyDetector,
+    certificateChecker?: CertificateChecker,
+  ) {
     this.db = db;
+    this.pipeline = pipeline;
+    this.incidentService = incidentService;
+    this.anomalyDetector = anomalyDetector;
+    this.certificateChecker = certificateChecker;
   }
 
   async start() {
@@ -47,21 +76,31 @@ export class MonitorRunner {
   }
 
   private async runChecks() {
-    const monitors = await this.loadMonitors();
-
-    if (monitors.length === 0) {
-      console.log('No monitors configured');
+    if (this.inProgress) {
+      console.log('Previous monitor checks still running, skipping this pass');
       return;
     }
+    this.inProgress = true;
 
-    console.log(`Checking ${monitors.length} monitor(s)...`);
+    try {
+      const monitors = await this.loadMonitors();
+
+      if (monitors.length === 0) {
+        console.log('No monitors configured');
+        return;
+      }
 
-    for (const monitor of monitors) {
-      await this.checkMonitor(monitor);
+      console.log(`Checking ${monitors.length} monitor(s)...`);
+
+      for (const monitor of monitors) {
+        await this.checkMonitor(monitor);
+      }
+    } finally {
+      this.inProgress = false;
     }
   }
 
-  private async loadMonitors(): Promise<Monitor[]> {
+  private async loadMonitors(): Promise<MonitorState[]> {
     const rows = await this.db.getMonitors();
 
     return rows.map((row) => ({
@@ -72,8 +111,20 @@ export class MonitorRunner {
     }));
   }
 
-  private async checkMonitor(monitor: Monitor) {
-    const result = await this.performCheck(monitor.url);
+  private async checkMonitor(monitor: MonitorState) {
+    let outcome = await this.runCheck(monitor);
+
+    // Confirm the first failure with a second attempt before believing it
+    if (!outcome.result.success && monitor.status !== 'down') {
+      await new Promise((resolve) => setTimeout(resolve, CONFIRMATION_DELAY_MS));
+      const retry = await this.runCheck(monitor);
+      if (retry.result.success) {
+        console.log(`Monitor ${monitor.url} failed once but passed the confirmation check`);
+        outcome = retry;
+      }
+    }
+
+    const { result, transaction } = outcome;
 
     // Update monitor status and last_checked_at
     const newStatus = result.success ? 'up' : 'down';
@@ -83,41 +134,46 @@ export class MonitorRunner {
     await this.updateStats(monitor.id, result);
 
     // Detect anomalies and create events
-    await this.detectAndCreateEvents(monitor, result, newStatus);
-  }
+    const ingested = await this.detectAndCreateEvents(monitor, result, newStatus, transaction);
 
-  private async performCheck(url: string): Promise<CheckResult> {
-    const startTime = Date.now();
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 10_000);
+    // Open an incident once enough checks have failed in a row, resolve it on recovery
+    await this.updateIncident(monitor, result.success, ingested).catch((err) => {
+      console.error(`Failed to update incident for monitor ${monitor.url}:`, err);
+    });
 
-    try {
-      const response = await fetch(url, {
-        signal: controller.signal,
-        method: 'GET',
+    // Certificate and domain expiry (throttled internally, HTTPS only)
+    if (this.certificateChecker) {
+      await this.certificateChecker.check(monitor).catch((err) => {
+        console.error(`Certificate check failed for ${monitor.url}:`, err);
       });
+    }
+  }
 
-      clearTimeout(timeout);
-      const responseTime = Date.now() - startTime;
-
-      return {
-        success: response.status >= 200 && response.status < 300,
-        responseTime,
-        statusCode: response.status,
-      };
-    } catch (error) {
-      clearTimeout(timeout);
-      const responseTime = Date.now() - startTime;
-
-      return {
-        success: false,
-        responseTime,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      };
+  private async runCheck(monitor: Monitor): Promise<CheckOutcome> {
+    if (monitor.type !== 'transaction') {
+      return { result: await performHttpCheck(monitor.url, checkConfigFor(monitor)) };
     }
+
+    const transaction = await performTransaction(monitor.steps ?? []);
+    await this.db.updateMonitorStepResults(monitor.id, transaction.steps);
+
+    const failed = transaction.failedStep !== undefined ? transaction.steps[transaction.failedStep] : undefined;
+    return {
+      transaction,
+      result: {
+        success: transaction.success,
+        responseTime: transaction.responseTime,
+        statusCode: failed?.statusCode,
+        error: failed?.error,
+        failedAssertions: failed?.failedAssertions,
+      },
+    };
   }
 
-  private async updateStats(monitorId: string, result: CheckResult) {
+  private async updateStats(monitorId: string, result: HttpCheckResult) {
+    // Day-by-day counts back the uptime history on status pages
+    await this.db.recordDailyCheck(monitorId, !result.success);
+
     const stats = await this.db.getEventStats(monitorId);
 
     if (!stats) {
@@ -141,10 +197,17 @@ export class MonitorRunner {
 
   private async detectAndCreateEvents(
     monitor: Monitor,
-    result: CheckResult,
-    newStatus: 'up' | 'down'
-  ) {
-    const events: Array<{ type: Event['type']; message: string; severity: Event['severity'] }> = [];
+    result: HttpCheckResult,
+    newStatus: 'up' | 'down',
+    transaction?: TransactionResult
+  ): Promise<IngestResult[]> {
+    const events: Array<{
+      type: Event['type'];
+      message: string;
+      severity: Event['severity'];
+      raw_data?: Record<string, unknown>;
+      anomaly_reason?: string;
+    }> = [];
 
     // Check for down -> up transition
     if (monitor.status === 'down' && newStatus === 'up') {
@@ -155,8 +218,28 @@ export class MonitorRunner {
       });
     }
 
-    // Check for down status
-    if (!result.success) {
+    // A failed transaction is reported against the step that broke, with that
+    // step's URL, so it correlates with errors from the same endpoint
+    if (transaction && transaction.failedStep !== undefined) {
+      const step = transaction.steps[transaction.failedStep];
+      events.push({
+        type: 'error',
+        message: `Transaction step ${transaction.failedStep + 1}/${transaction.steps.length} "${step.name}" failed: ${step.method} ${step.url} — ${step.error || `HTTP ${step.statusCode}`}`,
+        severity: 'critical',
+        raw_data: {
+          url: step.url,
+          method: step.method,
+          step: transaction.failedStep + 1,
+          step_name: step.name,
+          responseTime: step.responseTime,
+          statusCode: step.statusCode,
+          error: step.error,
+          failedAssertions: step.failedAssertions,
+          transaction_url: monitor.url,
+          steps: transaction.steps,
+        },
+      });
+    } else if (!result.success) {
       events.push({
         type: 'down',
         message: `Monitor ${monitor.url} is down: ${result.error || `HTTP ${result.statusCode}`}`,
@@ -164,39 +247,106 @@ export class MonitorRunner {
       });
     }
 
-    // Check for slow response (3x higher than average)
-    if (result.success) {
-      const avgTime = await this.db.getAvgResponseTime(monitor.id);
-
-      if (avgTime) {
-        if (result.responseTime > avgTime * 3) {
-          events.push({
-            type: 'slow',
-            message: `Monitor ${monitor.url} is slow: ${result.responseTime}ms (avg: ${Math.round(avgTime)}ms)`,
-            severity: 'medium',
-          });
-        }
+    // Check for slow responses against the rolling latency baseline. For
+    // transactions each step has its own baseline, since one slow step is
+    // easily hidden in the total.
+    const samples = transaction
+      ? transaction.steps.filter((step) => step.ran && step.success).map((step) => ({
+          route: `${step.method} ${step.url}`,
+          duration: step.responseTime,
+        }))
+      : result.success
+        ? [{ route: `${monitor.method ?? 'GET'} ${monitor.url}`, duration: result.responseTime }]
+        : [];
+
+    for (const sample of samples) {
+      const latency = await this.anomalyDetector.observeLatency({
+        project_id: monitor.project_id,
+        monitor_id: monitor.id,
+        source: 'monitor',
+        route: sample.route,
+        duration_ms: sample.duration,
+      });
+
+      if (latency.isAnomaly) {
+        events.push({
+          type: 'slow',
+          message: `Monitor ${monitor.url} is slow: ${sample.route} took ${sample.duration}ms`,
+          severity: 'medium',
+          anomaly_reason: latency.reason,
+        });
       }
     }
 
-    // Create events in database
+    // Create events in database. Incidents for monitors are opened by the
+    // failure streak below rather than by anomaly detection.
+    const ingested: IngestResult[] = [];
     for (const event of events) {
-      await this.db.createEvent({
+      ingested.push(await this.pipeline.ingest({
         project_id: monitor.project_id,
         monitor_id: monitor.id,
         type: event.type,
         source: 'monitor',
         message: event.message,
-        raw_data: {
+        raw_data: event.raw_data ?? {
           url: monitor.url,
+          method: monitor.method ?? 'GET',
           responseTime: result.responseTime,
           statusCode: result.statusCode,
           error: result.error,
+          failedAssertions: result.failedAssertions,
+          ...(transaction ? { steps: transaction.steps } : {}),
         },
         severity: event.severity,
-      });
+        anomaly_reason: event.anomaly_reason,
+      }, { openIncident: false }));
 
       console.log(`Event created: ${event.type} - ${event.message}`);
     }
+
+    return ingested;
+  }
+
+  private async updateIncident(monitor: MonitorState, success: boolean, ingested: IngestResult[]) {
+    if (success) {
+      if (monitor.consecutive_failures === 0 && !monitor.incident_id) return;
+
+      if (monitor.incident_id) {
+        const incident = await this.db.getIncident(monitor.incident_id);
+        // Someone may have resolved it by hand while the monitor was still down.
+        // An incident the failure joined may still have other open causes, so
+        // only resolve one the monitor opened itself and just drop the link otherwise.
+        if (incident && incident.status !== 'resolved' && incident.correlation_group === `monitor-${monitor.id}`) {
+          await this.incidentService.resolveIncident(monitor.incident_id);
+        }
+      }
+      await this.db.updateMonitorFailures(monitor.id, 0, null);
+      return;
+    }
+
+    const failures = monitor.consecutive_failures + 1;
+    let incidentId = monitor.incident_id;
+
+    if (!incidentId && failures >= (monitor.failure_threshold ?? DEFAULT_FAILURE_THRESHOLD)) {
+      // The failure may already have joined a related incident, e.g. errors from the same endpoint
+      incidentId = ingested.find((r) => r.incidentId)?.incidentId
+        ?? await this.incidentService.createIncident(await this.failureEventIds(monitor, failures), `monitor-${monitor.id}`);
+      console.log(`Monitor ${monitor.url} failed ${failures} checks in a row, incident ${incidentId}`);
+    }
+
+    await this.db.updateMonitorFailures(monitor.id, failures, incidentId);
+  }
+
+  /**
+   * The events for the current failure streak, oldest first.
+   */
+  private async failureEventIds(monitor: Monitor, failures: number): Promise<string[]> {
+    // Slow and certificate events for the monitor are mixed in, so look a little further back
+    const events = await this.db.getEvents({ monitor_id: monitor.id, limit: failures * 4 });
+    return events
+      .filter((e) => e.type === 'down' || e.type === 'error')
+      .slice(0, failures)
+      .map((e) => e.id)
+      .reverse();
   }
 }
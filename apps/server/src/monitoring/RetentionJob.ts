@@ -0,0 +1,215 @@
+import type { Database, EventRollupRow, RollupName } from '../db/index.js';
+import { routeKeyFor } from './detectors/baseline.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const RUN_INTERVAL_MS = HOUR_MS;
+
+// Telemetry can arrive a little after the fact, so leave the last few minutes alone
+const LATE_ARRIVAL_MS = 5 * 60 * 1000;
+
+// Delete in small batches so a big prune doesn't block other writers
+const PRUNE_BATCH_SIZE = 5000;
+
+export interface RetentionConfig {
+  /** Days of raw data to keep; 0 keeps it forever */
+  eventsDays: number;
+  spansDays: number;
+  metricsDays: number;
+  rollupsDays: number;
+  replaysDays: number;
+}
+
+export const DEFAULT_RETENTION: RetentionConfig = {
+  eventsDays: 30,
+  spansDays: 7,
+  metricsDays: 30,
+  rollupsDays: 400,
+  replaysDays: 14,
+};
+
+/**
+ * Read RETENTION_*_DAYS from the environment. Anything missing or invalid
+ * falls back to the default.
+ */
+export function parseRetentionConfig(env: NodeJS.ProcessEnv): RetentionConfig {
+  const days = (value: string | undefined, fallback: number) => {
+    const n = Number(value);
+    return value && Number.isInteger(n) && n >= 0 ? n : fallback;
+  };
+  return {
+    eventsDays: days(env.RETENTION_EVENTS_DAYS, DEFAULT_RETENTION.eventsDays),
+    spansDays: days(env.RETENTION_SPANS_DAYS, DEFAULT_RETENTION.spansDays),
+    metricsDays: days(env.RETENTION_METRICS_DAYS, DEFAULT_RETENTION.metricsDays),
+    rollupsDays: days(env.RETENTION_ROLLUPS_DAYS, DEFAULT_RETENTION.rollupsDays),
+    replaysDays: days(env.RETENTION_REPLAYS_DAYS, DEFAULT_RETENTION.replaysDays),
+  };
+}
+
+function startOfHour(ms: number): number {
+  return Math.floor(ms / HOUR_MS) * HOUR_MS;
+}
+
+function yieldToEventLoop(): Promise<void> {
+  return new Promise((resolve) => setImmediate(resolve));
+}
+
+/**
+ * Rolls raw events and spans up into hourly aggregates, then deletes raw
+ * rows past their retention. Raw rows are only deleted once their hour has
+ * been rolled up.
+ */
+export class RetentionJob {
+  private db: Database;
+  private config: RetentionConfig;
+  private intervalId?: NodeJS.Timeout;
+  private isRunning = false;
+  private inProgress = false;
+
+  constructor(db: Database, config: RetentionConfig = DEFAULT_RETENTION) {
+    this.db = db;
+    this.config = config;
+  }
+
+  async start() {
+    if (this.isRunning) {
+      console.log('RetentionJob already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('Starting RetentionJob...');
+
+    // Runs in the background; a first catch-up on a large database can take a while
+    this.run().catch((err) => {
+      console.error('Error in retention job:', err);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.run().catch((err) => {
+        console.error('Error in retention job:', err);
+      });
+    }, RUN_INTERVAL_MS);
+  }
+
+  async stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+    this.isRunning = false;
+    console.log('RetentionJob stopped');
+  }
+
+  private async run() {
+    if (this.inProgress) return;
+    this.inProgress = true;
+
+    try {
+      await this.rollUp('events', () => this.db.getOldestEventTime(), (hour) => this.rollUpEvents(hour));
+      await this.rollUp('spans', () => this.db.getOldestSpanTime(), (hour) => this.db.rollupSpans(hour));
+
+      await this.prune('events', this.config.eventsDays, 'events', (before) => this.db.pruneEvents(before, PRUNE_BATCH_SIZE));
+      await this.prune('spans', this.config.spansDays, 'spans', (before) => this.db.pruneSpans(before, PRUNE_BATCH_SIZE));
+      await this.prune('metric_points', this.config.metricsDays, null, (before) => this.db.pruneMetricPoints(before, PRUNE_BATCH_SIZE));
+      await this.prune('rollups', this.config.rollupsDays, null, (before) => this.db.pruneRollups(before, PRUNE_BATCH_SIZE));
+      await this.prune('browser_replays', this.config.replaysDays, null, (before) => this.db.pruneBrowserReplays(before, PRUNE_BATCH_SIZE));
+    } finally {
+      this.inProgress = false;
+    }
+  }
+
+  /**
+   * Roll up every complete hour after the watermark, one hour at a time.
+   */
+  private async rollUp(
+    name: RollupName,
+    getOldest: () => Promise<Date | null>,
+    rollUpHour: (hour: Date) => Promise<void>,
+  ) {
+    const end = startOfHour(Date.now() - LATE_ARRIVAL_MS);
+
+    let from = (await this.db.getRollupWatermark(name))?.getTime();
+    if (from === undefined) {
+      const oldest = await getOldest();
+      if (!oldest) return;
+      // Rollups older than their own retention would be pruned straight away
+      from = startOfHour(oldest.getTime());
+      if (this.config.rollupsDays > 0) {
+        from = Math.max(from, startOfHour(Date.now() - this.config.rollupsDays * DAY_MS));
+      }
+    }
+
+    let hours = 0;
+    for (let hour = from; hour < end && this.isRunning; hour += HOUR_MS) {
+      await rollUpHour(new Date(hour));
+      await this.db.setRollupWatermark(name, new Date(hour + HOUR_MS));
+      hours++;
+      await yieldToEventLoop();
+    }
+
+    if (hours > 1) {
+      console.log(`Rolled up ${hours} hours of ${name}`);
+    }
+  }
+
+  private async rollUpEvents(hour: Date) {
+    const events = await this.db.getEventsInRange(hour, new Date(hour.getTime() + HOUR_MS));
+
+    const rollups = new Map<string, EventRollupRow>();
+    for (const event of events) {
+      if (!event.project_id) continue;
+
+      const row: EventRollupRow = {
+        project_id: event.project_id,
+        hour,
+        type: event.type,
+        source: event.source,
+        route_key: routeKeyFor(event),
+        fingerprint: event.fingerprint ?? '',
+        count: 0,
+      };
+      const key = [row.project_id, row.type, row.source, row.route_key, row.fingerprint].join('\n');
+      const existing = rollups.get(key) ?? row;
+      existing.count += event.occurrences;
+      rollups.set(key, existing);
+    }
+
+    if (rollups.size > 0) {
+      await this.db.upsertEventRollups([...rollups.values()]);
+    }
+  }
+
+  /**
+   * Delete rows older than the retention period, but never rows whose hour
+   * hasn't been rolled up yet.
+   */
+  private async prune(
+    table: string,
+    days: number,
+    rollup: RollupName | null,
+    deleteBatch: (before: Date) => Promise<number>,
+  ) {
+    if (days === 0) return;
+
+    let before = Date.now() - days * DAY_MS;
+    if (rollup) {
+      const rolledUpUntil = await this.db.getRollupWatermark(rollup);
+      if (!rolledUpUntil) return;
+      before = Math.min(before, rolledUpUntil.getTime());
+    }
+
+    let total = 0;
+    let deleted: number;
+    do {
+      deleted = await deleteBatch(new Date(before));
+      total += deleted;
+      await yieldToEventLoop();
+    } while (deleted >= PRUNE_BATCH_SIZE && this.isRunning);
+
+    if (total > 0) {
+      console.log(`Pruned ${total} ${table} row(s) older than ${days} day(s)`);
+    }
+  }
+}
@@ -1,15 +1,18 @@
 import type { Database } from '../db/index.js';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import type { EventPipeline } from './EventPipeline.js';
 
 export class SupabasePoller {
   private db: Database;
+  private pipeline: EventPipeline;
   private supabase: SupabaseClient;
   private projectRef: string;
   private intervalId?: NodeJS.Timeout;
   private isRunning = false;
 
-  constructor(db: Database, projectRef: string, serviceKey: string) {
+  constructor(db: Database, pipeline: EventPipeline, projectRef: string, serviceKey: string) {
     this.db = db;
+    this.pipeline = pipeline;
     this.projectRef = projectRef;
 
     // Create Supabase client
@@ -137,7 +140,7 @@ export class SupabasePoller {
     const projectName = `supabase-${this.projectRef}`;
     const { id: projectId } = await this.db.getOrCreateProject(projectName);
 
-    await this.db.createEvent({
+    await this.pipeline.ingest({
       project_id: projectId,
       type: event.type,
       source: 'supabase',
@@ -0,0 +1,95 @@
+import type { AnomalyBaselineRow } from '../../db/index.js';
+
+/**
+ * A fresh baseline with no observations yet.
+ */
+export function emptyBaseline(projectId: string, detector: string, key: string): AnomalyBaselineRow {
+  return {
+    project_id: projectId,
+    detector,
+    key,
+    mean: 0,
+    variance: 0,
+    samples: 0,
+    bucket_start: null,
+    bucket_count: 0,
+    last_alert_at: null,
+    updated_at: new Date(),
+  };
+}
+
+/**
+ * Fold one observation into the exponentially weighted mean and variance.
+ * `alpha` is the weight of the new value (0.1 ≈ the last 20 observations).
+ */
+export function updateEwma(baseline: AnomalyBaselineRow, value: number, alpha: number) {
+  if (baseline.samples === 0) {
+    baseline.mean = value;
+    baseline.variance = 0;
+  } else {
+    const diff = value - baseline.mean;
+    const increment = alpha * diff;
+    baseline.mean += increment;
+    baseline.variance = (1 - alpha) * (baseline.variance + diff * increment);
+  }
+  baseline.samples++;
+}
+
+/**
+ * How many standard deviations `value` is above the baseline mean. The
+ * deviation is floored at `minStdDev` so a perfectly flat history doesn't
+ * turn tiny wobbles into huge scores.
+ */
+export function zScore(baseline: AnomalyBaselineRow, value: number, minStdDev: number): number {
+  const stdDev = Math.max(Math.sqrt(baseline.variance), minStdDev);
+  return (value - baseline.mean) / stdDev;
+}
+
+export function alertedWithin(baseline: AnomalyBaselineRow, ms: number, now = Date.now()): boolean {
+  return !!baseline.last_alert_at && now - new Date(baseline.last_alert_at).getTime() < ms;
+}
+
+/**
+ * Collapse ids in a path so "/orders/123" and "/orders/456" share a baseline.
+ */
+export function normalizeRoute(value: string): string {
+  let path = value;
+  try {
+    const url = new URL(value);
+    path = url.host + url.pathname;
+  } catch {
+    path = value.split('?')[0];
+  }
+
+  return path
+    .replace(/[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}/gi, ':id')
+    .replace(/\/[a-f0-9]{16,}(?=\/|$)/gi, '/:id')
+    .replace(/\/\d+(?=\/|$)/g, '/:id');
+}
+
+/**
+ * The route or URL an event concerns, as found in its payload.
+ */
+export function routeFor(event: { raw_data?: Record<string, unknown> | null }): string | null {
+  const raw = event.raw_data ?? {};
+  const attributes = (raw.attributes ?? {}) as Record<string, unknown>;
+  const proxy = (raw.proxy ?? {}) as Record<string, unknown>;
+
+  return [
+    raw.route,
+    attributes['http.route'],
+    raw.url,
+    raw.path,
+    proxy.path,
+    raw.operation_name,
+  ].find((v): v is string => typeof v === 'string' && v.length > 0) ?? null;
+}
+
+/**
+ * Baseline key for an event: its source plus the route it concerns, when
+ * one can be found in the payload.
+ */
+export function routeKeyFor(event: { source: string; raw_data?: Record<string, unknown> | null }): string {
+  const route = routeFor(event);
+  return `${event.source} ${route ? normalizeRoute(route) : '*'}`;
+}
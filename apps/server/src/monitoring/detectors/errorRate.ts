@@ -0,0 +1,113 @@
+import type { Event } from '@scanwarp/core';
+import type { AnomalyBaselineRow, Database } from '../../db/index.js';
+import { emptyBaseline, routeKeyFor, updateEwma, zScore } from './baseline.js';
+import type { AnomalyDetectorPlugin, Detection, DetectionContext } from './types.js';
+
+const ERROR_TYPES: Event['type'][] = ['error', 'down', 'trace_error'];
+
+const BUCKET_MS = 5 * 60 * 1000;
+const HOUR_MS = 60 * 60 * 1000;
+const BUCKETS_PER_HOUR = HOUR_MS / BUCKET_MS;
+const ALPHA = 0.05;
+
+// Quiet periods are folded in as zero-error buckets, up to a day's worth
+const MAX_IDLE_BUCKETS = 288;
+
+// How much rolled-up history a new baseline starts from
+const SEED_WINDOW_MS = 7 * 24 * HOUR_MS;
+
+// Never flag fewer errors than this in one bucket, however quiet the baseline
+const MIN_ERRORS_PER_BUCKET = 3;
+
+/**
+ * Counts errors per source+route in 5-minute buckets and flags a bucket whose
+ * count is well above the EWMA of previous buckets. Fires at most once per bucket.
+ */
+export class ErrorRateDetector implements AnomalyDetectorPlugin {
+  readonly name = 'error-rate';
+
+  async analyzeEvent(event: Event, { db, thresholds }: DetectionContext): Promise<Detection | null> {
+    if (!ERROR_TYPES.includes(event.type)) return null;
+
+    const key = routeKeyFor(event);
+    let baseline = await db.getAnomalyBaseline(event.project_id, this.name, key);
+    if (!baseline) {
+      baseline = emptyBaseline(event.project_id, this.name, key);
+      await this.seedFromRollups(baseline, db);
+    }
+
+    const at = new Date(event.created_at).getTime() || Date.now();
+    const bucketStart = Math.floor(at / BUCKET_MS) * BUCKET_MS;
+
+    if (baseline.bucket_start === null) {
+      baseline.bucket_start = bucketStart;
+      baseline.bucket_count = 0;
+    } else if (bucketStart > baseline.bucket_start) {
+      // Close the previous bucket, then account for any quiet buckets since
+      updateEwma(baseline, baseline.bucket_count, ALPHA);
+      const idle = Math.min((bucketStart - baseline.bucket_start) / BUCKET_MS - 1, MAX_IDLE_BUCKETS);
+      for (let i = 0; i < idle; i++) updateEwma(baseline, 0, ALPHA);
+
+      baseline.bucket_start = bucketStart;
+      baseline.bucket_count = 0;
+    }
+
+    // Browser reports fold repeats of an error into one event
+    baseline.bucket_count += event.occurrences ?? 1;
+
+    let detection: Detection | null = null;
+    const alreadyAlerted = !!baseline.last_alert_at && new Date(baseline.last_alert_at).getTime() >= bucketStart;
+
+    if (baseline.samples >= thresholds.minSamples && baseline.bucket_count >= MIN_ERRORS_PER_BUCKET && !alreadyAlerted) {
+      // Error counts are roughly Poisson, so the spread is at least √mean
+      const score = zScore(baseline, baseline.bucket_count, Math.max(1, Math.sqrt(baseline.mean)));
+      if (score >= thresholds.zScore) {
+        detection = {
+          detector: this.name,
+          reason: `${baseline.bucket_count} errors from ${key} in 5 minutes, ${score.toFixed(1)}σ above the usual ${baseline.mean.toFixed(1)}`,
+          shouldDiagnose: true,
+          score,
+        };
+        baseline.last_alert_at = new Date();
+      }
+    }
+
+    await db.upsertAnomalyBaseline(baseline);
+    return detection;
+  }
+
+  /**
+   * Start a new baseline from the hourly event rollups rather than waiting
+   * for live buckets. Each hour is spread evenly over its 5-minute buckets,
+   * from the route's first rolled-up error to the end of the rollups.
+   */
+  private async seedFromRollups(baseline: AnomalyBaselineRow, db: Database) {
+    const until = await db.getRollupWatermark('events');
+    if (!until) return;
+
+    const rollups = await db.getEventRollups({
+      project_id: baseline.project_id,
+      since: new Date(until.getTime() - SEED_WINDOW_MS),
+      until,
+      types: ERROR_TYPES,
+      route_key: baseline.key,
+    });
+    if (rollups.length === 0) return;
+
+    const perHour = new Map<number, number>();
+    for (const r of rollups) {
+      perHour.set(r.hour.getTime(), (perHour.get(r.hour.getTime()) ?? 0) + r.count);
+    }
+
+    const first = Math.min(...perHour.keys());
+    const values: number[] = [];
+    for (let hour = first; hour < until.getTime(); hour += HOUR_MS) {
+      values.push((perHour.get(hour) ?? 0) / BUCKETS_PER_HOUR);
+    }
+
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    baseline.mean = mean;
+    baseline.variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+    baseline.samples = values.length * BUCKETS_PER_HOUR;
+  }
+}
@@ -0,0 +1,46 @@
+import { alertedWithin, emptyBaseline, normalizeRoute, updateEwma, zScore } from './baseline.js';
+import type { AnomalyDetectorPlugin, Detection, DetectionContext, LatencySample } from './types.js';
+
+const ALPHA = 0.1;
+
+// Alert at most once per route in this window, so a sustained slowdown isn't one alert per request
+const ALERT_COOLDOWN_MS = 15 * 60 * 1000;
+
+// Ignore jitter: a sample must also be at least this much slower than the mean
+const MIN_SLOWDOWN_RATIO = 1.5;
+const MIN_STDDEV_MS = 5;
+
+/**
+ * Keeps an EWMA latency baseline per source+route and flags samples that
+ * are far above it.
+ */
+export class LatencyDetector implements AnomalyDetectorPlugin {
+  readonly name = 'latency';
+
+  async observeLatency(sample: LatencySample, { db, thresholds }: DetectionContext): Promise<Detection | null> {
+    const key = `${sample.source} ${normalizeRoute(sample.route)}`;
+    const baseline = await db.getAnomalyBaseline(sample.project_id, this.name, key)
+      ?? emptyBaseline(sample.project_id, this.name, key);
+
+    let detection: Detection | null = null;
+
+    if (baseline.samples >= thresholds.minSamples && !alertedWithin(baseline, ALERT_COOLDOWN_MS)) {
+      const score = zScore(baseline, sample.duration_ms, Math.max(MIN_STDDEV_MS, baseline.mean * 0.1));
+      if (score >= thresholds.zScore && sample.duration_ms >= baseline.mean * MIN_SLOWDOWN_RATIO) {
+        detection = {
+          detector: this.name,
+          reason: `${sample.route} took ${Math.round(sample.duration_ms)}ms, ${score.toFixed(1)}σ above its usual ${Math.round(baseline.mean)}ms`,
+          shouldDiagnose: false,
+          score,
+        };
+        baseline.last_alert_at = new Date();
+      }
+    }
+
+    // Every sample feeds the baseline, so a lasting change becomes the new normal
+    updateEwma(baseline, sample.duration_ms, ALPHA);
+    await db.upsertAnomalyBaseline(baseline);
+
+    return detection;
+  }
+}
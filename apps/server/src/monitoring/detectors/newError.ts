@@ -0,0 +1,47 @@
+import type { Event } from '@scanwarp/core';
+import type { AnomalyDetectorPlugin, Detection, DetectionContext } from './types.js';
+
+// An issue quiet for this long counts as new again when it comes back
+const NEW_ERROR_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Flags the first occurrence of an error issue (by fingerprint) in the last
+ * 7 days.
+ */
+export class NewErrorDetector implements AnomalyDetectorPlugin {
+  readonly name = 'new-error';
+
+  async analyzeEvent(event: Event, { db }: DetectionContext): Promise<Detection | null> {
+    // Only error events are fingerprinted
+    if (!event.fingerprint) return null;
+
+    // Hours already rolled up are counted from the hourly rollups, since the
+    // raw events may have been pruned; the rest from the events table
+    let since = new Date(Date.now() - NEW_ERROR_WINDOW_MS);
+    const rolledUpUntil = await db.getRollupWatermark('events');
+    if (rolledUpUntil && rolledUpUntil > since) {
+      const rollups = await db.getEventRollups({
+        project_id: event.project_id,
+        since,
+        until: rolledUpUntil,
+        fingerprint: event.fingerprint,
+      });
+      if (rollups.some((r) => r.count > 0)) return null;
+      since = rolledUpUntil;
+    }
+
+    const count = await db.getRecentFingerprintCount(
+      event.project_id,
+      event.fingerprint,
+      event.id,
+      since,
+    );
+    if (count > 0) return null;
+
+    return {
+      detector: this.name,
+      reason: 'New error type never seen before',
+      shouldDiagnose: true,
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import type { AnomalySettings, Event, EventSource } from '@scanwarp/core';
+import type { Database } from '../../db/index.js';
+
+export interface SensitivityThresholds {
+  /** How many standard deviations above the baseline counts as anomalous */
+  zScore: number;
+  /** Observations needed before a baseline is trusted */
+  minSamples: number;
+}
+
+export const SENSITIVITY_THRESHOLDS: Record<AnomalySettings['sensitivity'], SensitivityThresholds> = {
+  low: { zScore: 4, minSamples: 30 },
+  medium: { zScore: 3, minSamples: 20 },
+  high: { zScore: 2, minSamples: 10 },
+};
+
+export const DEFAULT_ANOMALY_SETTINGS: AnomalySettings = {
+  sensitivity: 'medium',
+  disabled_detectors: [],
+};
+
+export interface DetectionContext {
+  db: Database;
+  settings: AnomalySettings;
+  thresholds: SensitivityThresholds;
+}
+
+export interface Detection {
+  detector: string;
+  /** Human-readable explanation, stored on the event */
+  reason: string;
+  shouldDiagnose: boolean;
+  /** z-score or similar, when the detector has one */
+  score?: number;
+}
+
+/**
+ * A latency measurement that isn't necessarily an event, e.g. a successful
+ * monitor check or a server span.
+ */
+export interface LatencySample {
+  project_id: string;
+  source: EventSource;
+  /** e.g. "GET /api/checkout" */
+  route: string;
+  duration_ms: number;
+  monitor_id?: string;
+}
+
+/**
+ * One hour's 75th percentile of a browser web vital on one route.
+ */
+export interface VitalSample {
+  project_id: string;
+  /** e.g. "/orders/:id" */
+  route: string;
+  /** e.g. "lcp" */
+  metric: string;
+  /** e.g. "Largest Contentful Paint" */
+  label: string;
+  unit: 'ms' | 'score';
+  value: number;
+  /** Values at or below this are rated good, so rises under it are ignored */
+  good: number;
+  /** Page views the percentile was computed from */
+  samples: number;
+}
+
+/**
+ * A detector plugin. Implement either hook (or both); return a Detection when
+ * the input looks anomalous. Plugins are run for every event/sample so they
+ * can keep their baselines up to date, even when another plugin already fired.
+ */
+export interface AnomalyDetectorPlugin {
+  readonly name: string;
+  analyzeEvent?(event: Event, context: DetectionContext): Promise<Detection | null>;
+  observeLatency?(sample: LatencySample, context: DetectionContext): Promise<Detection | null>;
+  observeVital?(sample: VitalSample, context: DetectionContext): Promise<Detection | null>;
+}
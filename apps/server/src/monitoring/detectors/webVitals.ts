@@ -0,0 +1,54 @@
+import { alertedWithin, emptyBaseline, updateEwma, zScore } from './baseline.js';
+import type { AnomalyDetectorPlugin, Detection, DetectionContext, VitalSample } from './types.js';
+
+const ALPHA = 0.1;
+
+// Samples are hourly, so one alert covers a regression that lasts the rest of the day
+const ALERT_COOLDOWN_MS = 6 * 60 * 60 * 1000;
+
+// A percentile must also be at least this much worse than usual
+const MIN_REGRESSION_RATIO = 1.2;
+const MIN_STDDEV: Record<VitalSample['unit'], number> = { ms: 20, score: 0.01 };
+
+/**
+ * Keeps an EWMA baseline of each route's hourly p75 per web vital and
+ * flags hours that are far above it. Values still rated good never alert,
+ * so a fast page getting a little slower isn't a regression.
+ */
+export class WebVitalsDetector implements AnomalyDetectorPlugin {
+  readonly name = 'web-vitals';
+
+  async observeVital(sample: VitalSample, { db, thresholds }: DetectionContext): Promise<Detection | null> {
+    const key = `browser ${sample.metric} ${sample.route}`;
+    const baseline = await db.getAnomalyBaseline(sample.project_id, this.name, key)
+      ?? emptyBaseline(sample.project_id, this.name, key);
+
+    let detection: Detection | null = null;
+
+    if (
+      baseline.samples >= thresholds.minSamples &&
+      !alertedWithin(baseline, ALERT_COOLDOWN_MS) &&
+      sample.value > sample.good
+    ) {
+      const score = zScore(baseline, sample.value, Math.max(MIN_STDDEV[sample.unit], baseline.mean * 0.1));
+      if (score >= thresholds.zScore && sample.value >= baseline.mean * MIN_REGRESSION_RATIO) {
+        detection = {
+          detector: this.name,
+          reason: `${sample.label} on ${sample.route} regressed to ${formatVital(sample.value, sample.unit)} at p75, up from its usual ${formatVital(baseline.mean, sample.unit)}`,
+          shouldDiagnose: false,
+          score,
+        };
+        baseline.last_alert_at = new Date();
+      }
+    }
+
+    updateEwma(baseline, sample.value, ALPHA);
+    await db.upsertAnomalyBaseline(baseline);
+
+    return detection;
+  }
+}
+
+function formatVital(value: number, unit: VitalSample['unit']): string {
+  return unit === 'ms' ? `${Math.round(value)}ms` : value.toFixed(3);
+}
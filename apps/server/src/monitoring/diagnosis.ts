@@ -0,0 +1,108 @@
+import {
+  ClaudeDiagnosisProvider,
+  DEFAULT_DIAGNOSIS_TIMEOUT_MS,
+  OpenAICompatibleDiagnosisProvider,
+  RuleBasedDiagnosisProvider,
+  type DiagnosisContext,
+  type DiagnosisProvider,
+  type DiagnosisResult,
+} from '@scanwarp/core';
+
+const PROVIDERS = ['claude', 'openai', 'rules', 'off'] as const;
+
+const FAILURE_THRESHOLD = 3;
+const COOLDOWN_MS = 5 * 60 * 1000;
+
+/**
+ * Stops calling a provider after several failures in a row, so an API
+ * outage doesn't hold up every new incident until the request times out.
+ * While open, and whenever the provider fails, incidents get the fallback's
+ * diagnosis instead. After the cooldown one call is let through to see
+ * whether the provider has recovered.
+ */
+export class CircuitBreakerDiagnosisProvider implements DiagnosisProvider {
+  readonly name: string;
+  private provider: DiagnosisProvider;
+  private fallback: DiagnosisProvider | null;
+  private failures = 0;
+  private openUntil = 0;
+
+  constructor(provider: DiagnosisProvider, fallback: DiagnosisProvider | null) {
+    this.name = provider.name;
+    this.provider = provider;
+    this.fallback = fallback;
+  }
+
+  async diagnose(context: DiagnosisContext): Promise<DiagnosisResult> {
+    if (Date.now() < this.openUntil) {
+      return this.useFallback(context, new Error(`${this.name} diagnosis is paused after repeated failures`));
+    }
+
+    try {
+      const result = await this.provider.diagnose(context);
+      this.failures = 0;
+      return result;
+    } catch (error) {
+      this.failures++;
+      if (this.failures >= FAILURE_THRESHOLD) {
+        this.openUntil = Date.now() + COOLDOWN_MS;
+        console.warn(
+          `${this.name} diagnosis failed ${this.failures} times in a row, pausing it for ${COOLDOWN_MS / 60000} minutes`
+        );
+      }
+      return this.useFallback(context, error);
+    }
+  }
+
+  private async useFallback(context: DiagnosisContext, error: unknown): Promise<DiagnosisResult> {
+    if (!this.fallback) throw error;
+    console.error(`${this.name} diagnosis unavailable, using ${this.fallback.name} instead:`, error);
+    return this.fallback.diagnose(context);
+  }
+}
+
+/**
+ * Pick the diagnosis provider from DIAGNOSIS_PROVIDER. When it isn't set,
+ * Claude is used if ANTHROPIC_API_KEY is set, then an OpenAI-compatible
+ * server if OPENAI_BASE_URL or OPENAI_API_KEY is set, and otherwise the
+ * offline rule-based diagnoser. Model providers fall back to the rule-based
+ * one when they fail. Returns null when diagnosis is turned off.
+ */
+export function createDiagnosisProvider(env: NodeJS.ProcessEnv): DiagnosisProvider | null {
+  let choice = env.DIAGNOSIS_PROVIDER?.trim().toLowerCase();
+  if (choice && !(PROVIDERS as readonly string[]).includes(choice)) {
+    throw new Error(`DIAGNOSIS_PROVIDER must be one of ${PROVIDERS.join(', ')}`);
+  }
+  if (!choice) {
+    choice = env.ANTHROPIC_API_KEY ? 'claude' : env.OPENAI_BASE_URL || env.OPENAI_API_KEY ? 'openai' : 'rules';
+  }
+
+  const model = env.DIAGNOSIS_MODEL || undefined;
+  const timeout = Number(env.DIAGNOSIS_TIMEOUT_MS);
+  const timeoutMs = Number.isInteger(timeout) && timeout > 0 ? timeout : DEFAULT_DIAGNOSIS_TIMEOUT_MS;
+
+  switch (choice) {
+    case 'claude':
+      if (!env.ANTHROPIC_API_KEY) {
+        throw new Error('DIAGNOSIS_PROVIDER is claude but ANTHROPIC_API_KEY is not set');
+      }
+      return new CircuitBreakerDiagnosisProvider(
+        new ClaudeDiagnosisProvider({ apiKey: env.ANTHROPIC_API_KEY, model, timeoutMs }),
+        new RuleBasedDiagnosisProvider()
+      );
+    case 'openai':
+      return new CircuitBreakerDiagnosisProvider(
+        new OpenAICompatibleDiagnosisProvider({
+          baseUrl: env.OPENAI_BASE_URL,
+          apiKey: env.OPENAI_API_KEY,
+          model: model || 'gpt-4o-mini',
+          timeoutMs,
+        }),
+        new RuleBasedDiagnosisProvider()
+      );
+    case 'off':
+      return null;
+    default:
+      return new RuleBasedDiagnosisProvider();
+  }
+}
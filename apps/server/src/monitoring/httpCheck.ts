@@ -0,0 +1,367 @@
+import type { MonitorAssertion, MonitorCheckConfig } from '@scanwarp/core';
+
+export const HTTP_METHODS: MonitorCheckConfig['method'][] = ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'];
+
+export const DEFAULT_CHECK_CONFIG: MonitorCheckConfig = {
+  method: 'GET',
+  request_headers: {},
+  request_body: null,
+  expected_status: null,
+  assertions: [],
+  timeout_ms: 10_000,
+};
+
+const MIN_TIMEOUT_MS = 1_000;
+const MAX_TIMEOUT_MS = 60_000;
+
+// Bodies larger than this are not searched by assertions
+const MAX_ASSERTION_BODY_BYTES = 1024 * 1024;
+
+export interface HttpCheckResult {
+  success: boolean;
+  responseTime: number;
+  statusCode?: number;
+  error?: string;
+  failedAssertions?: string[];
+}
+
+/**
+ * Fill in defaults for any check settings the monitor (or transaction step) doesn't set.
+ */
+export function checkConfigFor(monitor: Partial<MonitorCheckConfig>): MonitorCheckConfig {
+  return {
+    method: monitor.method ?? DEFAULT_CHECK_CONFIG.method,
+    request_headers: monitor.request_headers ?? DEFAULT_CHECK_CONFIG.request_headers,
+    request_body: monitor.request_body ?? DEFAULT_CHECK_CONFIG.request_body,
+    expected_status: monitor.expected_status ?? DEFAULT_CHECK_CONFIG.expected_status,
+    assertions: monitor.assertions ?? DEFAULT_CHECK_CONFIG.assertions,
+    timeout_ms: monitor.timeout_ms ?? DEFAULT_CHECK_CONFIG.timeout_ms,
+  };
+}
+
+export interface HttpCheckResponse {
+  result: HttpCheckResult;
+  /** The (truncated) response body, when it was read */
+  body: string;
+  headers: Headers | null;
+}
+
+/**
+ * Run one HTTP check against a URL using the monitor's check config.
+ */
+export async function performHttpCheck(url: string, config: MonitorCheckConfig): Promise<HttpCheckResult> {
+  return (await sendCheckRequest(url, config)).result;
+}
+
+/**
+ * Send the check request and evaluate it, keeping the response around for
+ * callers that need more than pass/fail (e.g. transaction steps extracting values).
+ */
+export async function sendCheckRequest(
+  url: string,
+  config: MonitorCheckConfig,
+  options: { readBody?: boolean } = {},
+): Promise<HttpCheckResponse> {
+  const startTime = Date.now();
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), config.timeout_ms);
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      method: config.method,
+      headers: config.request_headers,
+      body: config.request_body && config.method !== 'GET' && config.method !== 'HEAD' ? config.request_body : undefined,
+      // Follow redirects unless the monitor explicitly expects a 3xx
+      redirect: expectsRedirect(config.expected_status) ? 'manual' : 'follow',
+    });
+
+    // Only read the body when an assertion (or the caller) needs it
+    const needsBody = options.readBody || config.assertions.some((a) => a.type !== 'header');
+    const body = needsBody ? await readBodyPrefix(response, MAX_ASSERTION_BODY_BYTES) : '';
+    if (!needsBody) await response.body?.cancel();
+
+    clearTimeout(timeout);
+    const responseTime = Date.now() - startTime;
+
+    if (!matchesExpectedStatus(response.status, config.expected_status)) {
+      return {
+        result: {
+          success: false,
+          responseTime,
+          statusCode: response.status,
+          error: `Expected status ${config.expected_status || '2xx'}, got HTTP ${response.status}`,
+        },
+        body,
+        headers: response.headers,
+      };
+    }
+
+    const failedAssertions = evaluateAssertions(config.assertions, body, response.headers);
+
+    return {
+      result: {
+        success: failedAssertions.length === 0,
+        responseTime,
+        statusCode: response.status,
+        error: failedAssertions.length > 0 ? `Assertion failed: ${failedAssertions.join('; ')}` : undefined,
+        failedAssertions: failedAssertions.length > 0 ? failedAssertions : undefined,
+      },
+      body,
+      headers: response.headers,
+    };
+  } catch (error) {
+    clearTimeout(timeout);
+    const responseTime = Date.now() - startTime;
+
+    const aborted = error instanceof Error && error.name === 'AbortError';
+    return {
+      result: {
+        success: false,
+        responseTime,
+        error: aborted
+          ? `Timed out after ${config.timeout_ms}ms`
+          : error instanceof Error ? error.message : 'Unknown error',
+      },
+      body: '',
+      headers: null,
+    };
+  }
+}
+
+/**
+ * Read the body up to `maxBytes`, then cancel the rest of the stream so a
+ * large or endless response isn't downloaded just to be thrown away.
+ */
+async function readBodyPrefix(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return '';
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let body = '';
+  let received = 0;
+
+  while (received < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) return body + decoder.decode();
+    const chunk = value.subarray(0, maxBytes - received);
+    received += chunk.length;
+    // Streaming decode holds back a character split at the cut instead of mangling it
+    body += decoder.decode(chunk, { stream: true });
+  }
+
+  await reader.cancel();
+  return body;
+}
+
+/**
+ * Check a status code against a spec like "2xx,301,401" or "200-399".
+ * A null or empty spec means any 2xx.
+ */
+export function matchesExpectedStatus(status: number, spec: string | null): boolean {
+  if (!spec || !spec.trim()) return status >= 200 && status < 300;
+
+  return spec.split(',').some((raw) => {
+    const part = raw.trim().toLowerCase();
+    if (/^[1-5]xx$/.test(part)) return Math.floor(status / 100) === Number(part[0]);
+    const range = part.match(/^(\d{3})\s*-\s*(\d{3})$/);
+    if (range) return status >= Number(range[1]) && status <= Number(range[2]);
+    return Number(part) === status;
+  });
+}
+
+function expectsRedirect(spec: string | null): boolean {
+  if (!spec) return false;
+  return [301, 302, 303, 307, 308].some((code) => matchesExpectedStatus(code, spec));
+}
+
+export function isValidStatusSpec(spec: string): boolean {
+  return spec.split(',').every((raw) => /^([1-5]xx|\d{3}(\s*-\s*\d{3})?)$/i.test(raw.trim()));
+}
+
+/**
+ * Resolve a dotted JSON path such as "$.data.items[0].id" (the leading "$." is optional).
+ */
+export function getJsonPath(value: unknown, path: string): { found: boolean; value?: unknown } {
+  const segments = path
+    .replace(/^\$\.?/, '')
+    .replace(/\[(\d+)\]/g, '.$1')
+    .split('.')
+    .filter(Boolean);
+
+  let current: unknown = value;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object') return { found: false };
+    if (!(segment in (current as Record<string, unknown>))) return { found: false };
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return { found: true, value: current };
+}
+
+/**
+ * Return a human-readable description of every assertion that failed.
+ */
+export function evaluateAssertions(assertions: MonitorAssertion[], body: string, headers: Headers): string[] {
+  const failures: string[] = [];
+  let parsedJson: unknown;
+  let jsonError = false;
+
+  for (const assertion of assertions) {
+    switch (assertion.type) {
+      case 'body_contains':
+        if (!body.includes(assertion.value)) {
+          failures.push(`body does not contain "${assertion.value}"`);
+        }
+        break;
+
+      case 'body_not_contains':
+        if (body.includes(assertion.value)) {
+          failures.push(`body contains "${assertion.value}"`);
+        }
+        break;
+
+      case 'json_path': {
+        if (parsedJson === undefined && !jsonError) {
+          try {
+            parsedJson = JSON.parse(body);
+          } catch {
+            jsonError = true;
+          }
+        }
+        if (jsonError) {
+          failures.push(`${assertion.path}: response is not valid JSON`);
+          break;
+        }
+        const result = getJsonPath(parsedJson, assertion.path);
+        if (!result.found) {
+          failures.push(`${assertion.path} is missing`);
+        } else if (assertion.equals !== undefined && !jsonEquals(result.value, assertion.equals)) {
+          failures.push(`${assertion.path} is ${describeJson(result.value)}, expected ${describeJson(assertion.equals)}`);
+        }
+        break;
+      }
+
+      case 'header': {
+        const actual = headers.get(assertion.name);
+        if (actual === null) {
+          failures.push(`header ${assertion.name} is missing`);
+        } else if (assertion.equals !== undefined && actual !== assertion.equals) {
+          failures.push(`header ${assertion.name} is "${actual}", expected "${assertion.equals}"`);
+        } else if (assertion.contains !== undefined && !actual.includes(assertion.contains)) {
+          failures.push(`header ${assertion.name} does not contain "${assertion.contains}"`);
+        }
+        break;
+      }
+    }
+  }
+
+  return failures;
+}
+
+/**
+ * Compare JSON values by content: objects match whatever their key order,
+ * arrays element by element. "200" and 200 are different values.
+ */
+function jsonEquals(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((v, i) => jsonEquals(v, b[i]));
+  }
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object') return false;
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const keys = Object.keys(aRecord);
+  return keys.length === Object.keys(bRecord).length &&
+    keys.every((k) => k in bRecord && jsonEquals(aRecord[k], bRecord[k]));
+}
+
+/** Include the type, so a string "200" against the number 200 doesn't read as a match */
+function describeJson(value: unknown): string {
+  if (value === null) return 'null';
+  return `${JSON.stringify(value)} (${Array.isArray(value) ? 'array' : typeof value})`;
+}
+
+/** Whether a value is plain JSON: what `equals` can be compared against */
+function isJsonValue(value: unknown): boolean {
+  if (value === null || typeof value === 'string' || typeof value === 'boolean') return true;
+  if (typeof value === 'number') return Number.isFinite(value);
+  if (Array.isArray(value)) return value.every(isJsonValue);
+  if (typeof value === 'object') {
+    const proto = Object.getPrototypeOf(value);
+    return (proto === Object.prototype || proto === null) && Object.values(value).every(isJsonValue);
+  }
+  return false;
+}
+
+/**
+ * Validate check settings from a request body. Returns an error message or
+ * the normalized settings (only the fields that were provided).
+ */
+export function parseCheckConfig(input: Record<string, unknown>): { error: string } | { config: Partial<MonitorCheckConfig> } {
+  const config: Partial<MonitorCheckConfig> = {};
+
+  if (input.method !== undefined) {
+    const method = String(input.method).toUpperCase() as MonitorCheckConfig['method'];
+    if (!HTTP_METHODS.includes(method)) {
+      return { error: `method must be one of ${HTTP_METHODS.join(', ')}` };
+    }
+    config.method = method;
+  }
+
+  if (input.request_headers !== undefined) {
+    const headers = input.request_headers;
+    if (!headers || typeof headers !== 'object' || Array.isArray(headers)
+      || Object.values(headers).some((v) => typeof v !== 'string')) {
+      return { error: 'request_headers must be an object of string values' };
+    }
+    config.request_headers = headers as Record<string, string>;
+  }
+
+  if (input.request_body !== undefined) {
+    if (input.request_body !== null && typeof input.request_body !== 'string') {
+      return { error: 'request_body must be a string' };
+    }
+    config.request_body = input.request_body as string | null;
+  }
+
+  if (input.expected_status !== undefined) {
+    const spec = input.expected_status === null ? null : String(input.expected_status);
+    if (spec && !isValidStatusSpec(spec)) {
+      return { error: 'expected_status must look like "2xx,301,401" or "200-399"' };
+    }
+    config.expected_status = spec;
+  }
+
+  if (input.assertions !== undefined) {
+    if (!Array.isArray(input.assertions)) {
+      return { error: 'assertions must be an array' };
+    }
+    for (const a of input.assertions as Array<Record<string, unknown>>) {
+      const valid =
+        ((a?.type === 'body_contains' || a?.type === 'body_not_contains') && typeof a.value === 'string') ||
+        (a?.type === 'json_path' && typeof a.path === 'string') ||
+        (a?.type === 'header' && typeof a.name === 'string' &&
+          (a.equals === undefined || typeof a.equals === 'string') &&
+          (a.contains === undefined || typeof a.contains === 'string'));
+      if (!valid) {
+        return { error: `Invalid assertion: ${JSON.stringify(a)}` };
+      }
+      if (a.type === 'json_path' && a.equals !== undefined && !isJsonValue(a.equals)) {
+        return { error: `json_path ${a.path}: equals must be a JSON value (string, number, boolean, null, array or object)` };
+      }
+    }
+    config.assertions = input.assertions as MonitorAssertion[];
+  }
+
+  if (input.timeout_ms !== undefined) {
+    const timeoutMs = Number(input.timeout_ms);
+    if (!Number.isInteger(timeoutMs) || timeoutMs < MIN_TIMEOUT_MS || timeoutMs > MAX_TIMEOUT_MS) {
+      return { error: `timeout_ms must be between ${MIN_TIMEOUT_MS} and ${MAX_TIMEOUT_MS}` };
+    }
+    config.timeout_ms = timeoutMs;
+  }
+
+  return { config };
+}
@@ -0,0 +1,384 @@
+import type { MonitorType, StepExtraction, TransactionStep, TransactionStepResult } from '@scanwarp/core';
+import type { MonitorConfig } from '../db/index.js';
+import { checkConfigFor, getJsonPath, parseCheckConfig, sendCheckRequest } from './httpCheck.js';
+
+const MAX_STEPS = 20;
+const MAX_FAILURE_THRESHOLD = 10;
+
+const VARIABLE_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*\}\}/g;
+
+/** A cookie a step's response set, scoped the way a browser would scope it */
+interface StoredCookie {
+  name: string;
+  value: string;
+  /** Host that set it, or the Domain attribute without its leading dot */
+  domain: string;
+  /** True when there was no Domain attribute: only the exact host gets it back */
+  hostOnly: boolean;
+  path: string;
+  secure: boolean;
+}
+
+export interface TransactionResult {
+  success: boolean;
+  /** Total time across all steps that ran */
+  responseTime: number;
+  steps: TransactionStepResult[];
+  /** Index of the step that failed, if any */
+  failedStep?: number;
+}
+
+/**
+ * Run a transaction's steps in order, stopping at the first failure.
+ *
+ * Cookies set by a response are sent with later steps to the same host, or
+ * to the hosts and paths their Domain and Path allow (like a browser
+ * session), and values pulled out with `extract` are available to later
+ * steps as `{{name}}`. Results report the step URL as written, so extracted
+ * tokens never end up in stored events.
+ */
+export async function performTransaction(steps: TransactionStep[]): Promise<TransactionResult> {
+  const variables: Record<string, string> = {};
+  const cookies = new Map<string, StoredCookie>();
+  const results: TransactionStepResult[] = [];
+  let failedStep: number | undefined;
+
+  for (const [index, step] of steps.entries()) {
+    const config = checkConfigFor(step);
+    const base = { name: step.name, method: config.method, url: step.url };
+
+    if (failedStep !== undefined) {
+      results.push({ ...base, success: false, ran: false, responseTime: 0 });
+      continue;
+    }
+
+    let url: string;
+    let headers: Record<string, string>;
+    let body: string | null;
+    try {
+      url = interpolate(step.url, variables);
+      headers = Object.fromEntries(
+        Object.entries(config.request_headers).map(([k, v]) => [k, interpolate(v, variables)])
+      );
+      body = config.request_body === null ? null : interpolate(config.request_body, variables);
+    } catch (error) {
+      results.push({
+        ...base,
+        success: false,
+        ran: false,
+        responseTime: 0,
+        error: error instanceof Error ? error.message : 'Could not build request',
+      });
+      failedStep = index;
+      continue;
+    }
+
+    const target = parseUrl(url);
+    const matching = target ? Array.from(cookies.values()).filter((c) => cookieMatches(c, target)) : [];
+    if (matching.length > 0 && !Object.keys(headers).some((h) => h.toLowerCase() === 'cookie')) {
+      headers.Cookie = matching.map((c) => `${c.name}=${c.value}`).join('; ');
+    }
+
+    const needsBody = (step.extract ?? []).some((e) => e.from === 'json_path');
+    const response = await sendCheckRequest(
+      url,
+      { ...config, request_headers: headers, request_body: body },
+      { readBody: needsBody },
+    );
+
+    const setCookies = new Map<string, string>();
+    for (const { cookie, expired } of target ? parseSetCookies(response.headers, target) : []) {
+      const key = `${cookie.domain}|${cookie.path}|${cookie.name}`;
+      if (expired) {
+        cookies.delete(key);
+      } else {
+        cookies.set(key, cookie);
+        setCookies.set(cookie.name, cookie.value);
+      }
+    }
+
+    const result: TransactionStepResult = { ...base, ran: true, ...response.result };
+
+    if (result.success) {
+      const extractionErrors = extractVariables(step.extract ?? [], response.body, response.headers, setCookies, variables);
+      if (extractionErrors.length > 0) {
+        result.success = false;
+        result.error = `Extraction failed: ${extractionErrors.join('; ')}`;
+      }
+    }
+
+    results.push(result);
+    if (!result.success) failedStep = index;
+  }
+
+  return {
+    success: failedStep === undefined,
+    responseTime: results.reduce((sum, r) => sum + r.responseTime, 0),
+    steps: results,
+    failedStep,
+  };
+}
+
+/**
+ * Replace `{{name}}` placeholders. Throws if a placeholder has no value yet.
+ */
+function interpolate(template: string, variables: Record<string, string>): string {
+  return template.replace(VARIABLE_PATTERN, (_match, name: string) => {
+    if (!(name in variables)) {
+      throw new Error(`Variable {{${name}}} is not defined by an earlier step`);
+    }
+    return variables[name];
+  });
+}
+
+function parseUrl(url: string): URL | null {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read a response's Set-Cookie headers, scoping each cookie to the host and
+ * path of the request that set it. Cookies whose Domain doesn't cover that
+ * host are dropped, as a browser would; `expired` marks ones being cleared.
+ */
+function parseSetCookies(headers: Headers | null, requestUrl: URL): Array<{ cookie: StoredCookie; expired: boolean }> {
+  const host = requestUrl.hostname.toLowerCase();
+  const parsed: Array<{ cookie: StoredCookie; expired: boolean }> = [];
+
+  for (const header of headers?.getSetCookie() ?? []) {
+    const [pair, ...attributes] = header.split(';');
+    const eq = pair.indexOf('=');
+    if (eq <= 0) continue;
+
+    const cookie: StoredCookie = {
+      name: pair.slice(0, eq).trim(),
+      value: pair.slice(eq + 1).trim(),
+      domain: host,
+      hostOnly: true,
+      path: defaultCookiePath(requestUrl.pathname),
+      secure: false,
+    };
+    let maxAge: number | undefined;
+    let expires: number | undefined;
+    let rejected = false;
+
+    for (const attribute of attributes) {
+      const sep = attribute.indexOf('=');
+      const key = (sep === -1 ? attribute : attribute.slice(0, sep)).trim().toLowerCase();
+      const value = sep === -1 ? '' : attribute.slice(sep + 1).trim();
+
+      if (key === 'domain' && value) {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        if (domainMatches(host, domain)) {
+          cookie.domain = domain;
+          cookie.hostOnly = false;
+        } else {
+          rejected = true;
+        }
+      } else if (key === 'path' && value.startsWith('/')) {
+        cookie.path = value;
+      } else if (key === 'secure') {
+        cookie.secure = true;
+      } else if (key === 'max-age' && value) {
+        maxAge = Number(value);
+      } else if (key === 'expires') {
+        expires = Date.parse(value);
+      }
+    }
+
+    // Max-Age wins over Expires when both are set
+    const expired = maxAge !== undefined ? maxAge <= 0 : expires !== undefined && expires <= Date.now();
+    if (!rejected) parsed.push({ cookie, expired });
+  }
+
+  return parsed;
+}
+
+/** The directory of the request path, used when a cookie has no Path */
+function defaultCookiePath(pathname: string): string {
+  const slash = pathname.lastIndexOf('/');
+  return slash <= 0 ? '/' : pathname.slice(0, slash);
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || host.endsWith(`.${domain}`);
+}
+
+function cookieMatches(cookie: StoredCookie, url: URL): boolean {
+  const host = url.hostname.toLowerCase();
+  if (cookie.hostOnly ? host !== cookie.domain : !domainMatches(host, cookie.domain)) return false;
+  if (cookie.secure && url.protocol !== 'https:') return false;
+
+  const path = url.pathname || '/';
+  return path === cookie.path ||
+    (path.startsWith(cookie.path) && (cookie.path.endsWith('/') || path[cookie.path.length] === '/'));
+}
+
+/**
+ * Store each extraction in `variables`. Returns a description of any that failed.
+ */
+function extractVariables(
+  extractions: StepExtraction[],
+  body: string,
+  headers: Headers | null,
+  setCookies: Map<string, string>,
+  variables: Record<string, string>,
+): string[] {
+  const failures: string[] = [];
+  let parsedJson: unknown;
+
+  for (const extraction of extractions) {
+    let value: string | null = null;
+
+    switch (extraction.from) {
+      case 'json_path': {
+        if (parsedJson === undefined) {
+          try {
+            parsedJson = JSON.parse(body);
+          } catch {
+            parsedJson = null;
+          }
+        }
+        const result = getJsonPath(parsedJson, extraction.path);
+        if (result.found && result.value !== undefined && result.value !== null) {
+          value = typeof result.value === 'string' ? result.value : JSON.stringify(result.value);
+        }
+        break;
+      }
+      case 'header':
+        value = headers?.get(extraction.header) ?? null;
+        break;
+      case 'cookie':
+        value = setCookies.get(extraction.cookie) ?? null;
+        break;
+    }
+
+    if (value === null) {
+      failures.push(`${extraction.name} (${describeExtraction(extraction)}) not found`);
+    } else {
+      variables[extraction.name] = value;
+    }
+  }
+
+  return failures;
+}
+
+function describeExtraction(extraction: StepExtraction): string {
+  switch (extraction.from) {
+    case 'json_path': return extraction.path;
+    case 'header': return `header ${extraction.header}`;
+    case 'cookie': return `cookie ${extraction.cookie}`;
+  }
+}
+
+/**
+ * Validate transaction steps from a request body. Each step accepts the same
+ * check settings as a monitor (method, headers, body, expected_status,
+ * assertions, timeout_ms) plus `name`, `url` and `extract`.
+ */
+export function parseTransactionSteps(input: unknown): { error: string } | { steps: TransactionStep[] } {
+  if (!Array.isArray(input) || input.length === 0) {
+    return { error: 'steps must be a non-empty array' };
+  }
+  if (input.length > MAX_STEPS) {
+    return { error: `A transaction can have at most ${MAX_STEPS} steps` };
+  }
+
+  const steps: TransactionStep[] = [];
+  const defined = new Set<string>();
+
+  for (const [index, raw] of (input as Array<Record<string, unknown>>).entries()) {
+    const label = `Step ${index + 1}`;
+    if (!raw || typeof raw !== 'object') {
+      return { error: `${label} must be an object` };
+    }
+    if (typeof raw.url !== 'string' || !raw.url) {
+      return { error: `${label}: url is required` };
+    }
+
+    const parsed = parseCheckConfig(raw);
+    if ('error' in parsed) {
+      return { error: `${label}: ${parsed.error}` };
+    }
+
+    // Catch typos up front rather than on the first run
+    const used = [raw.url, raw.request_body, ...Object.values((raw.request_headers as object) ?? {})]
+      .filter((v): v is string => typeof v === 'string')
+      .flatMap((v) => Array.from(v.matchAll(VARIABLE_PATTERN), (m) => m[1]));
+    const undefinedVariable = used.find((name) => !defined.has(name));
+    if (undefinedVariable) {
+      return { error: `${label}: {{${undefinedVariable}}} is not extracted by an earlier step` };
+    }
+
+    const extract = raw.extract ?? [];
+    if (!Array.isArray(extract)) {
+      return { error: `${label}: extract must be an array` };
+    }
+    for (const e of extract as Array<Record<string, unknown>>) {
+      const valid = typeof e?.name === 'string' && e.name && (
+        (e.from === 'json_path' && typeof e.path === 'string') ||
+        (e.from === 'header' && typeof e.header === 'string') ||
+        (e.from === 'cookie' && typeof e.cookie === 'string')
+      );
+      if (!valid) {
+        return { error: `${label}: invalid extraction ${JSON.stringify(e)}` };
+      }
+      defined.add(e.name as string);
+    }
+
+    steps.push({
+      name: typeof raw.name === 'string' && raw.name ? raw.name : label,
+      url: raw.url,
+      ...parsed.config,
+      ...(extract.length > 0 ? { extract: extract as StepExtraction[] } : {}),
+    });
+  }
+
+  return { steps };
+}
+
+/**
+ * Validate the monitor settings in a create/update body: the HTTP check
+ * settings plus `type`, `steps` and `failure_threshold`. `existingType` is the monitor's current
+ * type when updating.
+ */
+export function parseMonitorConfig(
+  input: Record<string, unknown>,
+  existingType?: MonitorType,
+): { error: string } | { config: MonitorConfig } {
+  const parsed = parseCheckConfig(input);
+  if ('error' in parsed) return parsed;
+
+  const config: MonitorConfig = { ...parsed.config };
+
+  if (input.type !== undefined) {
+    if (input.type !== 'http' && input.type !== 'transaction') {
+      return { error: "type must be 'http' or 'transaction'" };
+    }
+    config.type = input.type;
+  }
+
+  if (input.failure_threshold !== undefined) {
+    const threshold = Number(input.failure_threshold);
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > MAX_FAILURE_THRESHOLD) {
+      return { error: `failure_threshold must be between 1 and ${MAX_FAILURE_THRESHOLD}` };
+    }
+    config.failure_threshold = threshold;
+  }
+
+  const type = config.type ?? existingType ?? 'http';
+
+  if (input.steps !== undefined || (type === 'transaction' && existingType !== 'transaction')) {
+    if (type !== 'transaction') {
+      return { error: "steps are only used by monitors with type 'transaction'" };
+    }
+    const steps = parseTransactionSteps(input.steps);
+    if ('error' in steps) return steps;
+    config.steps = steps.steps;
+  }
+
+  return { config };
+}
@@ -1,12 +1,28 @@
+import crypto from 'crypto';
 import axios from 'axios';
-import type { Incident } from '@scanwarp/core';
+import type { DeploymentContext, Incident } from '@scanwarp/core';
+import type { ChannelConfig, ChannelRules } from '../db/index.js';
+import { parseRecipients, renderDigestEmail, renderIncidentEmail, renderResolutionEmail, sendEmail } from './email.js';
+
+export const CHANNEL_TYPES = ['discord', 'slack', 'teams', 'webhook', 'email', 'pagerduty'] as const;
+
+export type ChannelType = (typeof CHANNEL_TYPES)[number];
+
+export const PAGERDUTY_EVENTS_URL = 'https://events.pagerduty.com/v2/enqueue';
+
+// Generic webhooks are retried on network errors, 429s and 5xx responses
+const WEBHOOK_RETRY_DELAYS_MS = [1000, 2000, 4000];
 
 export interface NotificationChannel {
   id: string;
   project_id: string;
-  type: 'discord' | 'slack';
+  type: ChannelType;
   webhook_url: string;
+  config: ChannelConfig;
   enabled: boolean;
+  digest_interval: 'hourly' | 'daily';
+  escalation_channel_id: string | null;
+  rules: ChannelRules;
   created_at: Date;
 }
 
@@ -20,12 +36,20 @@ export interface NotificationPayload {
   }>;
   isProviderIssue?: boolean;
   affectedProviders?: string[];
+  deployment?: DeploymentContext;
+  /** Set when this is a reminder about a critical incident that is still open */
+  escalation?: { attempt: number; openMinutes: number };
 }
 
-export abstract class Channel {
+export interface DigestPayload {
+  interval: 'hourly' | 'daily';
+  incidents: Incident[];
+}
+
+export abstract class Channel<P = NotificationPayload> {
   constructor(protected channel: NotificationChannel) {}
 
-  abstract send(payload: NotificationPayload): Promise<void>;
+  abstract send(payload: P): Promise<void>;
 
   protected getSeverityEmoji(severity: string): string {
     switch (severity) {
@@ -56,11 +80,30 @@ export abstract class Channel {
   protected formatTimestamp(date: Date): string {
     return new Date(date).toISOString();
   }
+
+  protected describeEscalation(escalation: { attempt: number; openMinutes: number }): string {
+    const open = escalation.openMinutes < 120
+      ? `${escalation.openMinutes} minutes`
+      : `${Math.round(escalation.openMinutes / 60)} hours`;
+    return `Still open after ${open} (reminder ${escalation.attempt})`;
+  }
+
+  protected describeDeployment(deployment: DeploymentContext, startedAt: Date): string {
+    // Commit SHAs are unreadable in full
+    const version = /^[0-9a-f]{40}$/i.test(deployment.version) ? deployment.version.slice(0, 7) : deployment.version;
+    const label = `${version}${deployment.environment ? ` (${deployment.environment})` : ''}`;
+    const minutes = Math.max(Math.round((new Date(startedAt).getTime() - new Date(deployment.deployed_at).getTime()) / 60000), 0);
+    const gap = minutes < 120 ? `${minutes} min` : `${Math.round(minutes / 60)} h`;
+
+    return deployment.first_seen_after_deploy
+      ? `First seen after deploy ${label}, ${gap} after it went live`
+      : `Deploy ${label} went live ${gap} before this started`;
+  }
 }
 
 export class DiscordChannel extends Channel {
   async send(payload: NotificationPayload): Promise<void> {
-    const { incident, correlatedEvents, isProviderIssue, affectedProviders } = payload;
+    const { incident, correlatedEvents, isProviderIssue, affectedProviders, deployment, escalation } = payload;
     const emoji = this.getSeverityEmoji(incident.severity);
     const color = this.getSeverityColor(incident.severity);
 
@@ -85,6 +128,15 @@ export class DiscordChannel extends Channel {
       });
     }
 
+    // Deploy attribution
+    if (deployment) {
+      fields.push({
+        name: '🚀 Deploy',
+        value: this.describeDeployment(deployment, incident.created_at),
+        inline: false,
+      });
+    }
+
     // Correlated events
     if (correlatedEvents && correlatedEvents.length > 0) {
       const eventsList = correlatedEvents
@@ -128,10 +180,12 @@ export class DiscordChannel extends Channel {
     const providerBadge = isProviderIssue ? ' ☁️ Provider Issue' : '';
 
     const embed = {
-      title: `${emoji} ScanWarp — ${incident.severity.toUpperCase()} Incident${providerBadge}`,
-      description: isProviderIssue
-        ? `This incident appears to be caused by a provider outage, not a bug in your code.`
-        : `Incident detected in your application`,
+      title: `${escalation ? '⏰ ' : ''}${emoji} ScanWarp — ${incident.severity.toUpperCase()} Incident${providerBadge}`,
+      description: escalation
+        ? this.describeEscalation(escalation)
+        : isProviderIssue
+          ? `This incident appears to be caused by a provider outage, not a bug in your code.`
+          : `Incident detected in your application`,
       color,
       fields,
       footer: {
@@ -159,7 +213,7 @@ export class DiscordChannel extends Channel {
 
 export class SlackChannel extends Channel {
   async send(payload: NotificationPayload): Promise<void> {
-    const { incident, correlatedEvents, isProviderIssue, affectedProviders } = payload;
+    const { incident, correlatedEvents, isProviderIssue, affectedProviders, deployment, escalation } = payload;
     const emoji = this.getSeverityEmoji(incident.severity);
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -172,10 +226,20 @@ export class SlackChannel extends Channel {
       type: 'header',
       text: {
         type: 'plain_text',
-        text: `${emoji} ScanWarp ${incident.severity.toUpperCase()} Incident${providerBadge}`,
+        text: `${escalation ? '⏰ ' : ''}${emoji} ScanWarp ${incident.severity.toUpperCase()} Incident${providerBadge}`,
       },
     });
 
+    if (escalation) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${this.describeEscalation(escalation)}*`,
+        },
+      });
+    }
+
     // Provider issue callout
     if (isProviderIssue && affectedProviders && affectedProviders.length > 0) {
       blocks.push({
@@ -228,6 +292,17 @@ export class SlackChannel extends Channel {
       ],
     });
 
+    // Deploy attribution
+    if (deployment) {
+      blocks.push({
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*🚀 Deploy:* ${this.describeDeployment(deployment, incident.created_at)}`,
+        },
+      });
+    }
+
     // Correlated events
     if (correlatedEvents && correlatedEvents.length > 0) {
       const eventsList = correlatedEvents
@@ -373,12 +448,412 @@ export class SlackResolutionChannel extends Channel {
   }
 }
 
+function digestTitle(digest: DigestPayload): string {
+  const count = digest.incidents.length;
+  return `ScanWarp ${digest.interval === 'hourly' ? 'Hourly' : 'Daily'} Digest — ${count} info incident${count === 1 ? '' : 's'}`;
+}
+
+export class DiscordDigestChannel extends Channel<DigestPayload> {
+  async send(digest: DigestPayload): Promise<void> {
+    const lines = digest.incidents.slice(0, 20).map((incident) => {
+      const summary = incident.diagnosis_text ? ` — ${incident.diagnosis_text.substring(0, 150)}` : '';
+      return `${this.getSeverityEmoji(incident.severity)} **${incident.status.toUpperCase()}** ${this.formatTimestamp(incident.created_at)}${summary}`;
+    });
+    if (digest.incidents.length > 20) {
+      lines.push(`…and ${digest.incidents.length - 20} more`);
+    }
+
+    const embed = {
+      title: `📬 ${digestTitle(digest)}`,
+      description: lines.join('\n').substring(0, 4096),
+      color: this.getSeverityColor('info'),
+      timestamp: this.formatTimestamp(new Date()),
+    };
+
+    await axios.post(this.channel.webhook_url, {
+      embeds: [embed],
+    });
+  }
+}
+
+export class SlackDigestChannel extends Channel<DigestPayload> {
+  async send(digest: DigestPayload): Promise<void> {
+    const lines = digest.incidents.slice(0, 20).map((incident) => {
+      const summary = incident.diagnosis_text ? ` — ${incident.diagnosis_text.substring(0, 150)}` : '';
+      return `• *${incident.status.toUpperCase()}* ${this.formatTimestamp(incident.created_at)}${summary}`;
+    });
+    if (digest.incidents.length > 20) {
+      lines.push(`…and ${digest.incidents.length - 20} more`);
+    }
+
+    const blocks = [
+      {
+        type: 'header',
+        text: {
+          type: 'plain_text',
+          text: `📬 ${digestTitle(digest)}`,
+        },
+      },
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: lines.join('\n').substring(0, 3000),
+        },
+      },
+    ];
+
+    await axios.post(this.channel.webhook_url, {
+      blocks,
+    });
+  }
+}
+
+// ─── Microsoft Teams ───
+
+// Teams workflow webhooks take a message wrapping an Adaptive Card
+async function postAdaptiveCard(url: string, body: unknown[]): Promise<void> {
+  await axios.post(url, {
+    type: 'message',
+    attachments: [
+      {
+        contentType: 'application/vnd.microsoft.card.adaptive',
+        contentUrl: null,
+        content: {
+          $schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+          type: 'AdaptiveCard',
+          version: '1.4',
+          body,
+        },
+      },
+    ],
+  });
+}
+
+function teamsColor(severity: string): string {
+  return severity === 'critical' ? 'attention' : severity === 'warning' ? 'warning' : 'accent';
+}
+
+export class TeamsChannel extends Channel {
+  async send(payload: NotificationPayload): Promise<void> {
+    const { incident, correlatedEvents, isProviderIssue, affectedProviders, deployment, escalation } = payload;
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const body: any[] = [
+      {
+        type: 'TextBlock',
+        text: `${escalation ? '⏰ ' : ''}${this.getSeverityEmoji(incident.severity)} ScanWarp ${incident.severity.toUpperCase()} Incident`,
+        size: 'Large',
+        weight: 'Bolder',
+        color: teamsColor(incident.severity),
+        wrap: true,
+      },
+    ];
+
+    if (escalation) {
+      body.push({ type: 'TextBlock', text: this.describeEscalation(escalation), weight: 'Bolder', wrap: true });
+    }
+
+    if (isProviderIssue && affectedProviders && affectedProviders.length > 0) {
+      body.push({
+        type: 'TextBlock',
+        text: `☁️ Likely caused by a provider outage: ${affectedProviders.join(', ')}`,
+        wrap: true,
+      });
+    }
+
+    if (incident.diagnosis_text) {
+      body.push(
+        { type: 'TextBlock', text: 'What Happened', weight: 'Bolder', spacing: 'Medium' },
+        { type: 'TextBlock', text: incident.diagnosis_text, wrap: true },
+      );
+    }
+
+    if (incident.diagnosis_fix) {
+      body.push(
+        { type: 'TextBlock', text: 'Suggested Fix', weight: 'Bolder', spacing: 'Medium' },
+        { type: 'TextBlock', text: incident.diagnosis_fix, wrap: true },
+      );
+    }
+
+    const facts = [
+      { title: 'Severity', value: incident.severity.toUpperCase() },
+      { title: 'Status', value: incident.status.toUpperCase() },
+      { title: 'Started', value: this.formatTimestamp(incident.created_at) },
+    ];
+    if (deployment) {
+      facts.push({ title: 'Deploy', value: this.describeDeployment(deployment, incident.created_at) });
+    }
+    body.push({ type: 'FactSet', facts, spacing: 'Medium' });
+
+    if (correlatedEvents && correlatedEvents.length > 0) {
+      body.push(
+        { type: 'TextBlock', text: 'Related Events', weight: 'Bolder', spacing: 'Medium' },
+        {
+          type: 'TextBlock',
+          text: correlatedEvents
+            .slice(0, 5)
+            .map((e) => `- **${e.source}**: ${e.type} - ${e.message.substring(0, 100)}`)
+            .join('\n'),
+          wrap: true,
+        },
+      );
+    }
+
+    if (incident.fix_prompt) {
+      body.push(
+        { type: 'TextBlock', text: 'Copy this to your AI coding tool', weight: 'Bolder', spacing: 'Medium' },
+        { type: 'TextBlock', text: incident.fix_prompt.substring(0, 2900), fontType: 'Monospace', wrap: true },
+      );
+    }
+
+    await postAdaptiveCard(this.channel.webhook_url, body);
+  }
+}
+
+export class TeamsResolutionChannel extends Channel {
+  async send(payload: NotificationPayload): Promise<void> {
+    const { incident } = payload;
+
+    const duration = incident.resolved_at
+      ? Math.round(
+          (new Date(incident.resolved_at).getTime() -
+            new Date(incident.created_at).getTime()) /
+            1000 /
+            60
+        )
+      : 0;
+
+    await postAdaptiveCard(this.channel.webhook_url, [
+      { type: 'TextBlock', text: '✅ Incident Resolved', size: 'Large', weight: 'Bolder', color: 'good' },
+      {
+        type: 'FactSet',
+        facts: [
+          { title: 'Duration', value: `${duration} minutes` },
+          { title: 'Status', value: incident.status.toUpperCase() },
+          { title: 'Resolved at', value: this.formatTimestamp(incident.resolved_at || new Date()) },
+        ],
+      },
+    ]);
+  }
+}
+
+export class TeamsDigestChannel extends Channel<DigestPayload> {
+  async send(digest: DigestPayload): Promise<void> {
+    const lines = digest.incidents.slice(0, 20).map((incident) => {
+      const summary = incident.diagnosis_text ? ` — ${incident.diagnosis_text.substring(0, 150)}` : '';
+      return `- **${incident.status.toUpperCase()}** ${this.formatTimestamp(incident.created_at)}${summary}`;
+    });
+    if (digest.incidents.length > 20) {
+      lines.push(`- …and ${digest.incidents.length - 20} more`);
+    }
+
+    await postAdaptiveCard(this.channel.webhook_url, [
+      { type: 'TextBlock', text: `📬 ${digestTitle(digest)}`, size: 'Large', weight: 'Bolder', wrap: true },
+      { type: 'TextBlock', text: lines.join('\n'), wrap: true },
+    ]);
+  }
+}
+
+// ─── Generic webhook ───
+
+function incidentJson(incident: Incident) {
+  return {
+    id: incident.id,
+    project_id: incident.project_id,
+    status: incident.status,
+    severity: incident.severity,
+    diagnosis_text: incident.diagnosis_text ?? null,
+    diagnosis_fix: incident.diagnosis_fix ?? null,
+    fix_prompt: incident.fix_prompt ?? null,
+    created_at: incident.created_at,
+    resolved_at: incident.resolved_at ?? null,
+  };
+}
+
+/**
+ * POST a JSON body signed with the channel's secret. The signature is an
+ * HMAC-SHA256 of `<timestamp>.<body>`, sent as
+ * `X-ScanWarp-Signature: sha256=<hex>` next to `X-ScanWarp-Timestamp`.
+ */
+async function postSigned(channel: NotificationChannel, body: unknown): Promise<void> {
+  const json = JSON.stringify(body);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const signature = crypto
+    .createHmac('sha256', channel.config.secret ?? '')
+    .update(`${timestamp}.${json}`)
+    .digest('hex');
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await axios.post(channel.webhook_url, json, {
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'ScanWarp-Webhook',
+          'X-ScanWarp-Timestamp': timestamp,
+          'X-ScanWarp-Signature': `sha256=${signature}`,
+        },
+        timeout: 10_000,
+      });
+      return;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      const retryable = status === undefined || status === 429 || status >= 500;
+      if (!retryable || attempt >= WEBHOOK_RETRY_DELAYS_MS.length) {
+        throw error;
+      }
+      await new Promise((resolve) => setTimeout(resolve, WEBHOOK_RETRY_DELAYS_MS[attempt]));
+    }
+  }
+}
+
+export class WebhookChannel extends Channel {
+  async send(payload: NotificationPayload): Promise<void> {
+    const { incident, correlatedEvents, isProviderIssue, affectedProviders, deployment, escalation } = payload;
+
+    await postSigned(this.channel, {
+      event: escalation ? 'incident.reminder' : 'incident.triggered',
+      incident: incidentJson(incident),
+      correlated_events: correlatedEvents ?? [],
+      provider_issue: isProviderIssue ? { affected_providers: affectedProviders ?? [] } : null,
+      deployment: deployment ?? null,
+      escalation: escalation ? { attempt: escalation.attempt, open_minutes: escalation.openMinutes } : null,
+    });
+  }
+}
+
+export class WebhookResolutionChannel extends Channel {
+  async send(payload: NotificationPayload): Promise<void> {
+    await postSigned(this.channel, {
+      event: 'incident.resolved',
+      incident: incidentJson(payload.incident),
+    });
+  }
+}
+
+export class WebhookDigestChannel extends Channel<DigestPayload> {
+  async send(digest: DigestPayload): Promise<void> {
+    await postSigned(this.channel, {
+      event: 'digest',
+      interval: digest.interval,
+      incidents: digest.incidents.map(incidentJson),
+    });
+  }
+}
+
+// ─── Email ───
+
+export class EmailChannel extends Channel {
+  async send(payload: NotificationPayload): Promise<void> {
+    const { incident, deployment, escalation } = payload;
+
+    await sendEmail(parseRecipients(this.channel.webhook_url), renderIncidentEmail(payload, {
+      deployment: deployment ? this.describeDeployment(deployment, incident.created_at) : undefined,
+      escalation: escalation ? this.describeEscalation(escalation) : undefined,
+    }));
+  }
+}
+
+export class EmailResolutionChannel extends Channel {
+  async send(payload: NotificationPayload): Promise<void> {
+    await sendEmail(parseRecipients(this.channel.webhook_url), renderResolutionEmail(payload.incident));
+  }
+}
+
+export class EmailDigestChannel extends Channel<DigestPayload> {
+  async send(digest: DigestPayload): Promise<void> {
+    await sendEmail(parseRecipients(this.channel.webhook_url), renderDigestEmail(digest));
+  }
+}
+
+// ─── PagerDuty ───
+
+// Every notification about an incident shares a dedup key, so reminders
+// update the same PagerDuty alert and the resolution closes it
+function dedupKey(incident: Incident): string {
+  return `scanwarp-${incident.id}`;
+}
+
+export class PagerDutyChannel extends Channel {
+  async send(payload: NotificationPayload): Promise<void> {
+    const { incident, correlatedEvents, isProviderIssue, affectedProviders, deployment } = payload;
+    const summary = (incident.diagnosis_text || 'Incident detected in your application').split('\n')[0];
+
+    await axios.post(this.channel.webhook_url, {
+      routing_key: this.channel.config.routing_key,
+      event_action: 'trigger',
+      dedup_key: dedupKey(incident),
+      client: 'ScanWarp',
+      payload: {
+        summary: `ScanWarp ${incident.severity.toUpperCase()}: ${summary}`.substring(0, 1024),
+        source: 'scanwarp',
+        // PagerDuty uses the same critical/warning/info names
+        severity: incident.severity,
+        timestamp: this.formatTimestamp(incident.created_at),
+        custom_details: {
+          incident_id: incident.id,
+          status: incident.status,
+          diagnosis: incident.diagnosis_text ?? null,
+          suggested_fix: incident.diagnosis_fix ?? null,
+          fix_prompt: incident.fix_prompt ?? null,
+          deploy: deployment ? this.describeDeployment(deployment, incident.created_at) : null,
+          provider_issue: isProviderIssue ? affectedProviders ?? [] : null,
+          related_events: (correlatedEvents ?? []).slice(0, 5).map((e) => `${e.source}: ${e.type} - ${e.message.substring(0, 100)}`),
+        },
+      },
+    });
+  }
+}
+
+export class PagerDutyResolutionChannel extends Channel {
+  async send(payload: NotificationPayload): Promise<void> {
+    await axios.post(this.channel.webhook_url, {
+      routing_key: this.channel.config.routing_key,
+      event_action: 'resolve',
+      dedup_key: dedupKey(payload.incident),
+    });
+  }
+}
+
+/**
+ * Digests of info incidents go to PagerDuty as a change event, which shows
+ * on the service timeline without paging anyone.
+ */
+export class PagerDutyDigestChannel extends Channel<DigestPayload> {
+  async send(digest: DigestPayload): Promise<void> {
+    await axios.post(this.channel.webhook_url.replace(/\/enqueue$/, '/change/enqueue'), {
+      routing_key: this.channel.config.routing_key,
+      payload: {
+        summary: `ScanWarp: ${digestTitle(digest)}`.substring(0, 1024),
+        source: 'scanwarp',
+        timestamp: this.formatTimestamp(new Date()),
+        custom_details: {
+          incidents: digest.incidents.map((incident) => ({
+            id: incident.id,
+            status: incident.status,
+            created_at: incident.created_at,
+            diagnosis: incident.diagnosis_text ?? null,
+          })),
+        },
+      },
+    });
+  }
+}
+
 export function createChannel(channel: NotificationChannel): Channel {
   switch (channel.type) {
     case 'discord':
       return new DiscordChannel(channel);
     case 'slack':
       return new SlackChannel(channel);
+    case 'teams':
+      return new TeamsChannel(channel);
+    case 'webhook':
+      return new WebhookChannel(channel);
+    case 'email':
+      return new EmailChannel(channel);
+    case 'pagerduty':
+      return new PagerDutyChannel(channel);
     default:
       throw new Error(`Unsupported channel type: ${channel.type}`);
   }
@@ -392,6 +867,35 @@ export function createResolutionChannel(
       return new DiscordResolutionChannel(channel);
     case 'slack':
       return new SlackResolutionChannel(channel);
+    case 'teams':
+      return new TeamsResolutionChannel(channel);
+    case 'webhook':
+      return new WebhookResolutionChannel(channel);
+    case 'email':
+      return new EmailResolutionChannel(channel);
+    case 'pagerduty':
+      return new PagerDutyResolutionChannel(channel);
+    default:
+      throw new Error(`Unsupported channel type: ${channel.type}`);
+  }
+}
+
+export function createDigestChannel(
+  channel: NotificationChannel
+): Channel<DigestPayload> {
+  switch (channel.type) {
+    case 'discord':
+      return new DiscordDigestChannel(channel);
+    case 'slack':
+      return new SlackDigestChannel(channel);
+    case 'teams':
+      return new TeamsDigestChannel(channel);
+    case 'webhook':
+      return new WebhookDigestChannel(channel);
+    case 'email':
+      return new EmailDigestChannel(channel);
+    case 'pagerduty':
+      return new PagerDutyDigestChannel(channel);
     default:
       throw new Error(`Unsupported channel type: ${channel.type}`);
   }
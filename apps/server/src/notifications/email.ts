@@ -0,0 +1,185 @@
+import nodemailer, { type Transporter } from 'nodemailer';
+import type { Incident } from '@scanwarp/core';
+import type { DigestPayload, NotificationPayload } from './channels.js';
+
+export interface EmailMessage {
+  subject: string;
+  text: string;
+  html: string;
+}
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: '#d32f2f',
+  warning: '#f57c00',
+  info: '#1976d2',
+};
+
+let transport: Transporter | null = null;
+
+/**
+ * The SMTP server comes from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER
+ * and SMTP_PASS, shared by every email channel.
+ */
+function getTransport(): Transporter {
+  if (transport) return transport;
+
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new Error('SMTP_HOST is not set, so email notifications cannot be sent');
+  }
+
+  transport = nodemailer.createTransport({
+    host,
+    port: parseInt(process.env.SMTP_PORT || '587'),
+    secure: process.env.SMTP_SECURE === 'true',
+    auth: process.env.SMTP_USER
+      ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS || '' }
+      : undefined,
+  });
+  return transport;
+}
+
+/**
+ * Recipients are stored as a mailto: URL in the channel's webhook_url.
+ */
+export function parseRecipients(mailto: string): string[] {
+  return mailto
+    .replace(/^mailto:/i, '')
+    .split(',')
+    .map((address) => decodeURIComponent(address.trim()))
+    .filter(Boolean);
+}
+
+export async function sendEmail(to: string[], message: EmailMessage): Promise<void> {
+  await getTransport().sendMail({
+    from: process.env.SMTP_FROM || 'ScanWarp <scanwarp@localhost>',
+    to: to.join(', '),
+    subject: message.subject,
+    text: message.text,
+    html: message.html,
+  });
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function layout(title: string, color: string, body: string): string {
+  return `<!doctype html>
+<html>
+<body style="margin:0;padding:24px;background:#f5f5f5;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#222">
+  <div style="max-width:640px;margin:0 auto;background:#fff;border-top:4px solid ${color};padding:24px">
+    <h1 style="margin:0 0 16px;font-size:20px">${escapeHtml(title)}</h1>
+    ${body}
+    <p style="margin:24px 0 0;font-size:12px;color:#888">Sent by ScanWarp</p>
+  </div>
+</body>
+</html>`;
+}
+
+function section(heading: string, text: string): string {
+  return `<h2 style="margin:16px 0 4px;font-size:14px;color:#555">${escapeHtml(heading)}</h2>
+    <p style="margin:0;white-space:pre-wrap">${escapeHtml(text)}</p>`;
+}
+
+function summaryLine(incident: Incident): string {
+  return (incident.diagnosis_text || 'Incident detected in your application').split('\n')[0].substring(0, 120);
+}
+
+/**
+ * `described` carries the channel's wording for the deploy and reminder
+ * lines, so email reads the same as chat.
+ */
+export function renderIncidentEmail(
+  payload: NotificationPayload,
+  described: { deployment?: string; escalation?: string } = {}
+): EmailMessage {
+  const { incident, correlatedEvents, isProviderIssue, affectedProviders, escalation } = payload;
+  const severity = incident.severity.toUpperCase();
+  const prefix = escalation ? 'Still open: ' : '';
+  const subject = `[ScanWarp] ${prefix}${severity} incident: ${summaryLine(incident)}`;
+
+  const parts: Array<[heading: string, text: string]> = [];
+  if (escalation && described.escalation) {
+    parts.push(['Reminder', described.escalation]);
+  }
+  if (isProviderIssue && affectedProviders && affectedProviders.length > 0) {
+    parts.push(['Provider Issue', `Likely caused by: ${affectedProviders.join(', ')}`]);
+  }
+  if (incident.diagnosis_text) parts.push(['What Happened', incident.diagnosis_text]);
+  if (incident.diagnosis_fix) parts.push(['Suggested Fix', incident.diagnosis_fix]);
+  if (described.deployment) parts.push(['Deploy', described.deployment]);
+  if (correlatedEvents && correlatedEvents.length > 0) {
+    parts.push([
+      'Related Events',
+      correlatedEvents.slice(0, 5).map((e) => `• ${e.source}: ${e.type} - ${e.message.substring(0, 100)}`).join('\n'),
+    ]);
+  }
+  parts.push(['Status', `${severity}, ${incident.status.toUpperCase()}, started ${new Date(incident.created_at).toISOString()}`]);
+
+  const text = [
+    `ScanWarp ${severity} Incident`,
+    ...parts.map(([heading, body]) => `\n${heading}:\n${body}`),
+    ...(incident.fix_prompt ? [`\nCopy this to your AI coding tool:\n${incident.fix_prompt}`] : []),
+  ].join('\n');
+
+  const fixPrompt = incident.fix_prompt
+    ? `<h2 style="margin:16px 0 4px;font-size:14px;color:#555">Copy this to your AI coding tool</h2>
+    <pre style="margin:0;padding:12px;background:#f5f5f5;white-space:pre-wrap;font-size:12px">${escapeHtml(incident.fix_prompt)}</pre>`
+    : '';
+
+  const html = layout(
+    `${prefix}${severity} Incident`,
+    SEVERITY_COLORS[incident.severity] ?? '#808080',
+    parts.map(([heading, body]) => section(heading, body)).join('\n    ') + fixPrompt,
+  );
+
+  return { subject, text, html };
+}
+
+export function renderResolutionEmail(incident: Incident): EmailMessage {
+  const duration = incident.resolved_at
+    ? Math.round((new Date(incident.resolved_at).getTime() - new Date(incident.created_at).getTime()) / 1000 / 60)
+    : 0;
+  const resolvedAt = new Date(incident.resolved_at || new Date()).toISOString();
+
+  return {
+    subject: `[ScanWarp] Resolved: ${summaryLine(incident)}`,
+    text: `The ${incident.severity} incident has been resolved.\n\nDuration: ${duration} minutes\nResolved at: ${resolvedAt}`,
+    html: layout(
+      'Incident Resolved',
+      '#2e7d32',
+      [
+        section('Incident', summaryLine(incident)),
+        section('Duration', `${duration} minutes`),
+        section('Resolved at', resolvedAt),
+      ].join('\n    '),
+    ),
+  };
+}
+
+export function renderDigestEmail(digest: DigestPayload): EmailMessage {
+  const count = digest.incidents.length;
+  const title = `${digest.interval === 'hourly' ? 'Hourly' : 'Daily'} digest: ${count} info incident${count === 1 ? '' : 's'}`;
+  const lines = digest.incidents.map(
+    (incident) => `${incident.status.toUpperCase()}  ${new Date(incident.created_at).toISOString()}  ${summaryLine(incident)}`
+  );
+
+  const rows = digest.incidents
+    .map((incident) => `<tr>
+        <td style="padding:4px 8px 4px 0;font-size:12px;color:#555">${incident.status.toUpperCase()}</td>
+        <td style="padding:4px 8px 4px 0;font-size:12px;color:#555">${new Date(incident.created_at).toISOString()}</td>
+        <td style="padding:4px 0">${escapeHtml(summaryLine(incident))}</td>
+      </tr>`)
+    .join('');
+
+  return {
+    subject: `[ScanWarp] ${title}`,
+    text: `${title}\n\n${lines.join('\n')}`,
+    html: layout(title, SEVERITY_COLORS.info, `<table style="border-collapse:collapse;width:100%">${rows}</table>`),
+  };
+}
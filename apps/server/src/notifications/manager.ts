@@ -1,78 +1,251 @@
-import type { Database } from '../db/index.js';
-import type { Incident } from '@scanwarp/core';
+import crypto from 'crypto';
+import type {
+  ChannelConfig,
+  ChannelRules,
+  ChannelSettings,
+  Database,
+  EventRow,
+  IncidentRow,
+  NotificationChannelRow,
+  ScheduledNotificationKind,
+  ScheduledNotificationRow,
+  ScheduledNotificationStatus,
+} from '../db/index.js';
+import type { DeploymentContext, Incident } from '@scanwarp/core';
 import {
+  CHANNEL_TYPES,
+  PAGERDUTY_EVENTS_URL,
   createChannel,
+  createDigestChannel,
   createResolutionChannel,
+  type ChannelType,
   type NotificationChannel,
   type NotificationPayload,
 } from './channels.js';
+import { heldUntil, matchesRules } from './rules.js';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+export type ProviderContext = { isProviderIssue: boolean; affectedProviders: string[]; deployment?: DeploymentContext };
+
+export interface NotificationPolicy {
+  /** Minutes a warning must stay open before it is sent; 0 sends it straight away */
+  warningGraceMinutes: number;
+  /** Minutes between reminders while a critical incident stays open; 0 turns reminders off */
+  escalationMinutes: number;
+  /** Reminders sent before giving up on a critical incident */
+  escalationRepeats: number;
+  /** Hour of the day (UTC) daily digests go out */
+  digestHourUtc: number;
+}
 
-export class NotificationManager {
-  constructor(private db: Database) {}
+export const DEFAULT_NOTIFICATION_POLICY: NotificationPolicy = {
+  warningGraceMinutes: 5,
+  escalationMinutes: 30,
+  escalationRepeats: 3,
+  digestHourUtc: 9,
+};
+
+/**
+ * Read NOTIFY_* settings from the environment. Anything missing or invalid
+ * falls back to the default.
+ */
+export function parseNotificationPolicy(env: NodeJS.ProcessEnv): NotificationPolicy {
+  const int = (value: string | undefined, fallback: number, max = Infinity) => {
+    const n = Number(value);
+    return value && Number.isInteger(n) && n >= 0 && n <= max ? n : fallback;
+  };
+  return {
+    warningGraceMinutes: int(env.NOTIFY_WARNING_GRACE_MINUTES, DEFAULT_NOTIFICATION_POLICY.warningGraceMinutes),
+    escalationMinutes: int(env.NOTIFY_ESCALATION_MINUTES, DEFAULT_NOTIFICATION_POLICY.escalationMinutes),
+    escalationRepeats: int(env.NOTIFY_ESCALATION_REPEATS, DEFAULT_NOTIFICATION_POLICY.escalationRepeats),
+    digestHourUtc: int(env.NOTIFY_DIGEST_HOUR_UTC, DEFAULT_NOTIFICATION_POLICY.digestHourUtc, 23),
+  };
+}
 
-  async notify(
-    incident: Incident,
-    providerContext?: { isProviderIssue: boolean; affectedProviders: string[] }
-  ): Promise<void> {
-    // Get enabled channels for this project
-    const rows = await this.db.getEnabledChannels(incident.project_id);
-    const channels: NotificationChannel[] = rows.map((r) => ({
-      id: r.id,
-      project_id: r.project_id,
-      type: r.type as 'discord' | 'slack',
-      webhook_url: r.webhook_url,
-      enabled: r.enabled,
-      created_at: r.created_at,
-    }));
+/**
+ * Validate the channel settings in a create/update body.
+ */
+export function parseChannelSettings(input: Record<string, unknown>): { error: string } | { settings: ChannelSettings } {
+  const settings: ChannelSettings = {};
 
-    if (channels.length === 0) {
-      return;
+  if (input.digest_interval !== undefined) {
+    if (input.digest_interval !== 'hourly' && input.digest_interval !== 'daily') {
+      return { error: "digest_interval must be 'hourly' or 'daily'" };
     }
+    settings.digest_interval = input.digest_interval;
+  }
 
-    // Check severity and decide when to send
-    const shouldSendNow = await this.shouldSendNotification(
-      incident.severity
-    );
-
-    if (!shouldSendNow) {
-      console.log(
-        `Delaying notification for ${incident.severity} incident ${incident.id}`
-      );
-      return;
+  if (input.escalation_channel_id !== undefined) {
+    if (input.escalation_channel_id !== null && typeof input.escalation_channel_id !== 'string') {
+      return { error: 'escalation_channel_id must be a channel id or null' };
     }
+    settings.escalation_channel_id = input.escalation_channel_id;
+  }
 
-    // Get correlated events
-    const correlatedEvents = await this.getCorrelatedEvents(incident);
+  return { settings };
+}
 
-    const payload: NotificationPayload = {
-      incident,
-      correlatedEvents,
-      isProviderIssue: providerContext?.isProviderIssue,
-      affectedProviders: providerContext?.affectedProviders,
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+
+function isHttpUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate where a new channel sends to. Each type needs something
+ * different: a webhook URL for chat and generic webhooks, `to` addresses for
+ * email and a `routing_key` for PagerDuty. Generic webhooks get a signing
+ * secret generated unless one is given.
+ */
+export function parseChannelTarget(
+  input: Record<string, unknown>
+): { error: string } | { type: ChannelType; webhook_url: string; config: ChannelConfig } {
+  const type = input.type as ChannelType;
+  if (!CHANNEL_TYPES.includes(type)) {
+    return { error: `type must be one of ${CHANNEL_TYPES.join(', ')}` };
+  }
+
+  if (type === 'email') {
+    const to = typeof input.to === 'string' ? input.to.split(',').map((a) => a.trim()) : input.to;
+    if (!Array.isArray(to) || to.length === 0 || !to.every((a) => typeof a === 'string' && EMAIL_PATTERN.test(a))) {
+      return { error: 'to must be one or more email addresses' };
+    }
+    return { type, webhook_url: `mailto:${to.join(',')}`, config: {} };
+  }
+
+  if (type === 'pagerduty') {
+    if (typeof input.routing_key !== 'string' || input.routing_key.trim() === '') {
+      return { error: 'routing_key is required for PagerDuty channels' };
+    }
+    // The events URL can be overridden, e.g. to point at a local stub
+    if (input.webhook_url !== undefined && !isHttpUrl(input.webhook_url)) {
+      return { error: 'webhook_url must be an http(s) URL' };
+    }
+    return {
+      type,
+      webhook_url: (input.webhook_url as string | undefined) ?? PAGERDUTY_EVENTS_URL,
+      config: { routing_key: input.routing_key.trim() },
     };
+  }
+
+  if (!isHttpUrl(input.webhook_url)) {
+    return { error: 'webhook_url must be an http(s) URL' };
+  }
+
+  if (type === 'webhook') {
+    if (input.secret !== undefined && (typeof input.secret !== 'string' || input.secret.length < 16)) {
+      return { error: 'secret must be at least 16 characters' };
+    }
+    const secret = (input.secret as string | undefined) ?? crypto.randomBytes(32).toString('hex');
+    return { type, webhook_url: input.webhook_url, config: { secret } };
+  }
+
+  return { type, webhook_url: input.webhook_url, config: {} };
+}
+
+function toChannel(row: NotificationChannelRow): NotificationChannel {
+  return {
+    id: row.id,
+    project_id: row.project_id,
+    type: row.type as ChannelType,
+    webhook_url: row.webhook_url,
+    config: row.config,
+    enabled: row.enabled,
+    digest_interval: row.digest_interval,
+    escalation_channel_id: row.escalation_channel_id,
+    rules: row.rules,
+    created_at: row.created_at,
+  };
+}
+
+/**
+ * A channel as returned by the API after creation: signing secrets and
+ * routing keys are cut to their last four characters, enough to tell them apart.
+ */
+function toPublicChannel(row: NotificationChannelRow): NotificationChannel {
+  const config: ChannelConfig = {};
+  if (row.config.secret) config.secret = maskSecret(row.config.secret);
+  if (row.config.routing_key) config.routing_key = maskSecret(row.config.routing_key);
+  return { ...toChannel(row), config };
+}
+
+function maskSecret(value: string): string {
+  return `…${value.slice(-4)}`;
+}
+
+function toIncident(row: IncidentRow): Incident {
+  return {
+    id: row.id,
+    project_id: row.project_id,
+    events: row.events,
+    status: row.status as Incident['status'],
+    diagnosis_text: row.diagnosis_text || undefined,
+    diagnosis_fix: row.diagnosis_fix || undefined,
+    severity: row.severity as Incident['severity'],
+    fix_prompt: row.fix_prompt || undefined,
+    acknowledged_by: row.acknowledged_by || undefined,
+    acknowledged_at: row.acknowledged_at || undefined,
+    assignee: row.assignee || undefined,
+    created_at: row.created_at,
+    resolved_at: row.resolved_at || undefined,
+  };
+}
+
+/**
+ * Decides when each channel hears about an incident. Critical incidents are
+ * sent straight away and repeated while they stay open, warnings wait out a
+ * grace period, and info incidents go into the channel's digest. Anything
+ * waiting is stored in scheduled_notifications and sent by the
+ * NotificationScheduler, so it survives a restart.
+ */
+export class NotificationManager {
+  constructor(
+    private db: Database,
+    private policy: NotificationPolicy = DEFAULT_NOTIFICATION_POLICY,
+  ) {}
+
+  async notify(incident: Incident, providerContext?: ProviderContext): Promise<void> {
+    // Get enabled channels for this project
+    const channels = (await this.db.getEnabledChannels(incident.project_id)).map(toChannel);
+
+    if (channels.length === 0) {
+      return;
+    }
+
+    const events = await this.getIncidentEvents(incident);
 
-    // Send to all channels with rate limiting
     for (const channel of channels) {
       try {
-        // Check rate limits
-        const canSend = await this.checkRateLimit(channel.id, incident.id);
-        if (!canSend) {
-          console.log(
-            `Rate limit exceeded for channel ${channel.id}, skipping notification`
-          );
+        if (!matchesRules(channel.rules, incident, events)) {
+          console.log(`Channel ${channel.id} rules filter out incident ${incident.id}`);
           continue;
         }
 
-        // Create and send notification
-        const notificationChannel = createChannel(channel);
-        await notificationChannel.send(payload);
-
-        // Log the notification
-        await this.db.logNotification(channel.id, incident.id);
-
-        console.log(
-          `Sent ${incident.severity} notification to ${channel.type} channel ${channel.id}`
-        );
+        const quietUntil = heldUntil(channel.rules, incident.severity);
+
+        if (incident.severity === 'info') {
+          // Digests check quiet hours when they come due
+          await this.schedule(channel, incident, 'digest', this.nextDigestAt(channel.digest_interval));
+        } else if (incident.severity === 'warning' && this.policy.warningGraceMinutes > 0) {
+          // Many warnings clear up on their own within a few minutes
+          const graceEnd = new Date(Date.now() + this.policy.warningGraceMinutes * MINUTE_MS);
+          const dueAt = quietUntil && quietUntil > graceEnd ? quietUntil : graceEnd;
+          await this.schedule(channel, incident, 'delayed', dueAt, 1, providerContext);
+          console.log(`Holding warning notification for incident ${incident.id} until ${dueAt.toISOString()}`);
+        } else if (quietUntil) {
+          await this.schedule(channel, incident, 'delayed', quietUntil, 1, providerContext);
+          console.log(`Holding notification for incident ${incident.id} until quiet hours end on channel ${channel.id}`);
+        } else {
+          await this.deliver(channel, incident, providerContext);
+        }
       } catch (error) {
         console.error(
           `Failed to send notification to channel ${channel.id}:`,
@@ -82,35 +255,111 @@ export class NotificationManager {
     }
   }
 
+  /**
+   * Send a held notification, escalation or resolution that has come due.
+   * Returns what should happen to the scheduled row; one that lands in the
+   * channel's quiet hours is pushed back and stays pending.
+   */
+  async deliverScheduled(row: ScheduledNotificationRow): Promise<ScheduledNotificationStatus> {
+    const channelRow = await this.db.getChannelById(row.channel_id);
+    if (!channelRow || !channelRow.enabled) return 'cancelled';
+
+    const incidentRow = await this.db.getIncident(row.incident_id);
+    if (!incidentRow) return 'cancelled';
+    // A resolution only goes out if the incident is still resolved, anything else only while it's open
+    if ((incidentRow.status === 'resolved') !== (row.kind === 'resolution')) return 'cancelled';
+    // Nobody needs reminding about an incident someone has acknowledged
+    if (row.kind === 'escalation' && incidentRow.acknowledged_at) return 'cancelled';
+
+    const channel = toChannel(channelRow);
+    const incident = toIncident(incidentRow);
+    const context = (row.context as ProviderContext | null) ?? undefined;
+
+    const quietUntil = heldUntil(channel.rules, incident.severity);
+    if (quietUntil) {
+      await this.db.rescheduleNotifications([row.id], quietUntil);
+      return 'pending';
+    }
+
+    if (row.kind === 'resolution') {
+      await this.sendResolution(channel, incident);
+      return 'sent';
+    }
+
+    if (row.kind === 'escalation') {
+      return this.escalate(channel, incident, row.attempt, context);
+    }
+
+    return (await this.deliver(channel, incident, context)) ? 'sent' : 'cancelled';
+  }
+
+  /**
+   * Send one digest to a channel covering every incident in `rows`.
+   */
+  async deliverDigest(channelId: string, rows: ScheduledNotificationRow[]): Promise<ScheduledNotificationStatus> {
+    const channelRow = await this.db.getChannelById(channelId);
+    if (!channelRow || !channelRow.enabled) return 'cancelled';
+
+    const incidentIds = [...new Set(rows.map((r) => r.incident_id))];
+    const incidents = (await Promise.all(incidentIds.map((id) => this.db.getIncident(id))))
+      .filter((row): row is IncidentRow => row !== null)
+      .map(toIncident);
+    if (incidents.length === 0) return 'cancelled';
+
+    const channel = toChannel(channelRow);
+    const quietUntil = heldUntil(channel.rules, 'info');
+    if (quietUntil) {
+      await this.db.rescheduleNotifications(rows.map((r) => r.id), quietUntil);
+      return 'pending';
+    }
+
+    await createDigestChannel(channel).send({ interval: channel.digest_interval, incidents });
+
+    for (const incident of incidents) {
+      await this.db.logNotification(channel.id, incident.id);
+      await this.recordSent(channel, incident.id, `Included in the ${channel.digest_interval} digest`);
+    }
+
+    console.log(`Sent digest of ${incidents.length} incident(s) to ${channel.type} channel ${channel.id}`);
+    return 'sent';
+  }
+
   async notifyResolution(incident: Incident): Promise<void> {
+    // A warning that resolves inside its grace period is never sent
+    await this.db.cancelScheduledNotifications(incident.id, ['delayed', 'escalation']);
+
+    // Info incidents are only reported in digests, which show their status anyway
+    if (incident.severity === 'info') {
+      return;
+    }
+
     // Get enabled channels for this project
-    const rows = await this.db.getEnabledChannels(incident.project_id);
-    const channels: NotificationChannel[] = rows.map((r) => ({
-      id: r.id,
-      project_id: r.project_id,
-      type: r.type as 'discord' | 'slack',
-      webhook_url: r.webhook_url,
-      enabled: r.enabled,
-      created_at: r.created_at,
-    }));
+    const channels = (await this.db.getEnabledChannels(incident.project_id)).map(toChannel);
 
     if (channels.length === 0) {
       return;
     }
 
-    const payload: NotificationPayload = {
-      incident,
-    };
+    const events = await this.getIncidentEvents(incident);
 
-    // Send resolution notification to all channels
+    // Send resolution notification to the channels that were told about the incident
     for (const channel of channels) {
       try {
-        const resolutionChannel = createResolutionChannel(channel);
-        await resolutionChannel.send(payload);
+        if (!(await this.db.hasNotificationForIncident(channel.id, incident.id))) {
+          continue;
+        }
+        if (!matchesRules(channel.rules, incident, events)) {
+          continue;
+        }
 
-        console.log(
-          `Sent resolution notification to ${channel.type} channel ${channel.id}`
-        );
+        // The channel still hears about it, just not in the middle of the night
+        const quietUntil = heldUntil(channel.rules, incident.severity);
+        if (quietUntil) {
+          await this.schedule(channel, incident, 'resolution', quietUntil);
+          continue;
+        }
+
+        await this.sendResolution(channel, incident);
       } catch (error) {
         console.error(
           `Failed to send resolution notification to channel ${channel.id}:`,
@@ -120,6 +369,168 @@ export class NotificationManager {
     }
   }
 
+  private async sendResolution(channel: NotificationChannel, incident: Incident) {
+    const payload: NotificationPayload = {
+      incident,
+    };
+
+    const resolutionChannel = createResolutionChannel(channel);
+    await resolutionChannel.send(payload);
+    await this.recordSent(channel, incident.id, 'Resolution sent');
+
+    console.log(
+      `Sent resolution notification to ${channel.type} channel ${channel.id}`
+    );
+  }
+
+  /**
+   * Send an incident to a channel now, subject to the rate limits. Returns
+   * false when the rate limit held it back.
+   */
+  private async deliver(
+    channel: NotificationChannel,
+    incident: Incident,
+    providerContext?: ProviderContext
+  ): Promise<boolean> {
+    // Check rate limits
+    const canSend = await this.checkRateLimit(channel.id, incident.id);
+    if (!canSend) {
+      console.log(
+        `Rate limit exceeded for channel ${channel.id}, skipping notification`
+      );
+      return false;
+    }
+
+    const payload: NotificationPayload = {
+      incident,
+      correlatedEvents: await this.getCorrelatedEvents(incident),
+      isProviderIssue: providerContext?.isProviderIssue,
+      affectedProviders: providerContext?.affectedProviders,
+      deployment: providerContext?.deployment,
+    };
+
+    // Create and send notification
+    const notificationChannel = createChannel(channel);
+    await notificationChannel.send(payload);
+
+    // Log the notification
+    await this.db.logNotification(channel.id, incident.id);
+    await this.recordSent(channel, incident.id, 'Notification sent');
+
+    console.log(
+      `Sent ${incident.severity} notification to ${channel.type} channel ${channel.id}`
+    );
+
+    // Remind the channel if a critical incident is still open later
+    if (incident.severity === 'critical' && this.policy.escalationMinutes > 0 && this.policy.escalationRepeats > 0) {
+      const dueAt = new Date(Date.now() + this.policy.escalationMinutes * MINUTE_MS);
+      await this.schedule(channel, incident, 'escalation', dueAt, 1, providerContext);
+    }
+
+    return true;
+  }
+
+  /**
+   * Re-send a critical incident that is still open to its channel and the
+   * channel's escalation channel, then schedule the next reminder. The
+   * one-notification-per-incident limit doesn't apply to reminders. Returns
+   * 'failed' if no target got the reminder, so the scheduler retries it.
+   */
+  private async escalate(
+    channel: NotificationChannel,
+    incident: Incident,
+    attempt: number,
+    providerContext?: ProviderContext
+  ): Promise<ScheduledNotificationStatus> {
+    const payload: NotificationPayload = {
+      incident,
+      correlatedEvents: await this.getCorrelatedEvents(incident),
+      isProviderIssue: providerContext?.isProviderIssue,
+      affectedProviders: providerContext?.affectedProviders,
+      deployment: providerContext?.deployment,
+      escalation: {
+        attempt,
+        openMinutes: Math.round((Date.now() - new Date(incident.created_at).getTime()) / MINUTE_MS),
+      },
+    };
+
+    const targets = [channel];
+    if (channel.escalation_channel_id && channel.escalation_channel_id !== channel.id) {
+      const escalationRow = await this.db.getChannelById(channel.escalation_channel_id);
+      // The next reminder reaches it if it's in quiet hours now
+      if (escalationRow?.enabled && !heldUntil(escalationRow.rules, incident.severity)) {
+        targets.push(toChannel(escalationRow));
+      }
+    }
+
+    let delivered = 0;
+    for (const target of targets) {
+      try {
+        await createChannel(target).send(payload);
+        delivered++;
+        await this.db.logNotification(target.id, incident.id);
+        await this.recordSent(target, incident.id, `Reminder ${attempt} sent`);
+        console.log(`Sent escalation ${attempt} for incident ${incident.id} to ${target.type} channel ${target.id}`);
+      } catch (error) {
+        console.error(`Failed to send escalation to channel ${target.id}:`, error);
+      }
+    }
+    // The retry schedules the next reminder once it gets through
+    if (delivered === 0) return 'failed';
+
+    if (attempt < this.policy.escalationRepeats && this.policy.escalationMinutes > 0) {
+      const dueAt = new Date(Date.now() + this.policy.escalationMinutes * MINUTE_MS);
+      await this.schedule(channel, incident, 'escalation', dueAt, attempt + 1, providerContext);
+    }
+    return 'sent';
+  }
+
+  private async recordSent(channel: NotificationChannel, incidentId: string, what: string) {
+    try {
+      await this.db.addTimelineEntry({
+        incident_id: incidentId,
+        kind: 'notified',
+        message: `${what} to ${channel.type} channel`,
+        data: { channel_id: channel.id, channel_type: channel.type },
+      });
+    } catch (error) {
+      console.error(`Failed to record notification on incident ${incidentId}:`, error);
+    }
+  }
+
+  private async schedule(
+    channel: NotificationChannel,
+    incident: Incident,
+    kind: ScheduledNotificationKind,
+    dueAt: Date,
+    attempt = 1,
+    providerContext?: ProviderContext
+  ) {
+    await this.db.scheduleNotification({
+      project_id: incident.project_id,
+      channel_id: channel.id,
+      incident_id: incident.id,
+      kind,
+      due_at: dueAt,
+      attempt,
+      context: providerContext ? { ...providerContext } : null,
+    });
+  }
+
+  private nextDigestAt(interval: 'hourly' | 'daily'): Date {
+    const now = Date.now();
+    if (interval === 'hourly') {
+      return new Date(Math.floor(now / HOUR_MS) * HOUR_MS + HOUR_MS);
+    }
+
+    const next = new Date(now);
+    next.setUTCHours(this.policy.digestHourUtc, 0, 0, 0);
+    if (next.getTime() <= now) {
+      next.setUTCDate(next.getUTCDate() + 1);
+    }
+    return next;
+  }
+
   private async getCorrelatedEvents(incident: Incident): Promise<
     Array<{
       type: string;
@@ -137,26 +548,9 @@ export class NotificationManager {
     return await this.db.getCorrelatedEvents(eventIds);
   }
 
-  private async shouldSendNotification(severity: string): Promise<boolean> {
-    // Critical: send immediately
-    if (severity === 'critical') {
-      return true;
-    }
-
-    // Warning: wait 5 minutes to see if it resolves itself
-    // For now, we'll send immediately, but this could be enhanced
-    // with a background job that checks if warnings persist
-    if (severity === 'warning') {
-      return true; // TODO: Implement delayed notification logic
-    }
-
-    // Info: could be part of daily digest
-    // For now, we'll send immediately
-    if (severity === 'info') {
-      return true; // TODO: Implement digest logic
-    }
-
-    return true;
+  private async getIncidentEvents(incident: Incident): Promise<EventRow[]> {
+    const eventIds = Array.isArray(incident.events) ? incident.events : [];
+    return eventIds.length > 0 ? this.db.getEventsByIds(eventIds) : [];
   }
 
   private async checkRateLimit(
@@ -178,33 +572,45 @@ export class NotificationManager {
     return true;
   }
 
-  // API methods for channel management
+  // API methods for channel management. Only createChannel returns the
+  // channel's secrets, so the caller can copy them once.
   async createChannel(
     projectId: string,
-    type: 'discord' | 'slack',
-    webhookUrl: string
+    type: ChannelType,
+    webhookUrl: string,
+    settings?: ChannelSettings,
+    config?: ChannelConfig
   ): Promise<NotificationChannel> {
-    const row = await this.db.createChannel(projectId, type, webhookUrl);
-    return {
-      id: row.id,
-      project_id: row.project_id,
-      type: row.type as 'discord' | 'slack',
-      webhook_url: row.webhook_url,
-      enabled: row.enabled,
-      created_at: row.created_at,
-    };
+    const row = await this.db.createChannel(projectId, type, webhookUrl, settings, config);
+    return toChannel(row);
   }
 
   async getChannels(projectId: string): Promise<NotificationChannel[]> {
     const rows = await this.db.getChannels(projectId);
-    return rows.map((r) => ({
-      id: r.id,
-      project_id: r.project_id,
-      type: r.type as 'discord' | 'slack',
-      webhook_url: r.webhook_url,
-      enabled: r.enabled,
-      created_at: r.created_at,
-    }));
+    return rows.map(toPublicChannel);
+  }
+
+  async updateChannelSettings(channelId: string, settings: ChannelSettings): Promise<NotificationChannel | null> {
+    const row = await this.db.updateChannelSettings(channelId, settings);
+    return row ? toPublicChannel(row) : null;
+  }
+
+  async updateChannelRules(channelId: string, rules: ChannelRules): Promise<NotificationChannel | null> {
+    const row = await this.db.updateChannelRules(channelId, rules);
+    return row ? toPublicChannel(row) : null;
+  }
+
+  /**
+   * An escalation channel has to exist in the same project. Returns an error
+   * message, or null when it's fine.
+   */
+  async checkEscalationChannel(projectId: string, escalationChannelId: string | null | undefined): Promise<string | null> {
+    if (!escalationChannelId) return null;
+    const channel = await this.db.getChannelById(escalationChannelId);
+    if (!channel || channel.project_id !== projectId) {
+      return 'escalation_channel_id must be a channel in the same project';
+    }
+    return null;
   }
 
   async deleteChannel(channelId: string): Promise<void> {
@@ -240,14 +646,14 @@ export class NotificationManager {
       incident: testIncident,
     };
 
-    const notificationChannel = createChannel({
-      id: channel.id,
-      project_id: channel.project_id,
-      type: channel.type as 'discord' | 'slack',
-      webhook_url: channel.webhook_url,
-      enabled: channel.enabled,
-      created_at: channel.created_at,
-    });
+    const notificationChannel = createChannel(toChannel(channel));
     await notificationChannel.send(payload);
+
+    // Close the test alert again so it doesn't sit open in PagerDuty
+    if (channel.type === 'pagerduty') {
+      await createResolutionChannel(toChannel(channel)).send({
+        incident: { ...testIncident, status: 'resolved', resolved_at: new Date() },
+      });
+    }
   }
 }
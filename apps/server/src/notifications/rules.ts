@@ -0,0 +1,170 @@
+import type { Incident } from '@scanwarp/core';
+import type { ChannelRules, EventRow, QuietHours } from '../db/index.js';
+import { normalizeRoute, routeFor } from '../monitoring/detectors/baseline.js';
+
+const SEVERITIES = ['info', 'warning', 'critical'] as const;
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'string' && v.trim() !== '');
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a channel's routing rules. Empty lists are dropped so they don't
+ * filter out everything.
+ */
+export function parseChannelRules(input: Record<string, unknown>): { error: string } | { rules: ChannelRules } {
+  const rules: ChannelRules = {};
+
+  if (input.min_severity !== undefined && input.min_severity !== null) {
+    if (!(SEVERITIES as readonly unknown[]).includes(input.min_severity)) {
+      return { error: `min_severity must be one of ${SEVERITIES.join(', ')}` };
+    }
+    rules.min_severity = input.min_severity as ChannelRules['min_severity'];
+  }
+
+  for (const key of ['include_sources', 'exclude_sources', 'monitor_ids', 'routes'] as const) {
+    const value = input[key];
+    if (value === undefined || value === null) continue;
+    if (!isStringList(value)) {
+      return { error: `${key} must be a list of non-empty strings` };
+    }
+    if (value.length > 0) {
+      rules[key] = value.map((v) => v.trim());
+    }
+  }
+
+  if (input.quiet_hours !== undefined && input.quiet_hours !== null) {
+    const quiet = input.quiet_hours as Record<string, unknown>;
+    if (typeof quiet !== 'object' || Array.isArray(quiet)) {
+      return { error: 'quiet_hours must be an object' };
+    }
+    if (typeof quiet.start !== 'string' || !TIME_PATTERN.test(quiet.start)
+      || typeof quiet.end !== 'string' || !TIME_PATTERN.test(quiet.end)) {
+      return { error: 'quiet_hours.start and quiet_hours.end must be times like 22:00' };
+    }
+    if (quiet.start === quiet.end) {
+      return { error: 'quiet_hours.start and quiet_hours.end must differ' };
+    }
+    if (typeof quiet.timezone !== 'string' || !isTimeZone(quiet.timezone)) {
+      return { error: 'quiet_hours.timezone must be an IANA time zone like Europe/Berlin' };
+    }
+    if (quiet.allow_critical !== undefined && typeof quiet.allow_critical !== 'boolean') {
+      return { error: 'quiet_hours.allow_critical must be a boolean' };
+    }
+    rules.quiet_hours = {
+      start: quiet.start,
+      end: quiet.end,
+      timezone: quiet.timezone,
+      allow_critical: quiet.allow_critical ?? true,
+    };
+  }
+
+  return { rules };
+}
+
+function routeMatches(pattern: string, route: string): boolean {
+  let path: string;
+  try {
+    path = new URL(route).pathname;
+  } catch {
+    path = route.split('?')[0];
+  }
+
+  if (pattern.endsWith('*')) {
+    return path.startsWith(pattern.slice(0, -1));
+  }
+  return path === pattern || normalizeRoute(path) === pattern;
+}
+
+/**
+ * Whether an incident passes a channel's filters. `events` are the
+ * incident's events; source, monitor and route rules match when any one of
+ * them does.
+ */
+export function matchesRules(rules: ChannelRules, incident: Incident, events: EventRow[]): boolean {
+  if (rules.min_severity && SEVERITIES.indexOf(incident.severity) < SEVERITIES.indexOf(rules.min_severity)) {
+    return false;
+  }
+
+  const { include_sources, exclude_sources, monitor_ids, routes } = rules;
+
+  if (include_sources && !events.some((e) => include_sources.includes(e.source))) {
+    return false;
+  }
+
+  if (exclude_sources && events.length > 0 && events.every((e) => exclude_sources.includes(e.source))) {
+    return false;
+  }
+
+  if (monitor_ids && !events.some((e) => e.monitor_id && monitor_ids.includes(e.monitor_id))) {
+    return false;
+  }
+
+  if (routes && !events.some((e) => {
+    const route = routeFor(e);
+    return route !== null && routes.some((pattern) => routeMatches(pattern, route));
+  })) {
+    return false;
+  }
+
+  return true;
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+function localMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', {
+    timeZone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+  const value = (type: string) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return value('hour') * 60 + value('minute');
+}
+
+/**
+ * When the quiet hours covering `now` end, or null when `now` is outside
+ * them. Windows that wrap past midnight, like 22:00–07:00, are supported.
+ */
+export function quietHoursEnd(quiet: QuietHours, now = new Date()): Date | null {
+  const start = toMinutes(quiet.start);
+  const end = toMinutes(quiet.end);
+  const current = localMinutes(now, quiet.timezone);
+
+  const inside = start < end
+    ? current >= start && current < end
+    : current >= start || current < end;
+  if (!inside) return null;
+
+  const minutesLeft = (end - current + DAY_MINUTES) % DAY_MINUTES;
+  const endsAt = new Date(now.getTime() + minutesLeft * MINUTE_MS);
+  endsAt.setUTCSeconds(0, 0);
+  return endsAt;
+}
+
+/**
+ * When a notification of this severity may go out on a channel, or null
+ * when it can be sent now.
+ */
+export function heldUntil(rules: ChannelRules, severity: Incident['severity'], now = new Date()): Date | null {
+  const quiet = rules.quiet_hours;
+  if (!quiet) return null;
+  if (severity === 'critical' && quiet.allow_critical) return null;
+  return quietHoursEnd(quiet, now);
+}
@@ -0,0 +1,113 @@
+import type { Database, ScheduledNotificationRow, ScheduledNotificationStatus } from '../db/index.js';
+import type { NotificationManager } from './manager.js';
+
+const RUN_INTERVAL_MS = 60 * 1000;
+
+// Enough for a busy minute; anything left over is picked up on the next run
+const BATCH_SIZE = 200;
+
+// A send that fails is tried again after each of these delays, then marked failed
+const RETRY_DELAYS_MINUTES = [1, 5, 15, 60];
+
+/**
+ * Sends the notifications NotificationManager has put off: warnings whose
+ * grace period has passed, digests and escalation reminders. Everything is
+ * read from the database each run, so nothing is lost across restarts; a
+ * run right after startup sends whatever came due while the server was down.
+ */
+export class NotificationScheduler {
+  private db: Database;
+  private notificationManager: NotificationManager;
+  private intervalId?: NodeJS.Timeout;
+  private isRunning = false;
+  private inProgress = false;
+
+  constructor(db: Database, notificationManager: NotificationManager) {
+    this.db = db;
+    this.notificationManager = notificationManager;
+  }
+
+  async start() {
+    if (this.isRunning) {
+      console.log('NotificationScheduler already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('Starting NotificationScheduler...');
+
+    await this.run().catch((err) => {
+      console.error('Error in notification scheduler:', err);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.run().catch((err) => {
+        console.error('Error in notification scheduler:', err);
+      });
+    }, RUN_INTERVAL_MS);
+  }
+
+  async stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+    this.isRunning = false;
+    console.log('NotificationScheduler stopped');
+  }
+
+  private async run() {
+    if (this.inProgress) return;
+    this.inProgress = true;
+
+    try {
+      const due = await this.db.getDueNotifications(new Date(), BATCH_SIZE);
+      if (due.length === 0) return;
+
+      // Digest entries for the same channel go out as one message
+      const digests = new Map<string, ScheduledNotificationRow[]>();
+      for (const row of due) {
+        if (row.kind === 'digest') {
+          digests.set(row.channel_id, [...(digests.get(row.channel_id) ?? []), row]);
+          continue;
+        }
+
+        const status = await this.notificationManager.deliverScheduled(row).catch((err) => {
+          console.error(`Failed to send scheduled ${row.kind} notification ${row.id}:`, err);
+          return 'failed' as const;
+        });
+        await this.settle([row], status);
+      }
+
+      for (const [channelId, rows] of digests) {
+        const status = await this.notificationManager.deliverDigest(channelId, rows).catch((err) => {
+          console.error(`Failed to send digest to channel ${channelId}:`, err);
+          return 'failed' as const;
+        });
+        await this.settle(rows, status);
+      }
+    } finally {
+      this.inProgress = false;
+    }
+  }
+
+  /**
+   * Record how a send went. A failed send goes back in the queue with a
+   * growing delay and is only marked failed once the retries run out.
+   */
+  private async settle(rows: ScheduledNotificationRow[], status: ScheduledNotificationStatus) {
+    // 'pending' means the manager already pushed the rows back itself
+    if (status === 'pending') return;
+
+    const ids = rows.map((r) => r.id);
+    const failures = Math.max(...rows.map((r) => r.failures));
+    if (status === 'failed' && failures < RETRY_DELAYS_MINUTES.length) {
+      const dueAt = new Date(Date.now() + RETRY_DELAYS_MINUTES[failures] * 60 * 1000);
+      console.log(`Retrying ${ids.length} scheduled notification(s) at ${dueAt.toISOString()}`);
+      await this.db.retryScheduledNotifications(ids, dueAt);
+      return;
+    }
+
+    await this.db.setScheduledNotificationStatus(ids, status);
+  }
+}
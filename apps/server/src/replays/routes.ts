@@ -0,0 +1,125 @@
+import type { FastifyInstance } from 'fastify';
+import type { Database } from '../db/index.js';
+import { assertProjectAccess } from '../auth/apiKeys.js';
+
+// Generated by the browser script, which sends the same id as the error's replayId
+const REPLAY_ID_PATTERN = /^[A-Za-z0-9-]{8,64}$/;
+
+// The script keeps about 30 seconds in 15-second segments; leave room for a partial one
+const MAX_SEGMENTS = 5;
+
+interface ReplaySegment {
+  /** Milliseconds since the epoch, by the browser's clock */
+  t: number;
+  href: string;
+  width: number;
+  height: number;
+  /** Serialized DOM at `t`; the viewer rebuilds the page from it */
+  node: Record<string, unknown>;
+  /** DOM mutations, input and scrolling after `t`, each with its own `t` */
+  events: Array<{ t: number } & Record<string, unknown>>;
+}
+
+/**
+ * Check the segments of an uploaded replay. Returns an error message when
+ * one is malformed; the node trees themselves are only read by the viewer.
+ */
+function parseSegments(value: unknown): ReplaySegment[] | string {
+  if (!Array.isArray(value) || value.length === 0) return 'segments must be a non-empty array';
+  if (value.length > MAX_SEGMENTS) return `At most ${MAX_SEGMENTS} segments per replay`;
+
+  for (const segment of value as Array<Partial<ReplaySegment>>) {
+    if (!segment || !Number.isFinite(segment.t) || typeof segment.href !== 'string') {
+      return 'each segment needs a timestamp t and an href';
+    }
+    if (!segment.node || typeof segment.node !== 'object' || !Array.isArray(segment.events)) {
+      return 'each segment needs a node snapshot and an events array';
+    }
+    if (segment.events.some((e) => !e || !Number.isFinite(e.t))) {
+      return 'each replay event needs a timestamp t';
+    }
+  }
+  return value as ReplaySegment[];
+}
+
+/**
+ * Register the upload route for browser replays and the route the incident
+ * page loads them through. Replays are only uploaded alongside an error and
+ * are looked up by the replayId on that error's event.
+ */
+export async function registerReplayRoutes(fastify: FastifyInstance, db: Database) {
+  // POST /api/browser-replays — the DOM recording from before a browser error
+  fastify.post<{
+    Headers: { 'x-scanwarp-project-id': string };
+    Body: { id?: string; sessionId?: string; segments?: unknown };
+  }>('/api/browser-replays', async (request, reply) => {
+    const projectId = request.headers['x-scanwarp-project-id'];
+    if (!projectId) {
+      reply.code(400);
+      return { error: 'Missing x-scanwarp-project-id header' };
+    }
+
+    const { id, sessionId } = request.body ?? {};
+    if (typeof id !== 'string' || !REPLAY_ID_PATTERN.test(id)) {
+      reply.code(400);
+      return { error: 'id is required and must be 8 to 64 letters, digits or dashes' };
+    }
+
+    const segments = parseSegments(request.body?.segments);
+    if (typeof segments === 'string') {
+      reply.code(400);
+      return { error: segments };
+    }
+
+    const times = segments.flatMap((s) => [s.t, ...s.events.map((e) => e.t)]);
+
+    try {
+      await db.saveBrowserReplay({
+        id,
+        project_id: projectId,
+        session_id: typeof sessionId === 'string' ? sessionId.slice(0, 64) : null,
+        started_at: new Date(Math.min(...times)),
+        ended_at: new Date(Math.max(...times)),
+        content: JSON.stringify({ segments }),
+      });
+      return { success: true };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { success: false, message: 'Failed to store replay' };
+    }
+  });
+
+  // GET /events/:id/replay — the replay recorded before a browser error event
+  fastify.get<{ Params: { id: string } }>('/events/:id/replay', async (request, reply) => {
+    const [event] = await db.getEventsByIds([request.params.id]);
+    if (!assertProjectAccess(request, reply, event?.project_id, 'Event')) return;
+    if (!event) {
+      reply.code(404);
+      return { error: 'Event not found' };
+    }
+
+    const replayId = event.raw_data?.replayId;
+    const [replay, content] = typeof replayId === 'string'
+      ? await Promise.all([
+          db.getBrowserReplay(event.project_id, replayId),
+          db.getBrowserReplayContent(event.project_id, replayId),
+        ])
+      : [null, null];
+
+    // The upload can fail or be pruned while the event is kept
+    if (!replay || !content) {
+      reply.code(404);
+      return { error: 'Replay not found' };
+    }
+
+    const { segments } = JSON.parse(content) as { segments: ReplaySegment[] };
+    return {
+      replay: {
+        ...replay,
+        error_at: typeof event.raw_data?.timestamp === 'number' ? event.raw_data.timestamp : null,
+        segments,
+      },
+    };
+  });
+}
@@ -0,0 +1,206 @@
+import { SourceMapConsumer, type RawSourceMap } from 'source-map-js';
+import { parseStackTrace, type StackFrame } from '@scanwarp/core';
+import type { Database } from '../db/index.js';
+
+/** The fields of a browser error that point into generated code */
+export interface BrowserErrorLocation {
+  stack?: string;
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+  release?: string;
+}
+
+export interface SymbolicatedLocation {
+  stack?: string;
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+  /** The original, minified values — kept so nothing is lost if a map was wrong */
+  minified?: { stack?: string; filename?: string; lineno?: number; colno?: number };
+  /** Release whose source maps were used */
+  release?: string;
+}
+
+// Parsed maps are large; keep only the most recently used ones in memory
+const MAX_CACHED_MAPS = 20;
+const NAMES_CACHE_TTL_MS = 60 * 1000;
+
+/**
+ * Rewrites browser stack traces from bundle offsets to original source
+ * positions, using source maps uploaded for the error's release.
+ */
+export class Symbolicator {
+  private db: Database;
+  private consumers = new Map<string, SourceMapConsumer | null>();
+  private names = new Map<string, { names: string[]; loadedAt: number }>();
+
+  constructor(db: Database) {
+    this.db = db;
+  }
+
+  /**
+   * Returns the symbolicated fields, or null when there's nothing to map
+   * (no maps uploaded, or no frame matched one). Never throws: a broken map
+   * must not lose the error.
+   */
+  async symbolicate(projectId: string, error: BrowserErrorLocation): Promise<SymbolicatedLocation | null> {
+    if (!error.stack && !error.filename) return null;
+
+    try {
+      const release = error.release || (await this.db.getLatestSourceMapRelease(projectId));
+      if (!release) return null;
+
+      const names = await this.mapNames(projectId, release);
+      if (names.length === 0) return null;
+
+      let mapped = false;
+      const result: SymbolicatedLocation = { release };
+
+      if (error.stack) {
+        const lines: string[] = [];
+        for (const line of error.stack.split('\n')) {
+          const [frame] = parseStackTrace(line);
+          const original = frame ? await this.mapFrame(projectId, release, names, frame) : null;
+          if (original) mapped = true;
+          lines.push(original ? formatFrame(original) : line);
+        }
+        result.stack = lines.join('\n');
+      }
+
+      if (error.filename && error.lineno) {
+        const original = await this.mapFrame(projectId, release, names, {
+          file: error.filename,
+          line: error.lineno,
+          column: error.colno,
+        });
+        if (original) {
+          mapped = true;
+          result.filename = original.file;
+          result.lineno = original.line;
+          result.colno = original.column;
+        }
+      }
+
+      if (!mapped) return null;
+
+      result.minified = { stack: error.stack, filename: error.filename, lineno: error.lineno, colno: error.colno };
+      return result;
+    } catch (err) {
+      console.error(`Symbolication failed for project ${projectId}:`, err);
+      return null;
+    }
+  }
+
+  /**
+   * Forget cached maps for a release after new ones are uploaded.
+   */
+  invalidate(projectId: string, release: string) {
+    const prefix = `${projectId}\n${release}\n`;
+    this.names.delete(`${projectId}\n${release}`);
+    for (const key of this.consumers.keys()) {
+      if (key.startsWith(prefix)) this.consumers.delete(key);
+    }
+  }
+
+  private async mapFrame(
+    projectId: string,
+    release: string,
+    names: string[],
+    frame: StackFrame
+  ): Promise<StackFrame | null> {
+    if (!frame.file || !frame.line) return null;
+
+    const name = findMapName(names, frame.file);
+    if (!name) return null;
+
+    const consumer = await this.consumer(projectId, release, name);
+    if (!consumer) return null;
+
+    // Stack columns are 1-based, source map columns 0-based
+    const position = consumer.originalPositionFor({ line: frame.line, column: Math.max((frame.column ?? 1) - 1, 0) });
+    if (!position.source || position.line === null) return null;
+
+    return {
+      function: position.name || frame.function,
+      file: cleanSourcePath(position.source),
+      line: position.line,
+      column: position.column === null ? undefined : position.column + 1,
+    };
+  }
+
+  private async mapNames(projectId: string, release: string): Promise<string[]> {
+    const key = `${projectId}\n${release}`;
+    const cached = this.names.get(key);
+    if (cached && Date.now() - cached.loadedAt < NAMES_CACHE_TTL_MS) return cached.names;
+
+    const names = (await this.db.getSourceMaps(projectId, release)).map((m) => m.name);
+    this.names.set(key, { names, loadedAt: Date.now() });
+    return names;
+  }
+
+  private async consumer(projectId: string, release: string, name: string): Promise<SourceMapConsumer | null> {
+    const key = `${projectId}\n${release}\n${name}`;
+
+    if (this.consumers.has(key)) {
+      // Re-insert to mark as most recently used
+      const consumer = this.consumers.get(key)!;
+      this.consumers.delete(key);
+      this.consumers.set(key, consumer);
+      return consumer;
+    }
+
+    const content = await this.db.getSourceMapContent(projectId, release, name);
+    let consumer: SourceMapConsumer | null = null;
+    if (content) {
+      try {
+        consumer = new SourceMapConsumer(JSON.parse(content) as RawSourceMap);
+      } catch (err) {
+        console.error(`Invalid source map ${name} (${release}):`, err);
+      }
+    }
+
+    this.consumers.set(key, consumer);
+    if (this.consumers.size > MAX_CACHED_MAPS) {
+      this.consumers.delete(this.consumers.keys().next().value!);
+    }
+    return consumer;
+  }
+}
+
+/**
+ * Pick the uploaded map for a script URL. Map names are relative to the
+ * site root, so "https://app.com/base/assets/main.js" matches "assets/main.js".
+ */
+function findMapName(names: string[], file: string): string | null {
+  let path = file;
+  try {
+    path = new URL(file).pathname;
+  } catch {
+    // Already a path
+  }
+  path = path.replace(/^\/+/, '');
+
+  let best: string | null = null;
+  for (const name of names) {
+    if ((path === name || path.endsWith(`/${name}`)) && (!best || name.length > best.length)) {
+      best = name;
+    }
+  }
+  return best;
+}
+
+/**
+ * Tidy bundler-specific source paths: "webpack://app/./src/x.ts" → "src/x.ts",
+ * "../../src/x.ts" → "src/x.ts".
+ */
+function cleanSourcePath(source: string): string {
+  return source
+    .replace(/^webpack:\/\/[^/]*\//, '')
+    .replace(/^(\.\.?\/)+/, '');
+}
+
+function formatFrame(frame: StackFrame): string {
+  const location = `${frame.file}:${frame.line}${frame.column !== undefined ? `:${frame.column}` : ''}`;
+  return frame.function ? `    at ${frame.function} (${location})` : `    at ${location}`;
+}
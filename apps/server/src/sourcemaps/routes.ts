@@ -0,0 +1,68 @@
+import type { FastifyInstance } from 'fastify';
+import type { Database } from '../db/index.js';
+import { assertProjectAccess } from '../auth/apiKeys.js';
+import type { Symbolicator } from './Symbolicator.js';
+
+// Source maps for large bundles easily exceed the global 5MB body limit
+const SOURCE_MAP_BODY_LIMIT = 1048576 * 50;
+
+export async function registerSourceMapRoutes(
+  fastify: FastifyInstance,
+  db: Database,
+  symbolicator: Symbolicator,
+) {
+  // POST /sourcemaps — upload one source map for a release
+  fastify.post<{
+    Body: { project_id: string; release: string; name: string; map: string | Record<string, unknown> };
+  }>('/sourcemaps', { bodyLimit: SOURCE_MAP_BODY_LIMIT }, async (request, reply) => {
+    const { project_id, release, name, map } = request.body || {};
+
+    if (!project_id || !release || !name || !map) {
+      reply.code(400);
+      return { error: 'project_id, release, name and map are required' };
+    }
+
+    if (!assertProjectAccess(request, reply, project_id, 'Project')) return;
+
+    let parsed: Record<string, unknown>;
+    try {
+      parsed = typeof map === 'string' ? JSON.parse(map) : map;
+    } catch {
+      reply.code(400);
+      return { error: 'map is not valid JSON' };
+    }
+
+    if (parsed.version !== 3 || (typeof parsed.mappings !== 'string' && !Array.isArray(parsed.sections))) {
+      reply.code(400);
+      return { error: 'map must be a version 3 source map' };
+    }
+
+    // Names are matched against script URL paths, so store them without a leading slash
+    const mapName = name.replace(/^\/+/, '').replace(/\.map$/, '');
+    const content = typeof map === 'string' ? map : JSON.stringify(map);
+
+    try {
+      await db.upsertSourceMap({ project_id, release, name: mapName, content });
+      symbolicator.invalidate(project_id, release);
+
+      return { success: true, release, name: mapName, size: Buffer.byteLength(content) };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { success: false, message: 'Failed to store source map' };
+    }
+  });
+
+  // GET /sourcemaps — list uploaded maps (without their content)
+  fastify.get<{ Querystring: { project_id: string; release?: string } }>('/sourcemaps', async (request, reply) => {
+    const { project_id, release } = request.query;
+
+    if (!project_id) {
+      reply.code(400);
+      return { error: 'project_id is required' };
+    }
+
+    const sourceMaps = await db.getSourceMaps(project_id, release);
+    return { sourcemaps: sourceMaps };
+  });
+}
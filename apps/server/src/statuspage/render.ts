@@ -0,0 +1,208 @@
+import type { StatusUpdateStatus } from '../monitoring/IncidentService.js';
+import type { ComponentStatus, OverallStatus, PublicIncident, PublicStatus, UptimeDay } from './status.js';
+
+export interface StatusPageUrls {
+  page: string;
+  json: string;
+  rss: string;
+  atom: string;
+}
+
+const OVERALL_LABELS: Record<OverallStatus, [label: string, color: string]> = {
+  operational: ['All systems operational', '#16a34a'],
+  degraded: ['Some systems are degraded', '#ca8a04'],
+  partial_outage: ['Partial outage', '#ea580c'],
+  major_outage: ['Major outage', '#dc2626'],
+};
+
+const COMPONENT_LABELS: Record<ComponentStatus, [label: string, color: string]> = {
+  operational: ['Operational', '#16a34a'],
+  degraded: ['Degraded', '#ca8a04'],
+  outage: ['Outage', '#dc2626'],
+};
+
+const UPDATE_LABELS: Record<StatusUpdateStatus, string> = {
+  investigating: 'Investigating',
+  identified: 'Identified',
+  monitoring: 'Monitoring',
+  resolved: 'Resolved',
+};
+
+export function statusPageUrls(baseUrl: string, slug: string): StatusPageUrls {
+  const page = `${baseUrl.replace(/\/+$/, '')}/status/${encodeURIComponent(slug)}`;
+  return { page, json: `${page}/status.json`, rss: `${page}/rss.xml`, atom: `${page}/atom.xml` };
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function formatTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function barColor(day: UptimeDay): string {
+  if (day.uptime === null) return '#e5e7eb';
+  if (day.uptime >= 99.9) return '#22c55e';
+  if (day.uptime >= 99) return '#eab308';
+  if (day.uptime >= 95) return '#f97316';
+  return '#ef4444';
+}
+
+function renderUpdates(incident: PublicIncident): string {
+  return incident.updates
+    .map(
+      (u) => `<p style="margin:8px 0"><strong>${UPDATE_LABELS[u.status]}</strong> · <span style="color:#6b7280">${formatTime(u.created_at)}</span><br>
+        <span style="white-space:pre-wrap">${escapeHtml(u.message)}</span></p>`
+    )
+    .join('\n');
+}
+
+function renderIncident(incident: PublicIncident): string {
+  const affected = incident.components.length > 0
+    ? `<div style="color:#6b7280;font-size:13px">Affects ${escapeHtml(incident.components.join(', '))}</div>`
+    : '';
+  return `<div id="incident-${incident.id}" style="padding:16px 0;border-top:1px solid #e5e7eb">
+      <div style="font-weight:600">${escapeHtml(incident.title)}</div>
+      ${affected}
+      ${renderUpdates(incident)}
+    </div>`;
+}
+
+export function renderStatusHtml(status: PublicStatus, urls: StatusPageUrls): string {
+  const [overall, overallColor] = OVERALL_LABELS[status.status];
+
+  const components = status.components
+    .map((c) => {
+      const [label, color] = COMPONENT_LABELS[c.status];
+      const bars = c.days
+        .map((d) => {
+          const tip = d.uptime === null ? `${d.date}: no data` : `${d.date}: ${d.uptime}% uptime`;
+          return `<span title="${tip}" style="flex:1;height:32px;border-radius:2px;background:${barColor(d)}"></span>`;
+        })
+        .join('');
+      return `<div style="padding:16px 0;border-top:1px solid #e5e7eb">
+      <div style="display:flex;justify-content:space-between">
+        <span style="font-weight:600">${escapeHtml(c.name)}</span>
+        <span style="color:${color}">${label}</span>
+      </div>
+      <div style="display:flex;gap:2px;margin:8px 0 4px">${bars}</div>
+      <div style="display:flex;justify-content:space-between;color:#6b7280;font-size:12px">
+        <span>${c.days.length} days ago</span>
+        <span>${c.uptime === null ? 'No data' : `${c.uptime}% uptime`}</span>
+        <span>Today</span>
+      </div>
+    </div>`;
+    })
+    .join('\n');
+
+  const active = status.active_incidents.length > 0
+    ? `<h2 style="font-size:18px;margin:32px 0 0">Current incidents</h2>\n${status.active_incidents.map(renderIncident).join('\n')}`
+    : '';
+  const past = status.past_incidents.length > 0
+    ? status.past_incidents.map(renderIncident).join('\n')
+    : '<p style="color:#6b7280">No incidents reported.</p>';
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta http-equiv="refresh" content="60">
+  <title>${escapeHtml(status.title)}</title>
+  <link rel="alternate" type="application/rss+xml" title="${escapeHtml(status.title)}" href="${escapeHtml(urls.rss)}">
+  <link rel="alternate" type="application/atom+xml" title="${escapeHtml(status.title)}" href="${escapeHtml(urls.atom)}">
+</head>
+<body style="margin:0;padding:32px 16px;background:#f9fafb;font-family:-apple-system,Segoe UI,Helvetica,Arial,sans-serif;color:#111827">
+  <div style="max-width:760px;margin:0 auto">
+    <h1 style="font-size:24px;margin:0 0 4px">${escapeHtml(status.title)}</h1>
+    ${status.description ? `<p style="margin:0;color:#4b5563">${escapeHtml(status.description)}</p>` : ''}
+    <div style="margin:24px 0;padding:16px;border-radius:6px;background:${overallColor};color:#fff;font-weight:600">${overall}</div>
+    ${active}
+    <div style="background:#fff;border:1px solid #e5e7eb;border-radius:6px;padding:0 16px;margin-top:24px">
+      ${components || '<p style="color:#6b7280">No components.</p>'}
+    </div>
+    <h2 style="font-size:18px;margin:32px 0 0">Past incidents</h2>
+    ${past}
+    <p style="margin-top:32px;color:#6b7280;font-size:12px">
+      Updated ${formatTime(status.generated_at)} ·
+      <a href="${escapeHtml(urls.rss)}">RSS</a> · <a href="${escapeHtml(urls.atom)}">Atom</a> · <a href="${escapeHtml(urls.json)}">JSON</a>
+    </p>
+  </div>
+</body>
+</html>
+`;
+}
+
+// Active incidents first, then history; each newest first
+function feedIncidents(status: PublicStatus): PublicIncident[] {
+  return [...status.active_incidents, ...status.past_incidents];
+}
+
+function lastUpdated(incident: PublicIncident): Date {
+  return incident.updates[0]?.created_at ?? incident.started_at;
+}
+
+export function renderRss(status: PublicStatus, urls: StatusPageUrls): string {
+  const items = feedIncidents(status)
+    .map(
+      (incident) => `    <item>
+      <title>${escapeHtml(`${incident.title} (${UPDATE_LABELS[incident.status]})`)}</title>
+      <link>${escapeHtml(`${urls.page}#incident-${incident.id}`)}</link>
+      <guid isPermaLink="false">${incident.id}</guid>
+      <pubDate>${lastUpdated(incident).toUTCString()}</pubDate>
+      <description>${escapeHtml(renderUpdates(incident))}</description>
+    </item>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">
+  <channel>
+    <title>${escapeHtml(status.title)}</title>
+    <link>${escapeHtml(urls.page)}</link>
+    <description>${escapeHtml(status.description || `Incident history for ${status.title}`)}</description>
+    <atom:link href="${escapeHtml(urls.rss)}" rel="self" type="application/rss+xml"/>
+    <lastBuildDate>${status.generated_at.toUTCString()}</lastBuildDate>
+${items}
+  </channel>
+</rss>
+`;
+}
+
+export function renderAtom(status: PublicStatus, urls: StatusPageUrls): string {
+  const incidents = feedIncidents(status);
+  const updated = incidents.reduce(
+    (latest, incident) => Math.max(latest, lastUpdated(incident).getTime()),
+    0
+  );
+
+  const entries = incidents
+    .map(
+      (incident) => `  <entry>
+    <id>${escapeHtml(`${urls.page}#incident-${incident.id}`)}</id>
+    <title>${escapeHtml(`${incident.title} (${UPDATE_LABELS[incident.status]})`)}</title>
+    <link href="${escapeHtml(`${urls.page}#incident-${incident.id}`)}"/>
+    <published>${incident.started_at.toISOString()}</published>
+    <updated>${lastUpdated(incident).toISOString()}</updated>
+    <content type="html">${escapeHtml(renderUpdates(incident))}</content>
+  </entry>`
+    )
+    .join('\n');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${escapeHtml(urls.page)}</id>
+  <title>${escapeHtml(status.title)}</title>
+  <link href="${escapeHtml(urls.page)}"/>
+  <link href="${escapeHtml(urls.atom)}" rel="self"/>
+  <updated>${new Date(updated || status.generated_at.getTime()).toISOString()}</updated>
+  <author><name>${escapeHtml(status.title)}</name></author>
+${entries}
+</feed>
+`;
+}
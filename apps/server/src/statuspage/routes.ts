@@ -0,0 +1,222 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import type { Database, StatusPageComponent } from '../db/index.js';
+import { assertProjectAccess } from '../auth/apiKeys.js';
+import { buildPublicStatus, type PublicStatus } from './status.js';
+import { renderAtom, renderRss, renderStatusHtml, statusPageUrls, type StatusPageUrls } from './render.js';
+
+const SLUG_PATTERN = /^[a-z0-9](?:[a-z0-9-]{0,62}[a-z0-9])?$/;
+const MAX_TITLE_LENGTH = 255;
+const MAX_DESCRIPTION_LENGTH = 2000;
+
+// Public pages are unauthenticated, so each one is rebuilt at most this often
+const CACHE_TTL_MS = 60_000;
+
+interface StatusPageBody {
+  slug?: string;
+  title?: string;
+  description?: string | null;
+  components?: Array<{ monitor_id?: string; name?: string }>;
+  enabled?: boolean;
+}
+
+/**
+ * Register the status page settings routes and the public pages and feeds
+ * they configure. `publicUrl` is used for links in the feeds; without it
+ * they point at the host the request came in on.
+ */
+export async function registerStatusPageRoutes(fastify: FastifyInstance, db: Database, publicUrl?: string) {
+  const cache = new Map<string, { at: number; status: PublicStatus }>();
+
+  // GET /projects/:id/status-page — the project's status page settings
+  fastify.get<{ Params: { id: string } }>('/projects/:id/status-page', async (request, reply) => {
+    const { id } = request.params;
+    if (!assertProjectAccess(request, reply, id, 'Project')) return;
+
+    const page = await db.getStatusPage(id);
+    if (!page) {
+      reply.code(404);
+      return { error: 'Status page not found' };
+    }
+    return { status_page: page };
+  });
+
+  // POST /projects/:id/status-page — create the status page or change its settings
+  fastify.post<{ Params: { id: string }; Body: StatusPageBody }>('/projects/:id/status-page', async (request, reply) => {
+    const { id } = request.params;
+    const body = request.body ?? {};
+
+    if (!assertProjectAccess(request, reply, id, 'Project')) return;
+
+    const project = (await db.getProjects()).find((p) => p.id === id);
+    if (!project) {
+      reply.code(404);
+      return { error: 'Project not found' };
+    }
+
+    const current = await db.getStatusPage(id);
+
+    const slug = body.slug ?? current?.slug;
+    if (typeof slug !== 'string' || !SLUG_PATTERN.test(slug)) {
+      reply.code(400);
+      return { error: 'slug is required and must be lowercase letters, digits and dashes, up to 64 characters' };
+    }
+    const owner = await db.getStatusPageBySlug(slug);
+    if (owner && owner.project_id !== id) {
+      reply.code(400);
+      return { error: `slug "${slug}" is already used by another status page` };
+    }
+
+    const title = body.title ?? current?.title ?? `${project.name} Status`;
+    if (typeof title !== 'string' || title.trim() === '' || title.length > MAX_TITLE_LENGTH) {
+      reply.code(400);
+      return { error: `title must be a non-empty string of at most ${MAX_TITLE_LENGTH} characters` };
+    }
+
+    const description = body.description !== undefined ? body.description : (current?.description ?? null);
+    if (description !== null && (typeof description !== 'string' || description.length > MAX_DESCRIPTION_LENGTH)) {
+      reply.code(400);
+      return { error: `description must be a string of at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+
+    if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+      reply.code(400);
+      return { error: 'enabled must be a boolean' };
+    }
+
+    let components = current?.components ?? [];
+    if (body.components !== undefined) {
+      const parsed = await parseComponents(db, id, body.components);
+      if (typeof parsed === 'string') {
+        reply.code(400);
+        return { error: parsed };
+      }
+      components = parsed;
+    }
+
+    try {
+      const page = await db.upsertStatusPage({
+        project_id: id,
+        slug,
+        title: title.trim(),
+        description: description?.trim() || null,
+        components,
+        enabled: body.enabled ?? current?.enabled ?? true,
+      });
+      cache.clear();
+      return { success: true, status_page: page };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { success: false, message: 'Failed to save status page' };
+    }
+  });
+
+  // DELETE /projects/:id/status-page — take the status page down
+  fastify.delete<{ Params: { id: string } }>('/projects/:id/status-page', async (request, reply) => {
+    const { id } = request.params;
+    if (!assertProjectAccess(request, reply, id, 'Project')) return;
+
+    try {
+      await db.deleteStatusPage(id);
+      cache.clear();
+      return { success: true, message: 'Status page deleted' };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { success: false, message: 'Failed to delete status page' };
+    }
+  });
+
+  // Public pages. Disabled and unknown slugs look the same.
+  async function loadStatus(slug: string): Promise<PublicStatus | null> {
+    const cached = cache.get(slug);
+    if (cached && Date.now() - cached.at < CACHE_TTL_MS) return cached.status;
+
+    const page = await db.getStatusPageBySlug(slug);
+    if (!page || !page.enabled) return null;
+
+    const status = await buildPublicStatus(db, page);
+    cache.set(slug, { at: Date.now(), status });
+    return status;
+  }
+
+  function urlsFor(request: FastifyRequest, slug: string) {
+    return statusPageUrls(publicUrl || `${request.protocol}://${request.host}`, slug);
+  }
+
+  async function serve(
+    request: FastifyRequest<{ Params: { slug: string } }>,
+    reply: FastifyReply,
+    type: string,
+    render: (status: PublicStatus, urls: StatusPageUrls) => string,
+  ) {
+    const status = await loadStatus(request.params.slug);
+    if (!status) {
+      reply.code(404);
+      return { error: 'Status page not found' };
+    }
+
+    reply.header('Cache-Control', `public, max-age=${CACHE_TTL_MS / 1000}`);
+    reply.type(type);
+    return render(status, urlsFor(request, status.slug));
+  }
+
+  fastify.get<{ Params: { slug: string } }>('/status/:slug', (request, reply) =>
+    serve(request, reply, 'text/html; charset=utf-8', renderStatusHtml)
+  );
+
+  fastify.get<{ Params: { slug: string } }>('/status/:slug/status.json', async (request, reply) => {
+    const status = await loadStatus(request.params.slug);
+    if (!status) {
+      reply.code(404);
+      return { error: 'Status page not found' };
+    }
+
+    reply.header('Cache-Control', `public, max-age=${CACHE_TTL_MS / 1000}`);
+    const { page, rss, atom } = urlsFor(request, status.slug);
+    return { ...status, links: { page, rss, atom } };
+  });
+
+  fastify.get<{ Params: { slug: string } }>('/status/:slug/rss.xml', (request, reply) =>
+    serve(request, reply, 'application/rss+xml; charset=utf-8', renderRss)
+  );
+
+  fastify.get<{ Params: { slug: string } }>('/status/:slug/atom.xml', (request, reply) =>
+    serve(request, reply, 'application/atom+xml; charset=utf-8', renderAtom)
+  );
+}
+
+/**
+ * Check the components of a status page body. Returns an error message
+ * when a component is malformed or its monitor isn't in the project.
+ */
+async function parseComponents(
+  db: Database,
+  projectId: string,
+  value: unknown,
+): Promise<StatusPageComponent[] | string> {
+  if (!Array.isArray(value)) return 'components must be an array';
+
+  const components: StatusPageComponent[] = [];
+  for (const item of value as Array<{ monitor_id?: unknown; name?: unknown }>) {
+    if (!item || typeof item.monitor_id !== 'string') {
+      return 'each component needs a monitor_id';
+    }
+    if (item.name !== undefined && (typeof item.name !== 'string' || item.name.length > MAX_TITLE_LENGTH)) {
+      return `component names must be strings of at most ${MAX_TITLE_LENGTH} characters`;
+    }
+
+    const monitor = await db.getMonitorById(item.monitor_id);
+    if (!monitor || monitor.project_id !== projectId) {
+      return `Monitor ${item.monitor_id} not found in this project`;
+    }
+    if (components.some((c) => c.monitor_id === monitor.id)) {
+      return `Monitor ${monitor.id} is listed twice`;
+    }
+
+    // Default to the host and path, without the scheme
+    const name = (item.name as string | undefined)?.trim() || monitor.url.replace(/^https?:\/\//, '');
+    components.push({ monitor_id: monitor.id, name });
+  }
+  return components;
+}
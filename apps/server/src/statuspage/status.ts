@@ -0,0 +1,194 @@
+import type { Database, IncidentTimelineRow, MonitorRow, StatusPageRow } from '../db/index.js';
+import { STATUS_UPDATE_STATUSES, type StatusUpdateStatus } from '../monitoring/IncidentService.js';
+
+/** How far back uptime bars and incident history go */
+export const HISTORY_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DEFAULT_INCIDENT_TITLE = 'Service disruption';
+
+export type ComponentStatus = 'operational' | 'degraded' | 'outage';
+
+export type OverallStatus = 'operational' | 'degraded' | 'partial_outage' | 'major_outage';
+
+export interface UptimeDay {
+  /** YYYY-MM-DD, UTC */
+  date: string;
+  total_checks: number;
+  failed_checks: number;
+  /** Percentage of checks that passed, or null on days without checks */
+  uptime: number | null;
+}
+
+export interface PublicComponent {
+  name: string;
+  status: ComponentStatus;
+  /** Over the whole history */
+  uptime: number | null;
+  days: UptimeDay[];
+}
+
+export interface PublicIncidentUpdate {
+  status: StatusUpdateStatus;
+  message: string;
+  created_at: Date;
+}
+
+export interface PublicIncident {
+  id: string;
+  title: string;
+  status: StatusUpdateStatus;
+  /** Components on the page whose monitors raised the incident's events */
+  components: string[];
+  started_at: Date;
+  resolved_at: Date | null;
+  /** Newest first */
+  updates: PublicIncidentUpdate[];
+}
+
+/**
+ * What a status page shows. Only what customers should see goes in here:
+ * component names instead of monitor URLs, and incidents' status updates
+ * instead of their events and diagnoses.
+ */
+export interface PublicStatus {
+  slug: string;
+  title: string;
+  description: string | null;
+  status: OverallStatus;
+  components: PublicComponent[];
+  active_incidents: PublicIncident[];
+  past_incidents: PublicIncident[];
+  generated_at: Date;
+}
+
+export async function buildPublicStatus(db: Database, page: StatusPageRow, now = new Date()): Promise<PublicStatus> {
+  const firstDay = new Date(now.getTime() - (HISTORY_DAYS - 1) * DAY_MS);
+  const days = Array.from({ length: HISTORY_DAYS }, (_, i) =>
+    new Date(firstDay.getTime() + i * DAY_MS).toISOString().slice(0, 10)
+  );
+  const since = new Date(`${days[0]}T00:00:00Z`);
+
+  // Monitors deleted or moved to another project since the page was set up are left out
+  const monitors = new Map<string, MonitorRow>();
+  for (const component of page.components) {
+    const monitor = await db.getMonitorById(component.monitor_id);
+    if (monitor && monitor.project_id === page.project_id) {
+      monitors.set(monitor.id, monitor);
+    }
+  }
+  const shown = page.components.filter((c) => monitors.has(c.monitor_id));
+
+  const incidents = await loadIncidents(db, page.project_id, since, new Map(shown.map((c) => [c.monitor_id, c.name])));
+  const active = incidents.filter((i) => i.status !== 'resolved');
+
+  const stats = await db.getDailyCheckStats([...monitors.keys()], days[0]);
+  const components: PublicComponent[] = shown.map((component) => {
+    const byDay = new Map(stats.filter((s) => s.monitor_id === component.monitor_id).map((s) => [s.day, s]));
+    const uptimeDays = days.map((date) => {
+      const day = byDay.get(date);
+      const total = day?.total_checks ?? 0;
+      const failed = day?.failed_checks ?? 0;
+      return { date, total_checks: total, failed_checks: failed, uptime: uptimePercent(total, failed) };
+    });
+
+    let status: ComponentStatus = 'operational';
+    if (monitors.get(component.monitor_id)?.status === 'down') {
+      status = 'outage';
+    } else if (active.some((i) => i.components.includes(component.name))) {
+      status = 'degraded';
+    }
+
+    return {
+      name: component.name,
+      status,
+      uptime: uptimePercent(
+        uptimeDays.reduce((sum, d) => sum + d.total_checks, 0),
+        uptimeDays.reduce((sum, d) => sum + d.failed_checks, 0)
+      ),
+      days: uptimeDays,
+    };
+  });
+
+  return {
+    slug: page.slug,
+    title: page.title,
+    description: page.description,
+    status: overallStatus(components, active.length > 0),
+    components,
+    active_incidents: active,
+    past_incidents: incidents.filter((i) => i.status === 'resolved'),
+    generated_at: now,
+  };
+}
+
+function uptimePercent(total: number, failed: number): number | null {
+  if (total === 0) return null;
+  return Math.round(((total - failed) / total) * 100_000) / 1000;
+}
+
+function overallStatus(components: PublicComponent[], hasActiveIncidents: boolean): OverallStatus {
+  const outages = components.filter((c) => c.status === 'outage').length;
+  if (outages > 0) {
+    return outages === components.length ? 'major_outage' : 'partial_outage';
+  }
+  if (hasActiveIncidents || components.some((c) => c.status === 'degraded')) {
+    return 'degraded';
+  }
+  return 'operational';
+}
+
+/**
+ * Incidents with a status update since `since`, newest first. Incidents
+ * nobody has written an update for stay internal.
+ */
+async function loadIncidents(
+  db: Database,
+  projectId: string,
+  since: Date,
+  componentNames: Map<string, string>
+): Promise<PublicIncident[]> {
+  const incidentIds = new Set((await db.getStatusUpdates(projectId, since)).map((u) => u.incident_id));
+  const incidents: PublicIncident[] = [];
+
+  for (const id of incidentIds) {
+    const incident = await db.getIncident(id);
+    if (!incident) continue;
+
+    const updates = (await db.getIncidentTimeline(id)).filter((t) => t.kind === 'status_update');
+    const latest = updates[updates.length - 1];
+    const status: StatusUpdateStatus = incident.status === 'resolved' ? 'resolved' : updateStatus(latest);
+
+    const events = await db.getEventsByIds(incident.events);
+    const components = [
+      ...new Set(events.map((e) => e.monitor_id && componentNames.get(e.monitor_id)).filter((n): n is string => !!n)),
+    ];
+
+    const title = [...updates]
+      .reverse()
+      .map((u) => u.data?.title)
+      .find((t): t is string => typeof t === 'string' && t !== '');
+
+    incidents.push({
+      id,
+      title: title ?? DEFAULT_INCIDENT_TITLE,
+      status,
+      components,
+      started_at: incident.created_at,
+      resolved_at: status === 'resolved' ? (incident.resolved_at ?? latest.created_at) : null,
+      updates: updates
+        .map((u) => ({ status: updateStatus(u), message: u.message, created_at: u.created_at }))
+        .reverse(),
+    });
+  }
+
+  return incidents.sort((a, b) => b.started_at.getTime() - a.started_at.getTime());
+}
+
+function updateStatus(update: IncidentTimelineRow): StatusUpdateStatus {
+  const status = update.data?.status;
+  return (STATUS_UPDATE_STATUSES as readonly unknown[]).includes(status)
+    ? (status as StatusUpdateStatus)
+    : 'investigating';
+}
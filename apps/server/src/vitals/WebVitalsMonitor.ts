@@ -0,0 +1,138 @@
+import type { Database, WebVitalBucketRow } from '../db/index.js';
+import type { AnomalyDetector } from '../monitoring/AnomalyDetector.js';
+import type { EventPipeline } from '../monitoring/EventPipeline.js';
+import { WEB_VITALS, percentile } from './metrics.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RUN_INTERVAL_MS = 10 * 60 * 1000;
+
+// Beacons from the end of an hour can arrive a little late
+const LATE_ARRIVAL_MS = 5 * 60 * 1000;
+
+// After downtime, only look at the most recent day rather than alerting on stale hours
+const MAX_CATCH_UP_HOURS = 24;
+
+// A route's p75 from fewer page views than this is too noisy to compare
+const MIN_PAGE_VIEWS = 20;
+
+function startOfHour(ms: number): number {
+  return Math.floor(ms / HOUR_MS) * HOUR_MS;
+}
+
+/**
+ * Checks each complete hour of browser web vitals against the anomaly
+ * detector's baselines, and records a slow event for routes whose p75 has
+ * regressed.
+ */
+export class WebVitalsMonitor {
+  private db: Database;
+  private anomalyDetector: AnomalyDetector;
+  private pipeline: EventPipeline;
+  private intervalId?: NodeJS.Timeout;
+  private isRunning = false;
+  private inProgress = false;
+
+  constructor(db: Database, anomalyDetector: AnomalyDetector, pipeline: EventPipeline) {
+    this.db = db;
+    this.anomalyDetector = anomalyDetector;
+    this.pipeline = pipeline;
+  }
+
+  async start() {
+    if (this.isRunning) {
+      console.log('WebVitalsMonitor already running');
+      return;
+    }
+
+    this.isRunning = true;
+    console.log('Starting WebVitalsMonitor...');
+
+    this.run().catch((err) => {
+      console.error('Error checking web vitals:', err);
+    });
+
+    this.intervalId = setInterval(() => {
+      this.run().catch((err) => {
+        console.error('Error checking web vitals:', err);
+      });
+    }, RUN_INTERVAL_MS);
+  }
+
+  async stop() {
+    if (this.intervalId) {
+      clearInterval(this.intervalId);
+      this.intervalId = undefined;
+    }
+    this.isRunning = false;
+    console.log('WebVitalsMonitor stopped');
+  }
+
+  private async run() {
+    if (this.inProgress) return;
+    this.inProgress = true;
+
+    try {
+      const end = startOfHour(Date.now() - LATE_ARRIVAL_MS);
+      const watermark = (await this.db.getRollupWatermark('web_vitals'))?.getTime() ?? end - HOUR_MS;
+
+      for (let hour = Math.max(watermark, end - MAX_CATCH_UP_HOURS * HOUR_MS); hour < end && this.isRunning; hour += HOUR_MS) {
+        await this.checkHour(new Date(hour));
+        await this.db.setRollupWatermark('web_vitals', new Date(hour + HOUR_MS));
+      }
+    } finally {
+      this.inProgress = false;
+    }
+  }
+
+  private async checkHour(hour: Date) {
+    const rows = await this.db.getWebVitalBuckets({ since: hour, until: new Date(hour.getTime() + HOUR_MS) });
+
+    const groups = new Map<string, WebVitalBucketRow[]>();
+    for (const row of rows) {
+      const key = [row.project_id, row.route, row.metric].join('\n');
+      groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    for (const buckets of groups.values()) {
+      const { project_id, route, metric } = buckets[0];
+      const definition = WEB_VITALS[metric];
+      if (!definition) continue;
+
+      const samples = buckets.reduce((sum, b) => sum + b.count, 0);
+      if (samples < MIN_PAGE_VIEWS) continue;
+      const p75 = percentile(definition, buckets, 75);
+      if (p75 === null) continue;
+
+      const result = await this.anomalyDetector.observeVital({
+        project_id,
+        route,
+        metric,
+        label: definition.label,
+        unit: definition.unit,
+        value: p75,
+        good: definition.good,
+        samples,
+      });
+
+      if (result.isAnomaly) {
+        const value = definition.unit === 'ms' ? `${Math.round(p75)}ms` : p75.toFixed(3);
+        await this.pipeline.ingest({
+          project_id,
+          type: 'slow',
+          source: 'browser',
+          message: `Slow page: ${definition.label} on ${route} is ${value} at p75`,
+          raw_data: {
+            route,
+            metric,
+            p75,
+            samples,
+            hour: hour.toISOString(),
+          },
+          severity: 'medium',
+          anomaly_reason: result.reason,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import type { WebVitalBucketRow } from '../db/index.js';
+
+export interface WebVitalDefinition {
+  label: string;
+  unit: 'ms' | 'score';
+  /** At or below this is rated good */
+  good: number;
+  /** Above this is rated poor */
+  poor: number;
+  /** Upper bounds of the histogram buckets; values past the last go in one more bucket */
+  bounds: number[];
+}
+
+export type WebVitalRating = 'good' | 'needs-improvement' | 'poor';
+
+const MS_BOUNDS = [
+  10, 25, 50, 75, 100, 150, 200, 250, 300, 400, 500, 600, 800, 1000, 1200, 1500, 1800, 2000,
+  2500, 3000, 3500, 4000, 5000, 6000, 8000, 10000, 15000, 20000, 30000, 60000,
+];
+
+const SCORE_BOUNDS = [0.01, 0.025, 0.05, 0.075, 0.1, 0.125, 0.15, 0.2, 0.25, 0.3, 0.4, 0.5, 0.75, 1, 1.5, 2];
+
+/**
+ * The page-load metrics the browser script reports. Thresholds follow
+ * web.dev's; the navigation timings use the same kind of cut-offs.
+ */
+export const WEB_VITALS: Record<string, WebVitalDefinition> = {
+  lcp: { label: 'Largest Contentful Paint', unit: 'ms', good: 2500, poor: 4000, bounds: MS_BOUNDS },
+  inp: { label: 'Interaction to Next Paint', unit: 'ms', good: 200, poor: 500, bounds: MS_BOUNDS },
+  cls: { label: 'Cumulative Layout Shift', unit: 'score', good: 0.1, poor: 0.25, bounds: SCORE_BOUNDS },
+  ttfb: { label: 'Time to First Byte', unit: 'ms', good: 800, poor: 1800, bounds: MS_BOUNDS },
+  fcp: { label: 'First Contentful Paint', unit: 'ms', good: 1800, poor: 3000, bounds: MS_BOUNDS },
+  dom_content_loaded: { label: 'DOM Content Loaded', unit: 'ms', good: 2000, poor: 4000, bounds: MS_BOUNDS },
+  load: { label: 'Page Load', unit: 'ms', good: 3000, poor: 6000, bounds: MS_BOUNDS },
+};
+
+export function isWebVital(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(WEB_VITALS, name);
+}
+
+export function bucketIndex(definition: WebVitalDefinition, value: number): number {
+  const index = definition.bounds.findIndex((bound) => value <= bound);
+  return index === -1 ? definition.bounds.length : index;
+}
+
+export function rate(definition: WebVitalDefinition, value: number): WebVitalRating {
+  if (value <= definition.good) return 'good';
+  if (value <= definition.poor) return 'needs-improvement';
+  return 'poor';
+}
+
+/**
+ * Estimate a percentile (0–100) from bucket counts, interpolating
+ * linearly inside the bucket it falls in. Values past the last bound are
+ * reported as the last bound.
+ */
+export function percentile(
+  definition: WebVitalDefinition,
+  buckets: Array<Pick<WebVitalBucketRow, 'bucket' | 'count'>>,
+  p: number,
+): number | null {
+  const counts = new Array<number>(definition.bounds.length + 1).fill(0);
+  for (const { bucket, count } of buckets) {
+    if (bucket >= 0 && bucket < counts.length) counts[bucket] += count;
+  }
+
+  const total = counts.reduce((sum, c) => sum + c, 0);
+  if (total === 0) return null;
+
+  const rank = (p / 100) * total;
+  let seen = 0;
+  for (let i = 0; i < counts.length; i++) {
+    if (counts[i] === 0) continue;
+    if (seen + counts[i] >= rank) {
+      if (i === definition.bounds.length) return definition.bounds[i - 1];
+      const lower = i === 0 ? 0 : definition.bounds[i - 1];
+      const upper = definition.bounds[i];
+      return lower + ((rank - seen) / counts[i]) * (upper - lower);
+    }
+    seen += counts[i];
+  }
+  return definition.bounds[definition.bounds.length - 1];
+}
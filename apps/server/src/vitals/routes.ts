@@ -0,0 +1,182 @@
+import type { FastifyInstance } from 'fastify';
+import type { Database, WebVitalBucketRow } from '../db/index.js';
+import type { DeploymentTracker } from '../deployments/DeploymentTracker.js';
+import { normalizeRoute } from '../monitoring/detectors/baseline.js';
+import { WEB_VITALS, bucketIndex, isWebVital, percentile, rate, type WebVitalRating } from './metrics.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const MAX_PAGE_VIEWS = 100;
+const MAX_ROUTES = 100;
+const DEFAULT_HOURS = 24;
+const MAX_HOURS = 30 * 24;
+
+// Anything past these is a broken measurement, e.g. a tab left in the background
+const MAX_VALUE = { ms: 10 * 60 * 1000, score: 100 };
+
+interface PageView {
+  url?: string;
+  timestamp?: number;
+  sessionId?: string;
+  release?: string;
+  vitals?: Record<string, unknown>;
+}
+
+export interface WebVitalSummary {
+  samples: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  /** Of the p75, as web.dev rates pages */
+  rating: WebVitalRating;
+}
+
+export interface RouteVitals {
+  route: string;
+  page_views: number;
+  metrics: Record<string, WebVitalSummary>;
+}
+
+/**
+ * Register the browser page-load ingest route and the per-route summary
+ * the dashboard reads.
+ */
+export async function registerWebVitalsRoutes(
+  fastify: FastifyInstance,
+  db: Database,
+  deploymentTracker: DeploymentTracker,
+) {
+  // POST /api/browser-vitals — page-load metrics from @scanwarp/browser, batched
+  fastify.post<{
+    Headers: { 'x-scanwarp-project-id': string };
+    Body: { page_views?: PageView[] };
+  }>('/api/browser-vitals', async (request, reply) => {
+    const projectId = request.headers['x-scanwarp-project-id'];
+    if (!projectId) {
+      reply.code(400);
+      return { error: 'Missing x-scanwarp-project-id header' };
+    }
+
+    const pageViews = request.body?.page_views;
+    if (!Array.isArray(pageViews)) {
+      reply.code(400);
+      return { error: 'Missing or invalid page_views array' };
+    }
+    if (pageViews.length > MAX_PAGE_VIEWS) {
+      reply.code(400);
+      return { error: `At most ${MAX_PAGE_VIEWS} page views per request` };
+    }
+
+    // Bucketed by when they arrived; browser clocks can't be trusted
+    const hour = new Date(Math.floor(Date.now() / HOUR_MS) * HOUR_MS);
+    const counts = new Map<string, WebVitalBucketRow>();
+    const releases = new Set<string>();
+    let accepted = 0;
+
+    for (const view of pageViews) {
+      const route = routeFor(view?.url);
+      if (!route || !view.vitals || typeof view.vitals !== 'object') continue;
+
+      for (const [metric, value] of Object.entries(view.vitals)) {
+        if (!isWebVital(metric) || typeof value !== 'number' || !Number.isFinite(value)) continue;
+        const definition = WEB_VITALS[metric];
+        if (value < 0 || value > MAX_VALUE[definition.unit]) continue;
+
+        const bucket = bucketIndex(definition, value);
+        const key = [route, metric, bucket].join('\n');
+        const row = counts.get(key) ?? { project_id: projectId, hour, route, metric, bucket, count: 0 };
+        row.count++;
+        counts.set(key, row);
+      }
+
+      if (typeof view.release === 'string' && view.release) releases.add(view.release);
+      accepted++;
+    }
+
+    try {
+      if (counts.size > 0) {
+        await db.addWebVitalCounts([...counts.values()]);
+      }
+      for (const release of releases) {
+        await deploymentTracker.observe(projectId, release, 'browser');
+      }
+      return { success: true, accepted };
+    } catch (error) {
+      request.log.error(error);
+      reply.code(500);
+      return { success: false, message: 'Failed to store web vitals' };
+    }
+  });
+
+  // GET /web-vitals — percentiles per route over the last `hours`
+  fastify.get<{ Querystring: { project_id?: string; hours?: string } }>('/web-vitals', async (request, reply) => {
+    const { project_id } = request.query;
+    if (!project_id) {
+      reply.code(400);
+      return { error: 'project_id is required' };
+    }
+
+    const hours = Math.min(Math.max(parseInt(request.query.hours ?? '') || DEFAULT_HOURS, 1), MAX_HOURS);
+    const rows = await db.getWebVitalBuckets({
+      project_id,
+      since: new Date(Date.now() - hours * HOUR_MS),
+    });
+
+    const byRoute = new Map<string, WebVitalBucketRow[]>();
+    for (const row of rows) {
+      byRoute.set(row.route, [...(byRoute.get(row.route) ?? []), row]);
+    }
+
+    const routes = [...byRoute.entries()]
+      .map(([route, routeRows]) => summarize(route, routeRows))
+      .sort((a, b) => b.page_views - a.page_views);
+
+    return {
+      hours,
+      metrics: Object.fromEntries(
+        Object.entries(WEB_VITALS).map(([name, { label, unit, good, poor }]) => [name, { label, unit, good, poor }])
+      ),
+      overall: summarize('*', rows),
+      routes: routes.slice(0, MAX_ROUTES),
+      total_routes: routes.length,
+    };
+  });
+}
+
+/**
+ * The route a page view counts towards: its path with ids collapsed.
+ */
+function routeFor(url: unknown): string | null {
+  if (typeof url !== 'string' || url === '') return null;
+  let path: string;
+  try {
+    path = new URL(url).pathname;
+  } catch {
+    path = url.split(/[?#]/)[0];
+  }
+  return path.startsWith('/') ? normalizeRoute(path) : null;
+}
+
+function summarize(route: string, rows: WebVitalBucketRow[]): RouteVitals {
+  const metrics: Record<string, WebVitalSummary> = {};
+
+  for (const [name, definition] of Object.entries(WEB_VITALS)) {
+    const buckets = rows.filter((r) => r.metric === name);
+    const p75 = percentile(definition, buckets, 75);
+    if (p75 === null) continue;
+
+    const round = (value: number) =>
+      definition.unit === 'ms' ? Math.round(value) : Math.round(value * 1000) / 1000;
+    metrics[name] = {
+      samples: buckets.reduce((sum, b) => sum + b.count, 0),
+      p50: round(percentile(definition, buckets, 50) ?? 0),
+      p75: round(p75),
+      p95: round(percentile(definition, buckets, 95) ?? 0),
+      rating: rate(definition, p75),
+    };
+  }
+
+  // Every page view reports at least one metric, so the most-reported one is the closest count
+  const page_views = Math.max(0, ...Object.values(metrics).map((m) => m.samples));
+  return { route, page_views, metrics };
+}
@@ -0,0 +1,170 @@
+/**
+ * A trail of what happened on the page before an error
+ */
+
+export type BreadcrumbType = 'click' | 'navigation' | 'fetch' | 'xhr' | 'console';
+
+export interface Breadcrumb {
+  type: BreadcrumbType;
+  timestamp: number;
+  message: string;
+  data?: Record<string, string | number | boolean | null>;
+}
+
+export interface BreadcrumbOptions {
+  /** How many to keep; the oldest are dropped first */
+  maxBreadcrumbs: number;
+  /** Extra patterns to replace with [Filtered] in messages and URLs */
+  scrubPatterns?: RegExp[];
+  /** Extra query parameter names whose values are filtered */
+  scrubParams?: string[];
+  /** Change or drop (return null) a breadcrumb after scrubbing */
+  beforeBreadcrumb?: (breadcrumb: Breadcrumb) => Breadcrumb | null;
+}
+
+const FILTERED = '[Filtered]';
+
+// Always scrubbed: emails, card-like numbers and bearer tokens / JWTs
+const DEFAULT_PATTERNS = [
+  /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi,
+  /\b(?:\d[ -]?){12,18}\d\b/g,
+  /\bBearer\s+[A-Za-z0-9._~+/=-]+/g,
+  /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g,
+];
+
+const DEFAULT_PARAMS = [
+  'password', 'passwd', 'pass', 'secret', 'token', 'access_token', 'refresh_token', 'id_token',
+  'api_key', 'apikey', 'key', 'auth', 'code', 'session', 'email', 'phone', 'ssn',
+];
+
+const MAX_TEXT_LENGTH = 40;
+const MAX_MESSAGE_LENGTH = 300;
+
+/**
+ * Fixed-size buffer of breadcrumbs. Everything is scrubbed as it's added,
+ * so nothing unscrubbed is held in memory or reaches beforeSend.
+ */
+export class BreadcrumbTrail {
+  private buffer: Array<Breadcrumb | undefined>;
+  private next: number = 0;
+  private options: BreadcrumbOptions;
+  private patterns: RegExp[];
+  private params: string[];
+
+  constructor(options: BreadcrumbOptions) {
+    this.options = options;
+    this.buffer = new Array(Math.max(0, options.maxBreadcrumbs));
+    this.patterns = DEFAULT_PATTERNS.concat(options.scrubPatterns || []);
+    this.params = DEFAULT_PARAMS.concat((options.scrubParams || []).map((p) => p.toLowerCase()));
+  }
+
+  add(type: BreadcrumbType, message: string, data?: Breadcrumb['data']) {
+    if (this.buffer.length === 0) return;
+
+    let breadcrumb: Breadcrumb | null = {
+      type,
+      timestamp: Date.now(),
+      message: this.scrubText(message).slice(0, MAX_MESSAGE_LENGTH),
+    };
+    if (data) {
+      breadcrumb.data = {};
+      for (const key of Object.keys(data)) {
+        const value = data[key];
+        breadcrumb.data[key] = typeof value === 'string' ? this.scrubText(value) : value;
+      }
+    }
+
+    if (this.options.beforeBreadcrumb) {
+      try {
+        breadcrumb = this.options.beforeBreadcrumb(breadcrumb);
+      } catch {
+        // A broken hook drops the breadcrumb instead of breaking the page
+        breadcrumb = null;
+      }
+      if (!breadcrumb) return;
+    }
+
+    this.buffer[this.next] = breadcrumb;
+    this.next = (this.next + 1) % this.buffer.length;
+  }
+
+  /** Oldest first */
+  snapshot(): Breadcrumb[] {
+    const ordered = this.buffer.slice(this.next).concat(this.buffer.slice(0, this.next));
+    return ordered.filter((b): b is Breadcrumb => b !== undefined);
+  }
+
+  /**
+   * A URL with sensitive query values filtered, and relative to the page
+   * when it's on the same origin.
+   */
+  scrubUrl(value: string): string {
+    let url: URL;
+    try {
+      url = new URL(value, window.location.href);
+    } catch {
+      return this.scrubText(value);
+    }
+
+    const query = url.search
+      .slice(1)
+      .split('&')
+      .filter((pair) => pair !== '')
+      .map((pair) => {
+        const name = pair.split('=')[0];
+        return this.params.indexOf(decodeParam(name).toLowerCase()) === -1 ? pair : `${name}=${FILTERED}`;
+      })
+      .join('&');
+
+    const origin = url.origin === window.location.origin ? '' : url.origin;
+    return this.scrubText(`${origin}${url.pathname}${query ? `?${query}` : ''}`);
+  }
+
+  private scrubText(value: string): string {
+    return this.patterns.reduce((text, pattern) => text.replace(pattern, FILTERED), value);
+  }
+}
+
+function decodeParam(name: string): string {
+  try {
+    return decodeURIComponent(name.replace(/\+/g, ' '));
+  } catch {
+    return name;
+  }
+}
+
+/**
+ * A short CSS-like description of a clicked element, e.g.
+ * 'form#checkout > button.primary "Pay now"'. Field values are never read;
+ * text is only taken from buttons and links.
+ */
+export function describeElement(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.body && parts.length < 3) {
+    let part = current.tagName.toLowerCase();
+    if (current.id) {
+      part += `#${current.id}`;
+    } else {
+      const classes = (current.getAttribute('class') || '').trim().split(/\s+/).filter(Boolean).slice(0, 2);
+      if (classes.length > 0) part += `.${classes.join('.')}`;
+    }
+    const testId = current.getAttribute('data-testid');
+    if (testId) part += `[data-testid="${testId}"]`;
+    parts.unshift(part);
+
+    // An id is specific enough on its own
+    if (current.id) break;
+    current = current.parentElement;
+  }
+
+  let description = parts.join(' > ');
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'button' || tag === 'a' || element.getAttribute('role') === 'button') {
+    const label = element.getAttribute('aria-label') || element.textContent || '';
+    const text = label.replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH);
+    if (text) description += ` "${text}"`;
+  }
+  return description;
+}
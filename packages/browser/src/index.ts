@@ -3,6 +3,11 @@
  * Production frontend error tracking
  */
 
+import { BreadcrumbTrail, describeElement, type Breadcrumb, type BreadcrumbType } from './breadcrumbs';
+import { ReplayRecorder } from './replay';
+import { TracePropagation, createTraceContext, traceIdFrom } from './tracing';
+import { VitalsCollector, type PageVitals } from './vitals';
+
 interface BrowserError {
   type: string;
   message: string;
@@ -14,13 +19,76 @@ interface BrowserError {
   lineno?: number;
   colno?: number;
   sessionId: string;
+  release?: string;
+  /** What happened on the page before the error, oldest first */
+  breadcrumbs?: Breadcrumb[];
+  /** For failed requests, the trace the backend recorded them under */
+  traceId?: string;
+  /** Id of the DOM recording sent to /api/browser-replays for this error */
+  replayId?: string;
+  /** Times the error happened before it was sent, when more than once */
+  count?: number;
+  /** When the last repeat happened */
+  lastSeen?: number;
+}
+
+/** One page load's unsent errors in localStorage */
+interface StoredQueue {
+  errors: BrowserError[];
+  /** Refreshed while the page is open, so other tabs can tell it's still there */
+  updatedAt: number;
+}
+
+interface PageView {
+  url: string;
+  timestamp: number;
+  sessionId: string;
+  release?: string;
+  vitals: PageVitals;
 }
 
 interface ScanWarpConfig {
   serverUrl: string;
   projectId: string;
+  /** Ingest-scoped API key, needed when the server sets AUTH_REQUIRED */
+  apiKey?: string;
+  /** Build id the uploaded source maps are keyed by (`scanwarp sourcemaps upload --release`) */
+  release?: string;
   sampleRate?: number;
   debug?: boolean;
+  /**
+   * Keep unsent errors in localStorage, so errors captured offline or just
+   * before the page closed are sent on the next page load (default true)
+   */
+  persistQueue?: boolean;
+  /** Report Core Web Vitals and page load timing (default true) */
+  vitals?: boolean;
+  /** Add a W3C traceparent header to same-origin requests (default true) */
+  tracePropagation?: boolean;
+  /**
+   * Cross-origin URL prefixes (or patterns) that also get traceparent. Their
+   * CORS settings must allow the header.
+   */
+  tracePropagationTargets?: Array<string | RegExp>;
+  /** Breadcrumbs attached to each error (default 30, 0 turns them off) */
+  maxBreadcrumbs?: number;
+  /**
+   * Extra patterns to replace with [Filtered] in breadcrumbs. Emails,
+   * card-like numbers and bearer tokens are always filtered.
+   */
+  scrubPatterns?: RegExp[];
+  /** Extra query parameters whose values are filtered from breadcrumb URLs */
+  scrubParams?: string[];
+  /** Change or drop (return null) a breadcrumb, after scrubbing */
+  beforeBreadcrumb?: (breadcrumb: Breadcrumb) => Breadcrumb | null;
+  /**
+   * Record the DOM and send the last ~30 seconds along with errors (default
+   * false). Input values are always masked; mark elements to hide entirely
+   * with data-scanwarp-block.
+   */
+  replay?: boolean;
+  /** Mask page text in replays, except under [data-scanwarp-unmask] (default true) */
+  replayMaskText?: boolean;
   beforeSend?: (error: BrowserError) => BrowserError | null;
 }
 
@@ -32,14 +100,38 @@ class ScanWarpBrowser {
   private maxQueueSize: number = 50;
   private retryCount: number = 0;
   private maxRetries: number = 3;
+  private storageKey: string;
+  private maxStoredErrors: number = 100;
+  private maxStoredAge: number = 24 * 60 * 60 * 1000; // 24 hours
+  private storedQueueStaleAfter: number = 3 * 60 * 1000; // background tabs may only run timers once a minute
+  private ownsStoredQueue: boolean = false;
+  private maxBeaconSize: number = 60000; // browsers cap beacons at 64KB
+  private compressThreshold: number = 1024;
+  private vitalsCollector: VitalsCollector | null = null;
+  private vitalsSent: boolean = false;
+  private breadcrumbs: BreadcrumbTrail | null = null;
+  private tracing: TracePropagation | null = null;
+  private replay: ReplayRecorder | null = null;
+  private pendingReplayId: string | null = null;
+  private lastReplayAt: number = 0;
+  private replayUploadDelay: number = 1000; // so the replay shows how the page reacted
+  private replayInterval: number = 30000; // at most one replay per window
+  private maxReplaySize: number = 2 * 1024 * 1024;
 
   constructor(config: ScanWarpConfig) {
     this.config = {
       sampleRate: 1.0,
       debug: false,
+      persistQueue: true,
+      vitals: true,
+      maxBreadcrumbs: 30,
+      tracePropagation: true,
+      replay: false,
+      replayMaskText: true,
       ...config,
     };
     this.sessionId = this.generateSessionId();
+    this.storageKey = `scanwarp_queue_${this.config.projectId}`;
     this.init();
   }
 
@@ -52,8 +144,25 @@ class ScanWarpBrowser {
       return;
     }
 
+    if (this.config.maxBreadcrumbs) {
+      this.setupBreadcrumbs();
+    }
+    if (this.config.tracePropagation) {
+      this.tracing = new TracePropagation(this.config.tracePropagationTargets || [], this.config.serverUrl);
+    }
+    if (this.config.persistQueue) {
+      this.adoptStoredQueues();
+    }
     this.setupErrorHandlers();
     this.startFlushInterval();
+    this.setupPageExitFlush();
+    if (this.config.vitals) {
+      this.setupVitals();
+    }
+    if (this.config.replay) {
+      this.replay = new ReplayRecorder({ maskText: this.config.replayMaskText !== false });
+      this.replay.start();
+    }
     this.log('Initialized');
   }
 
@@ -61,14 +170,15 @@ class ScanWarpBrowser {
     // Capture console.error
     const originalError = console.error;
     console.error = (...args: unknown[]) => {
+      const message = this.consoleMessage(args);
       this.captureError({
         type: 'console.error',
-        message: args
-          .map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg)))
-          .join(' '),
+        message,
         timestamp: Date.now(),
         stack: new Error().stack,
       });
+      // After capturing, so the error's own trail doesn't end with itself
+      this.addBreadcrumb('console', message, { level: 'error' });
       originalError.apply(console, args);
     };
 
@@ -107,6 +217,94 @@ class ScanWarpBrowser {
     this.interceptXHR();
   }
 
+  private setupBreadcrumbs() {
+    this.breadcrumbs = new BreadcrumbTrail({
+      maxBreadcrumbs: this.config.maxBreadcrumbs || 0,
+      scrubPatterns: this.config.scrubPatterns,
+      scrubParams: this.config.scrubParams,
+      beforeBreadcrumb: this.config.beforeBreadcrumb,
+    });
+
+    // Capture phase, so clicks stopped by the page are still seen
+    document.addEventListener(
+      'click',
+      (event) => {
+        if (!(event.target instanceof Element)) return;
+        const element =
+          event.target.closest('a, button, [role="button"], input, select, textarea, label, summary') || event.target;
+        this.addBreadcrumb('click', describeElement(element));
+      },
+      true
+    );
+
+    // Route changes in single-page apps go through the history API
+    let lastUrl = window.location.href;
+    const recordNavigation = () => {
+      const url = window.location.href;
+      if (url === lastUrl || !this.breadcrumbs) return;
+      const from = this.breadcrumbs.scrubUrl(lastUrl);
+      const to = this.breadcrumbs.scrubUrl(url);
+      this.addBreadcrumb('navigation', `${from} → ${to}`, { from, to });
+      lastUrl = url;
+    };
+    const wrapHistory = (method: 'pushState' | 'replaceState') => {
+      const original = history[method];
+      history[method] = (...args: Parameters<History['pushState']>) => {
+        const result = original.apply(history, args);
+        recordNavigation();
+        return result;
+      };
+    };
+    wrapHistory('pushState');
+    wrapHistory('replaceState');
+    window.addEventListener('popstate', recordNavigation);
+    window.addEventListener('hashchange', recordNavigation);
+
+    const originalWarn = console.warn;
+    console.warn = (...args: unknown[]) => {
+      this.addBreadcrumb('console', this.consoleMessage(args), { level: 'warn' });
+      originalWarn.apply(console, args);
+    };
+  }
+
+  private addBreadcrumb(type: BreadcrumbType, message: string, data?: Breadcrumb['data']) {
+    if (this.breadcrumbs) {
+      this.breadcrumbs.add(type, message, data);
+    }
+  }
+
+  private addRequestBreadcrumb(
+    type: 'fetch' | 'xhr',
+    method: string,
+    url: string,
+    status: number,
+    start: number,
+    traceId?: string
+  ) {
+    if (!this.breadcrumbs) return;
+
+    // Our own error and vitals reports aren't part of the user's trail
+    try {
+      if (new URL(url, window.location.href).href.indexOf(this.config.serverUrl) === 0) return;
+    } catch {
+      // Not a URL the page could have fetched anyway; record it as given
+    }
+
+    const path = this.breadcrumbs.scrubUrl(url);
+    const verb = method.toUpperCase();
+    this.breadcrumbs.add(type, `${verb} ${path} → ${status || 'failed'}`, {
+      method: verb,
+      url: path,
+      status_code: status || null,
+      duration_ms: Date.now() - start,
+      trace_id: traceId || null,
+    });
+  }
+
+  private consoleMessage(args: unknown[]): string {
+    return args.map((arg) => (typeof arg === 'object' ? JSON.stringify(arg) : String(arg))).join(' ');
+  }
+
   private checkBlankScreen() {
     const body = document.body;
     const hasContent =
@@ -124,22 +322,44 @@ class ScanWarpBrowser {
   private interceptFetch() {
     const originalFetch = window.fetch;
     window.fetch = async (...args: Parameters<typeof fetch>) => {
+      const [input, init] = args;
+      const url = typeof input === 'string' ? input : input instanceof Request ? input.url : String(input);
+      const method = (init && init.method) || (input instanceof Request ? input.method : 'GET');
+      const start = Date.now();
+
+      // Keep a traceparent the page set itself, so its trace is the one recorded
+      let traceId: string | undefined;
+      if (this.tracing && this.tracing.shouldPropagate(url)) {
+        const headers = new Headers((init && init.headers) || (input instanceof Request ? input.headers : undefined));
+        traceId = traceIdFrom(headers.get('traceparent'));
+        if (!traceId) {
+          const context = createTraceContext();
+          headers.set('traceparent', context.traceparent);
+          traceId = context.traceId;
+          args[1] = { ...init, headers };
+        }
+      }
+
       try {
         const response = await originalFetch(...args);
+        this.addRequestBreadcrumb('fetch', method, url, response.status, start, traceId);
         if (!response.ok && response.status >= 400) {
           this.captureError({
             type: 'network_error',
             message: `Fetch failed: ${args[0]} - ${response.status} ${response.statusText}`,
             timestamp: Date.now(),
+            traceId,
           });
         }
         return response;
       } catch (error) {
+        this.addRequestBreadcrumb('fetch', method, url, 0, start, traceId);
         this.captureError({
           type: 'network_error',
           message: `Fetch error: ${args[0]} - ${error instanceof Error ? error.message : String(error)}`,
           stack: error instanceof Error ? error.stack : undefined,
           timestamp: Date.now(),
+          traceId,
         });
         throw error;
       }
@@ -147,30 +367,59 @@ class ScanWarpBrowser {
   }
 
   private interceptXHR() {
+    type TrackedRequest = XMLHttpRequest & { _url: string; _method: string; _traceparent?: string; _traceId?: string };
     const originalOpen = XMLHttpRequest.prototype.open;
     const originalSend = XMLHttpRequest.prototype.send;
+    const originalSetRequestHeader = XMLHttpRequest.prototype.setRequestHeader;
 
     XMLHttpRequest.prototype.open = function (method: string, url: string | URL, ...args: unknown[]) {
       (this as XMLHttpRequest & { _url: string })._url = String(url);
+      (this as XMLHttpRequest & { _method: string })._method = method;
+      (this as TrackedRequest)._traceparent = undefined;
       return originalOpen.call(this, method, url, ...(args as [boolean?, string?, string?]));
     };
 
+    // Remember a traceparent the page sets, so a second one isn't appended to it
+    XMLHttpRequest.prototype.setRequestHeader = function (name: string, value: string) {
+      if (name.toLowerCase() === 'traceparent') {
+        (this as TrackedRequest)._traceparent = value;
+      }
+      return originalSetRequestHeader.call(this, name, value);
+    };
+
     const self = this;
     XMLHttpRequest.prototype.send = function (...args: unknown[]) {
+      const start = Date.now();
+      const request = this as TrackedRequest;
+
+      request._traceId = undefined;
+      if (self.tracing && self.tracing.shouldPropagate(request._url)) {
+        request._traceId = traceIdFrom(request._traceparent || null);
+        if (!request._traceId) {
+          const context = createTraceContext();
+          originalSetRequestHeader.call(this, 'traceparent', context.traceparent);
+          request._traceId = context.traceId;
+        }
+      }
+
       this.addEventListener('error', function () {
+        self.addRequestBreadcrumb('xhr', request._method, request._url, 0, start, request._traceId);
         self.captureError({
           type: 'network_error',
           message: `XHR error: ${(this as XMLHttpRequest & { _url: string })._url}`,
           timestamp: Date.now(),
+          traceId: request._traceId,
         });
       });
 
       this.addEventListener('load', function () {
+        self.addRequestBreadcrumb('xhr', request._method, request._url, this.status, start, request._traceId);
         if (this.status >= 400) {
           self.captureError({
             type: 'network_error',
             message: `XHR failed: ${(this as XMLHttpRequest & { _url: string })._url} - ${this.status} ${this.statusText}`,
             timestamp: Date.now(),
+            traceId: request._traceId,
           });
         }
       });
@@ -191,6 +440,9 @@ class ScanWarpBrowser {
       lineno: errorData.lineno,
       colno: errorData.colno,
       sessionId: this.sessionId,
+      release: this.config.release,
+      breadcrumbs: this.breadcrumbs ? this.breadcrumbs.snapshot() : undefined,
+      traceId: errorData.traceId,
     };
 
     // beforeSend hook
@@ -200,7 +452,22 @@ class ScanWarpBrowser {
       Object.assign(error, modified);
     }
 
+    // Repeats of an error that hasn't been sent yet only add to its count
+    const key = this.errorKey(error);
+    const duplicate = this.errorQueue.find((queued) => this.errorKey(queued) === key);
+    if (duplicate) {
+      duplicate.count = (duplicate.count || 1) + 1;
+      duplicate.lastSeen = error.timestamp;
+      this.persistQueue();
+      return;
+    }
+
+    if (this.replay) {
+      error.replayId = this.scheduleReplay();
+    }
+
     this.errorQueue.push(error);
+    this.persistQueue();
 
     this.log(`Captured ${error.type}: ${error.message}`);
 
@@ -212,42 +479,329 @@ class ScanWarpBrowser {
 
   private startFlushInterval() {
     setInterval(() => {
+      if (this.config.persistQueue) this.adoptStoredQueues();
       this.flush();
     }, this.flushInterval);
   }
 
+  private errorKey(error: BrowserError): string {
+    return [error.type, error.message, error.filename, error.lineno, error.colno].join('|');
+  }
+
   private async flush() {
     if (this.errorQueue.length === 0) return;
 
+    // Another tab decided this one was gone and took over its errors
+    if (this.lostStoredQueue()) return;
+
+    // Offline: keep the errors until the connection is back
+    if (navigator.onLine === false) {
+      this.persistQueue();
+      return;
+    }
+
     const errors = [...this.errorQueue];
     this.errorQueue = [];
 
+    const unsent = await this.sendErrors(errors);
+    if (unsent.length === 0) {
+      this.retryCount = 0;
+      this.persistQueue();
+      return;
+    }
+
+    // Keep them for the next flush, or the next page load
+    this.errorQueue = unsent.concat(this.errorQueue).slice(-this.maxStoredErrors);
+    this.persistQueue();
+
+    if (this.retryCount < this.maxRetries) {
+      this.retryCount++;
+      setTimeout(() => this.flush(), 1000 * this.retryCount);
+    }
+  }
+
+  /**
+   * POST a batch of errors and return the ones worth trying again. A batch
+   * the server finds too large is split in half until the pieces fit.
+   */
+  private async sendErrors(errors: BrowserError[]): Promise<BrowserError[]> {
+    let response: Response;
     try {
-      const response = await fetch(`${this.config.serverUrl}/api/browser-errors`, {
+      const { body, size, gzip } = await this.encodeBody(JSON.stringify({ errors }));
+      response = await fetch(`${this.config.serverUrl}/api/browser-errors`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-scanwarp-project-id': this.config.projectId,
-        },
-        body: JSON.stringify({ errors }),
+        headers: gzip ? { ...this.requestHeaders(), 'Content-Encoding': 'gzip' } : this.requestHeaders(),
+        body,
+        // Lets the request finish if the page is closed in the meantime
+        keepalive: size < this.maxBeaconSize,
       });
+    } catch (error) {
+      this.log(`Failed to send errors: ${error instanceof Error ? error.message : error}`);
+      return errors;
+    }
 
-      if (!response.ok) {
-        throw new Error(`Server responded with ${response.status}`);
+    if (response.ok) {
+      this.log(`Sent ${errors.length} errors`);
+      return [];
+    }
+
+    if (response.status === 413) {
+      if (errors.length === 1) {
+        this.log('Dropped an error that is too large for the server');
+        return [];
       }
+      const half = Math.ceil(errors.length / 2);
+      const first = await this.sendErrors(errors.slice(0, half));
+      return first.concat(await this.sendErrors(errors.slice(half)));
+    }
 
-      this.retryCount = 0;
-      this.log(`Sent ${errors.length} errors`);
-    } catch (error) {
-      this.log(`Failed to send errors: ${error instanceof Error ? error.message : error}`);
+    // A key, rate limit or server problem can clear up; anything else would be rejected again
+    const status = response.status;
+    if (status === 401 || status === 403 || status === 429 || status >= 500) {
+      this.log(`Server responded with ${status}, keeping ${errors.length} errors`);
+      return errors;
+    }
+
+    this.log(`Server rejected ${errors.length} errors with ${status}`);
+    return [];
+  }
+
+  /** Gzip bodies worth compressing, where the browser has CompressionStream */
+  private async encodeBody(json: string): Promise<{ body: string | ArrayBuffer; size: number; gzip: boolean }> {
+    if (json.length >= this.compressThreshold && typeof CompressionStream !== 'undefined') {
+      try {
+        const stream = new Blob([json]).stream().pipeThrough(new CompressionStream('gzip'));
+        const body = await new Response(stream).arrayBuffer();
+        return { body, size: body.byteLength, gzip: true };
+      } catch {
+        // Send it uncompressed instead
+      }
+    }
+    return { body: json, size: json.length, gzip: false };
+  }
+
+  private setupPageExitFlush() {
+    // The flush interval won't run again once the page is hidden or closed
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flushWithBeacon();
+    });
+    window.addEventListener('pagehide', () => this.flushWithBeacon());
+    window.addEventListener('online', () => this.flush());
+  }
 
-      // Retry logic
-      if (this.retryCount < this.maxRetries) {
-        this.retryCount++;
-        this.errorQueue.unshift(...errors);
-        setTimeout(() => this.flush(), 1000 * this.retryCount);
+  /**
+   * Send the queue with navigator.sendBeacon, which outlives the page. Beacons
+   * can't set headers, so the project and key go in the query string; the
+   * server redacts the key from its request logs. Whatever the browser won't
+   * take is kept in storage for the next page load.
+   */
+  private flushWithBeacon() {
+    if (this.errorQueue.length === 0) return;
+    if (typeof navigator.sendBeacon !== 'function' || navigator.onLine === false) {
+      this.persistQueue();
+      return;
+    }
+
+    const url =
+      `${this.config.serverUrl}/api/browser-errors/beacon?project_id=${encodeURIComponent(this.config.projectId)}` +
+      (this.config.apiKey ? `&api_key=${encodeURIComponent(this.config.apiKey)}` : '');
+
+    const unsent: BrowserError[] = [];
+    let batch: BrowserError[] = [];
+    let batchSize = 0;
+    const send = () => {
+      if (batch.length > 0 && !navigator.sendBeacon(url, JSON.stringify({ errors: batch }))) {
+        unsent.push(...batch);
       }
+      batch = [];
+      batchSize = 0;
+    };
+
+    for (const error of this.errorQueue) {
+      const size = JSON.stringify(error).length + 1;
+      if (batchSize + size > this.maxBeaconSize) send();
+      batch.push(error);
+      batchSize += size;
     }
+    send();
+
+    this.log(`Sent ${this.errorQueue.length - unsent.length} errors with sendBeacon`);
+    this.errorQueue = unsent;
+    this.persistQueue();
+  }
+
+  /**
+   * Stored errors are grouped by the page load that queued them, so tabs of
+   * the same site don't overwrite each other's. Each tab only writes its own
+   * entry, and only takes over entries whose tab stopped refreshing them.
+   */
+  private readStored(): Record<string, StoredQueue> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(this.storageKey) || '{}');
+      return stored && typeof stored === 'object' && !Array.isArray(stored) ? stored : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private writeStored(stored: Record<string, StoredQueue>): boolean {
+    try {
+      if (Object.keys(stored).length > 0) {
+        localStorage.setItem(this.storageKey, JSON.stringify(stored));
+      } else {
+        localStorage.removeItem(this.storageKey);
+      }
+      return true;
+    } catch {
+      // Storage can be full, or blocked in private browsing
+      return false;
+    }
+  }
+
+  private persistQueue() {
+    if (!this.config.persistQueue) return;
+    const stored = this.readStored();
+    if (this.errorQueue.length > 0) {
+      stored[this.sessionId] = { errors: this.errorQueue.slice(-this.maxStoredErrors), updatedAt: Date.now() };
+    } else {
+      delete stored[this.sessionId];
+    }
+    this.ownsStoredQueue = this.writeStored(stored) && this.errorQueue.length > 0;
+  }
+
+  /** Called before sending; drops the queue if another tab already took it over */
+  private lostStoredQueue(): boolean {
+    if (!this.config.persistQueue || !this.ownsStoredQueue) return false;
+    if (this.readStored()[this.sessionId]) return false;
+
+    this.log(`Another tab took over ${this.errorQueue.length} unsent errors`);
+    this.errorQueue = [];
+    this.ownsStoredQueue = false;
+    return true;
+  }
+
+  /** Take over the errors of earlier page loads that are closed, leaving open tabs' alone */
+  private adoptStoredQueues() {
+    const now = Date.now();
+    const since = now - this.maxStoredAge;
+    const stored = this.readStored();
+    let taken = 0;
+    let adopted = 0;
+
+    for (const owner of Object.keys(stored)) {
+      if (owner === this.sessionId) continue;
+      const entry = stored[owner];
+      // Entries written before updatedAt existed are plain arrays
+      const errors = Array.isArray(entry) ? entry : Array.isArray(entry?.errors) ? entry.errors : [];
+      const updatedAt = Array.isArray(entry) ? 0 : Number(entry?.updatedAt) || 0;
+      if (now - updatedAt < this.storedQueueStaleAfter) continue;
+
+      for (const error of errors) {
+        if (error && typeof error.message === 'string' && (error.lastSeen || error.timestamp) > since) {
+          this.errorQueue.push(error);
+          adopted++;
+        }
+      }
+      delete stored[owner];
+      taken++;
+    }
+
+    if (taken === 0) return;
+
+    this.errorQueue = this.errorQueue.slice(-this.maxStoredErrors);
+    if (this.errorQueue.length > 0) {
+      stored[this.sessionId] = { errors: this.errorQueue, updatedAt: now };
+    }
+    this.ownsStoredQueue = this.writeStored(stored) && this.errorQueue.length > 0;
+    if (adopted > 0) {
+      this.log(`Restored ${adopted} unsent errors`);
+    }
+  }
+
+  /**
+   * Id of the replay to attach to an error. Errors close together share one
+   * replay; after it's sent, errors get none until the interval has passed.
+   */
+  private scheduleReplay(): string | undefined {
+    if (this.pendingReplayId) return this.pendingReplayId;
+    if (Date.now() - this.lastReplayAt < this.replayInterval) return undefined;
+
+    const id = this.generateSessionId();
+    this.pendingReplayId = id;
+    setTimeout(() => this.sendReplay(id), this.replayUploadDelay);
+    return id;
+  }
+
+  private sendReplay(id: string) {
+    this.pendingReplayId = null;
+    this.lastReplayAt = Date.now();
+    if (!this.replay) return;
+
+    // Drop the oldest segments of a replay that's too big to send
+    const segments = this.replay.recording();
+    let body = JSON.stringify({ id, sessionId: this.sessionId, segments });
+    while (body.length > this.maxReplaySize && segments.length > 1) {
+      segments.shift();
+      body = JSON.stringify({ id, sessionId: this.sessionId, segments });
+    }
+    if (body.length > this.maxReplaySize) {
+      this.log('Replay too large to send');
+      return;
+    }
+
+    fetch(`${this.config.serverUrl}/api/browser-replays`, {
+      method: 'POST',
+      headers: this.requestHeaders(),
+      body,
+    }).then(
+      (response) => this.log(response.ok ? 'Sent replay' : `Failed to send replay: ${response.status}`),
+      (error) => this.log(`Failed to send replay: ${error instanceof Error ? error.message : error}`)
+    );
+  }
+
+  private setupVitals() {
+    this.vitalsCollector = new VitalsCollector();
+
+    // INP and CLS are only final once the user leaves, so report then
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.sendVitals();
+    });
+    window.addEventListener('pagehide', () => this.sendVitals());
+  }
+
+  private sendVitals() {
+    if (!this.vitalsCollector || this.vitalsSent) return;
+
+    const vitals = this.vitalsCollector.collect();
+    if (Object.keys(vitals).length === 0) return;
+    this.vitalsSent = true;
+
+    const pageView: PageView = {
+      url: window.location.href,
+      timestamp: Date.now(),
+      sessionId: this.sessionId,
+      release: this.config.release,
+      vitals,
+    };
+
+    // keepalive lets the request outlive the page
+    fetch(`${this.config.serverUrl}/api/browser-vitals`, {
+      method: 'POST',
+      keepalive: true,
+      headers: this.requestHeaders(),
+      body: JSON.stringify({ page_views: [pageView] }),
+    }).then(
+      () => this.log('Sent page vitals'),
+      (error) => this.log(`Failed to send page vitals: ${error instanceof Error ? error.message : error}`)
+    );
+  }
+
+  private requestHeaders(): Record<string, string> {
+    return {
+      'Content-Type': 'application/json',
+      'x-scanwarp-project-id': this.config.projectId,
+      ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+    };
   }
 
   private generateSessionId(): string {
@@ -282,6 +836,26 @@ class ScanWarpBrowser {
     scriptTag.dataset.sampleRate || scriptTag.getAttribute('data-sample-rate') || '1.0'
   );
   const debug = scriptTag.dataset.debug === 'true' || scriptTag.getAttribute('data-debug') === 'true';
+  const apiKey = scriptTag.dataset.apiKey || scriptTag.getAttribute('data-api-key') || undefined;
+  const release = scriptTag.dataset.release || scriptTag.getAttribute('data-release') || undefined;
+  const maxBreadcrumbs = parseInt(
+    scriptTag.dataset.maxBreadcrumbs || scriptTag.getAttribute('data-max-breadcrumbs') || '30',
+    10
+  );
+  const tracePropagation =
+    (scriptTag.dataset.tracePropagation || scriptTag.getAttribute('data-trace-propagation')) !== 'false';
+  const tracePropagationTargets = (
+    scriptTag.dataset.tracePropagationTargets || scriptTag.getAttribute('data-trace-propagation-targets') || ''
+  )
+    .split(',')
+    .map((target) => target.trim())
+    .filter(Boolean);
+  const vitals = (scriptTag.dataset.vitals || scriptTag.getAttribute('data-vitals')) !== 'false';
+  const persistQueue =
+    (scriptTag.dataset.persistQueue || scriptTag.getAttribute('data-persist-queue')) !== 'false';
+  const replay = (scriptTag.dataset.replay || scriptTag.getAttribute('data-replay')) === 'true';
+  const replayMaskText =
+    (scriptTag.dataset.replayMaskText || scriptTag.getAttribute('data-replay-mask-text')) !== 'false';
 
   if (!serverUrl || !projectId) {
     console.warn('[ScanWarp] Missing data-server-url or data-project-id attributes');
@@ -291,8 +865,17 @@ class ScanWarpBrowser {
   const instance = new ScanWarpBrowser({
     serverUrl,
     projectId,
+    apiKey,
+    release,
     sampleRate,
     debug,
+    persistQueue,
+    vitals,
+    maxBreadcrumbs: isNaN(maxBreadcrumbs) ? 30 : maxBreadcrumbs,
+    tracePropagation,
+    tracePropagationTargets,
+    replay,
+    replayMaskText,
   });
 
   // Expose to window for custom tracking
@@ -0,0 +1,364 @@
+/**
+ * Replay-lite: a compact log of the page's DOM over the last ~30 seconds,
+ * uploaded with an error so the incident page can show what the user saw
+ */
+
+export interface SerializedElement {
+  id: number;
+  tag: string;
+  attrs: Record<string, string>;
+  children: SerializedNode[];
+  svg?: boolean;
+  /** Rules of a <style> filled through the CSSOM, which leaves its text empty */
+  css?: string;
+  /** Scroll offset of a scrolled element, as [x, y] */
+  scroll?: [number, number];
+}
+
+export interface SerializedText {
+  id: number;
+  text: string;
+}
+
+export type SerializedNode = SerializedElement | SerializedText;
+
+export type ReplayEvent =
+  | { t: number; type: 'add'; parentId: number; nextId: number | null; node: SerializedNode }
+  | { t: number; type: 'remove'; id: number }
+  | { t: number; type: 'attr'; id: number; name: string; value: string | null }
+  | { t: number; type: 'text'; id: number; text: string }
+  | { t: number; type: 'input'; id: number; value?: string; checked?: boolean; selectedIndex?: number }
+  /** `id` is null for the window */
+  | { t: number; type: 'scroll'; id: number | null; x: number; y: number }
+  | { t: number; type: 'viewport'; width: number; height: number };
+
+/** A full snapshot of the page followed by everything that changed after it */
+export interface ReplaySegment {
+  t: number;
+  href: string;
+  width: number;
+  height: number;
+  node: SerializedNode;
+  events: ReplayEvent[];
+}
+
+export interface ReplayOptions {
+  /**
+   * Replace text with asterisks, except under [data-scanwarp-unmask].
+   * Input values are masked either way.
+   */
+  maskText: boolean;
+}
+
+// A new snapshot this often keeps old mutations from piling up
+const SEGMENT_MS = 15000;
+const REPLAY_WINDOW_MS = 30000;
+
+// Per segment, so a huge page or a busy animation can't eat the tab's memory
+const MAX_NODES = 20000;
+const MAX_EVENTS = 5000;
+
+const SCROLL_COALESCE_MS = 100;
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Never recorded: their content either runs or isn't shown
+const IGNORED_TAGS = ['script', 'noscript', 'template'];
+
+// Recorded as an empty box of the same size
+const PLACEHOLDER_TAGS = ['iframe', 'object', 'embed'];
+
+// Attributes that carry text the user can read
+const TEXT_ATTRS = ['title', 'alt', 'placeholder', 'aria-label'];
+
+function mask(text: string): string {
+  return text.replace(/\S/g, '*');
+}
+
+/**
+ * Records the DOM with a MutationObserver. Nodes are given ids as they're
+ * serialized, so later events can refer to them. Text and input values are
+ * masked as they're recorded, so nothing unmasked is held in memory.
+ */
+export class ReplayRecorder {
+  private options: ReplayOptions;
+  private ids = new WeakMap<Node, number>();
+  private nextId = 1;
+  private nodeCount = 0;
+  private segments: ReplaySegment[] = [];
+
+  constructor(options: ReplayOptions) {
+    this.options = options;
+  }
+
+  start() {
+    if (typeof MutationObserver === 'undefined' || !document.documentElement) return;
+
+    this.checkpoint();
+    new MutationObserver((records) => this.onMutations(records)).observe(document, {
+      childList: true,
+      subtree: true,
+      attributes: true,
+      characterData: true,
+    });
+
+    // Capture phase, since scroll doesn't bubble and pages stop input events
+    document.addEventListener('input', (event) => this.onInput(event), true);
+    document.addEventListener('change', (event) => this.onInput(event), true);
+    document.addEventListener('scroll', (event) => this.onScroll(event), { capture: true, passive: true });
+    window.addEventListener('resize', () =>
+      this.push({ t: Date.now(), type: 'viewport', width: window.innerWidth, height: window.innerHeight })
+    );
+
+    setInterval(() => this.checkpoint(), SEGMENT_MS);
+  }
+
+  /** The segments covering at least the last 30 seconds, oldest first */
+  recording(): ReplaySegment[] {
+    const since = Date.now() - REPLAY_WINDOW_MS;
+    let first = 0;
+    while (first < this.segments.length - 1 && this.segments[first + 1].t <= since) first++;
+    return this.segments.slice(first);
+  }
+
+  private checkpoint() {
+    const now = Date.now();
+    this.nodeCount = 0;
+    const node = this.serialize(document.documentElement);
+    if (!node) return;
+
+    const segment: ReplaySegment = {
+      t: now,
+      href: window.location.href,
+      width: window.innerWidth,
+      height: window.innerHeight,
+      node,
+      events: [],
+    };
+    if (window.pageXOffset || window.pageYOffset) {
+      segment.events.push({ t: now, type: 'scroll', id: null, x: window.pageXOffset, y: window.pageYOffset });
+    }
+    this.segments.push(segment);
+
+    // Keep the segment the window starts in, and everything after it
+    while (this.segments.length > 1 && this.segments[1].t <= now - REPLAY_WINDOW_MS) {
+      this.segments.shift();
+    }
+  }
+
+  private push(event: ReplayEvent) {
+    let segment = this.segments[this.segments.length - 1];
+    if (!segment) return;
+    if (segment.events.length >= MAX_EVENTS) {
+      this.checkpoint();
+      segment = this.segments[this.segments.length - 1];
+    }
+    segment.events.push(event);
+  }
+
+  private lastEvent(): ReplayEvent | undefined {
+    const segment = this.segments[this.segments.length - 1];
+    return segment && segment.events[segment.events.length - 1];
+  }
+
+  private idFor(node: Node): number {
+    let id = this.ids.get(node);
+    if (id === undefined) {
+      id = this.nextId++;
+      this.ids.set(node, id);
+    }
+    return id;
+  }
+
+  private serialize(node: Node): SerializedNode | null {
+    if (this.nodeCount >= MAX_NODES) return null;
+
+    if (node.nodeType === Node.TEXT_NODE) {
+      this.nodeCount++;
+      return { id: this.idFor(node), text: this.textOf(node) };
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return null;
+
+    const element = node as Element;
+    const tag = element.tagName.toLowerCase();
+    if (IGNORED_TAGS.indexOf(tag) !== -1) return null;
+
+    this.nodeCount++;
+    const serialized: SerializedElement = { id: this.idFor(element), tag, attrs: {}, children: [] };
+    if (element.namespaceURI === SVG_NS) serialized.svg = true;
+
+    if (this.isBlocked(element)) {
+      const rect = element.getBoundingClientRect();
+      serialized.tag = serialized.svg ? tag : 'div';
+      serialized.attrs = {
+        'data-scanwarp-block': '',
+        style: `display:inline-block;width:${Math.round(rect.width)}px;height:${Math.round(rect.height)}px;background:#e5e7eb`,
+      };
+      return serialized;
+    }
+
+    for (let i = 0; i < element.attributes.length; i++) {
+      const { name, value } = element.attributes[i];
+      const recorded = this.attrValue(element, name, value);
+      if (recorded !== null) serialized.attrs[name] = recorded;
+    }
+
+    // Current form state, which the attributes don't follow
+    if (element instanceof HTMLInputElement) {
+      if (element.type === 'checkbox' || element.type === 'radio') {
+        if (element.checked) serialized.attrs.checked = '';
+        else delete serialized.attrs.checked;
+      } else if (element.value) {
+        serialized.attrs.value = mask(element.value);
+      }
+    } else if (element instanceof HTMLOptionElement && element.selected) {
+      serialized.attrs.selected = '';
+    }
+
+    if (element instanceof HTMLStyleElement && !element.textContent && element.sheet) {
+      try {
+        const rules = (element.sheet as CSSStyleSheet).cssRules;
+        serialized.css = Array.prototype.map.call(rules, (rule: CSSRule) => rule.cssText).join('\n');
+      } catch {
+        // Stylesheets from another origin can't be read
+      }
+    }
+
+    if (element.scrollLeft || element.scrollTop) {
+      serialized.scroll = [element.scrollLeft, element.scrollTop];
+    }
+
+    for (let child = element.firstChild; child; child = child.nextSibling) {
+      const serializedChild = this.serialize(child);
+      if (serializedChild) serialized.children.push(serializedChild);
+    }
+    return serialized;
+  }
+
+  private isBlocked(element: Element): boolean {
+    return PLACEHOLDER_TAGS.indexOf(element.tagName.toLowerCase()) !== -1 || element.hasAttribute('data-scanwarp-block');
+  }
+
+  private isUnmasked(element: Element | null): boolean {
+    return !this.options.maskText || !!(element && element.closest('[data-scanwarp-unmask]'));
+  }
+
+  private textOf(node: Node): string {
+    const text = node.textContent || '';
+    const parent = node.parentElement;
+    const tag = parent ? parent.tagName.toLowerCase() : '';
+    if (tag === 'style') return text;
+    if (tag === 'textarea') return mask(text);
+    return this.isUnmasked(parent) ? text : mask(text);
+  }
+
+  /** The value to record for an attribute, or null to leave it out */
+  private attrValue(element: Element, name: string, value: string): string | null {
+    const lower = name.toLowerCase();
+    if (lower.indexOf('on') === 0 || lower === 'srcdoc') return null;
+    if (/^\s*javascript:/i.test(value)) return null;
+    if (lower === 'value' && (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement)) {
+      return element instanceof HTMLInputElement && (element.type === 'checkbox' || element.type === 'radio')
+        ? value
+        : mask(value);
+    }
+    if (TEXT_ATTRS.indexOf(lower) !== -1 && !this.isUnmasked(element)) return mask(value);
+    return value;
+  }
+
+  private onMutations(records: MutationRecord[]) {
+    const t = Date.now();
+    // Nodes serialized in this batch already include their descendants as they are now
+    const added = new Set<Node>();
+    const isInAdded = (node: Node) => {
+      for (let n: Node | null = node; n; n = n.parentNode) {
+        if (added.has(n)) return true;
+      }
+      return false;
+    };
+
+    for (const record of records) {
+      const targetId = this.ids.get(record.target);
+      if (targetId === undefined) continue;
+
+      if (record.type === 'characterData') {
+        this.push({ t, type: 'text', id: targetId, text: this.textOf(record.target) });
+      } else if (record.type === 'attributes') {
+        const element = record.target as Element;
+        const name = record.attributeName;
+        if (!name || this.isBlocked(element)) continue;
+
+        const raw = element.getAttribute(name);
+        const value = raw === null ? null : this.attrValue(element, name, raw);
+        if (raw !== null && value === null) continue;
+
+        // Animations set the same attribute many times a frame
+        const last = this.lastEvent();
+        if (last && last.type === 'attr' && last.t === t && last.id === targetId && last.name === name) {
+          last.value = value;
+        } else {
+          this.push({ t, type: 'attr', id: targetId, name, value });
+        }
+      } else {
+        for (let i = 0; i < record.removedNodes.length; i++) {
+          const id = this.ids.get(record.removedNodes[i]);
+          if (id !== undefined) this.push({ t, type: 'remove', id });
+        }
+
+        if (this.isBlocked(record.target as Element)) continue;
+        for (let i = 0; i < record.addedNodes.length; i++) {
+          const node = record.addedNodes[i];
+          // Nodes added and moved again within the batch are recorded where they ended up
+          if (node.parentNode !== record.target || isInAdded(node)) continue;
+
+          const serialized = this.serialize(node);
+          if (!serialized) continue;
+          added.add(node);
+          this.push({ t, type: 'add', parentId: targetId, nextId: this.nextKnownSibling(node), node: serialized });
+        }
+      }
+    }
+  }
+
+  private nextKnownSibling(node: Node): number | null {
+    for (let sibling = node.nextSibling; sibling; sibling = sibling.nextSibling) {
+      const id = this.ids.get(sibling);
+      if (id !== undefined) return id;
+    }
+    return null;
+  }
+
+  private onInput(event: Event) {
+    const target = event.target as Node | null;
+    const id = target ? this.ids.get(target) : undefined;
+    if (id === undefined) return;
+
+    const t = Date.now();
+    if (target instanceof HTMLInputElement && (target.type === 'checkbox' || target.type === 'radio')) {
+      this.push({ t, type: 'input', id, checked: target.checked });
+    } else if (target instanceof HTMLSelectElement) {
+      this.push({ t, type: 'input', id, selectedIndex: target.selectedIndex });
+    } else if (target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement) {
+      this.push({ t, type: 'input', id, value: mask(target.value) });
+    }
+  }
+
+  private onScroll(event: Event) {
+    const isWindow = event.target === document;
+    const element = event.target as Element;
+    const id = isWindow ? null : this.ids.get(element);
+    if (id === undefined) return;
+
+    const x = isWindow ? window.pageXOffset : element.scrollLeft;
+    const y = isWindow ? window.pageYOffset : element.scrollTop;
+    const t = Date.now();
+
+    const last = this.lastEvent();
+    if (last && last.type === 'scroll' && last.id === id && t - last.t < SCROLL_COALESCE_MS) {
+      last.x = x;
+      last.y = y;
+    } else {
+      this.push({ t, type: 'scroll', id, x, y });
+    }
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * W3C Trace Context for requests the page makes, so their backend spans
+ * can be joined to browser errors
+ */
+
+export interface TraceContext {
+  traceparent: string;
+  traceId: string;
+}
+
+const TRACEPARENT = /^[0-9a-f]{2}-([0-9a-f]{32})-[0-9a-f]{16}-[0-9a-f]{2}$/;
+
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  crypto.getRandomValues(values);
+  let hex = '';
+  for (let i = 0; i < values.length; i++) {
+    hex += ('0' + values[i].toString(16)).slice(-2);
+  }
+  return hex;
+}
+
+/**
+ * A new sampled trace with the browser request as its root.
+ */
+export function createTraceContext(): TraceContext {
+  const traceId = randomHex(16);
+  return { traceparent: `00-${traceId}-${randomHex(8)}-01`, traceId };
+}
+
+/**
+ * The trace id of a traceparent header the page set itself, e.g. through
+ * its own OpenTelemetry setup.
+ */
+export function traceIdFrom(traceparent: string | null): string | undefined {
+  const match = traceparent ? TRACEPARENT.exec(traceparent.trim().toLowerCase()) : null;
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Decides which requests get a traceparent header: same-origin ones, and
+ * cross-origin ones whose URL starts with one of `targets` (or matches it,
+ * for regular expressions). Those servers must allow the header in CORS.
+ */
+export class TracePropagation {
+  private targets: Array<string | RegExp>;
+  private excluded: string;
+
+  /** `excluded` is the ScanWarp server, whose ingest routes don't need it */
+  constructor(targets: Array<string | RegExp>, excluded: string) {
+    this.targets = targets;
+    this.excluded = excluded;
+  }
+
+  shouldPropagate(url: string): boolean {
+    let target: URL;
+    try {
+      target = new URL(url, window.location.href);
+    } catch {
+      return false;
+    }
+
+    if (target.href.indexOf(this.excluded) === 0) return false;
+    if (target.origin === window.location.origin) return true;
+
+    return this.targets.some((t) => (typeof t === 'string' ? target.href.indexOf(t) === 0 : t.test(target.href)));
+  }
+}
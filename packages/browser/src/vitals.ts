@@ -0,0 +1,136 @@
+/**
+ * Core Web Vitals and navigation timing for the current page load
+ */
+
+export interface PageVitals {
+  lcp?: number;
+  inp?: number;
+  cls?: number;
+  ttfb?: number;
+  fcp?: number;
+  dom_content_loaded?: number;
+  load?: number;
+}
+
+// Not in every TypeScript DOM lib yet
+interface LayoutShiftEntry extends PerformanceEntry {
+  value: number;
+  hadRecentInput: boolean;
+}
+
+interface EventTimingEntry extends PerformanceEntry {
+  interactionId?: number;
+}
+
+// Layout shifts within 1s of each other, spanning at most 5s, count as one window
+const CLS_WINDOW_GAP = 1000;
+const CLS_WINDOW_MAX = 5000;
+
+// Only interactions slower than this are reported by the browser
+const INP_DURATION_THRESHOLD = 40;
+
+/**
+ * Watches the page load with PerformanceObserver. Metrics the browser
+ * doesn't support are left out; nothing here throws.
+ */
+export class VitalsCollector {
+  private vitals: PageVitals = {};
+  private clsWindow = 0;
+  private clsWindowStart = 0;
+  private clsLastShift = 0;
+  private interactions: { [interactionId: number]: number } = {};
+
+  constructor() {
+    this.observe('largest-contentful-paint', (entry) => {
+      this.vitals.lcp = entry.startTime;
+    });
+
+    this.observe('paint', (entry) => {
+      if (entry.name === 'first-contentful-paint') {
+        this.vitals.fcp = entry.startTime;
+      }
+    });
+
+    this.observe('layout-shift', (entry) => this.addLayoutShift(entry as LayoutShiftEntry));
+
+    this.observe('event', (entry) => this.addInteraction(entry as EventTimingEntry), {
+      durationThreshold: INP_DURATION_THRESHOLD,
+    });
+    // Catches the first interaction even when it was faster than the threshold
+    this.observe('first-input', (entry) => this.addInteraction(entry as EventTimingEntry));
+  }
+
+  /**
+   * What has been measured so far. LCP stops changing at the first
+   * interaction; CLS and INP keep growing until the page is hidden.
+   */
+  collect(): PageVitals {
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTiming | undefined;
+    if (navigation) {
+      this.vitals.ttfb = navigation.responseStart;
+      if (navigation.domContentLoadedEventEnd > 0) {
+        this.vitals.dom_content_loaded = navigation.domContentLoadedEventEnd;
+      }
+      if (navigation.loadEventEnd > 0) {
+        this.vitals.load = navigation.loadEventEnd;
+      }
+    }
+
+    const vitals: PageVitals = {};
+    for (const key of Object.keys(this.vitals) as Array<keyof PageVitals>) {
+      const value = this.vitals[key];
+      if (value !== undefined) vitals[key] = key === 'cls' ? Math.round(value * 10000) / 10000 : Math.round(value);
+    }
+    return vitals;
+  }
+
+  private observe(
+    type: string,
+    callback: (entry: PerformanceEntry) => void,
+    options: { durationThreshold?: number } = {}
+  ) {
+    if (typeof PerformanceObserver === 'undefined') return;
+    const supported = (PerformanceObserver as unknown as { supportedEntryTypes?: string[] }).supportedEntryTypes;
+    if (!supported || supported.indexOf(type) === -1) return;
+
+    try {
+      const observer = new PerformanceObserver((list) => {
+        list.getEntries().forEach(callback);
+      });
+      observer.observe({ type, buffered: true, ...options } as PerformanceObserverInit);
+    } catch {
+      // Older browsers reject `type`; the metric is just missing
+    }
+  }
+
+  private addLayoutShift(entry: LayoutShiftEntry) {
+    // Shifts right after user input are expected
+    if (entry.hadRecentInput) return;
+
+    if (
+      this.clsWindow > 0 &&
+      entry.startTime - this.clsLastShift < CLS_WINDOW_GAP &&
+      entry.startTime - this.clsWindowStart < CLS_WINDOW_MAX
+    ) {
+      this.clsWindow += entry.value;
+    } else {
+      this.clsWindow = entry.value;
+      this.clsWindowStart = entry.startTime;
+    }
+    this.clsLastShift = entry.startTime;
+
+    // CLS is the worst window
+    this.vitals.cls = Math.max(this.vitals.cls || 0, this.clsWindow);
+  }
+
+  private addInteraction(entry: EventTimingEntry) {
+    if (!entry.interactionId) return;
+
+    // An interaction's events share an id; its latency is the slowest of them
+    const latency = Math.max(this.interactions[entry.interactionId] || 0, entry.duration);
+    this.interactions[entry.interactionId] = latency;
+
+    // The worst interaction, which for typical page lengths is close to web.dev's p98
+    this.vitals.inp = Math.max(this.vitals.inp || 0, latency);
+  }
+}
@@ -4,13 +4,14 @@ export class ScanWarpAPI {
   public client: AxiosInstance;
   public serverUrl: string;
 
-  constructor(serverUrl: string = 'http://localhost:3000') {
+  constructor(serverUrl: string = 'http://localhost:3000', apiToken?: string) {
     this.serverUrl = serverUrl;
     this.client = axios.create({
       baseURL: serverUrl,
       timeout: 10000,
       headers: {
         'Content-Type': 'application/json',
+        ...(apiToken ? { Authorization: `Bearer ${apiToken}` } : {}),
       },
     });
   }
@@ -14,6 +14,7 @@ import { config } from '../config.js';
 
 interface InitOptions {
   server?: string;
+  token?: string;
   url?: string;
   skipVercel?: boolean;
   skipMcp?: boolean;
@@ -83,7 +84,7 @@ export async function initCommand(options: InitOptions = {}) {
 
   // Step 3: Connect to ScanWarp server
   const serverUrl = options.server || 'http://localhost:3000';
-  const api = new ScanWarpAPI(serverUrl);
+  const api = new ScanWarpAPI(serverUrl, options.token);
 
   const serverSpinner = ora('Connecting to ScanWarp server...').start();
   const isConnected = await api.testConnection();
@@ -110,8 +111,11 @@ export async function initCommand(options: InitOptions = {}) {
   }
   serverSpinner.succeed(`Connected to ${serverUrl}`);
 
-  // Save server URL to config
+  // Save server URL (and API key, if one was given) to config
   config.setServerUrl(serverUrl);
+  if (options.token) {
+    config.setApiToken(options.token);
+  }
 
   // Step 4: Create project and monitor
   const setupSpinner = ora('Setting up monitoring...').start();
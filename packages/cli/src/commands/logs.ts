@@ -14,6 +14,7 @@ interface Event {
 
 interface LogsOptions {
   server?: string;
+  token?: string;
   follow?: boolean;
   type?: string;
   source?: string;
@@ -22,7 +23,7 @@ interface LogsOptions {
 
 export async function logsCommand(options: LogsOptions = {}) {
   const serverUrl = options.server || 'http://localhost:3000';
-  const api = new ScanWarpAPI(serverUrl);
+  const api = new ScanWarpAPI(serverUrl, options.token);
   const limit = options.limit || 50;
 
   if (options.follow) {
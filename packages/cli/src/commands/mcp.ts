@@ -14,6 +14,7 @@ import {
   ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { ScanWarpAPI } from '../mcp/api.js';
+import { config } from '../config.js';
 import {
   getAppStatus,
   getIncidents,
@@ -34,7 +35,7 @@ interface McpOptions {
 
 export async function mcpCommand(options: McpOptions = {}) {
   const serverUrl = options.server || process.env.SCANWARP_SERVER_URL || 'http://localhost:3000';
-  const apiToken = options.token || process.env.SCANWARP_API_TOKEN;
+  const apiToken = options.token || process.env.SCANWARP_API_TOKEN || config.getApiToken();
   const projectId = options.project || process.env.SCANWARP_PROJECT_ID;
 
   // Initialize API client
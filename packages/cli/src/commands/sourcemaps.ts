@@ -0,0 +1,150 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import fs from 'fs';
+import path from 'path';
+import { execSync } from 'child_process';
+import { ScanWarpAPI } from '../api.js';
+
+interface SourceMapsUploadOptions {
+  dir?: string;
+  release?: string;
+  server?: string;
+  token?: string;
+  project?: string;
+}
+
+interface BuildOutput {
+  /** Directory searched for .map files */
+  dir: string;
+  /** URL path the directory is served from, prepended to map names */
+  urlPrefix: string;
+  framework: string;
+}
+
+export async function sourcemapsUploadCommand(options: SourceMapsUploadOptions = {}) {
+  const serverUrl = options.server || 'http://localhost:3000';
+  const api = new ScanWarpAPI(serverUrl, options.token);
+
+  if (!options.project) {
+    console.log(chalk.red('No project ID. Pass --project or run "scanwarp init" first.'));
+    process.exit(1);
+  }
+
+  const output = detectBuildOutput(options.dir);
+  if (!output) {
+    console.log(chalk.red('Could not find a build output directory (.next, dist, build or out).'));
+    console.log(chalk.gray('Run your production build first, or pass the directory: scanwarp sourcemaps upload ./dist\n'));
+    process.exit(1);
+  }
+
+  const release = options.release || detectRelease();
+  if (!release) {
+    console.log(chalk.red('Could not determine the release. Pass --release <id> or set SCANWARP_RELEASE.'));
+    process.exit(1);
+  }
+
+  const files = findSourceMaps(output.dir);
+
+  if (files.length === 0) {
+    console.log(chalk.yellow(`No .map files found in ${output.dir}.\n`));
+    console.log(chalk.gray('Enable production source maps in your build:'));
+    console.log(chalk.gray('  Next.js: productionBrowserSourceMaps: true in next.config.js'));
+    console.log(chalk.gray("  Vite:    build: { sourcemap: 'hidden' } in vite.config.ts\n"));
+    return;
+  }
+
+  console.log(chalk.bold.cyan(`\n🗺  Uploading ${files.length} source maps (${output.framework}, release ${release})\n`));
+
+  let uploaded = 0;
+  let failed = 0;
+
+  for (const file of files) {
+    // Name the map after the script it describes, as served: dist/assets/a.js.map → assets/a.js
+    const relative = path.relative(output.dir, file).split(path.sep).join('/');
+    const name = `${output.urlPrefix}${relative}`.replace(/\.map$/, '');
+    const spinner = ora(name).start();
+
+    try {
+      await api.client.post(
+        '/sourcemaps',
+        {
+          project_id: options.project,
+          release,
+          name,
+          map: fs.readFileSync(file, 'utf-8'),
+        },
+        { maxBodyLength: Infinity, maxContentLength: Infinity, timeout: 60000 }
+      );
+      spinner.succeed(name);
+      uploaded++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      spinner.fail(`${name} ${chalk.gray(message)}`);
+      failed++;
+    }
+  }
+
+  console.log();
+  console.log(chalk.green(`✓ Uploaded ${uploaded} source maps`) + (failed > 0 ? chalk.red(`, ${failed} failed`) : ''));
+  console.log(chalk.gray(`\nTag browser errors with this release so they use these maps:`));
+  console.log(chalk.gray(`  <script src=".../browser.js" data-release="${release}" ...></script>\n`));
+
+  if (failed > 0) process.exit(1);
+}
+
+function detectBuildOutput(dir?: string): BuildOutput | null {
+  const cwd = process.cwd();
+
+  if (dir) {
+    const resolved = path.resolve(cwd, dir);
+    if (!fs.existsSync(resolved)) return null;
+
+    // Pointing at .next directly still needs the /_next prefix
+    if (path.basename(resolved) === '.next') {
+      return { dir: path.join(resolved, 'static'), urlPrefix: '_next/static/', framework: 'Next.js' };
+    }
+    return { dir: resolved, urlPrefix: '', framework: 'custom' };
+  }
+
+  // Next.js serves .next/static at /_next/static; server chunks never reach the browser
+  const nextStatic = path.join(cwd, '.next', 'static');
+  if (fs.existsSync(nextStatic)) {
+    return { dir: nextStatic, urlPrefix: '_next/static/', framework: 'Next.js' };
+  }
+
+  for (const candidate of ['dist', 'build', 'out']) {
+    const resolved = path.join(cwd, candidate);
+    if (fs.existsSync(resolved)) {
+      return { dir: resolved, urlPrefix: '', framework: candidate === 'dist' ? 'Vite' : 'static' };
+    }
+  }
+
+  return null;
+}
+
+function detectRelease(): string | undefined {
+  const fromEnv = process.env.SCANWARP_RELEASE || process.env.VERCEL_GIT_COMMIT_SHA;
+  if (fromEnv) return fromEnv;
+
+  try {
+    return execSync('git rev-parse HEAD', { stdio: ['ignore', 'pipe', 'ignore'] }).toString().trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function findSourceMaps(dir: string): string[] {
+  const results: string[] = [];
+
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name === 'node_modules') continue;
+      results.push(...findSourceMaps(fullPath));
+    } else if (entry.name.endsWith('.js.map') || entry.name.endsWith('.mjs.map')) {
+      results.push(fullPath);
+    }
+  }
+
+  return results;
+}
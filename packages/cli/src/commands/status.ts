@@ -8,6 +8,13 @@ interface Monitor {
   status: 'up' | 'down' | 'unknown';
   last_checked_at?: string;
   check_interval_seconds: number;
+  tls?: {
+    issuer: string | null;
+    expires_at: string | null;
+    days_left: number | null;
+    error: string | null;
+    domain_days_left: number | null;
+  } | null;
 }
 
 interface Incident {
@@ -20,11 +27,12 @@ interface Incident {
 
 interface StatusOptions {
   server?: string;
+  token?: string;
 }
 
 export async function statusCommand(options: StatusOptions = {}) {
   const serverUrl = options.server || 'http://localhost:3000';
-  const api = new ScanWarpAPI(serverUrl);
+  const api = new ScanWarpAPI(serverUrl, options.token);
 
   const spinner = ora('Fetching status...').start();
 
@@ -61,6 +69,9 @@ export async function statusCommand(options: StatusOptions = {}) {
 
       console.log(`  ${statusIcon} ${chalk[statusColor](monitor.status.toUpperCase().padEnd(7))} ${monitor.url}`);
       console.log(chalk.gray(`     Last checked: ${lastChecked} • Every ${monitor.check_interval_seconds}s`));
+
+      const certLine = formatCertificate(monitor.tls);
+      if (certLine) console.log(`     ${certLine}`);
     }
 
     // Print summary
@@ -109,6 +120,34 @@ export async function statusCommand(options: StatusOptions = {}) {
   }
 }
 
+function formatCertificate(tls: Monitor['tls']): string | null {
+  if (!tls) return null;
+
+  if (tls.error) {
+    return chalk.red(`Certificate: ${tls.error}`);
+  }
+
+  const parts: string[] = [];
+  if (tls.days_left !== null && tls.expires_at) {
+    const expiry = tls.days_left < 0
+      ? `expired ${new Date(tls.expires_at).toLocaleDateString()}`
+      : `expires in ${tls.days_left}d (${new Date(tls.expires_at).toLocaleDateString()})`;
+    parts.push(colorForDays(tls.days_left)(`Certificate ${expiry}${tls.issuer ? ` • ${tls.issuer}` : ''}`));
+  }
+  if (tls.domain_days_left !== null) {
+    const expiry = tls.domain_days_left < 0 ? 'expired' : `expires in ${tls.domain_days_left}d`;
+    parts.push(colorForDays(tls.domain_days_left)(`Domain ${expiry}`));
+  }
+
+  return parts.length > 0 ? parts.join(chalk.gray(' • ')) : null;
+}
+
+function colorForDays(days: number) {
+  if (days <= 3) return chalk.red;
+  if (days <= 30) return chalk.yellow;
+  return chalk.gray;
+}
+
 function getStatusIcon(status: string): string {
   switch (status) {
     case 'up':
@@ -8,6 +8,7 @@ import { devCommand } from './commands/dev.js';
 import { devMcpCommand } from './commands/dev-mcp.js';
 import { serverCommand } from './commands/server.js';
 import { mcpCommand } from './commands/mcp.js';
+import { sourcemapsUploadCommand } from './commands/sourcemaps.js';
 import { config } from './config.js';
 
 const program = new Command();
@@ -22,6 +23,7 @@ program
   .description('Initialize ScanWarp monitoring for your project')
   .option('-s, --server <url>', 'ScanWarp server URL')
   .option('-u, --url <url>', 'Production URL to monitor')
+  .option('-t, --token <token>', 'API key for the ScanWarp server')
   .option('--skip-vercel', 'Skip Vercel integration setup')
   .option('--skip-mcp', 'Skip MCP configuration')
   .option('--skip-instrumentation', 'Skip production instrumentation setup')
@@ -29,6 +31,7 @@ program
     try {
       // Use config as fallback for server URL
       options.server = options.server || config.getServerUrl();
+      options.token = options.token || config.getApiToken();
       await initCommand(options);
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : error);
@@ -40,9 +43,11 @@ program
   .command('status')
   .description('Check monitoring status')
   .option('-s, --server <url>', 'ScanWarp server URL')
+  .option('-t, --token <token>', 'API key for the ScanWarp server')
   .action(async (options) => {
     try {
       options.server = options.server || config.getServerUrl();
+      options.token = options.token || config.getApiToken();
       await statusCommand(options);
     } catch (error) {
       console.error('Error:', error instanceof Error ? error.message : error);
@@ -59,9 +64,11 @@ program
   .option('-t, --type <type>', 'Filter by event type (error/slow/down/up)')
   .option('--source <source>', 'Filter by source (monitor/vercel/stripe/supabase/github)')
   .option('-l, --limit <number>', 'Number of events to show', '50')
+  .option('--token <token>', 'API key for the ScanWarp server')
   .action(async (options) => {
     try {
       options.server = options.server || config.getServerUrl();
+      options.token = options.token || config.getApiToken();
       options.limit = parseInt(options.limit);
       await logsCommand(options);
     } catch (error) {
@@ -115,6 +122,29 @@ program
     }
   });
 
+const sourcemaps = program
+  .command('sourcemaps')
+  .description('Manage source maps for browser error stack traces');
+
+sourcemaps
+  .command('upload [dir]')
+  .description('Upload .map files from a Next.js/Vite build output')
+  .option('-r, --release <id>', 'Release/build id (default: SCANWARP_RELEASE, VERCEL_GIT_COMMIT_SHA or git HEAD)')
+  .option('-s, --server <url>', 'ScanWarp server URL')
+  .option('-t, --token <token>', 'API key for the ScanWarp server')
+  .option('-p, --project <id>', 'Project ID')
+  .action(async (dir, options) => {
+    try {
+      options.server = options.server || config.getServerUrl();
+      options.token = options.token || config.getApiToken();
+      options.project = options.project || config.getProjectId();
+      await sourcemapsUploadCommand({ ...options, dir });
+    } catch (error) {
+      console.error('Error:', error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  });
+
 program
   .command('incidents')
   .description('View open incidents')
@@ -160,7 +160,7 @@ export async function getIncidentDetail(
   incidentId: string
 ): Promise<string> {
   try {
-    const { incident, events } = await api.getIncident(incidentId);
+    const { incident, events, timeline = [] } = await api.getIncident(incidentId);
 
     const timeSince = formatTimeSince(incident.created_at);
     const statusEmoji =
@@ -175,6 +175,12 @@ export async function getIncidentDetail(
     let output = `${statusEmoji} Incident #${incident.id}\n\n`;
     output += `Severity: ${incident.severity.toUpperCase()}\n`;
     output += `Status: ${incident.status}\n`;
+    if (incident.acknowledged_at) {
+      output += `Acknowledged: ${formatTimeSince(incident.acknowledged_at)}${incident.acknowledged_by ? ` by ${incident.acknowledged_by}` : ''}\n`;
+    }
+    if (incident.assignee) {
+      output += `Assigned to: ${incident.assignee}\n`;
+    }
     output += `Started: ${timeSince}\n\n`;
 
     if (incident.diagnosis_text) {
@@ -208,6 +214,19 @@ export async function getIncidentDetail(
       output += `\n`;
     }
 
+    // Incident history: status changes, notifications and comments
+    if (timeline.length > 0) {
+      output += `INCIDENT HISTORY:\n`;
+      for (const entry of timeline.slice(-20)) {
+        const who = entry.kind === 'comment' ? `${entry.actor || 'Someone'}: ` : '';
+        output += `  • [${entry.kind}] ${who}${entry.message.substring(0, 200)} (${formatTimeSince(new Date(entry.created_at))})\n`;
+      }
+      if (timeline.length > 20) {
+        output += `  (${timeline.length - 20} earlier entries not shown)\n`;
+      }
+      output += `\n`;
+    }
+
     // Trace data
     try {
       const spans = await api.getIncidentTraces(incidentId);
@@ -298,6 +317,46 @@ export async function getEvents(
   }
 }
 
+export async function getIssues(
+  api: ScanWarpAPI,
+  projectId: string,
+  options: {
+    source?: string;
+    sort?: 'last_seen' | 'first_seen' | 'count';
+    limit?: number;
+  } = {}
+): Promise<string> {
+  try {
+    const issues = await api.getIssues({
+      projectId,
+      ...options,
+      limit: options.limit || 20,
+    });
+
+    if (issues.length === 0) {
+      return 'No issues found. Errors are grouped into issues as they come in.';
+    }
+
+    let output = `Found ${issues.length} issue${issues.length !== 1 ? 's' : ''}:\n\n`;
+
+    for (const issue of issues) {
+      output += `• ${issue.title}\n`;
+      if (issue.culprit) {
+        output += `   in ${issue.culprit}\n`;
+      }
+      output += `   [${issue.source}] ${issue.count} event${issue.count !== 1 ? 's' : ''} · first seen ${formatTimeSince(new Date(issue.first_seen))} · last seen ${formatTimeSince(new Date(issue.last_seen))}\n`;
+      output += `   Issue ID: ${issue.id}\n\n`;
+    }
+
+    return output;
+  } catch (error) {
+    if (error instanceof Error) {
+      return `❌ Error fetching issues: ${error.message}`;
+    }
+    return `❌ Error fetching issues`;
+  }
+}
+
 export async function resolveIncident(
   api: ScanWarpAPI,
   incidentId: string
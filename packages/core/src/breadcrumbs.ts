@@ -0,0 +1,74 @@
+export const BREADCRUMB_TYPES = ['click', 'navigation', 'fetch', 'xhr', 'console'] as const;
+
+export type BreadcrumbType = (typeof BREADCRUMB_TYPES)[number];
+
+/**
+ * Something the user or page did before a browser error. @scanwarp/browser
+ * sends the most recent ones with each error, oldest first.
+ */
+export interface Breadcrumb {
+  type: BreadcrumbType;
+  /** Milliseconds since the epoch, from the browser's clock */
+  timestamp: number;
+  /** e.g. 'button#checkout "Pay now"' or "POST /api/orders → 500" */
+  message: string;
+  data?: Record<string, string | number | boolean | null>;
+}
+
+// More than the browser keeps by default, so a raised maxBreadcrumbs still fits
+export const MAX_BREADCRUMBS = 100;
+
+const MAX_MESSAGE_LENGTH = 500;
+
+// Only the last few matter to a diagnosis, and they're long-winded in a prompt
+const PROMPT_BREADCRUMBS = 20;
+
+/**
+ * The valid breadcrumbs in an error payload, keeping the newest
+ * MAX_BREADCRUMBS. Anything malformed is dropped rather than failing the
+ * error it came with.
+ */
+export function parseBreadcrumbs(value: unknown): Breadcrumb[] {
+  if (!Array.isArray(value)) return [];
+
+  const breadcrumbs: Breadcrumb[] = [];
+  for (const item of value.slice(-MAX_BREADCRUMBS)) {
+    if (!item || typeof item !== 'object') continue;
+    const { type, timestamp, message, data } = item as Record<string, unknown>;
+    if (!(BREADCRUMB_TYPES as readonly unknown[]).includes(type)) continue;
+    if (typeof timestamp !== 'number' || !Number.isFinite(timestamp)) continue;
+    if (typeof message !== 'string') continue;
+
+    const breadcrumb: Breadcrumb = {
+      type: type as BreadcrumbType,
+      timestamp,
+      message: message.slice(0, MAX_MESSAGE_LENGTH),
+    };
+
+    if (data && typeof data === 'object' && !Array.isArray(data)) {
+      const fields: NonNullable<Breadcrumb['data']> = {};
+      for (const [key, field] of Object.entries(data as Record<string, unknown>)) {
+        if (field === null || typeof field === 'number' || typeof field === 'boolean') {
+          fields[key] = field;
+        } else if (typeof field === 'string') {
+          fields[key] = field.slice(0, MAX_MESSAGE_LENGTH);
+        }
+      }
+      breadcrumb.data = fields;
+    }
+
+    breadcrumbs.push(breadcrumb);
+  }
+  return breadcrumbs;
+}
+
+/**
+ * One line per breadcrumb, timed relative to the error, e.g.
+ * "- 4.2s before: [click] button#checkout "Pay now"".
+ */
+export function formatBreadcrumbs(breadcrumbs: Breadcrumb[], errorTimestamp: number): string[] {
+  return breadcrumbs.slice(-PROMPT_BREADCRUMBS).map((b) => {
+    const seconds = Math.max(0, (errorTimestamp - b.timestamp) / 1000);
+    return `- ${seconds.toFixed(1)}s before: [${b.type}] ${b.message}`;
+  });
+}
@@ -27,7 +27,18 @@ export class Correlator {
       };
     }
 
-    // Rule 2: Same URL/endpoint within 5 minutes
+    // Rule 2: Same error (by fingerprint) as one already in an open incident
+    const sameError = this.findSameError(newEvent, recentEvents, openIncidents);
+    if (sameError) {
+      return {
+        shouldCorrelate: true,
+        correlationGroup: sameError.correlation_group || `error-${newEvent.fingerprint}`,
+        existingIncidentId: sameError.id,
+        reason: 'Same error as an open incident',
+      };
+    }
+
+    // Rule 3: Same URL/endpoint within 5 minutes
     const sameEndpoint = this.findSameEndpoint(newEvent, recentEvents);
     if (sameEndpoint) {
       const incident = this.findIncidentWithEvent(sameEndpoint.id, openIncidents);
@@ -41,7 +52,7 @@ export class Correlator {
       }
     }
 
-    // Rule 3: Stripe payment failure + server 500 on checkout endpoint within 2 minutes
+    // Rule 4: Stripe payment failure + server 500 on checkout endpoint within 2 minutes
     if (newEvent.source === 'stripe' || this.isCheckoutEndpoint(newEvent)) {
       const correlated = this.correlatePaymentAndCheckout(newEvent, recentEvents);
       if (correlated) {
@@ -62,7 +73,7 @@ export class Correlator {
       }
     }
 
-    // Rule 4: Multiple monitors failing at once (3+ within 2 minutes)
+    // Rule 5: Multiple monitors failing at once (3+ within 2 minutes)
     const multipleFailures = this.checkMultipleMonitorFailures(newEvent, recentEvents);
     if (multipleFailures.length >= 2) {
       // Check if there's already an incident for this burst
@@ -111,6 +122,22 @@ export class Correlator {
     return null;
   }
 
+  private findSameError(
+    newEvent: Event,
+    recentEvents: Event[],
+    incidents: Array<{ id: string; events: string[]; correlation_group?: string }>
+  ): typeof incidents[0] | null {
+    if (!newEvent.fingerprint) return null;
+
+    for (const event of recentEvents) {
+      if (event.id === newEvent.id || event.fingerprint !== newEvent.fingerprint) continue;
+      const incident = this.findIncidentWithEvent(event.id, incidents);
+      if (incident) return incident;
+    }
+
+    return null;
+  }
+
   private findSameEndpoint(newEvent: Event, recentEvents: Event[]): Event | null {
     const fiveMinutesAgo = new Date(Date.now() - 5 * 60 * 1000);
     const newEndpoint = this.extractEndpoint(newEvent);
@@ -189,21 +216,24 @@ export class Correlator {
 
   private checkMultipleMonitorFailures(newEvent: Event, recentEvents: Event[]): Event[] {
     if (newEvent.type !== 'down' && newEvent.type !== 'error') return [];
+    if (!newEvent.monitor_id) return [];
 
     const twoMinutesAgo = new Date(Date.now() - 2 * 60 * 1000);
 
-    return recentEvents.filter((event) => {
-      if (event.created_at < twoMinutesAgo) return false;
-      if (event.id === newEvent.id) return false;
-      if (event.type !== 'down' && event.type !== 'error') return false;
+    // One failing event per other monitor
+    const byMonitor = new Map<string, Event>();
+    for (const event of recentEvents) {
+      if (event.created_at < twoMinutesAgo) continue;
+      if (event.id === newEvent.id) continue;
+      if (event.type !== 'down' && event.type !== 'error') continue;
 
       // Must be from different monitors
-      if (event.monitor_id && newEvent.monitor_id && event.monitor_id === newEvent.monitor_id) {
-        return false;
-      }
+      if (!event.monitor_id || event.monitor_id === newEvent.monitor_id) continue;
+
+      if (!byMonitor.has(event.monitor_id)) byMonitor.set(event.monitor_id, event);
+    }
 
-      return true;
-    });
+    return [...byMonitor.values()];
   }
 
   private findIncidentWithEvent(
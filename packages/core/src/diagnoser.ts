@@ -1,18 +1,82 @@
 import Anthropic from '@anthropic-ai/sdk';
-import type { Event, Monitor, DiagnosisResult, TraceSpan } from './types.js';
+import type { Event, Monitor, DiagnosisResult, TraceSpan, DeploymentContext } from './types.js';
+import { buildTraceWaterfall } from './traces.js';
+import { estimateCost } from './pricing.js';
+import { formatBreadcrumbs, parseBreadcrumbs } from './breadcrumbs.js';
 
-interface DiagnoserConfig {
+interface ClaudeDiagnoserConfig {
   apiKey: string;
   model?: string;
+  /** Per request. Defaults to 30 seconds. */
+  timeoutMs?: number;
+  /** Extra attempts after a malformed diagnosis. Defaults to 1. */
+  maxRetries?: number;
 }
 
-interface ProviderStatusContext {
+export const DEFAULT_DIAGNOSIS_TIMEOUT_MS = 30_000;
+export const DEFAULT_DIAGNOSIS_RETRIES = 1;
+
+const SEVERITIES: ReadonlyArray<DiagnosisResult['severity']> = ['critical', 'warning', 'info'];
+
+/**
+ * JSON schema a diagnosis must match, for models that support tool use or
+ * structured output. Every field is required so it also works in OpenAI's
+ * strict mode; the trace fields are null when there's no trace data.
+ */
+export const DIAGNOSIS_SCHEMA: {
+  type: 'object';
+  properties: Record<string, unknown>;
+  required: string[];
+  additionalProperties: false;
+} = {
+  type: 'object',
+  properties: {
+    root_cause: { type: 'string', description: '1-2 sentence plain English explanation of what broke' },
+    severity: { type: 'string', enum: [...SEVERITIES] },
+    suggested_fix: { type: 'string', description: 'Plain English explanation of how to fix it (2-4 sentences)' },
+    fix_prompt: {
+      type: 'string',
+      description: 'A complete, copy-pasteable prompt for Cursor/Claude Code that will fix this issue',
+    },
+    bottleneck_span: {
+      type: ['string', 'null'],
+      description: 'Name of the span that is the root cause, or null without trace data',
+    },
+    trace_id: { type: ['string', 'null'], description: 'trace_id of the most relevant trace, or null without trace data' },
+  },
+  required: ['root_cause', 'severity', 'suggested_fix', 'fix_prompt', 'bottleneck_span', 'trace_id'],
+  additionalProperties: false,
+};
+
+/** A model's answer didn't match DIAGNOSIS_SCHEMA */
+export class InvalidDiagnosisError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid diagnosis: ${problems.join('; ')}`);
+    this.name = 'InvalidDiagnosisError';
+    this.problems = problems;
+  }
+}
+
+export interface ProviderStatusContext {
   provider: string;
   displayName: string;
   status: string;
   description: string | null;
 }
 
+/**
+ * What an earlier incident with the same errors turned out to be, according
+ * to the people who handled it.
+ */
+export interface PriorRootCause {
+  root_cause: string;
+  /** True when the diagnosis was wrong and this is the cause they reported instead */
+  corrected: boolean;
+  confirmed_at: Date;
+}
+
 interface DiagnosisContext {
   events: Event[];
   monitor?: Monitor;
@@ -23,50 +87,126 @@ interface DiagnosisContext {
   }>;
   traces?: TraceSpan[];
   providerStatuses?: ProviderStatusContext[];
+  deployment?: DeploymentContext;
+  priorRootCauses?: PriorRootCause[];
 }
 
 export { type DiagnosisContext };
 
-export class Diagnoser {
+/**
+ * Something that can turn an incident's events, traces and surrounding
+ * context into a diagnosis. `name` identifies it in logs and the incident
+ * timeline.
+ */
+export interface DiagnosisProvider {
+  readonly name: string;
+  diagnose(context: DiagnosisContext): Promise<DiagnosisResult>;
+}
+
+const DIAGNOSIS_TOOL = 'report_diagnosis';
+
+/**
+ * Diagnoses with Claude, which must answer by calling a tool whose input is
+ * the diagnosis. Answers that don't validate are sent back as a tool error
+ * and retried.
+ */
+export class ClaudeDiagnosisProvider implements DiagnosisProvider {
+  readonly name = 'claude';
   private client: Anthropic;
   private model: string;
+  private timeoutMs: number;
+  private maxRetries: number;
 
-  constructor(config: DiagnoserConfig) {
+  constructor(config: ClaudeDiagnoserConfig) {
     this.client = new Anthropic({
       apiKey: config.apiKey,
     });
     this.model = config.model || 'claude-sonnet-4-20250514';
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_DIAGNOSIS_TIMEOUT_MS;
+    this.maxRetries = config.maxRetries ?? DEFAULT_DIAGNOSIS_RETRIES;
   }
 
   async diagnose(context: DiagnosisContext): Promise<DiagnosisResult> {
-    const prompt = this.buildPrompt(context);
-
-    const response = await this.client.messages.create({
-      model: this.model,
-      max_tokens: 2000,
-      temperature: 0.3,
-      system: this.getSystemPrompt(context),
-      messages: [
+    const started = Date.now();
+    const messages: Anthropic.MessageParam[] = [
+      {
+        role: 'user',
+        content: buildDiagnosisPrompt(context),
+      },
+    ];
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      const response = await this.client.messages.create(
         {
-          role: 'user',
-          content: prompt,
+          model: this.model,
+          max_tokens: 2000,
+          temperature: 0.3,
+          system: buildSystemPrompt(context),
+          tools: [
+            {
+              name: DIAGNOSIS_TOOL,
+              description: 'Report your diagnosis of this production issue.',
+              input_schema: DIAGNOSIS_SCHEMA,
+            },
+          ],
+          tool_choice: { type: 'tool', name: DIAGNOSIS_TOOL },
+          messages,
         },
-      ],
-    });
-
-    const content = response.content[0];
-    if (content.type !== 'text') {
-      throw new Error('Unexpected response type from Claude');
+        // The SDK's own retries would multiply the timeout
+        { timeout: this.timeoutMs, maxRetries: 0 }
+      );
+      inputTokens += response.usage.input_tokens;
+      outputTokens += response.usage.output_tokens;
+
+      const toolUse = response.content.find((block) => block.type === 'tool_use');
+      try {
+        if (!toolUse) {
+          throw new InvalidDiagnosisError([`no ${DIAGNOSIS_TOOL} tool call in the response`]);
+        }
+        return {
+          ...validateDiagnosis(toolUse.input),
+          usage: {
+            provider: this.name,
+            model: this.model,
+            input_tokens: inputTokens,
+            output_tokens: outputTokens,
+            cost_usd: estimateCost(this.model, inputTokens, outputTokens),
+            attempts: attempt,
+            duration_ms: Date.now() - started,
+          },
+        };
+      } catch (error) {
+        if (!(error instanceof InvalidDiagnosisError) || attempt > this.maxRetries) throw error;
+
+        // Show the model what was wrong and let it try again
+        messages.push({ role: 'assistant', content: response.content });
+        messages.push({
+          role: 'user',
+          content: toolUse
+            ? [{ type: 'tool_result', tool_use_id: toolUse.id, is_error: true, content: error.message }]
+            : `${error.message}. Call the ${DIAGNOSIS_TOOL} tool with your diagnosis.`,
+        });
+      }
     }
-
-    return this.parseResponse(content.text);
   }
+}
+
+/** @deprecated Use ClaudeDiagnosisProvider. */
+export const Diagnoser = ClaudeDiagnosisProvider;
+/** @deprecated Use ClaudeDiagnosisProvider. */
+export type Diagnoser = ClaudeDiagnosisProvider;
 
-  private getSystemPrompt(context: DiagnosisContext): string {
-    const hasTraces = context.traces && context.traces.length > 0;
-    const hasProviderIssues = context.providerStatuses && context.providerStatuses.length > 0;
+/**
+ * Instructions for an LLM diagnoser, including the JSON shape it must answer
+ * with. Shared by every LLM-backed provider so they diagnose the same way.
+ */
+export function buildSystemPrompt(context: DiagnosisContext): string {
+  const hasTraces = context.traces && context.traces.length > 0;
+  const hasProviderIssues = context.providerStatuses && context.providerStatuses.length > 0;
 
-    let prompt = `You are a senior engineering mentor helping developers who built their application using AI coding tools like Cursor or Claude Code. These developers may not have deep infrastructure knowledge or be familiar with reading stack traces.
+  let prompt = `You are a senior engineering mentor helping developers who built their application using AI coding tools like Cursor or Claude Code. These developers may not have deep infrastructure knowledge or be familiar with reading stack traces.
 
 Your job is to:
 1. Explain what went wrong in plain, conversational English (no jargon)
@@ -83,8 +223,8 @@ IMPORTANT RULES:
 - Be encouraging, not condescending
 - Focus on "what to do" not "what you did wrong"${hasTraces ? '\n- When trace data is available, use it to pinpoint the EXACT operation that failed or is slow' : ''}`;
 
-    if (hasProviderIssues) {
-      prompt += `
+  if (hasProviderIssues) {
+    prompt += `
 
 PROVIDER OUTAGE RULES (CRITICAL — follow these when provider status data shows a non-operational provider):
 - If the issue correlates with a provider that is currently experiencing an outage or degraded performance, clearly state that the issue is CAUSED BY the provider outage, NOT a bug in the user's code
@@ -92,9 +232,9 @@ PROVIDER OUTAGE RULES (CRITICAL — follow these when provider status data shows
 - The suggested_fix should focus on: (1) waiting for the provider to recover, (2) checking the provider's status page, and (3) any temporary workarounds
 - Do NOT suggest code fixes for issues caused by provider outages — it's not the user's fault
 - The fix_prompt should suggest adding resilience improvements (retry logic, fallbacks, circuit breakers) as an OPTIONAL improvement, not as a bug fix`;
-    }
+  }
 
-    prompt += `
+  prompt += `
 
 Respond in this exact JSON format:
 {
@@ -114,295 +254,203 @@ The fix_prompt should be detailed and include:
 
 Make the fix_prompt actionable enough that an AI coding assistant can implement it without asking follow-up questions.`;
 
-    return prompt;
-  }
-
-  private buildPrompt(context: DiagnosisContext): string {
-    const { events, monitor, recentHistory, traces, providerStatuses } = context;
-
-    let prompt = '## Production Issue Detected\n\n';
+  return prompt;
+}
 
-    // Provider status section — show this first so the AI sees it immediately
-    if (providerStatuses && providerStatuses.length > 0) {
-      prompt += '**⚠️ Provider Status (current):**\n';
-      for (const ps of providerStatuses) {
-        const statusLabel = ps.status === 'operational' ? '✅ operational' : `🔴 ${ps.status}`;
-        const detail = ps.description ? ` — ${ps.description}` : '';
-        prompt += `- ${ps.displayName}: ${statusLabel}${detail}\n`;
-      }
-      prompt += '\nNote: One or more infrastructure providers are experiencing issues. Consider whether this incident is caused by the provider outage rather than a code bug.\n\n';
+/**
+ * The incident itself, written out for an LLM: provider statuses, deploy,
+ * events, traces, recent history and what similar incidents turned out to be.
+ */
+export function buildDiagnosisPrompt(context: DiagnosisContext): string {
+  const { events, monitor, recentHistory, traces, providerStatuses, deployment, priorRootCauses } = context;
+
+  let prompt = '## Production Issue Detected\n\n';
+
+  // Provider status section — show this first so the AI sees it immediately
+  if (providerStatuses && providerStatuses.length > 0) {
+    prompt += '**⚠️ Provider Status (current):**\n';
+    for (const ps of providerStatuses) {
+      const statusLabel = ps.status === 'operational' ? '✅ operational' : `🔴 ${ps.status}`;
+      const detail = ps.description ? ` — ${ps.description}` : '';
+      prompt += `- ${ps.displayName}: ${statusLabel}${detail}\n`;
     }
+    prompt += '\nNote: One or more infrastructure providers are experiencing issues. Consider whether this incident is caused by the provider outage rather than a code bug.\n\n';
+  }
 
-    // Add monitor context if available
-    if (monitor) {
-      prompt += `**Service:** ${monitor.url}\n`;
-      prompt += `**Current Status:** ${monitor.status}\n\n`;
+  // Deploy context — a new error right after a deploy is most likely a regression
+  if (deployment) {
+    const firstEvent = Math.min(...events.map((e) => e.created_at.getTime()));
+    const minutesAfter = Math.max(Math.round((firstEvent - deployment.deployed_at.getTime()) / 60000), 0);
+    const details = [deployment.environment, deployment.commit_sha && `commit ${deployment.commit_sha}`]
+      .filter(Boolean)
+      .join(', ');
+
+    prompt += `**Latest Deploy:** ${deployment.version}${details ? ` (${details})` : ''}, deployed ${minutesAfter} minute(s) before the first event\n`;
+    if (deployment.first_seen_after_deploy) {
+      prompt += 'This error was first seen after this deploy. It was most likely introduced by the changes in it.\n';
     }
+    prompt += '\n';
+  }
 
-    // Add event information
-    prompt += `**Recent Events:**\n`;
-    for (const event of events) {
-      prompt += `- [${event.type.toUpperCase()}] ${event.message}\n`;
-      prompt += `  Severity: ${event.severity} | Time: ${event.created_at.toISOString()}\n`;
+  // Add monitor context if available
+  if (monitor) {
+    prompt += `**Service:** ${monitor.url}\n`;
+    prompt += `**Current Status:** ${monitor.status}\n\n`;
+  }
 
-      if (event.raw_data) {
-        const sanitizedData = this.sanitizeRawData(event.raw_data);
-        if (Object.keys(sanitizedData).length > 0) {
-          prompt += `  Details: ${JSON.stringify(sanitizedData, null, 2)}\n`;
-        }
-      }
-      prompt += '\n';
-    }
+  // Add event information
+  prompt += `**Recent Events:**\n`;
+  for (const event of events) {
+    prompt += `- [${event.type.toUpperCase()}] ${event.message}\n`;
+    prompt += `  Severity: ${event.severity} | Time: ${event.created_at.toISOString()}\n`;
 
-    // Add trace waterfall if available
-    if (traces && traces.length > 0) {
-      const waterfall = buildTraceWaterfall(traces);
-      if (waterfall) {
-        prompt += `\n**Request Traces (from OpenTelemetry instrumentation):**\n`;
-        prompt += `These traces show the exact sequence of operations your app performed during the failing request(s).\n\n`;
-        prompt += waterfall;
-        prompt += '\n';
+    if (event.raw_data) {
+      const sanitizedData = sanitizeRawData(event.raw_data);
+      if (Object.keys(sanitizedData).length > 0) {
+        prompt += `  Details: ${JSON.stringify(sanitizedData, null, 2)}\n`;
       }
-    }
 
-    // Add recent history if available
-    if (recentHistory && recentHistory.length > 0) {
-      prompt += `\n**Recent History (last 24 hours):**\n`;
-      for (const item of recentHistory.slice(0, 10)) {
-        prompt += `- ${item.timestamp.toISOString()}: ${item.status} - ${item.message}\n`;
+      // What the user did in the browser before it failed
+      const breadcrumbs = parseBreadcrumbs(event.raw_data.breadcrumbs);
+      if (breadcrumbs.length > 0) {
+        const errorTime = typeof event.raw_data.timestamp === 'number' ? event.raw_data.timestamp : event.created_at.getTime();
+        prompt += `  User actions before the error (oldest first):\n`;
+        prompt += formatBreadcrumbs(breadcrumbs, errorTime).map((line) => `  ${line}\n`).join('');
       }
-      prompt += '\n';
     }
-
-    prompt += '\nPlease diagnose this issue and provide a fix.';
-
-    return prompt;
+    prompt += '\n';
   }
 
-  private sanitizeRawData(data: Record<string, unknown>): Record<string, unknown> {
-    const sanitized: Record<string, unknown> = {};
-
-    // Include relevant fields, exclude sensitive or verbose ones
-    const relevantFields = [
-      'statusCode',
-      'responseTime',
-      'error',
-      'url',
-      'method',
-      'level',
-      'message',
-      'type',
-      'source',
-      'trace_id',
-      'span_id',
-      'service_name',
-      'operation_name',
-      'duration_ms',
-      'status_message',
-      'db_system',
-      'db_statement',
-    ];
-
-    for (const field of relevantFields) {
-      if (field in data) {
-        sanitized[field] = data[field];
-      }
+  // Add trace waterfall if available
+  if (traces && traces.length > 0) {
+    const waterfall = buildTraceWaterfall(traces);
+    if (waterfall) {
+      prompt += `\n**Request Traces (from OpenTelemetry instrumentation):**\n`;
+      prompt += `These traces show the exact sequence of operations your app performed during the failing request(s).\n\n`;
+      prompt += waterfall;
+      prompt += '\n';
     }
-
-    return sanitized;
   }
 
-  private parseResponse(text: string): DiagnosisResult {
-    try {
-      // Try to extract JSON from the response
-      const jsonMatch = text.match(/\{[\s\S]*\}/);
-      if (!jsonMatch) {
-        throw new Error('No JSON found in response');
-      }
-
-      const parsed = JSON.parse(jsonMatch[0]);
-
-      return {
-        root_cause: parsed.root_cause || 'Unable to determine root cause',
-        severity: this.normalizeSeverity(parsed.severity),
-        suggested_fix: parsed.suggested_fix || 'No fix suggested',
-        fix_prompt: parsed.fix_prompt || 'No fix prompt provided',
-        bottleneck_span: parsed.bottleneck_span || undefined,
-        trace_id: parsed.trace_id || undefined,
-      };
-    } catch (error) {
-      // Fallback if parsing fails
-      console.error('Failed to parse diagnosis response:', error);
-      return {
-        root_cause: 'Failed to parse diagnosis from AI response',
-        severity: 'warning',
-        suggested_fix: text.substring(0, 500),
-        fix_prompt:
-          'Unable to generate fix prompt. Please review the raw diagnosis and consult your AI coding assistant.',
-      };
+  // Add recent history if available
+  if (recentHistory && recentHistory.length > 0) {
+    prompt += `\n**Recent History (last 24 hours):**\n`;
+    for (const item of recentHistory.slice(0, 10)) {
+      prompt += `- ${item.timestamp.toISOString()}: ${item.status} - ${item.message}\n`;
     }
+    prompt += '\n';
   }
 
-  private normalizeSeverity(severity: string): 'critical' | 'warning' | 'info' {
-    const normalized = severity.toLowerCase();
-    if (normalized === 'critical') return 'critical';
-    if (normalized === 'warning') return 'warning';
-    return 'info';
-  }
-}
-
-/**
- * Build a human-readable waterfall view of traces, grouped by trace_id.
- * Each trace shows the root span and its children as an indented tree.
- */
-function buildTraceWaterfall(spans: TraceSpan[]): string {
-  // Group spans by trace_id
-  const traceMap = new Map<string, TraceSpan[]>();
-  for (const span of spans) {
-    const group = traceMap.get(span.trace_id) || [];
-    group.push(span);
-    traceMap.set(span.trace_id, group);
-  }
-
-  const sections: string[] = [];
-
-  for (const [traceId, traceSpans] of traceMap) {
-    // Sort by start_time
-    traceSpans.sort((a, b) => a.start_time - b.start_time);
-
-    // Build a parent → children index
-    const childrenMap = new Map<string | null, TraceSpan[]>();
-    for (const span of traceSpans) {
-      const parentKey = span.parent_span_id;
-      const siblings = childrenMap.get(parentKey) || [];
-      siblings.push(span);
-      childrenMap.set(parentKey, siblings);
+  // What similar incidents turned out to be, confirmed by the people who fixed them
+  if (priorRootCauses && priorRootCauses.length > 0) {
+    prompt += `\n**Confirmed Root Causes of Earlier Incidents With the Same Errors:**\n`;
+    for (const prior of priorRootCauses.slice(0, 5)) {
+      const how = prior.corrected ? 'reported by the user after the diagnosis was wrong' : 'diagnosis confirmed by the user';
+      prompt += `- ${prior.confirmed_at.toISOString()} (${how}): ${prior.root_cause}\n`;
     }
+    prompt += '\nNote: Check whether the same cause applies before suggesting a different one.\n';
+  }
 
-    // Find root spans (no parent or parent not in this trace)
-    const spanIds = new Set(traceSpans.map((s) => s.span_id));
-    const roots = traceSpans.filter(
-      (s) => !s.parent_span_id || !spanIds.has(s.parent_span_id)
-    );
-
-    if (roots.length === 0) continue;
+  prompt += '\nPlease diagnose this issue and provide a fix.';
 
-    let section = `\`\`\`\nTrace ${traceId}\n`;
+  return prompt;
+}
 
-    for (const root of roots) {
-      section += renderSpanTree(root, childrenMap, '', true);
+function sanitizeRawData(data: Record<string, unknown>): Record<string, unknown> {
+  const sanitized: Record<string, unknown> = {};
+
+  // Include relevant fields, exclude sensitive or verbose ones
+  const relevantFields = [
+    'statusCode',
+    'responseTime',
+    'error',
+    'url',
+    'method',
+    'level',
+    'message',
+    'type',
+    'source',
+    'trace_id',
+    'span_id',
+    'service_name',
+    'operation_name',
+    'duration_ms',
+    'status_message',
+    'db_system',
+    'db_statement',
+  ];
+
+  for (const field of relevantFields) {
+    if (field in data) {
+      sanitized[field] = data[field];
     }
-
-    section += '```\n';
-    sections.push(section);
-
-    // Limit to 5 traces to keep prompt size reasonable
-    if (sections.length >= 5) break;
   }
 
-  return sections.join('\n');
+  return sanitized;
 }
 
 /**
- * Render a single span and its children as an indented tree.
+ * Check that a model's answer is a complete diagnosis, normalising what can
+ * safely be normalised. Throws InvalidDiagnosisError listing every problem.
  */
-function renderSpanTree(
-  span: TraceSpan,
-  childrenMap: Map<string | null, TraceSpan[]>,
-  prefix: string,
-  isLast: boolean,
-): string {
-  const status = formatSpanStatus(span);
-  const label = formatSpanLabel(span);
-  const connector = prefix === '' ? '' : isLast ? '└─ ' : '├─ ';
-
-  let line = `${prefix}${connector}${label} (${span.duration_ms}ms) ${status}\n`;
-
-  // Add key attributes on a sub-line for context
-  const detail = formatSpanDetail(span);
-  if (detail) {
-    const detailPrefix = prefix === '' ? '   ' : prefix + (isLast ? '   ' : '│  ');
-    line += `${detailPrefix}${detail}\n`;
+export function validateDiagnosis(value: unknown): DiagnosisResult {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InvalidDiagnosisError(['the diagnosis must be a JSON object']);
   }
 
-  // Render children
-  const children = childrenMap.get(span.span_id) || [];
-  children.sort((a, b) => a.start_time - b.start_time);
-
-  const childPrefix = prefix === '' ? '' : prefix + (isLast ? '   ' : '│  ');
+  const input = value as Record<string, unknown>;
+  const problems: string[] = [];
 
-  for (let i = 0; i < children.length; i++) {
-    line += renderSpanTree(children[i], childrenMap, childPrefix, i === children.length - 1);
+  for (const field of ['root_cause', 'suggested_fix', 'fix_prompt']) {
+    if (typeof input[field] !== 'string' || (input[field] as string).trim() === '') {
+      problems.push(`${field} must be a non-empty string`);
+    }
   }
-
-  return line;
-}
-
-function formatSpanLabel(span: TraceSpan): string {
-  const attrs = span.attributes;
-
-  // Database spans: show db.system + operation
-  if (attrs['db.system']) {
-    const stmt = attrs['db.statement'];
-    if (typeof stmt === 'string') {
-      const truncated = stmt.length > 80 ? stmt.substring(0, 80) + '...' : stmt;
-      return `${attrs['db.system']}: ${truncated}`;
+  const severity = typeof input.severity === 'string' ? normalizeSeverity(input.severity) : null;
+  if (!severity) {
+    problems.push(`severity must be one of ${SEVERITIES.join(', ')}`);
+  }
+  for (const field of ['bottleneck_span', 'trace_id']) {
+    if (input[field] !== undefined && input[field] !== null && typeof input[field] !== 'string') {
+      problems.push(`${field} must be a string or null`);
     }
-    return `${attrs['db.system']}: ${span.operation_name}`;
   }
 
-  // HTTP spans: show method + route/target
-  const method = attrs['http.method'] || attrs['http.request.method'];
-  const route = attrs['http.route'] || attrs['http.target'] || attrs['url.path'];
-  if (method && route) {
-    return `${method} ${route}`;
+  if (problems.length > 0 || !severity) {
+    throw new InvalidDiagnosisError(problems);
   }
 
-  return span.operation_name;
+  return {
+    root_cause: (input.root_cause as string).trim(),
+    severity,
+    suggested_fix: (input.suggested_fix as string).trim(),
+    fix_prompt: (input.fix_prompt as string).trim(),
+    bottleneck_span: (input.bottleneck_span as string | null) || undefined,
+    trace_id: (input.trace_id as string | null) || undefined,
+  };
 }
 
-function formatSpanStatus(span: TraceSpan): string {
-  if (span.status_code === 'ERROR') {
-    const msg = span.status_message || 'error';
-    return `✗ ${msg}`;
-  }
-  if (span.status_code === 'OK') {
-    return '✓';
-  }
-  // UNSET — infer from http.status_code if available
-  const httpStatus = span.attributes['http.status_code'] || span.attributes['http.response.status_code'];
-  if (typeof httpStatus === 'number' && httpStatus >= 400) {
-    return `✗ HTTP ${httpStatus}`;
-  }
-  return '✓';
-}
-
-function formatSpanDetail(span: TraceSpan): string {
-  const parts: string[] = [];
-  const attrs = span.attributes;
-
-  // Error message from span events
-  if (span.status_code === 'ERROR') {
-    const exceptionEvent = span.events.find((e) => e.name === 'exception');
-    if (exceptionEvent?.attributes) {
-      const msg = exceptionEvent.attributes['exception.message'];
-      if (typeof msg === 'string') {
-        parts.push(`error: ${msg.length > 120 ? msg.substring(0, 120) + '...' : msg}`);
-      }
-    }
+/**
+ * Pull the diagnosis JSON out of an LLM's text reply and validate it. Throws
+ * InvalidDiagnosisError when there's no valid diagnosis in it.
+ */
+export function parseDiagnosisResponse(text: string): DiagnosisResult {
+  const jsonMatch = text.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new InvalidDiagnosisError(['no JSON object found in the response']);
   }
 
-  // HTTP status
-  const httpStatus = attrs['http.status_code'] || attrs['http.response.status_code'];
-  if (httpStatus) {
-    parts.push(`status: ${httpStatus}`);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(jsonMatch[0]);
+  } catch (error) {
+    throw new InvalidDiagnosisError([`the JSON could not be parsed (${error instanceof Error ? error.message : error})`]);
   }
 
-  // DB statement (if not already in label, show here for children)
-  if (attrs['db.statement'] && !attrs['db.system']) {
-    const stmt = String(attrs['db.statement']);
-    parts.push(stmt.length > 80 ? stmt.substring(0, 80) + '...' : stmt);
-  }
+  return validateDiagnosis(parsed);
+}
 
-  return parts.join(' | ');
+function normalizeSeverity(severity: string): DiagnosisResult['severity'] | null {
+  const normalized = severity.trim().toLowerCase();
+  return SEVERITIES.find((s) => s === normalized) ?? null;
 }
@@ -0,0 +1,160 @@
+import type { Event } from './types.js';
+
+export interface StackFrame {
+  function?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+}
+
+export interface ErrorFingerprint {
+  /** Stable hash identifying the issue group */
+  fingerprint: string;
+  /** Human-readable issue title, e.g. "TypeError: Cannot read properties of undefined" */
+  title: string;
+  /** Where the error was raised, e.g. "handleCheckout (src/checkout.ts)" */
+  culprit: string | null;
+}
+
+const FINGERPRINTED_TYPES: Event['type'][] = ['error', 'down', 'trace_error'];
+
+// Frames used for grouping — deeper frames vary with the call path more than the bug
+const MAX_GROUPING_FRAMES = 5;
+
+/**
+ * Compute the issue fingerprint for an event, or null for event types that
+ * aren't grouped into issues. Events with a stack trace are grouped by their
+ * error type and top in-app frames; the rest by their normalized message.
+ */
+export function fingerprintEvent(
+  event: Pick<Event, 'type' | 'source' | 'message' | 'raw_data'>
+): ErrorFingerprint | null {
+  if (!FINGERPRINTED_TYPES.includes(event.type)) return null;
+
+  const raw = event.raw_data ?? {};
+  const exception = (raw.exception ?? {}) as Record<string, unknown>;
+
+  // Prefer the structured exception (OTel) over the event message
+  const message = typeof exception.message === 'string' && exception.message
+    ? `${typeof exception.type === 'string' ? `${exception.type}: ` : ''}${exception.message}`
+    : event.message;
+
+  const stack = findStack(event);
+  const frames = stack ? groupingFrames(parseStackTrace(stack)) : [];
+  const errorType = typeof exception.type === 'string' ? exception.type : extractErrorType(message);
+  const firstLine = message.split('\n')[0].trim();
+
+  const parts = frames.length > 0
+    ? [event.source, errorType ?? '', ...frames.map(frameKey)]
+    : [event.source, event.type, normalizeMessage(firstLine)];
+
+  const culpritFrame = frames[0];
+
+  return {
+    fingerprint: hash(parts.join('\n')),
+    title: firstLine.slice(0, 200),
+    culprit: culpritFrame
+      ? `${culpritFrame.function || '<anonymous>'}${culpritFrame.file ? ` (${normalizeFile(culpritFrame.file)})` : ''}`
+      : null,
+  };
+}
+
+/**
+ * Replace the variable parts of an error message (ids, numbers, hashes,
+ * URLs' query strings) so occurrences of the same error compare equal.
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/[a-f0-9]{8}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{4}-[a-f0-9]{12}/gi, '<uuid>')
+    .replace(/\b\d{4}-\d{2}-\d{2}[T ][\d:.]+Z?\b/g, '<date>')
+    .replace(/\b(?=[a-f0-9]*\d)(?=[a-f0-9]*[a-f])[a-f0-9]{8,}\b/gi, '<hex>')
+    .replace(/(https?:\/\/[^\s?#'"]+)\?[^\s#'"]*/g, '$1')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Parse V8 ("at fn (file:1:2)"), Firefox/Safari ("fn@file:1:2") and Python
+ * ('File "x.py", line 1, in fn') stack traces. Unrecognised lines are skipped.
+ */
+export function parseStackTrace(stack: string): StackFrame[] {
+  const frames: StackFrame[] = [];
+
+  for (const rawLine of stack.split('\n')) {
+    const line = rawLine.trim();
+    let match: RegExpMatchArray | null;
+
+    if ((match = line.match(/^at (?:(.+?) \()?(.+?)(?::(\d+))?(?::(\d+))?\)?$/))) {
+      frames.push({ function: match[1], file: match[2], line: toNumber(match[3]), column: toNumber(match[4]) });
+    } else if ((match = line.match(/^([^\s@]*)@(\S+?)(?::(\d+))?(?::(\d+))?$/))) {
+      frames.push({ function: match[1] || undefined, file: match[2], line: toNumber(match[3]), column: toNumber(match[4]) });
+    } else if ((match = line.match(/^File "(.+)", line (\d+)(?:, in (.+))?$/))) {
+      // Python lists the innermost frame last
+      frames.unshift({ function: match[3], file: match[1], line: toNumber(match[2]) });
+    }
+  }
+
+  return frames;
+}
+
+/**
+ * Strip build-specific parts from a file path: origin, query string and
+ * content hashes (main.3f2a9c1b.js → main.js).
+ */
+export function normalizeFile(file: string): string {
+  return file
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '')
+    .replace(/[?#].*$/, '')
+    .replace(/[.-][a-f0-9]{6,}(?=\.[a-z]+$)/i, '')
+    .replace(/^\/+/, '');
+}
+
+function findStack(event: Pick<Event, 'message' | 'raw_data'>): string | null {
+  const raw = event.raw_data ?? {};
+  const exception = (raw.exception ?? {}) as Record<string, unknown>;
+  const attributes = (raw.attributes ?? {}) as Record<string, unknown>;
+
+  const candidate = [exception.stacktrace, raw.stack, raw.stacktrace, attributes['exception.stacktrace']]
+    .find((v): v is string => typeof v === 'string' && v.length > 0);
+  if (candidate) return candidate;
+
+  // Log lines (e.g. Vercel stderr) often carry the stack in the message itself
+  return event.message.includes('\n') ? event.message : null;
+}
+
+function groupingFrames(frames: StackFrame[]): StackFrame[] {
+  const inApp = frames.filter((f) => f.file && !isLibraryFrame(f.file));
+  return (inApp.length > 0 ? inApp : frames).slice(0, MAX_GROUPING_FRAMES);
+}
+
+function isLibraryFrame(file: string): boolean {
+  return /node_modules|^node:|^internal\/|<anonymous>|site-packages|^native$/.test(file);
+}
+
+// Line and column numbers change with every build, so only function and file are used
+function frameKey(frame: StackFrame): string {
+  return `${frame.function ?? '?'}@${frame.file ? normalizeFile(frame.file) : '?'}`;
+}
+
+function extractErrorType(message: string): string | null {
+  const match = message.match(/^(?:\[\w+\]\s*)?(?:Uncaught\s+)?([A-Z]\w*(?:Error|Exception))\b/);
+  return match ? match[1] : null;
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * 64-bit FNV-1a, hex encoded. Not cryptographic; only needs to be stable.
+ */
+function hash(input: string): string {
+  let h = 0xcbf29ce484222325n;
+  for (let i = 0; i < input.length; i++) {
+    h ^= BigInt(input.charCodeAt(i));
+    h = (h * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return h.toString(16).padStart(16, '0');
+}
@@ -1,3 +1,9 @@
 export * from './types.js';
 export * from './diagnoser.js';
+export * from './openai-diagnoser.js';
+export * from './rule-diagnoser.js';
+export * from './pricing.js';
 export * from './correlator.js';
+export * from './fingerprint.js';
+export * from './breadcrumbs.js';
+export * from './traces.js';
@@ -0,0 +1,131 @@
+import type { DiagnosisResult } from './types.js';
+import {
+  DEFAULT_DIAGNOSIS_RETRIES,
+  DEFAULT_DIAGNOSIS_TIMEOUT_MS,
+  DIAGNOSIS_SCHEMA,
+  InvalidDiagnosisError,
+  buildDiagnosisPrompt,
+  buildSystemPrompt,
+  parseDiagnosisResponse,
+  type DiagnosisContext,
+  type DiagnosisProvider,
+} from './diagnoser.js';
+import { estimateCost } from './pricing.js';
+
+interface OpenAICompatibleDiagnoserConfig {
+  /** Defaults to https://api.openai.com/v1. Point at Ollama, vLLM or LM Studio to run locally. */
+  baseUrl?: string;
+  /** Optional, since most local model servers don't check it */
+  apiKey?: string;
+  model: string;
+  /** Per request. Defaults to 30 seconds. */
+  timeoutMs?: number;
+  /** Extra attempts after a malformed diagnosis. Defaults to 1. */
+  maxRetries?: number;
+}
+
+interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Diagnoses through any server that speaks the OpenAI chat completions API,
+ * asking for output that matches DIAGNOSIS_SCHEMA. Answers that don't
+ * validate are sent back with what was wrong and retried.
+ */
+export class OpenAICompatibleDiagnosisProvider implements DiagnosisProvider {
+  readonly name = 'openai';
+  private baseUrl: string;
+  private apiKey?: string;
+  private model: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+
+  constructor(config: OpenAICompatibleDiagnoserConfig) {
+    this.baseUrl = (config.baseUrl || 'https://api.openai.com/v1').replace(/\/+$/, '');
+    this.apiKey = config.apiKey;
+    this.model = config.model;
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_DIAGNOSIS_TIMEOUT_MS;
+    this.maxRetries = config.maxRetries ?? DEFAULT_DIAGNOSIS_RETRIES;
+  }
+
+  async diagnose(context: DiagnosisContext): Promise<DiagnosisResult> {
+    const started = Date.now();
+    const messages: ChatMessage[] = [
+      { role: 'system', content: buildSystemPrompt(context) },
+      { role: 'user', content: buildDiagnosisPrompt(context) },
+    ];
+    let inputTokens = 0;
+    let outputTokens = 0;
+
+    for (let attempt = 1; ; attempt++) {
+      const data = await this.complete(messages);
+      inputTokens += data.usage?.prompt_tokens ?? 0;
+      outputTokens += data.usage?.completion_tokens ?? 0;
+
+      const content = data.choices?.[0]?.message?.content;
+      try {
+        if (typeof content !== 'string') {
+          throw new InvalidDiagnosisError(['the response had no message content']);
+        }
+        return {
+          ...parseDiagnosisResponse(content),
+          usage: {
+            provider: this.name,
+            model: this.model,
+            input_tokens: inputTokens,
+            output_tokens: outputTokens,
+            cost_usd: estimateCost(this.model, inputTokens, outputTokens),
+            attempts: attempt,
+            duration_ms: Date.now() - started,
+          },
+        };
+      } catch (error) {
+        if (!(error instanceof InvalidDiagnosisError) || attempt > this.maxRetries) throw error;
+
+        // Show the model what was wrong and let it try again
+        messages.push({ role: 'assistant', content: content ?? '' });
+        messages.push({
+          role: 'user',
+          content: `${error.message}. Answer again with only a JSON object matching the requested format.`,
+        });
+      }
+    }
+  }
+
+  private async complete(messages: ChatMessage[]): Promise<ChatCompletionResponse> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        max_tokens: 2000,
+        temperature: 0.3,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: 'diagnosis', schema: DIAGNOSIS_SCHEMA, strict: true },
+        },
+        messages,
+      }),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new Error(`Diagnosis request to ${this.baseUrl} failed with ${response.status}: ${body.substring(0, 200)}`);
+    }
+
+    return (await response.json()) as ChatCompletionResponse;
+  }
+}
@@ -0,0 +1,28 @@
+// List prices in USD per million tokens: [model prefix, input, output].
+// More specific prefixes come first.
+const MODEL_PRICES: Array<[prefix: string, input: number, output: number]> = [
+  ['claude-opus-4-5', 5, 25],
+  ['claude-opus-4', 15, 75],
+  ['claude-sonnet-4', 3, 15],
+  ['claude-3-7-sonnet', 3, 15],
+  ['claude-3-5-sonnet', 3, 15],
+  ['claude-haiku-4', 1, 5],
+  ['claude-3-5-haiku', 0.8, 4],
+  ['claude-3-haiku', 0.25, 1.25],
+  ['gpt-4o-mini', 0.15, 0.6],
+  ['gpt-4o', 2.5, 10],
+  ['gpt-4.1-nano', 0.1, 0.4],
+  ['gpt-4.1-mini', 0.4, 1.6],
+  ['gpt-4.1', 2, 8],
+];
+
+/**
+ * Estimated cost of a model call, or null when the model's price isn't
+ * known, e.g. for a local model.
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number | null {
+  const price = MODEL_PRICES.find(([prefix]) => model.startsWith(prefix));
+  if (!price) return null;
+  const [, input, output] = price;
+  return (inputTokens * input + outputTokens * output) / 1_000_000;
+}
@@ -0,0 +1,260 @@
+import type { DiagnosisResult, Event, TraceSpan } from './types.js';
+import type { DiagnosisContext, DiagnosisProvider } from './diagnoser.js';
+import { formatSpanLabel } from './traces.js';
+
+interface ErrorSignature {
+  pattern: RegExp;
+  root_cause: string;
+  suggested_fix: string;
+  /** What the AI coding assistant should change, used in the fix prompt */
+  task: string;
+}
+
+// Checked in order, so put specific signatures before general ones
+const ERROR_SIGNATURES: ErrorSignature[] = [
+  {
+    pattern: /too many (clients|connections)|remaining connection slots|connection pool|pool (is )?exhausted|timeout acquiring a connection/i,
+    root_cause: 'Your app ran out of database connections. Each request opens a connection and they are not being released or shared fast enough.',
+    suggested_fix: 'Use a single shared database client or pool instead of creating one per request, and make sure connections are released when a query finishes. On serverless hosts, use your database provider\'s connection pooler.',
+    task: 'Make the app reuse one database client/pool across requests, release connections after each query, and use a pooled connection string if the app runs on serverless functions.',
+  },
+  {
+    pattern: /relation "?[\w.]+"? does not exist|no such table|no such column|column "?[\w.]+"? does not exist|unknown column|table '?[\w.]+'? doesn't exist/i,
+    root_cause: 'The code expects a database table or column that doesn\'t exist yet. A database migration probably wasn\'t run for this environment.',
+    suggested_fix: 'Run your pending database migrations against production, or add the missing table/column. Make migrations part of your deploy so code and schema ship together.',
+    task: 'Find the migration that creates the missing table or column, make sure it runs during deploy, and add a check so the app fails fast at startup if migrations are pending.',
+  },
+  {
+    pattern: /ECONNREFUSED|connection refused/i,
+    root_cause: 'Your app tried to connect to a service (like a database, cache or API) and the connection was refused. That service is down, not listening on that address, or the address is wrong.',
+    suggested_fix: 'Check that the service is running and that the host and port in your environment variables are correct for production, not left over from local development.',
+    task: 'Find where the app connects to the refused host/port, make sure it reads the address from an environment variable, and add a clear error message plus retry with backoff when the connection fails.',
+  },
+  {
+    pattern: /ENOTFOUND|EAI_AGAIN|getaddrinfo/i,
+    root_cause: 'Your app tried to reach a hostname that couldn\'t be found. The hostname is misspelled, missing from the environment, or DNS is failing.',
+    suggested_fix: 'Check the hostname in your environment variables for typos and make sure the variable is set in production.',
+    task: 'Find where the failing hostname comes from, validate that the environment variable is set at startup, and log which host could not be resolved.',
+  },
+  {
+    pattern: /ETIMEDOUT|ESOCKETTIMEDOUT|timed? ?out|deadline exceeded/i,
+    root_cause: 'A request took too long and was cut off. Something your app depends on, often a database query or external API, is responding slowly or not at all.',
+    suggested_fix: 'Find the slow call and add a sensible timeout with a retry or a fallback. If it is a database query, check whether it needs an index.',
+    task: 'Find the call that is timing out, add an explicit timeout with retry and backoff, and return a friendly error to the user instead of hanging.',
+  },
+  {
+    pattern: /cannot read propert(y|ies) of (undefined|null)|undefined is not an object|null is not an object|cannot destructure/i,
+    root_cause: 'The code tried to use a value that wasn\'t there: something expected to be an object was undefined or null, often because data hadn\'t loaded yet or an API returned something unexpected.',
+    suggested_fix: 'Add a check before using the value, or use optional chaining (?.) with a sensible default, and handle the case where the data is missing.',
+    task: 'Find the line that reads a property of undefined/null, guard it with a null check or optional chaining, and handle the missing-data case explicitly (loading state, empty state or error message).',
+  },
+  {
+    pattern: /is not a function/i,
+    root_cause: 'The code called something as a function that isn\'t one. Usually an import is wrong, a library version changed its API, or a value is undefined.',
+    suggested_fix: 'Check the import and the library version for the function being called, and make sure the value is what you expect before calling it.',
+    task: 'Find the "is not a function" call, fix the import or usage to match the installed library version, and add a type check if the value can vary.',
+  },
+  {
+    pattern: /cannot find module|module not found|ERR_MODULE_NOT_FOUND/i,
+    root_cause: 'The app tried to load a file or package that isn\'t there in production. It may be missing from dependencies, or a path is wrong or uses the wrong letter case.',
+    suggested_fix: 'Make sure the package is listed under dependencies (not only devDependencies) and that import paths match the file names exactly, including case.',
+    task: 'Find the missing module, add it to dependencies or fix the import path (check letter case), and confirm the production build includes it.',
+  },
+  {
+    pattern: /\b401\b|\b403\b|unauthori[sz]ed|forbidden|invalid api key|invalid token|jwt expired/i,
+    root_cause: 'A request was rejected because its credentials were missing, wrong or expired. An API key or token is probably not set correctly in production.',
+    suggested_fix: 'Check that the API keys and secrets are set in your production environment and haven\'t expired or been rotated. Refresh tokens before they expire.',
+    task: 'Find the failing authenticated call, make sure its key/token is read from an environment variable that is set in production, and handle expired tokens by refreshing them.',
+  },
+  {
+    pattern: /\b429\b|rate limit|too many requests/i,
+    root_cause: 'Your app is sending too many requests to a service and it has started rejecting them (rate limiting).',
+    suggested_fix: 'Slow down: cache responses, batch requests, and retry with exponential backoff when you get a 429.',
+    task: 'Find the rate-limited calls, add caching or batching to reduce them, and retry 429 responses with exponential backoff that respects the Retry-After header.',
+  },
+  {
+    pattern: /out of memory|heap out of memory|ENOMEM|allocation failed/i,
+    root_cause: 'Your app ran out of memory and crashed. Something is loading too much data at once or holding on to data it no longer needs.',
+    suggested_fix: 'Look for places that load whole tables or files into memory and process them in pages or streams instead. Check for caches or arrays that grow forever.',
+    task: 'Find code that loads large datasets or files into memory and change it to paginate or stream, and bound any in-memory caches.',
+  },
+  {
+    pattern: /CORS|Access-Control-Allow-Origin|cross-origin/i,
+    root_cause: 'The browser blocked a request because the server didn\'t allow requests from your site\'s domain (a CORS error).',
+    suggested_fix: 'Configure the API to allow your production domain in its CORS settings.',
+    task: 'Find the API the browser is calling and configure its CORS settings to allow the production origin, including any custom headers and methods it needs.',
+  },
+  {
+    pattern: /certificate|CERT_|self[- ]signed|SSL|TLS/i,
+    root_cause: 'A secure (HTTPS) connection failed because of a certificate problem: it may be expired, self-signed or issued for a different hostname.',
+    suggested_fix: 'Renew or fix the certificate for the affected domain, and make sure the hostname you connect to matches the certificate.',
+    task: 'Find which HTTPS connection fails certificate validation, fix the hostname or certificate configuration, and do not disable certificate verification.',
+  },
+];
+
+const DOWN_TYPES = new Set<Event['type']>(['down']);
+
+/**
+ * Diagnoses offline, without an LLM, from provider outages, known error
+ * signatures and trace bottlenecks. Less thorough than a model, but it needs
+ * no API key and never leaves the server.
+ */
+export class RuleBasedDiagnosisProvider implements DiagnosisProvider {
+  readonly name = 'rules';
+
+  async diagnose(context: DiagnosisContext): Promise<DiagnosisResult> {
+    const started = Date.now();
+    return {
+      ...this.match(context),
+      usage: {
+        provider: this.name,
+        model: null,
+        input_tokens: 0,
+        output_tokens: 0,
+        cost_usd: 0,
+        attempts: 1,
+        duration_ms: Date.now() - started,
+      },
+    };
+  }
+
+  private match(context: DiagnosisContext): DiagnosisResult {
+    const { events, monitor, providerStatuses, deployment } = context;
+    const severity = severityFor(events);
+    const bottleneck = findBottleneck(context.traces ?? []);
+
+    // A provider outage explains the incident better than anything in the app
+    if (providerStatuses && providerStatuses.length > 0) {
+      const providers = providerStatuses.map((p) => `${p.displayName} (${p.status})`).join(', ');
+      return {
+        root_cause: `This is most likely caused by an outage at ${providers}, not a bug in your code.`,
+        severity,
+        suggested_fix: 'Wait for the provider to recover and keep an eye on their status page. If this keeps happening, consider adding retries or a fallback for that provider.',
+        fix_prompt: buildFixPrompt(
+          context,
+          `My app is affected by an outage at ${providers}.`,
+          'Optionally make the app more resilient to this provider being down: add retries with backoff, a timeout, and a friendly fallback message for users. This is an improvement, not a bug fix.',
+          bottleneck
+        ),
+        ...bottleneckFields(bottleneck),
+      };
+    }
+
+    const text = [
+      ...events.flatMap((e) => [e.message, e.raw_data?.error, e.raw_data?.status_message]),
+      bottleneck?.span.status_message,
+    ].filter((t): t is string => typeof t === 'string').join('\n');
+    const signature = ERROR_SIGNATURES.find((s) => s.pattern.test(text));
+
+    let rootCause: string;
+    let suggestedFix: string;
+    let task: string;
+
+    if (signature) {
+      rootCause = signature.root_cause;
+      suggestedFix = signature.suggested_fix;
+      task = signature.task;
+    } else if (bottleneck) {
+      rootCause = bottleneck.failed
+        ? `The operation "${bottleneck.label}" failed, which caused the request to fail.`
+        : `The operation "${bottleneck.label}" took ${bottleneck.span.duration_ms}ms, most of the request's total time.`;
+      suggestedFix = bottleneck.failed
+        ? 'Look at the error from this operation and handle it: check its inputs, and add error handling so one failure doesn\'t break the whole request.'
+        : 'Speed up this operation: add a database index, cache the result, or run it in parallel with other work.';
+      task = bottleneck.failed
+        ? `Find the code for "${bottleneck.label}", fix the cause of its error, and handle failures from it gracefully.`
+        : `Find the code for "${bottleneck.label}" and make it faster, e.g. by adding an index, caching or avoiding repeated calls.`;
+    } else if (events.some((e) => DOWN_TYPES.has(e.type))) {
+      const target = monitor?.url ?? 'Your app';
+      rootCause = `${target} is not responding to health checks. The app may have crashed, failed to start after a deploy, or its host is having problems.`;
+      suggestedFix = 'Check your hosting dashboard and the latest logs to see whether the app is running, and restart or roll back if it failed to start.';
+      task = 'Check why the app stops responding: look for startup errors, missing environment variables or crashes in the logs, and add a /health endpoint that reports what is failing.';
+    } else {
+      rootCause = `${events[0]?.message ?? 'Something went wrong in your app'}. No known cause matched these errors.`;
+      suggestedFix = 'Look at the events and logs around this time to find where the error comes from, then add error handling there.';
+      task = 'Find where this error is thrown, fix the underlying cause, and add error handling and logging around it.';
+    }
+
+    const prior = context.priorRootCauses?.[0];
+    if (prior) {
+      rootCause += ` Last time these errors happened, the cause turned out to be: ${prior.root_cause}`;
+    }
+
+    if (deployment?.first_seen_after_deploy) {
+      rootCause += ` These errors started after deploy ${deployment.version}, so that deploy is the likely cause.`;
+      suggestedFix += ` If users are affected, roll back to the previous deploy while you fix it.`;
+    }
+
+    return {
+      root_cause: rootCause,
+      severity,
+      suggested_fix: suggestedFix,
+      fix_prompt: buildFixPrompt(context, rootCause, task, bottleneck),
+      ...bottleneckFields(bottleneck),
+    };
+  }
+}
+
+interface Bottleneck {
+  span: TraceSpan;
+  label: string;
+  failed: boolean;
+}
+
+/**
+ * The span most responsible for a trace going wrong: the deepest failed span
+ * if any failed, otherwise a child span taking over half of its trace.
+ */
+function findBottleneck(spans: TraceSpan[]): Bottleneck | null {
+  if (spans.length === 0) return null;
+
+  const failed = spans.filter((s) => s.status_code === 'ERROR');
+  if (failed.length > 0) {
+    // A failed span with no failed children is where the error started
+    const origin = failed.find((s) => !failed.some((c) => c.parent_span_id === s.span_id)) ?? failed[0];
+    return { span: origin, label: formatSpanLabel(origin), failed: true };
+  }
+
+  let slowest: { span: TraceSpan; share: number } | null = null;
+  for (const root of spans.filter((s) => !s.parent_span_id && s.duration_ms > 0)) {
+    for (const span of spans) {
+      if (span.trace_id !== root.trace_id || span === root) continue;
+      const share = span.duration_ms / root.duration_ms;
+      if (share > 0.5 && (!slowest || share > slowest.share)) {
+        slowest = { span, share };
+      }
+    }
+  }
+  return slowest ? { span: slowest.span, label: formatSpanLabel(slowest.span), failed: false } : null;
+}
+
+function bottleneckFields(bottleneck: Bottleneck | null): Pick<DiagnosisResult, 'bottleneck_span' | 'trace_id'> {
+  if (!bottleneck) return {};
+  return { bottleneck_span: bottleneck.label, trace_id: bottleneck.span.trace_id };
+}
+
+function severityFor(events: Event[]): DiagnosisResult['severity'] {
+  if (events.some((e) => e.severity === 'critical' || e.severity === 'high' || e.type === 'down')) return 'critical';
+  if (events.some((e) => e.severity === 'medium')) return 'warning';
+  return 'info';
+}
+
+function buildFixPrompt(context: DiagnosisContext, problem: string, task: string, bottleneck: Bottleneck | null): string {
+  const lines = [`My production app has a problem. ${problem}`, '', 'What I am seeing:'];
+  for (const event of context.events.slice(0, 5)) {
+    lines.push(`- [${event.source}] ${event.message}`);
+  }
+  if (context.monitor) {
+    lines.push(`- Affected URL: ${context.monitor.url}`);
+  }
+  if (bottleneck) {
+    const detail = bottleneck.span.status_message ? `: ${bottleneck.span.status_message}` : '';
+    lines.push(`- ${bottleneck.failed ? 'Failing' : 'Slowest'} operation: ${bottleneck.label} (${bottleneck.span.duration_ms}ms)${detail}`);
+  }
+  if (context.deployment) {
+    const commit = context.deployment.commit_sha ? ` (commit ${context.deployment.commit_sha.substring(0, 7)})` : '';
+    lines.push(`- Live deploy: ${context.deployment.version}${commit}`);
+  }
+  lines.push('', `Please ${task.charAt(0).toLowerCase()}${task.slice(1)}`, '', 'Explain what you changed and how I can test the fix.');
+  return lines.join('\n');
+}
@@ -0,0 +1,187 @@
+import type { TraceSpan } from './types.js';
+import { parseBreadcrumbs } from './breadcrumbs.js';
+
+const TRACE_ID = /^[0-9a-f]{32}$/;
+
+// Failed requests in a browser error's trail whose traces are fetched too, newest first
+const MAX_BREADCRUMB_TRACES = 3;
+
+/**
+ * Trace ids an event points at directly: an OpenTelemetry span's
+ * `trace_id`, a failed browser request's `traceId`, and the traces of the
+ * failed requests in a browser error's breadcrumbs.
+ */
+export function eventTraceIds(event: { raw_data?: Record<string, unknown> | null }): string[] {
+  const raw = event.raw_data ?? {};
+  const ids: string[] = [];
+
+  // Stored as the exporter sent it, so only checked for being there
+  if (typeof raw.trace_id === 'string' && raw.trace_id) ids.push(raw.trace_id);
+
+  // From the browser, so only well-formed W3C trace ids
+  const failedRequests = parseBreadcrumbs(raw.breadcrumbs)
+    .filter((b) => (b.type === 'fetch' || b.type === 'xhr') && (b.data?.status_code == null || Number(b.data.status_code) >= 400))
+    .reverse()
+    .slice(0, MAX_BREADCRUMB_TRACES);
+  for (const id of [raw.traceId, ...failedRequests.map((b) => b.data?.trace_id)]) {
+    if (typeof id === 'string' && TRACE_ID.test(id) && id !== '0'.repeat(32)) ids.push(id);
+  }
+
+  return [...new Set(ids)];
+}
+
+/**
+ * Build a human-readable waterfall view of traces, grouped by trace_id.
+ * Each trace shows the root span and its children as an indented tree.
+ */
+export function buildTraceWaterfall(spans: TraceSpan[]): string {
+  // Group spans by trace_id
+  const traceMap = new Map<string, TraceSpan[]>();
+  for (const span of spans) {
+    const group = traceMap.get(span.trace_id) || [];
+    group.push(span);
+    traceMap.set(span.trace_id, group);
+  }
+
+  const sections: string[] = [];
+
+  for (const [traceId, traceSpans] of traceMap) {
+    // Sort by start_time
+    traceSpans.sort((a, b) => a.start_time - b.start_time);
+
+    // Build a parent → children index
+    const childrenMap = new Map<string | null, TraceSpan[]>();
+    for (const span of traceSpans) {
+      const parentKey = span.parent_span_id;
+      const siblings = childrenMap.get(parentKey) || [];
+      siblings.push(span);
+      childrenMap.set(parentKey, siblings);
+    }
+
+    // Find root spans (no parent or parent not in this trace)
+    const spanIds = new Set(traceSpans.map((s) => s.span_id));
+    const roots = traceSpans.filter(
+      (s) => !s.parent_span_id || !spanIds.has(s.parent_span_id)
+    );
+
+    if (roots.length === 0) continue;
+
+    let section = `\`\`\`\nTrace ${traceId}\n`;
+
+    for (const root of roots) {
+      section += renderSpanTree(root, childrenMap, '', true);
+    }
+
+    section += '```\n';
+    sections.push(section);
+
+    // Limit to 5 traces to keep prompt size reasonable
+    if (sections.length >= 5) break;
+  }
+
+  return sections.join('\n');
+}
+
+/**
+ * Render a single span and its children as an indented tree.
+ */
+function renderSpanTree(
+  span: TraceSpan,
+  childrenMap: Map<string | null, TraceSpan[]>,
+  prefix: string,
+  isLast: boolean,
+): string {
+  const status = formatSpanStatus(span);
+  const label = formatSpanLabel(span);
+  const connector = prefix === '' ? '' : isLast ? '└─ ' : '├─ ';
+
+  let line = `${prefix}${connector}${label} (${span.duration_ms}ms) ${status}\n`;
+
+  // Add key attributes on a sub-line for context
+  const detail = formatSpanDetail(span);
+  if (detail) {
+    const detailPrefix = prefix === '' ? '   ' : prefix + (isLast ? '   ' : '│  ');
+    line += `${detailPrefix}${detail}\n`;
+  }
+
+  // Render children
+  const children = childrenMap.get(span.span_id) || [];
+  children.sort((a, b) => a.start_time - b.start_time);
+
+  const childPrefix = prefix === '' ? '' : prefix + (isLast ? '   ' : '│  ');
+
+  for (let i = 0; i < children.length; i++) {
+    line += renderSpanTree(children[i], childrenMap, childPrefix, i === children.length - 1);
+  }
+
+  return line;
+}
+
+export function formatSpanLabel(span: TraceSpan): string {
+  const attrs = span.attributes;
+
+  // Database spans: show db.system + operation
+  if (attrs['db.system']) {
+    const stmt = attrs['db.statement'];
+    if (typeof stmt === 'string') {
+      const truncated = stmt.length > 80 ? stmt.substring(0, 80) + '...' : stmt;
+      return `${attrs['db.system']}: ${truncated}`;
+    }
+    return `${attrs['db.system']}: ${span.operation_name}`;
+  }
+
+  // HTTP spans: show method + route/target
+  const method = attrs['http.method'] || attrs['http.request.method'];
+  const route = attrs['http.route'] || attrs['http.target'] || attrs['url.path'];
+  if (method && route) {
+    return `${method} ${route}`;
+  }
+
+  return span.operation_name;
+}
+
+function formatSpanStatus(span: TraceSpan): string {
+  if (span.status_code === 'ERROR') {
+    const msg = span.status_message || 'error';
+    return `✗ ${msg}`;
+  }
+  if (span.status_code === 'OK') {
+    return '✓';
+  }
+  // UNSET — infer from http.status_code if available
+  const httpStatus = span.attributes['http.status_code'] || span.attributes['http.response.status_code'];
+  if (typeof httpStatus === 'number' && httpStatus >= 400) {
+    return `✗ HTTP ${httpStatus}`;
+  }
+  return '✓';
+}
+
+function formatSpanDetail(span: TraceSpan): string {
+  const parts: string[] = [];
+  const attrs = span.attributes;
+
+  // Error message from span events
+  if (span.status_code === 'ERROR') {
+    const exceptionEvent = span.events.find((e) => e.name === 'exception');
+    if (exceptionEvent?.attributes) {
+      const msg = exceptionEvent.attributes['exception.message'];
+      if (typeof msg === 'string') {
+        parts.push(`error: ${msg.length > 120 ? msg.substring(0, 120) + '...' : msg}`);
+      }
+    }
+  }
+
+  // HTTP status
+  const httpStatus = attrs['http.status_code'] || attrs['http.response.status_code'];
+  if (httpStatus) {
+    parts.push(`status: ${httpStatus}`);
+  }
+
+  // DB statement (if not already in label, show here for children)
+  if (attrs['db.statement'] && !attrs['db.system']) {
+    const stmt = String(attrs['db.statement']);
+    parts.push(stmt.length > 80 ? stmt.substring(0, 80) + '...' : stmt);
+  }
+
+  return parts.join(' | ');
+}
@@ -1,4 +1,4 @@
-export interface Monitor {
+export interface Monitor extends Partial<MonitorCheckConfig> {
   id: string;
   project_id: string;
   url: string;
@@ -6,6 +6,67 @@ export interface Monitor {
   last_checked_at?: Date;
   status: 'up' | 'down' | 'unknown';
   created_at: Date;
+  /** Defaults to 'http'. Transaction monitors run `steps` instead of checking `url`. */
+  type?: MonitorType;
+  steps?: TransactionStep[];
+  /** Consecutive failed checks before an incident is opened. Defaults to 2. */
+  failure_threshold?: number;
+}
+
+export type MonitorType = 'http' | 'transaction';
+
+/**
+ * How a monitor performs its HTTP check. Omitted fields fall back to a plain
+ * GET that expects a 2xx response within 10 seconds.
+ */
+export interface MonitorCheckConfig {
+  method: 'GET' | 'HEAD' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+  request_headers: Record<string, string>;
+  request_body: string | null;
+  /** Comma-separated codes, ranges or classes, e.g. "2xx,301,401" or "200-399". Null means 2xx. */
+  expected_status: string | null;
+  assertions: MonitorAssertion[];
+  timeout_ms: number;
+}
+
+/** Any value JSON can represent */
+export type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+export type MonitorAssertion =
+  | { type: 'body_contains'; value: string }
+  | { type: 'body_not_contains'; value: string }
+  /** Without `equals`, the path only has to exist. Objects and arrays are compared by value. */
+  | { type: 'json_path'; path: string; equals?: JsonValue }
+  /** Without `equals` or `contains`, the header only has to be present */
+  | { type: 'header'; name: string; equals?: string; contains?: string };
+
+/**
+ * One request in a transaction monitor. The URL, headers and body can use
+ * `{{name}}` to insert values extracted by earlier steps. Check settings that
+ * aren't set fall back to the same defaults as a plain monitor.
+ */
+export interface TransactionStep extends Partial<MonitorCheckConfig> {
+  name: string;
+  url: string;
+  extract?: StepExtraction[];
+}
+
+export type StepExtraction =
+  | { name: string; from: 'json_path'; path: string }
+  | { name: string; from: 'header'; header: string }
+  | { name: string; from: 'cookie'; cookie: string };
+
+export interface TransactionStepResult {
+  name: string;
+  method: MonitorCheckConfig['method'];
+  url: string;
+  success: boolean;
+  /** False for steps after a failure, which are not run */
+  ran: boolean;
+  responseTime: number;
+  statusCode?: number;
+  error?: string;
+  failedAssertions?: string[];
 }
 
 export type EventSource = 'monitor' | 'vercel' | 'stripe' | 'supabase' | 'github' | 'provider-status' | 'otel' | 'browser';
@@ -14,14 +75,30 @@ export interface Event {
   id: string;
   project_id: string;
   monitor_id?: string;
-  type: 'error' | 'slow' | 'down' | 'up' | 'trace_error' | 'slow_query';
+  type: 'error' | 'slow' | 'down' | 'up' | 'trace_error' | 'slow_query' | 'cert_expiring' | 'cert_invalid' | 'domain_expiring';
   source: EventSource;
   message: string;
   raw_data?: Record<string, unknown>;
   severity: 'low' | 'medium' | 'high' | 'critical';
+  /** Why the anomaly detector flagged this event, if it did */
+  anomaly_reason?: string;
+  /** Issue group for error events, see fingerprintEvent() */
+  fingerprint?: string;
+  /** Times it happened, when repeats were folded into one event (default 1) */
+  occurrences?: number;
   created_at: Date;
 }
 
+/**
+ * Per-project anomaly detection settings. Higher sensitivity flags smaller
+ * deviations from the baseline and needs less history before it starts.
+ */
+export interface AnomalySettings {
+  sensitivity: 'low' | 'medium' | 'high';
+  /** Names of detectors to skip for this project */
+  disabled_detectors: string[];
+}
+
 export interface EventStats {
   monitor_id: string;
   avg_response_time?: number;
@@ -58,6 +135,10 @@ export interface Incident {
   diagnosis_fix?: string;
   severity: 'critical' | 'warning' | 'info';
   fix_prompt?: string;
+  /** Who acknowledged the incident; acknowledging moves it to investigating */
+  acknowledged_by?: string;
+  acknowledged_at?: Date;
+  assignee?: string;
   created_at: Date;
   resolved_at?: Date;
 }
@@ -69,6 +150,34 @@ export interface DiagnosisResult {
   fix_prompt: string;
   bottleneck_span?: string;
   trace_id?: string;
+  /** Set by the provider that produced it; not kept when a diagnosis is cached */
+  usage?: DiagnosisUsage;
+}
+
+/** What it took to produce a diagnosis */
+export interface DiagnosisUsage {
+  provider: string;
+  model: string | null;
+  input_tokens: number;
+  output_tokens: number;
+  /** Estimated from list prices; null for models without a known price */
+  cost_usd: number | null;
+  /** Requests made, including retries after malformed output */
+  attempts: number;
+  duration_ms: number;
+}
+
+/**
+ * The deploy that was live when an incident started. Passed to diagnosis and
+ * notifications so regressions can be attributed to it.
+ */
+export interface DeploymentContext {
+  version: string;
+  environment?: string;
+  commit_sha?: string;
+  deployed_at: Date;
+  /** True when the incident's errors were never seen before this deploy */
+  first_seen_after_deploy: boolean;
 }
 
 export interface TraceSpan {
@@ -17,6 +17,7 @@ if (process.env["SCANWARP_DEBUG"] === "true") {
 const serverUrl =
   process.env["SCANWARP_SERVER"] ?? "http://localhost:3000";
 const projectId = process.env["SCANWARP_PROJECT_ID"];
+const apiKey = process.env["SCANWARP_API_KEY"];
 
 if (!projectId) {
   console.warn(
@@ -31,18 +32,20 @@ if (!projectId) {
     "scanwarp.project.id": projectId,
   });
 
+  // An ingest-scoped API key is only needed when the server sets AUTH_REQUIRED
+  const headers: Record<string, string> = {
+    "x-scanwarp-project-id": projectId,
+    ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+  };
+
   const traceExporter = new OTLPTraceExporter({
     url: `${serverUrl}/v1/traces`,
-    headers: {
-      "x-scanwarp-project-id": projectId,
-    },
+    headers,
   });
 
   const metricExporter = new OTLPMetricExporter({
     url: `${serverUrl}/v1/metrics`,
-    headers: {
-      "x-scanwarp-project-id": projectId,
-    },
+    headers,
   });
 
   const metricReader = new PeriodicExportingMetricReader({
@@ -107,9 +110,13 @@ function resolveServiceName(): string {
 }
 
 /**
- * Resolve the service version from the nearest package.json.
+ * Resolve the service version from env vars or the nearest package.json.
+ * The server records each new version it sees as a deployment.
  */
 function resolveServiceVersion(): string {
+  const fromEnv = process.env["SCANWARP_RELEASE"] ?? process.env["VERCEL_GIT_COMMIT_SHA"];
+  if (fromEnv) return fromEnv;
+
   const pkg = readPackageJson();
   return (pkg?.version as string) ?? "0.0.0";
 }
@@ -25,6 +25,27 @@ export interface SpanRow {
   events: Array<{ name: string; attributes?: Record<string, unknown> }>;
 }
 
+export interface IssueSummary {
+  id: string;
+  fingerprint: string;
+  title: string;
+  culprit: string | null;
+  type: string;
+  source: string;
+  severity: string;
+  count: number;
+  first_seen: string;
+  last_seen: string;
+}
+
+export interface IncidentTimelineEntry {
+  id: string;
+  kind: string;
+  actor: string | null;
+  message: string;
+  created_at: string;
+}
+
 export interface TraceSummary {
   trace_id: string;
   root_span: SpanRow;
@@ -45,6 +66,22 @@ export class ScanWarpAPI {
           }
         : {},
     });
+
+    // Turn auth failures into messages the AI assistant can act on
+    this.client.interceptors.response.use(undefined, (error) => {
+      const status = error.response?.status;
+      if (status === 401) {
+        throw new Error(
+          apiToken
+            ? 'ScanWarp rejected the API token. Check that it is valid and not revoked.'
+            : 'ScanWarp requires an API token. Pass --token or set SCANWARP_API_TOKEN.'
+        );
+      }
+      if (status === 403) {
+        throw new Error(`ScanWarp API token is not allowed to do this: ${error.response?.data?.error ?? 'forbidden'}`);
+      }
+      throw error;
+    });
   }
 
   async getMonitors(projectId: string): Promise<Monitor[]> {
@@ -74,6 +111,7 @@ export class ScanWarpAPI {
   async getIncident(incidentId: string): Promise<{
     incident: Incident;
     events: Event[];
+    timeline?: IncidentTimelineEntry[];
   }> {
     const response = await this.client.get(`/incidents/${incidentId}`);
     return response.data;
@@ -98,6 +136,23 @@ export class ScanWarpAPI {
     return response.data;
   }
 
+  async getIssues(options: {
+    projectId: string;
+    source?: string;
+    sort?: 'last_seen' | 'first_seen' | 'count';
+    limit?: number;
+  }): Promise<IssueSummary[]> {
+    const response = await this.client.get('/issues', {
+      params: {
+        project_id: options.projectId,
+        source: options.source,
+        sort: options.sort,
+        limit: options.limit,
+      },
+    });
+    return response.data.issues || [];
+  }
+
   async resolveIncident(incidentId: string): Promise<void> {
     await this.client.post(`/incidents/${incidentId}/resolve`);
   }
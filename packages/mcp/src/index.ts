@@ -14,6 +14,7 @@ import {
   getIncidents,
   getIncidentDetail,
   getEvents,
+  getIssues,
   resolveIncident,
   getFixPrompt,
   getRecentTraces,
@@ -166,6 +167,34 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['project_id'],
         },
       },
+      {
+        name: 'get_issues',
+        description:
+          'Get error issues: recurring errors grouped by stack trace or message, with how often and since when they occur. Useful for finding the most frequent or newest errors.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project_id: {
+              type: 'string',
+              description: 'Project ID',
+            },
+            source: {
+              type: 'string',
+              description: 'Filter by source (monitor, vercel, otel, browser, stripe, ...)',
+            },
+            sort: {
+              type: 'string',
+              enum: ['last_seen', 'first_seen', 'count'],
+              description: 'Sort order (default: last_seen)',
+            },
+            limit: {
+              type: 'number',
+              description: 'Maximum number of issues to return (default: 20)',
+            },
+          },
+          required: ['project_id'],
+        },
+      },
       {
         name: 'resolve_incident',
         description:
@@ -312,6 +341,19 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'get_issues': {
+        const { project_id, source, sort, limit } = args as {
+          project_id: string;
+          source?: string;
+          sort?: 'last_seen' | 'first_seen' | 'count';
+          limit?: number;
+        };
+        const result = await getIssues(api, project_id, { source, sort, limit });
+        return {
+          content: [{ type: 'text', text: result }],
+        };
+      }
+
       case 'resolve_incident': {
         const { incident_id } = args as { incident_id: string };
         const result = await resolveIncident(api, incident_id);